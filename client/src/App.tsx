@@ -1,46 +1,172 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { socketService } from './services/socket';
 import { CodeEditor } from './components/CodeEditor';
 import { Chat } from './components/Chat';
 import { UserList } from './components/UserList';
 import { RoomSelector } from './components/RoomSelector';
+import { HistoryPanel } from './components/HistoryPanel';
+import { FileExplorer } from './components/FileExplorer';
+import { OutputPanel } from './components/OutputPanel';
+import { TerminalPanel } from './components/TerminalPanel';
+import { CommentsPanel } from './components/CommentsPanel';
+import { ReplayViewer } from './components/ReplayViewer';
+import { readRecordingFile } from './services/replay';
+import { presenceTracker } from './services/presence';
+import { mentionsName } from './services/markdown';
 import {
   User,
-  Room,
+  JoinedRoom,
+  JoinError,
+  RoomAccess,
+  FileNode,
   ChatMessage,
-  CursorPosition
+  CursorPosition,
+  AssistantContext,
+  ProposedEdit,
+  CodeRun,
+  CommentThread,
+  CodeReference,
+  Recording
 } from './types';
-import { LogOut, MessageCircle, Users, Settings } from 'lucide-react';
+import { LogOut, MessageCircle, MessageSquare, Users, History, Film, TerminalSquare, Terminal, Settings } from 'lucide-react';
+
+// Runs kept in the output panel; the server sends its most recent ones on join
+const MAX_RUNS = 20;
+
+// How long a notice about a throttled or oversized request stays up
+const LIMIT_NOTICE_MS = 4000;
+
+// Rooms can be opened directly at /room/:roomId, optionally with
+// ?invite=<token> from an invite link
+interface RoomLink {
+  roomId: string;
+  inviteToken?: string;
+}
+
+const parseRoomLink = (): RoomLink | null => {
+  const match = window.location.pathname.match(/^\/room\/([^/]+)\/?$/);
+  if (!match) return null;
+
+  return {
+    roomId: decodeURIComponent(match[1]),
+    inviteToken: new URLSearchParams(window.location.search).get('invite') || undefined
+  };
+};
 
 function App() {
   // Application state
   const [isConnected, setIsConnected] = useState(false);
-  const [currentRoom, setCurrentRoom] = useState<Room | null>(null);
+  const [currentRoom, setCurrentRoom] = useState<JoinedRoom | null>(null);
+  const [roomAccess, setRoomAccess] = useState<RoomAccess | null>(null);
+  const [joinError, setJoinError] = useState<JoinError | null>(null);
+  const [roomLink] = useState(parseRoomLink);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [users, setUsers] = useState<User[]>([]);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  // Whether the server has chat messages from before the first one we have
+  const [hasOlderChat, setHasOlderChat] = useState(false);
+  // Messages mentioning us that arrived while the chat was hidden
+  const [unreadMentions, setUnreadMentions] = useState(0);
+  // What the chat listener, registered once, needs to spot those
+  const chatStateRef = useRef({ isVisible: true, userName: '' });
+  // Lines to show once their file is open, from code shared in chat
+  const [linesToReveal, setLinesToReveal] = useState<CodeReference | null>(null);
   const [userCursors, setUserCursors] = useState<CursorPosition[]>([]);
+  const [files, setFiles] = useState<FileNode[]>([]);
+  const [activeFileId, setActiveFileId] = useState<string | null>(null);
+  const [openFileIds, setOpenFileIds] = useState<string[]>([]);
   const [documentContent, setDocumentContent] = useState('');
-  const [documentLanguage, setDocumentLanguage] = useState('javascript');
+  const [proposedEdit, setProposedEdit] = useState<ProposedEdit | null>(null);
+  const [runs, setRuns] = useState<CodeRun[]>([]);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [programInput, setProgramInput] = useState('');
+  const [commentThreads, setCommentThreads] = useState<CommentThread[]>([]);
+  const [focusedThreadId, setFocusedThreadId] = useState<string | null>(null);
+  // Whose view we mirror, and who the owner asked everyone to follow
+  const [followedUserId, setFollowedUserId] = useState<string | null>(null);
+  const [presenterId, setPresenterId] = useState<string | null>(null);
+  const previousPresenterRef = useRef<string | null>(null);
+  // Requests the server turned away for going over its limits; shown
+  // briefly rather than interrupting with an alert
+  const [limitNotice, setLimitNotice] = useState<string | null>(null);
   
   // UI state
   const [isChatMinimized, setIsChatMinimized] = useState(false);
   const [showChat, setShowChat] = useState(true);
   const [showUserList, setShowUserList] = useState(true);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showOutput, setShowOutput] = useState(false);
+  const [showTerminal, setShowTerminal] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  // Edit history being replayed, from this room or a file opened earlier
+  const [recording, setRecording] = useState<Recording | null>(null);
+
+  // Forget everything about the room we were in
+  const resetRoomState = useCallback(() => {
+    setCurrentRoom(null);
+    setCurrentUser(null);
+    setRoomAccess(null);
+    setUsers([]);
+    setChatMessages([]);
+    setHasOlderChat(false);
+    setUnreadMentions(0);
+    setLinesToReveal(null);
+    setUserCursors([]);
+    setFiles([]);
+    setActiveFileId(null);
+    setOpenFileIds([]);
+    setDocumentContent('');
+    setProposedEdit(null);
+    setRuns([]);
+    setRunError(null);
+    setCommentThreads([]);
+    setFocusedThreadId(null);
+    setFollowedUserId(null);
+    setPresenterId(null);
+    window.history.replaceState(null, '', '/');
+  }, []);
 
   // Socket event handlers
   const setupSocketListeners = useCallback(() => {
     // Connection events
-    socketService.onRoomJoined((room: Room) => {
+    socketService.onRoomJoined((room: JoinedRoom) => {
       console.log('Joined room:', room);
       setCurrentRoom(room);
+      setJoinError(null);
+      // Make the address shareable; the invite has been used up by now
+      window.history.replaceState(null, '', `/room/${encodeURIComponent(room.id)}`);
+      setRoomAccess(prev => ({ ...room.access, inviteToken: prev?.inviteToken }));
       setUsers(room.users);
-      setDocumentContent(room.document.content);
-      setDocumentLanguage(room.document.language);
+      // Recent chat; earlier messages are loaded on request
+      setChatMessages(room.chatHistory.messages);
+      setHasOlderChat(room.chatHistory.hasMore);
+      // Show where everyone already is; this also drops anyone who left
+      // while we were away after a rejoin
+      const currentSocketId = socketService.getSocketId();
+      setUserCursors(room.users
+        .filter(u => u.id !== currentSocketId && u.cursor.fileId !== null)
+        .map(u => ({ userId: u.id, userName: u.name, color: u.color, cursor: u.cursor })));
+      setFiles(room.files);
+      setRuns(room.runs || []);
+      setCommentThreads(room.comments || []);
+      setPresenterId(room.presenterId ?? null);
+      presenceTracker.resync();
+
+      // Keep the open tabs across a rejoin; otherwise open the first file
+      const fileIds = new Set(room.files.map(f => f.id));
+      setOpenFileIds(prev => {
+        const stillOpen = prev.filter(id => fileIds.has(id));
+        if (stillOpen.length > 0) return stillOpen;
+        const first = room.files.find(f => f.type === 'file');
+        return first ? [first.id] : [];
+      });
+      setActiveFileId(prev => {
+        if (prev && fileIds.has(prev)) return prev;
+        return room.files.find(f => f.type === 'file')?.id ?? null;
+      });
       
       // Find current user
-      const currentSocketId = socketService.getSocketId();
       const user = room.users.find(u => u.id === currentSocketId);
       if (user) {
         setCurrentUser(user);
@@ -56,11 +182,64 @@ function App() {
       console.log('User left:', user.name);
       setUsers(prev => prev.filter(u => u.id !== user.id));
       setUserCursors(prev => prev.filter(cursor => cursor.userId !== user.id));
+      setFollowedUserId(prev => prev === user.id ? null : prev);
+    });
+
+    // Access control events
+    socketService.onJoinError((error: JoinError) => {
+      setJoinError(error);
+    });
+
+    socketService.onUserUpdated((user: User) => {
+      setUsers(prev => prev.map(u => u.id === user.id ? user : u));
+      setCurrentUser(prev => prev && prev.id === user.id ? user : prev);
+    });
+
+    socketService.onRoomAccess((access: RoomAccess) => {
+      setRoomAccess(prev => ({ ...access, inviteToken: access.inviteToken ?? prev?.inviteToken }));
+    });
+
+    socketService.onPermissionDenied(({ message }) => {
+      window.alert(message);
+    });
+
+    // Being out of the room only lasts until the automatic rejoin
+    socketService.onEventError(({ event, code, message }) => {
+      console.error(`The server could not handle ${event} (${code}): ${message}`);
+      if (code === 'rate-limited' || code === 'too-large') {
+        setLimitNotice(message);
+      } else if (code !== 'not-in-room') {
+        window.alert(message);
+      }
+    });
+
+    socketService.onKicked(({ by }) => {
+      window.alert(`You were removed from the room by ${by}`);
+      resetRoomState();
     });
 
     // Chat events
     socketService.onChatMessage((message: ChatMessage) => {
       setChatMessages(prev => [...prev, message]);
+      const { isVisible, userName } = chatStateRef.current;
+      if (!isVisible && message.userId !== socketService.getSocketId() && mentionsName(message.content, userName)) {
+        setUnreadMentions(count => count + 1);
+      }
+    });
+
+    // Earlier messages go above the ones we have
+    socketService.onChatHistory(({ messages, hasMore }) => {
+      setChatMessages(prev => [...messages.filter(m => !prev.some(p => p.id === m.id)), ...prev]);
+      setHasOlderChat(hasMore);
+    });
+
+    // Assistant replies arrive piece by piece, then once more when finished
+    socketService.onChatMessageChunk(({ id, text }) => {
+      setChatMessages(prev => prev.map(m => m.id === id ? { ...m, content: m.content + text } : m));
+    });
+
+    socketService.onChatMessageUpdate((message: ChatMessage) => {
+      setChatMessages(prev => prev.map(m => m.id === message.id ? message : m));
     });
 
     // Cursor position events
@@ -69,9 +248,87 @@ function App() {
         const filtered = prev.filter(cursor => cursor.userId !== position.userId);
         return [...filtered, position];
       });
+      setUsers(prev => prev.map(u => u.id === position.userId ? { ...u, cursor: position.cursor } : u));
     });
 
-  }, []);
+    socketService.onPresenceUpdate(({ userId, presence }) => {
+      setUsers(prev => prev.map(u => u.id === userId ? { ...u, presence } : u));
+    });
+
+    socketService.onPresenterUpdate(({ presenterId }) => {
+      setPresenterId(presenterId);
+    });
+
+    // File tree events
+    socketService.onFileCreated((file: FileNode) => {
+      setFiles(prev => [...prev.filter(f => f.id !== file.id), file]);
+    });
+
+    socketService.onFileUpdated((file: FileNode) => {
+      setFiles(prev => prev.map(f => f.id === file.id ? { ...f, ...file } : f));
+    });
+
+    socketService.onFileDeleted(({ fileIds }) => {
+      const deleted = new Set(fileIds);
+      setFiles(prev => prev.filter(f => !deleted.has(f.id)));
+      setOpenFileIds(prev => prev.filter(id => !deleted.has(id)));
+      setCommentThreads(prev => prev.filter(t => !deleted.has(t.fileId)));
+    });
+
+    socketService.onFileError(({ message }) => {
+      window.alert(message);
+    });
+
+    // Review threads arrive whole whenever one is started or changes
+    socketService.onCommentThread((thread: CommentThread) => {
+      setCommentThreads(prev => prev.some(t => t.id === thread.id)
+        ? prev.map(t => t.id === thread.id ? thread : t)
+        : [...prev, thread]);
+    });
+
+    socketService.onCommentError(({ message }) => {
+      window.alert(message);
+    });
+
+    socketService.onLanguageChange(({ fileId, language }) => {
+      setFiles(prev => prev.map(f => f.id === fileId ? { ...f, language } : f));
+    });
+
+    // Code runs are shown to everyone; the panel opens when one is started
+    socketService.onRunUpdate((run: CodeRun) => {
+      setRuns(prev => {
+        const existing = prev.find(r => r.id === run.id);
+        if (existing) {
+          return prev.map(r => r.id === run.id ? { ...run, output: r.output } : r);
+        }
+        return [...prev, { ...run, output: [] }].slice(-MAX_RUNS);
+      });
+      if (run.status === 'queued') {
+        setRunError(null);
+        setShowOutput(true);
+      }
+    });
+
+    socketService.onRunOutput(({ runId, stream, text }) => {
+      setRuns(prev => prev.map((r) => {
+        if (r.id !== runId) return r;
+        const output = r.output || [];
+        const last = output[output.length - 1];
+        return {
+          ...r,
+          output: last && last.stream === stream
+            ? [...output.slice(0, -1), { stream, text: last.text + text }]
+            : [...output, { stream, text }]
+        };
+      }));
+    });
+
+    socketService.onRunError(({ message }) => {
+      setRunError(message);
+      setShowOutput(true);
+    });
+
+  }, [resetRoomState]);
 
   // Initialize socket connection
   useEffect(() => {
@@ -95,28 +352,44 @@ function App() {
     };
   }, [setupSocketListeners]);
 
-  // Handle room joining
-  const handleJoinRoom = useCallback((roomId: string, userName: string) => {
+  // Handle room joining. The optional access code is whatever the user was
+  // given to get in, either the room password or an invite token; an invite
+  // link for this room takes precedence over the latter.
+  const handleJoinRoom = useCallback((roomId: string, userName: string, accessCode?: string) => {
     if (socketService.isConnected()) {
-      socketService.joinRoom({ roomId, userName });
+      const linkInvite = roomLink?.roomId === roomId ? roomLink.inviteToken : undefined;
+      setJoinError(null);
+      socketService.joinRoom({
+        roomId,
+        userName,
+        password: accessCode || undefined,
+        inviteToken: linkInvite || accessCode || undefined
+      });
     } else {
       console.error('Not connected to server');
     }
-  }, []);
+  }, [roomLink]);
 
   // Handle room creation
-  const handleCreateRoom = useCallback(async (roomName: string, userName: string) => {
+  const handleCreateRoom = useCallback(async (
+    roomName: string,
+    userName: string,
+    options: { password?: string; inviteOnly?: boolean } = {}
+  ) => {
     try {
       const response = await fetch('/api/rooms', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ name: roomName }),
+        body: JSON.stringify({ name: roomName, ...options }),
       });
 
       if (response.ok) {
-        const { roomId } = await response.json();
+        const { roomId, ownerToken, inviteToken } = await response.json();
+        // The creator owns the room; joining with this token proves it
+        socketService.rememberMemberToken(roomId, ownerToken);
+        setRoomAccess({ hasPassword: Boolean(options.password), inviteOnly: Boolean(options.inviteOnly), inviteToken });
         handleJoinRoom(roomId, userName);
       } else {
         console.error('Failed to create room');
@@ -131,38 +404,188 @@ function App() {
   // Handle leaving room
   const handleLeaveRoom = useCallback(() => {
     socketService.disconnect();
-    setCurrentRoom(null);
-    setCurrentUser(null);
-    setUsers([]);
-    setChatMessages([]);
-    setUserCursors([]);
-    setDocumentContent('');
-    setDocumentLanguage('javascript');
+    resetRoomState();
     setIsConnected(false);
 
     // Reconnect for new session
     setTimeout(() => {
       socketService.connect();
     }, 1000);
-  }, []);
+  }, [resetRoomState]);
 
   // Handle content changes
   const handleContentChange = useCallback((content: string) => {
     setDocumentContent(content);
   }, []);
 
-  // Handle language changes
+  // Handle language changes for the active file
   const handleLanguageChange = useCallback((language: string) => {
-    setDocumentLanguage(language);
+    if (!activeFileId) return;
+
+    setFiles(prev => prev.map(f => f.id === activeFileId ? { ...f, language } : f));
+    if (socketService.isConnected()) {
+      socketService.sendLanguageChange(activeFileId, language);
+    }
+  }, [activeFileId]);
+
+  const handleOpenFile = useCallback((fileId: string) => {
+    setOpenFileIds(prev => prev.includes(fileId) ? prev : [...prev, fileId]);
+    setActiveFileId(fileId);
+  }, []);
+
+  // Preview an assistant suggestion against the file it was asked about
+  const handleApplyCode = useCallback((context: AssistantContext, code: string) => {
+    handleOpenFile(context.fileId);
+    setProposedEdit({ context, code });
+  }, [handleOpenFile]);
+
+  const handleOpenThread = useCallback((thread: CommentThread) => {
+    handleOpenFile(thread.fileId);
+    setFocusedThreadId(thread.id);
+  }, [handleOpenFile]);
+
+  const handleOpenReplay = useCallback(async () => {
+    if (!currentRoom) return;
+
+    try {
+      const response = await fetch(
+        `/api/rooms/${encodeURIComponent(currentRoom.id)}/recording`,
+        { headers: { 'X-Member-Token': currentRoom.memberToken } }
+      );
+      if (response.ok) {
+        setRecording(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to load the room recording:', error);
+    }
+  }, [currentRoom]);
+
+  const handleOpenRecordingFile = useCallback(async (file: File) => {
+    try {
+      setRecording(await readRecordingFile(file));
+    } catch (error) {
+      window.alert((error as Error).message);
+    }
   }, []);
 
+  const handleRun = useCallback((fileId: string) => {
+    socketService.runCode({ fileId, stdin: programInput || undefined });
+  }, [programInput]);
+
+  // Picking a file ourselves means we no longer follow anyone
+  const handlePickFile = useCallback((fileId: string) => {
+    setFollowedUserId(null);
+    handleOpenFile(fileId);
+  }, [handleOpenFile]);
+
+  const handleStopFollowing = useCallback(() => setFollowedUserId(null), []);
+
+  // Follow whoever presents, and stop once they are done
+  useEffect(() => {
+    const previous = previousPresenterRef.current;
+    previousPresenterRef.current = presenterId;
+    if (presenterId && presenterId !== socketService.getSocketId()) {
+      setFollowedUserId(presenterId);
+    } else if (!presenterId && previous) {
+      setFollowedUserId(prev => prev === previous ? null : prev);
+    }
+  }, [presenterId]);
+
+  // Go where the followed user goes
+  const followedFileId = userCursors.find(p => p.userId === followedUserId)?.cursor.fileId;
+  useEffect(() => {
+    if (followedFileId) handleOpenFile(followedFileId);
+  }, [followedFileId, handleOpenFile]);
+
+  // Report whether we are here and typing for as long as we are in a room
+  const roomId = currentRoom?.id;
+  useEffect(() => {
+    if (!roomId) return;
+    presenceTracker.start(presence => socketService.updatePresence(presence));
+    return () => presenceTracker.stop();
+  }, [roomId]);
+
+  useEffect(() => {
+    if (!limitNotice) return;
+    const timer = setTimeout(() => setLimitNotice(null), LIMIT_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [limitNotice]);
+
+  const userPresence = useMemo(() => new Map(users.map(u => [u.id, u.presence])), [users]);
+  const typingInChat = useMemo(
+    () => users.filter(u => u.id !== currentUser?.id && u.presence.typing === 'chat'),
+    [users, currentUser]
+  );
+
+  const isChatVisible = showChat && !isChatMinimized;
+  useEffect(() => {
+    chatStateRef.current = { isVisible: isChatVisible, userName: currentUser?.name ?? '' };
+    if (isChatVisible) setUnreadMentions(0);
+  }, [isChatVisible, currentUser]);
+
+  const memberNames = useMemo(() => users.map(u => u.name), [users]);
+
+  // Post code from the editor and open the chat to show it
+  const handleShareToChat = useCallback((message: string, reference: CodeReference) => {
+    socketService.sendChatMessage(message, reference);
+    setShowChat(true);
+    setIsChatMinimized(false);
+  }, []);
+
+  const handleOpenReference = useCallback((reference: CodeReference) => {
+    if (!files.some(f => f.id === reference.fileId)) {
+      window.alert(`${reference.fileName} no longer exists`);
+      return;
+    }
+    handlePickFile(reference.fileId);
+    setLinesToReveal(reference);
+  }, [files, handlePickFile]);
+
+  const handleLinesRevealed = useCallback(() => setLinesToReveal(null), []);
+
+  // Closing the active tab activates its neighbour
+  const handleCloseFile = useCallback((fileId: string) => {
+    const index = openFileIds.indexOf(fileId);
+    const remaining = openFileIds.filter(id => id !== fileId);
+    setOpenFileIds(remaining);
+    if (fileId === activeFileId) {
+      setActiveFileId(remaining[Math.min(index, remaining.length - 1)] ?? null);
+    }
+  }, [openFileIds, activeFileId]);
+
+  // The active file may have been deleted by someone else
+  useEffect(() => {
+    if (activeFileId && !openFileIds.includes(activeFileId)) {
+      setActiveFileId(openFileIds[0] ?? null);
+    }
+  }, [activeFileId, openFileIds]);
+
+  const activeFile = files.find(f => f.id === activeFileId) || null;
+  // Viewers get a read-only workspace; the server enforces the same rule
+  const canEdit = currentUser?.role === 'owner' || currentUser?.role === 'editor';
+
+  const replayViewer = recording && (
+    <ReplayViewer
+      recording={recording}
+      onLoad={setRecording}
+      onClose={() => setRecording(null)}
+    />
+  );
+
   // Show room selector if not in a room
   if (!currentRoom) {
     return (
-      <RoomSelector
-        onJoinRoom={handleJoinRoom}
-        onCreateRoom={handleCreateRoom}
-      />
+      <>
+        <RoomSelector
+          onJoinRoom={handleJoinRoom}
+          onCreateRoom={handleCreateRoom}
+          onOpenRecording={handleOpenRecordingFile}
+          joinError={joinError}
+          initialRoomId={roomLink?.roomId}
+          isInvited={Boolean(roomLink?.inviteToken)}
+        />
+        {replayViewer}
+      </>
     );
   }
 
@@ -189,7 +612,7 @@ function App() {
         <div className="flex items-center space-x-2">
           <button
             onClick={() => setShowChat(!showChat)}
-            className={`p-2 rounded-lg transition-colors ${
+            className={`relative p-2 rounded-lg transition-colors ${
               showChat 
                 ? 'bg-primary-100 text-primary-600' 
                 : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
@@ -197,6 +620,11 @@ function App() {
             title="Toggle Chat"
           >
             <MessageCircle size={20} />
+            {unreadMentions > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 bg-red-500 text-white text-xs leading-4 rounded-full">
+                {unreadMentions}
+              </span>
+            )}
           </button>
 
           <button
@@ -211,6 +639,64 @@ function App() {
             <Users size={20} />
           </button>
 
+          <button
+            onClick={() => setShowComments(!showComments)}
+            className={`p-2 rounded-lg transition-colors ${
+              showComments 
+                ? 'bg-primary-100 text-primary-600' 
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+            title="Toggle Comments"
+          >
+            <MessageSquare size={20} />
+          </button>
+
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={`p-2 rounded-lg transition-colors ${
+              showHistory 
+                ? 'bg-primary-100 text-primary-600' 
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+            title="Toggle History"
+          >
+            <History size={20} />
+          </button>
+
+          <button
+            onClick={handleOpenReplay}
+            className="p-2 rounded-lg transition-colors bg-gray-100 text-gray-600 hover:bg-gray-200"
+            title="Replay the room's edits"
+          >
+            <Film size={20} />
+          </button>
+
+          <button
+            onClick={() => setShowOutput(!showOutput)}
+            className={`p-2 rounded-lg transition-colors ${
+              showOutput 
+                ? 'bg-primary-100 text-primary-600' 
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+            title="Toggle Output"
+          >
+            <TerminalSquare size={20} />
+          </button>
+
+          {currentRoom.terminalEnabled && (
+            <button
+              onClick={() => setShowTerminal(!showTerminal)}
+              className={`p-2 rounded-lg transition-colors ${
+                showTerminal 
+                  ? 'bg-primary-100 text-primary-600' 
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+              title="Toggle Terminal"
+            >
+              <Terminal size={20} />
+            </button>
+          )}
+
           <div className="w-px h-6 bg-gray-300" />
 
           <button
@@ -226,23 +712,98 @@ function App() {
 
       {/* Main content area */}
       <div className="flex-1 flex overflow-hidden">
+        {/* File explorer */}
+        <FileExplorer
+          files={files}
+          activeFileId={activeFileId}
+          isConnected={isConnected}
+          readOnly={!canEdit}
+          onOpenFile={handlePickFile}
+        />
+
         {/* Code editor */}
         <div className="flex-1 flex flex-col">
           <CodeEditor
-            initialContent={documentContent}
-            language={documentLanguage}
+            files={files}
+            activeFileId={activeFileId}
+            openFileIds={openFileIds}
+            onSelectFile={handlePickFile}
+            onCloseFile={handleCloseFile}
             onLanguageChange={handleLanguageChange}
             onContentChange={handleContentChange}
             userCursors={userCursors}
             isConnected={isConnected}
+            readOnly={!canEdit}
+            proposedEdit={proposedEdit}
+            onProposalClosed={() => setProposedEdit(null)}
+            onRun={handleRun}
+            commentThreads={commentThreads}
+            focusedThreadId={focusedThreadId}
+            onFocusThread={setFocusedThreadId}
+            canComment={Boolean(currentUser)}
+            followedUser={users.find(u => u.id === followedUserId) || null}
+            onStopFollowing={handleStopFollowing}
+            presence={userPresence}
+            onShareToChat={handleShareToChat}
+            linesToReveal={linesToReveal}
+            onLinesRevealed={handleLinesRevealed}
           />
+          {showOutput && (
+            <OutputPanel
+              runs={runs}
+              currentUserId={currentUser?.id}
+              isOwner={currentUser?.role === 'owner'}
+              isConnected={isConnected}
+              programInput={programInput}
+              onProgramInputChange={setProgramInput}
+              error={runError}
+              onClose={() => setShowOutput(false)}
+            />
+          )}
+          {showTerminal && currentRoom.terminalEnabled && (
+            <TerminalPanel
+              key={currentRoom.id}
+              canType={canEdit}
+              isConnected={isConnected}
+              onClose={() => setShowTerminal(false)}
+            />
+          )}
         </div>
 
         {/* User list sidebar */}
         {showUserList && (
           <UserList
+            roomId={currentRoom.id}
             users={users}
+            files={files}
             currentUserId={currentUser?.id}
+            currentUserRole={currentUser?.role}
+            access={roomAccess}
+            isConnected={isConnected}
+            followedUserId={followedUserId}
+            onFollow={setFollowedUserId}
+            presenterId={presenterId}
+          />
+        )}
+
+        {/* Review comments sidebar */}
+        {showComments && (
+          <CommentsPanel
+            threads={commentThreads}
+            files={files}
+            focusedThreadId={focusedThreadId}
+            onOpenThread={handleOpenThread}
+          />
+        )}
+
+        {/* Version history sidebar */}
+        {showHistory && (
+          <HistoryPanel
+            roomId={currentRoom.id}
+            file={activeFile}
+            currentContent={documentContent}
+            memberToken={currentRoom.memberToken}
+            canEdit={canEdit}
             isConnected={isConnected}
           />
         )}
@@ -253,20 +814,39 @@ function App() {
         <Chat
           messages={chatMessages}
           isConnected={isConnected}
+          canApply={canEdit}
+          onApplyCode={handleApplyCode}
           isMinimized={isChatMinimized}
           onToggleMinimized={() => setIsChatMinimized(!isChatMinimized)}
           onClose={() => setShowChat(false)}
+          typingUsers={typingInChat}
+          hasOlderMessages={hasOlderChat}
+          memberNames={memberNames}
+          currentUserName={currentUser?.name ?? ''}
+          unreadMentions={unreadMentions}
+          onOpenReference={handleOpenReference}
+          maxMessageLength={currentRoom.limits.maxChatMessageChars}
         />
       )}
 
-      {/* Connection status overlay */}
+      {replayViewer}
+
+      {limitNotice && isConnected && (
+        <div className="fixed top-16 left-1/2 transform -translate-x-1/2 z-50">
+          <div className="bg-amber-50 rounded-lg px-4 py-2 shadow-xl border border-amber-200 text-amber-900 text-sm font-medium">
+            {limitNotice}
+          </div>
+        </div>
+      )}
+
+      {/* Connection status banner; editing stays possible and is synced on reconnect */}
       {!isConnected && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 shadow-xl">
+        <div className="fixed top-16 left-1/2 transform -translate-x-1/2 z-50">
+          <div className="bg-white rounded-lg px-4 py-2 shadow-xl border border-gray-200">
             <div className="flex items-center space-x-3">
-              <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary-500 border-t-transparent" />
-              <span className="text-gray-900 font-medium">
-                Reconnecting to server...
+              <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-500 border-t-transparent" />
+              <span className="text-gray-900 text-sm font-medium">
+                Reconnecting to server... your edits will sync once you're back online
               </span>
             </div>
           </div>
@@ -0,0 +1,96 @@
+import React from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { Check, X } from 'lucide-react';
+import { ProposedEdit } from '../types';
+
+interface ApplySuggestionDialogProps {
+  edit: ProposedEdit;
+  // Live content of the file the suggestion is for
+  content: string;
+  language?: string;
+  canApply: boolean;
+  onApply: (content: string) => void;
+  onClose: () => void;
+}
+
+// Work out what the file would look like with the suggestion applied. The
+// selection it replaces may have moved since the question was asked, so use
+// the copy of the selected text closest to where it used to be. Returns null
+// when that text is no longer in the file.
+const applyToContent = (content: string, { context, code }: ProposedEdit): string | null => {
+  const { selection } = context;
+  if (!selection) return code;
+
+  let best = -1;
+  for (let i = content.indexOf(selection.text); i !== -1; i = content.indexOf(selection.text, i + 1)) {
+    if (best === -1 || Math.abs(i - selection.start) < Math.abs(best - selection.start)) {
+      best = i;
+    }
+    if (selection.text === '') break;
+  }
+  if (best === -1) return null;
+
+  return content.slice(0, best) + code + content.slice(best + selection.text.length);
+};
+
+// Side-by-side preview of an assistant suggestion before it is applied
+export const ApplySuggestionDialog: React.FC<ApplySuggestionDialogProps> = ({
+  edit,
+  content,
+  language,
+  canApply,
+  onApply,
+  onClose
+}) => {
+  const proposed = applyToContent(content, edit);
+  const target = edit.context.selection ? 'the selected code' : 'the whole file';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-8">
+      <div className="bg-white rounded-lg shadow-xl w-full h-full flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
+          <div>
+            <h3 className="font-semibold text-gray-800">Apply suggestion to {edit.context.fileName}</h3>
+            <p className="text-xs text-gray-500">
+              {proposed === null
+                ? 'The selected code has changed since the question was asked'
+                : `Current file (left) and the file with ${target} replaced (right)`}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => proposed !== null && onApply(proposed)}
+              disabled={proposed === null || !canApply}
+              className="flex items-center space-x-1 px-3 py-1 bg-primary-500 text-white rounded-md hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              <Check size={14} />
+              <span>Apply</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 text-gray-500 hover:text-gray-700 rounded"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+        <div className="flex-1">
+          <DiffEditor
+            height="100%"
+            original={content}
+            modified={proposed ?? content}
+            originalLanguage={language}
+            modifiedLanguage={language}
+            theme="vs-dark"
+            options={{
+              readOnly: true,
+              renderSideBySide: true,
+              automaticLayout: true,
+              minimap: { enabled: false }
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,35 +1,176 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, MessageCircle, X, Minimize2 } from 'lucide-react';
+import { Send, MessageCircle, X, Minimize2, Bot, FileInput, Search, FileCode } from 'lucide-react';
 import { socketService } from '../services/socket';
-import { ChatMessage } from '../types';
+import { presenceTracker } from '../services/presence';
+import { renderMarkdown, mentionsName } from '../services/markdown';
+import { ChatCodeBlock } from './ChatCodeBlock';
+import { ChatMessage, ChatSearchResults, ChatError, AssistantContext, CodeReference, User } from '../types';
 
 interface ChatProps {
   messages: ChatMessage[];
   isConnected: boolean;
+  // Whether assistant code may be applied to the files
+  canApply: boolean;
+  onApplyCode: (context: AssistantContext, code: string) => void;
   isMinimized: boolean;
   onToggleMinimized: () => void;
   onClose: () => void;
+  // Other people typing a message right now
+  typingUsers: User[];
+  // Whether the server has messages from before the first one we have
+  hasOlderMessages: boolean;
+  // Names that can be @mentioned, and our own
+  memberNames: string[];
+  currentUserName: string;
+  // Messages mentioning us that arrived while the chat was out of sight
+  unreadMentions: number;
+  // Jump to the lines a message shared
+  onOpenReference: (reference: CodeReference) => void;
+  // The server's limit on message length
+  maxMessageLength: number;
 }
 
+// Searching waits for typing to pause
+const SEARCH_DELAY_MS = 300;
+// How long a message found by search stays highlighted
+const HIGHLIGHT_MS = 2000;
+
+interface MessagePart {
+  text: string;
+  // Set for fenced code blocks, with the language named after the fence
+  code?: string;
+  language?: string;
+}
+
+const describeTyping = (users: User[]): string => {
+  if (users.length === 1) return `${users[0].name} is typing…`;
+  if (users.length === 2) return `${users[0].name} and ${users[1].name} are typing…`;
+  return `${users.length} people are typing…`;
+};
+
+// Split a message into Markdown text and ``` fenced code blocks
+const splitCodeBlocks = (content: string): MessagePart[] => {
+  const parts: MessagePart[] = [];
+  const fence = /```([^\n`]*)\n([\s\S]*?)(?:```|$)/g;
+  let last = 0;
+  for (let match = fence.exec(content); match; match = fence.exec(content)) {
+    const text = content.slice(last, match.index).trim();
+    if (text) parts.push({ text });
+    parts.push({ text: match[0], code: match[2].replace(/\n$/, ''), language: match[1].trim() });
+    last = fence.lastIndex;
+  }
+  const rest = content.slice(last).trim();
+  if (rest) parts.push({ text: rest });
+  return parts;
+};
+
 export const Chat: React.FC<ChatProps> = ({
   messages,
   isConnected,
+  canApply,
+  onApplyCode,
   isMinimized,
   onToggleMinimized,
-  onClose
+  onClose,
+  typingUsers,
+  hasOlderMessages,
+  memberNames,
+  currentUserName,
+  unreadMentions,
+  onOpenReference,
+  maxMessageLength
 }) => {
   const [newMessage, setNewMessage] = useState('');
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ChatMessage[] | null>(null);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const queryRef = useRef('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const inputRef = useRef<HTMLInputElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Auto-scroll to bottom when new messages arrive (or the newest one grows),
+  // but not when earlier ones are loaded above
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  const lastMessage = messages[messages.length - 1];
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [lastMessage]);
+
+  // A page of earlier messages has arrived
+  const firstMessageId = messages[0]?.id;
+  useEffect(() => {
+    setIsLoadingOlder(false);
+  }, [firstMessageId]);
+
+  useEffect(() => {
+    const handleResults = (found: ChatSearchResults) => {
+      if (found.query === queryRef.current) setResults(found.messages);
+    };
+    const handleError = ({ message }: ChatError) => {
+      setChatError(message);
+      setIsLoadingOlder(false);
+    };
+
+    socketService.onChatSearchResults(handleResults);
+    socketService.onChatError(handleError);
+
+    return () => {
+      socketService.removeListener('chat-search-results');
+      socketService.removeListener('chat-error');
+    };
+  }, []);
+
+  // Search the whole room's history once typing pauses
+  useEffect(() => {
+    const trimmed = query.trim();
+    queryRef.current = trimmed;
+    setChatError(null);
+    if (!trimmed) {
+      setResults(null);
+      return;
+    }
+
+    const timer = setTimeout(() => socketService.searchChat(trimmed), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    if (isSearchOpen) searchInputRef.current?.focus();
+  }, [isSearchOpen]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  const handleLoadOlder = () => {
+    if (!firstMessageId || !isConnected) return;
+    setChatError(null);
+    setIsLoadingOlder(true);
+    socketService.requestChatHistory(firstMessageId);
+  };
+
+  const closeSearch = () => {
+    setIsSearchOpen(false);
+    setQuery('');
+  };
+
+  // Show a search result where it is in the conversation, if it is loaded
+  const handleOpenResult = (message: ChatMessage) => {
+    closeSearch();
+    setHighlightedId(message.id);
+    setTimeout(() => {
+      document.getElementById(`chat-message-${message.id}`)?.scrollIntoView({ block: 'center' });
+    });
+  };
 
   // Focus input when chat opens
   useEffect(() => {
@@ -45,10 +186,21 @@ export const Chat: React.FC<ChatProps> = ({
 
     socketService.sendChatMessage(newMessage.trim());
     setNewMessage('');
+    presenceTracker.stoppedTyping();
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setNewMessage(e.target.value);
+    if (e.target.value) {
+      presenceTracker.typed('chat');
+    } else {
+      presenceTracker.stoppedTyping();
+    }
+  };
+
+  // Enter sends, Shift+Enter starts a new line
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
       e.preventDefault();
       handleSendMessage(e);
     }
@@ -59,6 +211,44 @@ export const Chat: React.FC<ChatProps> = ({
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  // Search results may be from days ago
+  const formatDate = (timestamp: Date) => {
+    const date = new Date(timestamp);
+    return date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  };
+
+  const renderContent = (message: ChatMessage) => {
+    if (message.pending && !message.content) {
+      return <span className="text-gray-400">...</span>;
+    }
+    const { context } = message;
+
+    // Markdown is rendered to sanitized HTML; assistant replies are
+    // written by a model and treated no differently
+    return splitCodeBlocks(message.content).map((part, index) => part.code === undefined ? (
+      <div
+        key={index}
+        className="chat-markdown"
+        dangerouslySetInnerHTML={{ __html: renderMarkdown(part.text, memberNames, currentUserName) }}
+      />
+    ) : (
+      <div key={index} className="my-1">
+        <ChatCodeBlock code={part.code} language={part.language || ''} />
+        {message.bot && !message.pending && context && (
+          <button
+            onClick={() => onApplyCode(context, part.code as string)}
+            disabled={!canApply}
+            className="mt-1 flex items-center space-x-1 text-xs text-primary-600 hover:text-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={`Review the change to ${context.fileName} before applying it`}
+          >
+            <FileInput size={12} />
+            <span>Apply to editor</span>
+          </button>
+        )}
+      </div>
+    ));
+  };
+
   if (isMinimized) {
     return (
       <div className="fixed bottom-4 right-4 z-50">
@@ -73,6 +263,14 @@ export const Chat: React.FC<ChatProps> = ({
               {messages.length}
             </span>
           )}
+          {unreadMentions > 0 && (
+            <span
+              className="bg-red-500 text-white text-xs px-2 py-1 rounded-full font-semibold"
+              title="Messages that mention you"
+            >
+              @{unreadMentions}
+            </span>
+          )}
         </button>
       </div>
     );
@@ -84,11 +282,28 @@ export const Chat: React.FC<ChatProps> = ({
       <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50 rounded-t-lg">
         <div className="flex items-center space-x-2">
           <MessageCircle size={20} className="text-primary-500" />
-          <h3 className="font-semibold text-gray-800">Team Chat</h3>
-          <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
+          <div className="min-w-0">
+            <div className="flex items-center space-x-2">
+              <h3 className="font-semibold text-gray-800">Team Chat</h3>
+              <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
+            </div>
+            {typingUsers.length > 0 && (
+              <p className="flex items-center space-x-1 text-xs text-gray-500 truncate">
+                <span className="typing-dots"><span /><span /><span /></span>
+                <span>{describeTyping(typingUsers)}</span>
+              </p>
+            )}
+          </div>
         </div>
         
         <div className="flex items-center space-x-1">
+          <button
+            onClick={() => isSearchOpen ? closeSearch() : setIsSearchOpen(true)}
+            className={`p-1 rounded ${isSearchOpen ? 'text-primary-500' : 'text-gray-500 hover:text-gray-700'}`}
+            title="Search messages"
+          >
+            <Search size={16} />
+          </button>
           <button
             onClick={onToggleMinimized}
             className="p-1 text-gray-500 hover:text-gray-700 rounded"
@@ -104,55 +319,133 @@ export const Chat: React.FC<ChatProps> = ({
         </div>
       </div>
 
+      {/* Search box */}
+      {isSearchOpen && (
+        <div className="p-2 border-b border-gray-200">
+          <input
+            ref={searchInputRef}
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && closeSearch()}
+            placeholder="Search all messages"
+            className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 text-sm"
+            maxLength={200}
+          />
+        </div>
+      )}
+
+      {chatError && (
+        <div className="px-4 py-1 text-xs text-red-600 border-b border-gray-200">{chatError}</div>
+      )}
+
       {/* Messages container */}
       <div className="flex-1 overflow-y-auto p-4 space-y-3">
-        {messages.length === 0 ? (
+        {results ? (
+          results.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-gray-500 text-sm">
+              No messages match your search
+            </div>
+          ) : (
+            results.map((message) => (
+              <button
+                key={message.id}
+                onClick={() => handleOpenResult(message)}
+                className="w-full text-left p-2 rounded-lg bg-gray-50 hover:bg-gray-100"
+              >
+                <div className="flex items-center space-x-2">
+                  <span className="font-semibold text-xs" style={{ color: message.userColor }}>
+                    {message.userName}
+                  </span>
+                  <span className="text-xs text-gray-500">{formatDate(message.timestamp)}</span>
+                </div>
+                <div className="text-sm text-gray-700 line-clamp-3 break-words whitespace-pre-wrap">
+                  {message.content}
+                </div>
+              </button>
+            ))
+          )
+        ) : messages.length === 0 ? (
           <div className="flex items-center justify-center h-full text-gray-500 text-sm">
             No messages yet. Start the conversation!
           </div>
         ) : (
-          messages.map((message) => (
-            <div key={message.id} className="chat-message">
-              <div className="flex items-start space-x-2">
-                <div
-                  className="w-8 h-8 rounded-full flex items-center justify-center text-white text-sm font-semibold"
-                  style={{ backgroundColor: message.userColor }}
+          <>
+            {hasOlderMessages && (
+              <div className="text-center">
+                <button
+                  onClick={handleLoadOlder}
+                  disabled={isLoadingOlder || !isConnected}
+                  className="text-xs text-primary-600 hover:text-primary-700 disabled:opacity-50"
                 >
-                  {message.userName.charAt(0).toUpperCase()}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center space-x-2 mb-1">
-                    <span className="font-semibold text-sm text-gray-800">
-                      {message.userName}
-                    </span>
-                    <span className="text-xs text-gray-500">
-                      {formatTimestamp(message.timestamp)}
-                    </span>
+                  {isLoadingOlder ? 'Loading...' : 'Load earlier messages'}
+                </button>
+              </div>
+            )}
+            {messages.map((message) => (
+              <div
+                key={message.id}
+                id={`chat-message-${message.id}`}
+                className={`chat-message rounded-lg transition-colors ${
+                  message.id === highlightedId
+                    ? 'bg-primary-50'
+                    : mentionsName(message.content, currentUserName) ? 'bg-yellow-50' : ''
+                }`}
+              >
+                <div className="flex items-start space-x-2">
+                  <div
+                    className="w-8 h-8 rounded-full flex items-center justify-center text-white text-sm font-semibold"
+                    style={{ backgroundColor: message.userColor }}
+                  >
+                    {message.bot ? <Bot size={16} /> : message.userName.charAt(0).toUpperCase()}
                   </div>
-                  <div className="text-sm text-gray-700 break-words">
-                    {message.content}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2 mb-1">
+                      <span className="font-semibold text-sm text-gray-800">
+                        {message.userName}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {formatTimestamp(message.timestamp)}
+                      </span>
+                    </div>
+                    {message.reference && (
+                      <button
+                        onClick={() => onOpenReference(message.reference as CodeReference)}
+                        className="mb-1 flex items-center space-x-1 text-xs text-primary-600 hover:text-primary-700"
+                        title="Show these lines in the editor"
+                      >
+                        <FileCode size={12} />
+                        <span className="truncate">
+                          {message.reference.fileName}:{message.reference.startLine}
+                          {message.reference.endLine !== message.reference.startLine && `-${message.reference.endLine}`}
+                        </span>
+                      </button>
+                    )}
+                    <div className={`text-sm break-words ${message.error ? 'text-red-600' : 'text-gray-700'}`}>
+                      {renderContent(message)}
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          ))
+            ))}
+          </>
         )}
         <div ref={messagesEndRef} />
       </div>
 
       {/* Message input */}
       <form onSubmit={handleSendMessage} className="p-4 border-t border-gray-200">
-        <div className="flex space-x-2">
-          <input
+        <div className="flex items-end space-x-2">
+          <textarea
             ref={inputRef}
-            type="text"
+            rows={2}
             value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder={isConnected ? "Type a message..." : "Not connected"}
+            onChange={handleChange}
+            onKeyDown={handleKeyDown}
+            placeholder={isConnected ? "Markdown, @name to mention, @ai to ask the assistant" : "Not connected"}
             disabled={!isConnected}
-            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-100 disabled:cursor-not-allowed text-sm"
-            maxLength={500}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-100 disabled:cursor-not-allowed text-sm resize-none max-h-24"
+            maxLength={maxMessageLength}
           />
           <button
             type="submit"
@@ -163,9 +456,9 @@ export const Chat: React.FC<ChatProps> = ({
           </button>
         </div>
         
-        {newMessage.length > 400 && (
+        {newMessage.length > maxMessageLength - 500 && (
           <div className="mt-1 text-xs text-gray-500">
-            {500 - newMessage.length} characters remaining
+            {maxMessageLength - newMessage.length} characters remaining
           </div>
         )}
       </form>
@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { useMonaco } from '@monaco-editor/react';
+
+interface ChatCodeBlockProps {
+  code: string;
+  // The info string of the fence, e.g. "js" or "python"
+  language: string;
+}
+
+// A fenced code block from a chat message, coloured by the same tokenizers
+// as the editor. Shown as plain text until Monaco has loaded, or when the
+// language is not one it knows.
+export const ChatCodeBlock: React.FC<ChatCodeBlockProps> = ({ code, language }) => {
+  const monacoInstance = useMonaco();
+  const [html, setHtml] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!monacoInstance || !language) return;
+
+    // Fences may name a language by id, alias or file extension
+    const tag = language.toLowerCase();
+    const known = monacoInstance.languages.getLanguages().find(lang =>
+      lang.id === tag ||
+      lang.aliases?.some(alias => alias.toLowerCase() === tag) ||
+      lang.extensions?.includes(`.${tag}`));
+    if (!known) return;
+
+    let isCurrent = true;
+    // Monaco escapes the code it colours, so its markup is safe to insert
+    monacoInstance.editor.colorize(code, known.id, { tabSize: 2 })
+      .then(colored => isCurrent && setHtml(colored))
+      .catch(() => isCurrent && setHtml(null));
+    return () => {
+      isCurrent = false;
+    };
+  }, [monacoInstance, code, language]);
+
+  return (
+    <pre className="chat-code-block px-2 py-1 bg-gray-900 text-gray-100 rounded text-xs font-mono overflow-x-auto">
+      {html === null ? code : <code dangerouslySetInnerHTML={{ __html: html }} />}
+    </pre>
+  );
+};
@@ -1,20 +1,106 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
+import { createPortal } from 'react-dom';
 import Editor, { Monaco } from '@monaco-editor/react';
 import * as monaco from 'monaco-editor';
+import { v4 as uuidv4 } from 'uuid';
 import { socketService } from '../services/socket';
-import { DocumentOperation, CursorPosition, LanguageChangeData } from '../types';
-import { Wand2, Download, Copy } from 'lucide-react';
+import { DocumentSession } from '../services/documentSession';
+import { RemoteCursorLayer } from '../services/remoteCursors';
+import { presenceTracker } from '../services/presence';
+import { InlineSuggestionProvider } from '../services/inlineSuggestions';
+import { CommentLayer, CommentZoneTarget } from '../services/commentLayer';
+import { ApplySuggestionDialog } from './ApplySuggestionDialog';
+import { CommentThreadView } from './CommentThreadView';
+import { UndoHistoryPanel } from './UndoHistoryPanel';
+import { UndoStep } from '../services/undoHistory';
+import {
+  FileNode,
+  RevisionedOperation,
+  OperationAck,
+  DocumentSync,
+  DocumentCatchup,
+  CursorPosition,
+  AIAssistanceResponse,
+  AISuggestionChunk,
+  AIError,
+  ProposedEdit,
+  CommentThread,
+  User,
+  Presence,
+  CodeReference
+} from '../types';
+import { Wand2, Download, Copy, X, Eye, Sparkles, Play, MessageSquarePlus, LocateFixed, Share2, Undo2 } from 'lucide-react';
 
 interface CodeEditorProps {
-  initialContent: string;
-  language: string;
+  files: FileNode[];
+  activeFileId: string | null;
+  openFileIds: string[];
+  onSelectFile: (fileId: string) => void;
+  onCloseFile: (fileId: string) => void;
   onLanguageChange: (language: string) => void;
   onContentChange: (content: string) => void;
   userCursors: CursorPosition[];
   isConnected: boolean;
+  readOnly: boolean;
+  // Assistant code waiting to be reviewed before it replaces file content
+  proposedEdit: ProposedEdit | null;
+  onProposalClosed: () => void;
+  // Run a file on the server for the whole room
+  onRun: (fileId: string) => void;
+  commentThreads: CommentThread[];
+  // The thread shown under its code, if its file is the active one
+  focusedThreadId: string | null;
+  onFocusThread: (threadId: string | null) => void;
+  canComment: boolean;
+  // Someone whose view we mirror; typing takes back control
+  followedUser: User | null;
+  onStopFollowing: () => void;
+  // Everyone's status and typing, shown on their name tags
+  presence: Map<string, Presence>;
+  // Post code to the room's chat, with where it is from
+  onShareToChat: (message: string, reference: CodeReference) => void;
+  // Lines to select and bring into view once their file is active
+  linesToReveal: CodeReference | null;
+  onLinesRevealed: () => void;
 }
 
+// A comment on the selection that has not been posted yet; offsets are into
+// the local content as of when it was started
+interface DraftComment {
+  fileId: string;
+  start: number;
+  end: number;
+}
+
+// A completion being streamed in from the server
+interface PendingSuggestion {
+  requestId: string;
+  text: string;
+  error: string | null;
+}
+
+const INLINE_SUGGESTIONS_KEY = 'collaborativeEditor_inlineSuggestions';
+
+// How long scrolling has to settle before the new viewport is shared
+const SCROLL_REPORT_DELAY_MS = 150;
+
+// Caret moves are shared at most this often; the latest one always goes out
+const CURSOR_SEND_INTERVAL_MS = 50;
+
+const NO_UNDO_STEPS: { undo: UndoStep[]; redo: UndoStep[] } = { undo: [], redo: [] };
+
+// Keys that do not count as taking back control from the followed user
+const NON_TYPING_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock'];
+
+// Keys besides printable characters that count as typing for the room's
+// typing indicators
+const EDITING_KEYS = ['Backspace', 'Delete', 'Enter', 'Tab'];
+
+// Languages the server knows how to run
+const RUNNABLE_LANGUAGES = ['javascript', 'typescript', 'python'];
+
 const SUPPORTED_LANGUAGES = [
+  { value: 'plaintext', label: 'Plain Text' },
   { value: 'javascript', label: 'JavaScript' },
   { value: 'typescript', label: 'TypeScript' },
   { value: 'python', label: 'Python' },
@@ -33,23 +119,534 @@ const SUPPORTED_LANGUAGES = [
 ];
 
 export const CodeEditor: React.FC<CodeEditorProps> = ({
-  initialContent,
-  language,
+  files,
+  activeFileId,
+  openFileIds,
+  onSelectFile,
+  onCloseFile,
   onLanguageChange,
   onContentChange,
   userCursors,
-  isConnected
+  isConnected,
+  readOnly,
+  proposedEdit,
+  onProposalClosed,
+  onRun,
+  commentThreads,
+  focusedThreadId,
+  onFocusThread,
+  canComment,
+  followedUser,
+  onStopFollowing,
+  presence,
+  onShareToChat,
+  linesToReveal,
+  onLinesRevealed
 }) => {
   const editorRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null);
   const monacoRef = useRef<Monaco | null>(null);
-  const [content, setContent] = useState(initialContent);
-  const [isProcessingRemoteChange, setIsProcessingRemoteChange] = useState(false);
-  const lastCursorPosition = useRef<{ line: number; column: number }>({ line: 1, column: 1 });
+  const [isEditorReady, setIsEditorReady] = useState(false);
+  const [suggestion, setSuggestion] = useState<PendingSuggestion | null>(null);
+  const [showUndoHistory, setShowUndoHistory] = useState(false);
+  // Our own edits to the active file that can be undone or redone
+  const [undoSteps, setUndoSteps] = useState(NO_UNDO_STEPS);
+  const suggestionIdRef = useRef<string | null>(null);
+  const [inlineSuggestions, setInlineSuggestions] = useState(
+    () => localStorage.getItem(INLINE_SUGGESTIONS_KEY) !== 'off'
+  );
+  const inlineSuggestionsRef = useRef(inlineSuggestions);
+  const inlineProviderRef = useRef<InlineSuggestionProvider | null>(null);
+  const inlineProviderRegistration = useRef<monaco.IDisposable | null>(null);
+  const isConnectedRef = useRef(isConnected);
+  const readOnlyRef = useRef(readOnly);
+  const filesRef = useRef(files);
+  const activeFileIdRef = useRef(activeFileId);
+  const onContentChangeRef = useRef(onContentChange);
+  const userCursorsRef = useRef(userCursors);
+  const cursorLayerRef = useRef<RemoteCursorLayer | null>(null);
+  const commentLayerRef = useRef<CommentLayer | null>(null);
+  const commentThreadsRef = useRef(commentThreads);
+  // The last version of each thread handed to the sessions
+  const appliedThreadsRef = useRef<Map<string, CommentThread>>(new Map());
+  const focusedThreadIdRef = useRef(focusedThreadId);
+  const onFocusThreadRef = useRef(onFocusThread);
+  const canCommentRef = useRef(canComment);
+  const [draftComment, setDraftComment] = useState<DraftComment | null>(null);
+  const draftCommentRef = useRef(draftComment);
+  const followedUserIdRef = useRef<string | null>(followedUser?.id ?? null);
+  const onStopFollowingRef = useRef(onStopFollowing);
+  const presenceRef = useRef(presence);
+  const onShareToChatRef = useRef(onShareToChat);
+  const scrollReportTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const cursorSendTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const cursorSentAtRef = useRef(0);
+  // The last cursor update handed to the sessions for each user
+  const appliedCursorsRef = useRef<Map<string, CursorPosition>>(new Map());
+  // One session per workspace file, whether or not it is open in a tab
+  const sessionsRef = useRef<Map<string, DocumentSession>>(new Map());
+  // Operations for files whose session does not exist yet, e.g. edits that
+  // arrive right after a file-created event but before the next render
+  const pendingRef = useRef<Map<string, RevisionedOperation[]>>(new Map());
+
+  const activeFile = files.find(file => file.id === activeFileId) || null;
+
+  useEffect(() => {
+    isConnectedRef.current = isConnected;
+  }, [isConnected]);
+
+  // Scroll to what the followed user sees: the region at the top of their
+  // screen, or else their caret
+  const showFollowedUser = useCallback(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    const fileId = activeFileIdRef.current;
+    const session = fileId ? sessionsRef.current.get(fileId) : undefined;
+    const cursor = session?.getRemoteCursors().find(c => c.userId === followedUserIdRef.current);
+    if (!editor || !model || !cursor || session?.getModel() !== model) return;
+
+    if (cursor.viewport) {
+      const topLine = model.getPositionAt(cursor.viewport.start).lineNumber;
+      editor.setScrollTop(editor.getTopForLineNumber(topLine));
+    } else {
+      editor.revealPositionInCenterIfOutsideViewport(model.getPositionAt(cursor.offset));
+    }
+  }, []);
+
+  // Redraw everything other people put in the active file: their cursors
+  // and the review threads on it
+  const renderOverlays = useCallback(() => {
+    const fileId = activeFileIdRef.current;
+    const session = fileId ? sessionsRef.current.get(fileId) : undefined;
+    cursorLayerRef.current?.render(session?.getRemoteCursors() ?? [], presenceRef.current);
+    showFollowedUser();
+
+    const ranges = session?.getCommentRanges() ?? [];
+    const threads = commentThreadsRef.current;
+    const draft = draftCommentRef.current;
+    const focused = ranges.find(range => range.threadId === focusedThreadIdRef.current);
+    let target: CommentZoneTarget | null = null;
+    if (draft && draft.fileId === fileId) {
+      target = { key: 'draft', offset: draft.end };
+    } else if (focused) {
+      target = { key: focused.threadId, offset: focused.end };
+    }
+
+    commentLayerRef.current?.render(
+      ranges.map(range => ({
+        ...range,
+        resolved: threads.find(thread => thread.id === range.threadId)?.resolved ?? false
+      })),
+      target
+    );
+  }, [showFollowedUser]);
+
+  const refreshUndoSteps = useCallback(() => {
+    const fileId = activeFileIdRef.current;
+    const session = fileId ? sessionsRef.current.get(fileId) : undefined;
+    setUndoSteps(session ? session.getUndoSteps() : NO_UNDO_STEPS);
+  }, []);
+
+  // Undo or redo our own edits to the active file, leaving everyone else's,
+  // and put the caret where the last one landed
+  const stepHistory = useCallback((direction: 'undo' | 'redo', count = 1) => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    const fileId = activeFileIdRef.current;
+    const session = fileId ? sessionsRef.current.get(fileId) : undefined;
+    if (!editor || !model || !session || session.getModel() !== model || readOnlyRef.current) return;
+
+    let offset: number | null = null;
+    for (let i = 0; i < count; i++) {
+      const moved = direction === 'undo' ? session.undo() : session.redo();
+      if (moved === null) break;
+      offset = moved;
+    }
+    if (offset === null) return;
+
+    const position = model.getPositionAt(offset);
+    editor.setPosition(position);
+    editor.revealPositionInCenterIfOutsideViewport(position);
+  }, []);
+
+  // Tell the room where our caret and selection are in the active file, and
+  // which part of it is on screen
+  const reportCursor = useCallback(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    const selection = editor?.getSelection();
+    const fileId = activeFileIdRef.current;
+    const session = fileId ? sessionsRef.current.get(fileId) : undefined;
+    if (!editor || !model || !selection || !session || session.getModel() !== model || !isConnectedRef.current) return;
+
+    const visible = editor.getVisibleRanges();
+    socketService.sendCursorPosition({
+      fileId: session.fileId,
+      offset: model.getOffsetAt(selection.getPosition()),
+      anchor: model.getOffsetAt(selection.getSelectionStart()),
+      viewport: visible.length > 0 ? {
+        start: model.getOffsetAt(visible[0].getStartPosition()),
+        end: model.getOffsetAt(visible[visible.length - 1].getEndPosition())
+      } : null,
+      revision: session.getRevision()
+    });
+  }, []);
+
+  // Report the cursor, waiting until the interval since the last report is
+  // up. Moves made meanwhile are covered by that one trailing report.
+  const sendCursor = useCallback(() => {
+    if (cursorSendTimer.current) return;
+    const wait = cursorSentAtRef.current + CURSOR_SEND_INTERVAL_MS - Date.now();
+    const send = () => {
+      cursorSendTimer.current = null;
+      cursorSentAtRef.current = Date.now();
+      reportCursor();
+    };
+    if (wait > 0) {
+      cursorSendTimer.current = setTimeout(send, wait);
+    } else {
+      send();
+    }
+  }, [reportCursor]);
+
+  useEffect(() => {
+    filesRef.current = files;
+    activeFileIdRef.current = activeFileId;
+    onContentChangeRef.current = onContentChange;
+  }, [files, activeFileId, onContentChange]);
+
+  // Create sessions for new files, drop deleted ones and keep model
+  // languages in step with the file tree
+  useEffect(() => {
+    const sessions = sessionsRef.current;
+
+    for (const file of files) {
+      if (file.type !== 'file') continue;
+
+      let session = sessions.get(file.id);
+      if (!session) {
+        const fileId = file.id;
+        session = new DocumentSession(
+          fileId,
+          file.content ?? '',
+          file.revision ?? 0,
+          (submission) => {
+            // While offline the batch stays queued and is resent after rejoining
+            if (socketService.isConnected()) {
+              socketService.sendDocumentOperation(submission);
+            }
+          },
+          (content) => {
+            if (activeFileIdRef.current === fileId) {
+              onContentChangeRef.current(content);
+              renderOverlays();
+              refreshUndoSteps();
+            }
+          }
+        );
+        sessions.set(fileId, session);
+
+        for (const position of userCursorsRef.current) {
+          if (position.cursor.fileId === fileId) session.setRemoteCursor(position);
+        }
+        for (const thread of commentThreadsRef.current) {
+          if (thread.fileId === fileId) session.setCommentRange(thread.id, thread.start, thread.end);
+        }
+
+        const pending = pendingRef.current.get(fileId) || [];
+        pendingRef.current.delete(fileId);
+        for (const operation of pending) {
+          if (operation.revision > session.getRevision()) {
+            session.applyRemote(operation);
+          }
+        }
+      }
+
+      const model = session.getModel();
+      if (model && monacoRef.current && file.language && model.getLanguageId() !== file.language) {
+        monacoRef.current.editor.setModelLanguage(model, file.language);
+      }
+    }
+
+    sessions.forEach((session, fileId) => {
+      if (!files.some(file => file.id === fileId)) {
+        session.dispose();
+        sessions.delete(fileId);
+      }
+    });
+  }, [files, renderOverlays, refreshUndoSteps]);
+
+  // Hand new cursor positions to the session of the file they are in; from
+  // then on the session moves them along with edits
+  useEffect(() => {
+    userCursorsRef.current = userCursors;
+    const applied = appliedCursorsRef.current;
+
+    for (const position of userCursors) {
+      if (applied.get(position.userId) === position) continue;
+      applied.set(position.userId, position);
+
+      sessionsRef.current.forEach((session) => {
+        if (session.fileId === position.cursor.fileId) {
+          session.setRemoteCursor(position);
+        } else {
+          session.removeRemoteCursor(position.userId);
+        }
+      });
+    }
+
+    applied.forEach((_, userId) => {
+      if (!userCursors.some(position => position.userId === userId)) {
+        applied.delete(userId);
+        sessionsRef.current.forEach(session => session.removeRemoteCursor(userId));
+      }
+    });
+
+    renderOverlays();
+  }, [userCursors, renderOverlays]);
+
+  // Anchor threads in their file's session the same way. A thread the server
+  // sends again comes with its range as of now, so it is placed afresh.
+  useEffect(() => {
+    commentThreadsRef.current = commentThreads;
+    const applied = appliedThreadsRef.current;
+
+    for (const thread of commentThreads) {
+      if (applied.get(thread.id) === thread) continue;
+      applied.set(thread.id, thread);
+      sessionsRef.current.get(thread.fileId)?.setCommentRange(thread.id, thread.start, thread.end);
+    }
+
+    applied.forEach((thread, threadId) => {
+      if (!commentThreads.some(t => t.id === threadId)) {
+        applied.delete(threadId);
+        sessionsRef.current.get(thread.fileId)?.removeCommentRange(threadId);
+      }
+    });
+
+    renderOverlays();
+  }, [commentThreads, renderOverlays]);
+
+  useEffect(() => {
+    focusedThreadIdRef.current = focusedThreadId;
+    onFocusThreadRef.current = onFocusThread;
+    canCommentRef.current = canComment;
+    draftCommentRef.current = draftComment;
+    followedUserIdRef.current = followedUser?.id ?? null;
+    onStopFollowingRef.current = onStopFollowing;
+    presenceRef.current = presence;
+    onShareToChatRef.current = onShareToChat;
+    renderOverlays();
+  }, [
+    focusedThreadId,
+    onFocusThread,
+    canComment,
+    draftComment,
+    followedUser,
+    onStopFollowing,
+    presence,
+    onShareToChat,
+    renderOverlays
+  ]);
+
+  useEffect(() => {
+    const sessions = sessionsRef.current;
+    return () => {
+      sessions.forEach(session => session.dispose());
+      sessions.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    socketService.setResumeProvider(() => {
+      const revisions: Record<string, number> = {};
+      const pending: Record<string, string> = {};
+      sessionsRef.current.forEach((session, fileId) => {
+        revisions[fileId] = session.getRevision();
+        const submissionId = session.getPendingSubmission();
+        if (submissionId !== null) pending[fileId] = submissionId;
+      });
+      return { revisions, pending };
+    });
+    return () => socketService.setResumeProvider(null);
+  }, []);
+
+  // Viewers can look around but not type
+  useEffect(() => {
+    readOnlyRef.current = readOnly;
+    editorRef.current?.updateOptions({
+      readOnly,
+      readOnlyMessage: { value: 'You are a viewer in this room' }
+    });
+  }, [readOnly, isEditorReady]);
+
+  // Show the active file, creating its Monaco model the first time it opens
+  useEffect(() => {
+    const editor = editorRef.current;
+    const monacoInstance = monacoRef.current;
+    if (!editor || !monacoInstance) return;
+
+    const session = activeFileId ? sessionsRef.current.get(activeFileId) : undefined;
+    if (!session) {
+      editor.setModel(null);
+      cursorLayerRef.current?.clear();
+      commentLayerRef.current?.clear();
+      onContentChangeRef.current('');
+      setUndoSteps(NO_UNDO_STEPS);
+      return;
+    }
+
+    let model = session.getModel();
+    if (!model) {
+      const file = filesRef.current.find(f => f.id === session.fileId);
+      model = monacoInstance.editor.createModel(
+        session.getContent(),
+        file?.language,
+        monacoInstance.Uri.parse(`file:///${session.fileId}`)
+      );
+      session.attach(model);
+    }
+
+    editor.setModel(model);
+    session.restoreViewState(editor);
+    onContentChangeRef.current(model.getValue());
+    renderOverlays();
+    refreshUndoSteps();
+
+    // Let the room know which file we are looking at
+    sendCursor();
+
+    return () => session.saveViewState(editor);
+  }, [activeFileId, isEditorReady, renderOverlays, refreshUndoSteps, sendCursor]);
+
+  // Bring a thread opened from elsewhere, e.g. the comments panel, into view
+  useEffect(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    const session = activeFileId ? sessionsRef.current.get(activeFileId) : undefined;
+    const range = session?.getCommentRanges().find(r => r.threadId === focusedThreadId);
+    if (!editor || !model || !range || session?.getModel() !== model) return;
+
+    setDraftComment(null);
+    editor.revealLineInCenterIfOutsideViewport(model.getPositionAt(range.end).lineNumber);
+  }, [focusedThreadId, activeFileId, isEditorReady]);
+
+  // Select lines picked elsewhere, e.g. from code shared in chat, once the
+  // file they are in is showing
+  useEffect(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    const monacoInstance = monacoRef.current;
+    const session = activeFileId ? sessionsRef.current.get(activeFileId) : undefined;
+    if (!linesToReveal || linesToReveal.fileId !== activeFileId) return;
+    if (!editor || !model || !monacoInstance || session?.getModel() !== model) return;
+
+    // The file may have shrunk since the lines were shared
+    const lastLine = model.getLineCount();
+    const startLine = Math.min(linesToReveal.startLine, lastLine);
+    const endLine = Math.min(linesToReveal.endLine, lastLine);
+    editor.setSelection(new monacoInstance.Range(startLine, 1, endLine, model.getLineMaxColumn(endLine)));
+    editor.revealLinesInCenterIfOutsideViewport(startLine, endLine);
+    editor.focus();
+    onLinesRevealed();
+  }, [linesToReveal, activeFileId, isEditorReady, onLinesRevealed]);
+
+  // Ask for a completion at the caret; it streams into the preview and is
+  // inserted where it was requested once complete
+  const requestSuggestion = useCallback(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    const position = editor?.getPosition();
+    const fileId = activeFileIdRef.current;
+    const session = fileId ? sessionsRef.current.get(fileId) : undefined;
+    if (!model || !position || !session || session.getModel() !== model) return;
+    if (!isConnectedRef.current || readOnlyRef.current) return;
+
+    if (suggestionIdRef.current) {
+      socketService.cancelAIAssistance(suggestionIdRef.current);
+    }
+    inlineProviderRef.current?.cancelAll();
+    const requestId = uuidv4();
+    suggestionIdRef.current = requestId;
+    setSuggestion({ requestId, text: '', error: null });
+
+    socketService.requestAIAssistance({
+      requestId,
+      fileId: session.fileId,
+      offset: model.getOffsetAt(position),
+      revision: session.getRevision()
+    });
+  }, []);
+
+  // Open an empty thread under the selection to write the first comment in
+  const startComment = useCallback(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    const selection = editor?.getSelection();
+    const fileId = activeFileIdRef.current;
+    if (!model || !selection || selection.isEmpty() || !fileId || !canCommentRef.current) return;
+
+    setDraftComment({
+      fileId,
+      start: model.getOffsetAt(selection.getStartPosition()),
+      end: model.getOffsetAt(selection.getEndPosition())
+    });
+    onFocusThreadRef.current(null);
+  }, []);
+
+  // Post the selected lines to chat as a code block that links back to them
+  const shareSelection = useCallback(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    const selection = editor?.getSelection();
+    const monacoInstance = monacoRef.current;
+    const file = filesRef.current.find(f => f.id === activeFileIdRef.current);
+    if (!model || !selection || selection.isEmpty() || !monacoInstance || !file) return;
+
+    // A selection that ends at the start of a line does not take that line
+    const startLine = selection.startLineNumber;
+    const endLine = selection.endColumn === 1 && selection.endLineNumber > startLine
+      ? selection.endLineNumber - 1
+      : selection.endLineNumber;
+    const code = model.getValueInRange(
+      new monacoInstance.Range(startLine, 1, endLine, model.getLineMaxColumn(endLine))
+    );
+
+    onShareToChatRef.current(['```' + (file.language || ''), code, '```'].join('\n'), {
+      fileId: file.id,
+      fileName: file.name,
+      startLine,
+      endLine
+    });
+  }, []);
+
+  const handleSubmitComment = (content: string) => {
+    const session = draftComment ? sessionsRef.current.get(draftComment.fileId) : undefined;
+    if (!draftComment || !session || !isConnected) return;
+
+    socketService.createComment({
+      fileId: draftComment.fileId,
+      start: draftComment.start,
+      end: draftComment.end,
+      revision: session.getRevision(),
+      content
+    });
+    setDraftComment(null);
+  };
+
+  const dismissSuggestion = () => {
+    if (suggestionIdRef.current) {
+      socketService.cancelAIAssistance(suggestionIdRef.current);
+    }
+    suggestionIdRef.current = null;
+    setSuggestion(null);
+  };
 
   // Handle editor mount
   const handleEditorDidMount = useCallback((editor: monaco.editor.IStandaloneCodeEditor, monaco: Monaco) => {
     editorRef.current = editor;
     monacoRef.current = monaco;
+    cursorLayerRef.current = new RemoteCursorLayer(editor, monaco);
+    commentLayerRef.current = new CommentLayer(editor, monaco);
 
     // Configure editor options
     editor.updateOptions({
@@ -63,244 +660,248 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
       renderWhitespace: 'selection',
       wordWrap: 'on',
       bracketPairColorization: { enabled: true },
+      inlineSuggest: { enabled: true, showToolbar: 'onHover' },
+      glyphMargin: true,
     });
 
-    // Track cursor position changes
-    editor.onDidChangeCursorPosition((e) => {
-      const position = e.position;
-      lastCursorPosition.current = { line: position.lineNumber, column: position.column };
-      
-      if (isConnected && !isProcessingRemoteChange) {
-        socketService.sendCursorPosition({
-          line: position.lineNumber,
-          column: position.column
-        });
-      }
+    // Share the caret and selection as they move, and the viewport once
+    // scrolling settles
+    editor.onDidChangeCursorSelection(() => sendCursor());
+    editor.onDidScrollChange((e) => {
+      if (!e.scrollTopChanged) return;
+      if (scrollReportTimer.current) clearTimeout(scrollReportTimer.current);
+      scrollReportTimer.current = setTimeout(() => sendCursor(), SCROLL_REPORT_DELAY_MS);
     });
 
-    // Track content changes
-    editor.onDidChangeModelContent((e) => {
-      if (isProcessingRemoteChange) return;
+    // Typing while following someone means we want our own view back.
+    // Keystrokes that edit also tell the room we are typing.
+    editor.onKeyDown((e) => {
+      const { key } = e.browserEvent;
+      if (NON_TYPING_KEYS.includes(key) || e.ctrlKey || e.metaKey) return;
+      if (!readOnlyRef.current && (key.length === 1 || EDITING_KEYS.includes(key))) {
+        presenceTracker.typed('editor');
+      }
+      if (followedUserIdRef.current) onStopFollowingRef.current();
+    });
 
+    // Clicking a comment glyph opens that thread, or closes it if open
+    editor.onMouseDown((e) => {
       const model = editor.getModel();
-      if (!model) return;
-
-      const newContent = model.getValue();
-      setContent(newContent);
-      onContentChange(newContent);
-
-      // Send operations to other users
-      for (const change of e.changes) {
-        const operation: Omit<DocumentOperation, 'id' | 'timestamp'> = {
-          type: change.text ? 'insert' : 'delete',
-          position: model.getOffsetAt(change.range.getStartPosition()),
-          content: change.text,
-          length: change.rangeLength
-        };
-
-        if (isConnected) {
-          socketService.sendDocumentOperation(operation);
-        }
+      const lineNumber = e.target.position?.lineNumber;
+      const fileId = activeFileIdRef.current;
+      const session = fileId ? sessionsRef.current.get(fileId) : undefined;
+      if (e.target.type !== monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN || !model || !lineNumber || !session) return;
+
+      const range = session.getCommentRanges()
+        .find(r => model.getPositionAt(r.start).lineNumber === lineNumber);
+      if (range) {
+        setDraftComment(null);
+        onFocusThreadRef.current(range.threadId === focusedThreadIdRef.current ? null : range.threadId);
       }
     });
 
     // Add AI assistance command
+    // Ghost-text completions after a pause in typing; Tab accepts, Esc
+    // dismisses and Ctrl/Cmd+Right accepts the next word
+    const inlineProvider = new InlineSuggestionProvider(monaco, {
+      sessionFor: (model) => Array.from(sessionsRef.current.values()).find(s => s.getModel() === model),
+      isEnabled: () => inlineSuggestionsRef.current && isConnectedRef.current &&
+        !readOnlyRef.current && suggestionIdRef.current === null
+    });
+    inlineProviderRef.current = inlineProvider;
+    inlineProviderRegistration.current = monaco.languages.registerInlineCompletionsProvider('*', inlineProvider);
+
     editor.addAction({
-      id: 'ai-assistance',
-      label: 'Get AI Assistance',
+      id: 'ai-inline-suggestion',
+      label: 'Suggest with AI',
       keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.Space],
+      run: (ed) => ed.trigger('keyboard', 'editor.action.inlineSuggest.trigger', {})
+    });
+
+    // Undo and redo only our own edits. Monaco's stack would also take back
+    // what others typed, since their edits reach the same model.
+    editor.addAction({
+      id: 'collaborative-undo',
+      label: 'Undo My Last Edit',
+      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyZ],
+      run: () => stepHistory('undo')
+    });
+
+    editor.addAction({
+      id: 'collaborative-redo',
+      label: 'Redo My Last Undone Edit',
+      keybindings: [
+        monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.KeyZ,
+        monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyY
+      ],
+      run: () => stepHistory('redo')
+    });
+
+    editor.addAction({
+      id: 'ai-assistance',
+      label: 'Insert AI Suggestion',
       contextMenuGroupId: 'navigation',
       contextMenuOrder: 1.5,
-      run: (ed) => {
-        const position = ed.getPosition();
-        const model = ed.getModel();
-        if (position && model && isConnected) {
-          const lineContent = model.getLineContent(position.lineNumber);
-          const context = model.getValueInRange({
-            startLineNumber: Math.max(1, position.lineNumber - 5),
-            startColumn: 1,
-            endLineNumber: Math.min(model.getLineCount(), position.lineNumber + 5),
-            endColumn: 1
-          });
-
-          socketService.requestAIAssistance({
-            position: { line: position.lineNumber, column: position.column },
-            context: context
-          });
-        }
-      }
+      run: () => requestSuggestion()
+    });
+
+    editor.addAction({
+      id: 'add-comment',
+      label: 'Add Comment',
+      contextMenuGroupId: 'navigation',
+      contextMenuOrder: 1.6,
+      precondition: 'editorHasSelection',
+      run: () => startComment()
+    });
+
+    editor.addAction({
+      id: 'share-to-chat',
+      label: 'Share Selection to Chat',
+      contextMenuGroupId: 'navigation',
+      contextMenuOrder: 1.7,
+      precondition: 'editorHasSelection',
+      run: () => shareSelection()
     });
 
+    setIsEditorReady(true);
     console.log('Monaco Editor mounted successfully');
-  }, [isConnected, onContentChange, isProcessingRemoteChange]);
+  }, [sendCursor, requestSuggestion, startComment, shareSelection, stepHistory]);
 
-  // Handle remote document operations
+  // Route document events to the session of the file they belong to
   useEffect(() => {
-    const handleDocumentOperation = (operation: DocumentOperation) => {
-      if (!editorRef.current || !monacoRef.current) return;
-
-      setIsProcessingRemoteChange(true);
-      
-      const model = editorRef.current.getModel();
-      if (!model) return;
+    const handleDocumentOperation = (operation: RevisionedOperation) => {
+      const session = sessionsRef.current.get(operation.fileId);
+      if (!session) {
+        const pending = pendingRef.current.get(operation.fileId) || [];
+        pendingRef.current.set(operation.fileId, [...pending, operation]);
+        return;
+      }
 
       try {
-        const position = model.getPositionAt(operation.position);
-        
-        if (operation.type === 'insert') {
-          const range = new monacoRef.current.Range(
-            position.lineNumber,
-            position.column,
-            position.lineNumber,
-            position.column
-          );
-          
-          model.pushEditOperations([], [{
-            range,
-            text: operation.content
-          }], () => null);
-        } else if (operation.type === 'delete') {
-          const endPosition = model.getPositionAt(operation.position + operation.length);
-          const range = new monacoRef.current.Range(
-            position.lineNumber,
-            position.column,
-            endPosition.lineNumber,
-            endPosition.column
-          );
-          
-          model.pushEditOperations([], [{
-            range,
-            text: ''
-          }], () => null);
-        }
-
-        const newContent = model.getValue();
-        setContent(newContent);
-        onContentChange(newContent);
+        session.applyRemote(operation);
       } catch (error) {
         console.error('Error applying remote operation:', error);
-      } finally {
-        setTimeout(() => setIsProcessingRemoteChange(false), 100);
       }
     };
 
-    const handleLanguageChange = (data: LanguageChangeData) => {
-      if (!editorRef.current || !monacoRef.current) return;
-      
-      const model = editorRef.current.getModel();
-      if (model) {
-        monacoRef.current.editor.setModelLanguage(model, data.language);
+    const handleDocumentCatchup = (catchup: DocumentCatchup) => {
+      try {
+        sessionsRef.current.get(catchup.fileId)?.catchUp(catchup.operations);
+      } catch (error) {
+        console.error('Error replaying missed operations:', error);
       }
     };
 
-    if (isConnected) {
-      socketService.onDocumentOperation(handleDocumentOperation);
-      socketService.onLanguageChange(handleLanguageChange);
-    }
+    const handleOperationAck = (ack: OperationAck) => {
+      sessionsRef.current.get(ack.fileId)?.acknowledge(ack.revision);
+    };
+
+    // The server could not apply one of our operations; adopt its document
+    const handleDocumentSync = (sync: DocumentSync) => {
+      sessionsRef.current.get(sync.fileId)?.resync(sync.content, sync.revision, sync.rebase);
+    };
+
+    // Registered regardless of connection state so the catch-up sent right
+    // after an automatic rejoin is never missed
+    socketService.onDocumentOperation(handleDocumentOperation);
+    socketService.onDocumentCatchup(handleDocumentCatchup);
+    socketService.onOperationAck(handleOperationAck);
+    socketService.onDocumentSync(handleDocumentSync);
 
     return () => {
-      if (isConnected) {
-        socketService.removeListener('document-operation');
-        socketService.removeListener('language-change');
-      }
+      socketService.removeListener('document-operation');
+      socketService.removeListener('document-catchup');
+      socketService.removeListener('operation-ack');
+      socketService.removeListener('document-sync');
     };
-  }, [isConnected, onContentChange]);
+  }, []);
 
-  // Handle AI suggestions
+  // Stream AI suggestions into the preview and insert the finished one
   useEffect(() => {
-    const handleAISuggestion = (response: any) => {
-      if (!editorRef.current || !monacoRef.current) return;
-
-      const model = editorRef.current.getModel();
-      if (!model) return;
-
-      const position = model.getPositionAt(0); // You might want to use the actual position from response
-      const range = new monacoRef.current.Range(
-        position.lineNumber,
-        position.column,
-        position.lineNumber,
-        position.column
-      );
+    if (!isConnected) {
+      suggestionIdRef.current = null;
+      setSuggestion(null);
+      inlineProviderRef.current?.cancelAll();
+      return;
+    }
+
+    const handleSuggestionChunk = ({ requestId, text }: AISuggestionChunk) => {
+      if (requestId !== suggestionIdRef.current) return;
+      setSuggestion(prev => prev && prev.requestId === requestId ? { ...prev, text: prev.text + text } : prev);
+    };
 
-      // Insert AI suggestion
-      model.pushEditOperations([], [{
-        range,
-        text: response.suggestion
-      }], () => null);
+    const handleSuggestion = (response: AIAssistanceResponse) => {
+      if (inlineProviderRef.current?.handleSuggestion(response)) return;
+      if (response.requestId !== suggestionIdRef.current) return;
+      suggestionIdRef.current = null;
+      setSuggestion(null);
 
-      // Show notification
-      console.log('AI Suggestion applied:', response.suggestion);
+      // The position is in the server's document, which may not have our
+      // latest keystrokes yet; the session maps it onto the local text
+      sessionsRef.current.get(response.fileId)?.insertText(response.position.offset, response.suggestion);
     };
 
-    if (isConnected) {
-      socketService.onAISuggestion(handleAISuggestion);
-    }
+    const handleSuggestionError = ({ requestId, message }: AIError) => {
+      if (inlineProviderRef.current?.handleError(requestId)) return;
+      if (requestId !== suggestionIdRef.current) return;
+      suggestionIdRef.current = null;
+      setSuggestion(prev => prev && { ...prev, error: message });
+    };
+
+    socketService.onAISuggestionChunk(handleSuggestionChunk);
+    socketService.onAISuggestion(handleSuggestion);
+    socketService.onAIError(handleSuggestionError);
 
     return () => {
-      if (isConnected) {
-        socketService.removeListener('ai-suggestion');
-      }
+      socketService.removeListener('ai-suggestion-chunk');
+      socketService.removeListener('ai-suggestion');
+      socketService.removeListener('ai-error');
     };
   }, [isConnected]);
 
-  // Render user cursors
-  const renderUserCursors = () => {
-    if (!editorRef.current || userCursors.length === 0) return null;
-
-    return userCursors.map((cursor) => (
-      <div key={cursor.userId} className="user-cursor" style={{
-        top: `${(cursor.cursor.line - 1) * 20}px`,
-        left: `${cursor.cursor.column * 8}px`
-      }}>
-        <div 
-          className="user-cursor-line" 
-          style={{ backgroundColor: cursor.color }}
-        />
-        <div 
-          className="user-cursor-label"
-          style={{ backgroundColor: cursor.color }}
-        >
-          {cursor.userName}
-        </div>
-      </div>
-    ));
+  useEffect(() => {
+    return () => {
+      inlineProviderRegistration.current?.dispose();
+      commentLayerRef.current?.dispose();
+      if (scrollReportTimer.current) clearTimeout(scrollReportTimer.current);
+      if (cursorSendTimer.current) clearTimeout(cursorSendTimer.current);
+    };
+  }, []);
+
+  const toggleInlineSuggestions = () => {
+    const enabled = !inlineSuggestions;
+    inlineSuggestionsRef.current = enabled;
+    setInlineSuggestions(enabled);
+    localStorage.setItem(INLINE_SUGGESTIONS_KEY, enabled ? 'on' : 'off');
+    if (!enabled) {
+      inlineProviderRef.current?.cancelAll();
+      editorRef.current?.trigger('toggle', 'editor.action.inlineSuggest.hide', {});
+    }
   };
 
   const handleLanguageSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const newLanguage = e.target.value;
-    onLanguageChange(newLanguage);
-    
-    if (isConnected) {
-      socketService.sendLanguageChange(newLanguage);
-    }
+    onLanguageChange(e.target.value);
   };
 
-  const handleRequestAI = () => {
-    if (!editorRef.current || !isConnected) return;
-
-    const position = editorRef.current.getPosition();
-    const model = editorRef.current.getModel();
-    if (position && model) {
-      const context = model.getValueInRange({
-        startLineNumber: Math.max(1, position.lineNumber - 5),
-        startColumn: 1,
-        endLineNumber: Math.min(model.getLineCount(), position.lineNumber + 5),
-        endColumn: 1
-      });
+  // The file an assistant suggestion is for, if it still exists
+  const proposalSession = proposedEdit ? sessionsRef.current.get(proposedEdit.context.fileId) : undefined;
+  const proposal = proposedEdit && proposalSession ? {
+    edit: proposedEdit,
+    session: proposalSession,
+    file: files.find(f => f.id === proposedEdit.context.fileId)
+  } : null;
 
-      socketService.requestAIAssistance({
-        position: { line: position.lineNumber, column: position.column },
-        context: context
-      });
-    }
-  };
+  const getActiveContent = () =>
+    (activeFileId && sessionsRef.current.get(activeFileId)?.getContent()) || '';
 
   const handleDownloadCode = () => {
-    const blob = new Blob([content], { type: 'text/plain' });
+    if (!activeFile) return;
+
+    const blob = new Blob([getActiveContent()], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `code.${language === 'javascript' ? 'js' : language}`;
+    a.download = activeFile.name;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -309,21 +910,51 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
 
   const handleCopyCode = async () => {
     try {
-      await navigator.clipboard.writeText(content);
+      await navigator.clipboard.writeText(getActiveContent());
       console.log('Code copied to clipboard');
     } catch (error) {
       console.error('Failed to copy code:', error);
     }
   };
 
+  const isRunnable = RUNNABLE_LANGUAGES.includes(activeFile?.language || '');
+
+  // What the comment zone shows: a new comment, or the open thread when it
+  // is on the active file
+  const focusedThread = commentThreads.find(t => t.id === focusedThreadId && t.fileId === activeFileId);
+  const commentZone = draftComment && draftComment.fileId === activeFileId ? (
+    <CommentThreadView
+      key="draft"
+      thread={null}
+      canComment={canComment && isConnected}
+      onSubmit={handleSubmitComment}
+      onResolve={() => {}}
+      onClose={() => setDraftComment(null)}
+    />
+  ) : focusedThread ? (
+    <CommentThreadView
+      key={focusedThread.id}
+      thread={focusedThread}
+      canComment={canComment && isConnected}
+      onSubmit={(content) => socketService.replyToComment({ threadId: focusedThread.id, content })}
+      onResolve={(resolved) => socketService.resolveComment({ threadId: focusedThread.id, resolved })}
+      onClose={() => onFocusThread(null)}
+    />
+  ) : null;
+
+  const openFiles = openFileIds
+    .map(fileId => files.find(file => file.id === fileId))
+    .filter((file): file is FileNode => file !== undefined);
+
   return (
     <div className="flex flex-col h-full">
       {/* Editor toolbar */}
       <div className="flex items-center justify-between p-3 bg-gray-50 border-b border-gray-200">
         <div className="flex items-center space-x-4">
           <select
-            value={language}
+            value={activeFile?.language || 'plaintext'}
             onChange={handleLanguageSelect}
+            disabled={!activeFile || readOnly}
             className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
           >
             {SUPPORTED_LANGUAGES.map((lang) => (
@@ -332,34 +963,119 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
               </option>
             ))}
           </select>
-          
+
           <div className="flex items-center space-x-1 text-sm text-gray-600">
             <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
             <span>{isConnected ? 'Connected' : 'Disconnected'}</span>
           </div>
+
+          {readOnly && (
+            <span className="flex items-center space-x-1 px-2 py-0.5 bg-gray-200 text-gray-700 rounded-full text-xs">
+              <Eye size={12} />
+              <span>Read only</span>
+            </span>
+          )}
+
+          {followedUser && (
+            <span
+              className="flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs text-white"
+              style={{ backgroundColor: followedUser.color }}
+              title="Start typing to stop following"
+            >
+              <LocateFixed size={12} />
+              <span>Following {followedUser.name}</span>
+              <button onClick={onStopFollowing} className="p-0.5 rounded hover:bg-black hover:bg-opacity-20" title="Stop following">
+                <X size={10} />
+              </button>
+            </span>
+          )}
         </div>
 
         <div className="flex items-center space-x-2">
           <button
-            onClick={handleRequestAI}
-            disabled={!isConnected}
+            onClick={() => activeFile && onRun(activeFile.id)}
+            disabled={!isConnected || !isRunnable || readOnly}
+            className="flex items-center space-x-1 px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            title={activeFile && !isRunnable
+              ? 'Only JavaScript, TypeScript and Python files can be run'
+              : 'Run this file for everyone in the room'}
+          >
+            <Play size={14} />
+            <span>Run</span>
+          </button>
+
+          <button
+            onClick={requestSuggestion}
+            disabled={!isConnected || !activeFile || readOnly}
             className="flex items-center space-x-1 px-3 py-1 bg-primary-500 text-white rounded-md hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
           >
             <Wand2 size={14} />
             <span>AI Assist</span>
           </button>
-          
+
+          <button
+            onClick={toggleInlineSuggestions}
+            disabled={readOnly}
+            className={`flex items-center space-x-1 px-3 py-1 rounded-md text-sm disabled:opacity-50 ${
+              inlineSuggestions
+                ? 'bg-primary-100 text-primary-700 hover:bg-primary-200'
+                : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+            }`}
+            title={inlineSuggestions
+              ? 'Inline suggestions on: Tab accepts, Esc dismisses, Ctrl/Cmd+Right accepts a word'
+              : 'Inline suggestions off'}
+          >
+            <Sparkles size={14} />
+            <span>Inline</span>
+          </button>
+
+          <button
+            onClick={startComment}
+            disabled={!isConnected || !activeFile || !canComment}
+            className="flex items-center space-x-1 px-3 py-1 bg-yellow-500 text-white rounded-md hover:bg-yellow-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            title="Comment on the selected code"
+          >
+            <MessageSquarePlus size={14} />
+            <span>Comment</span>
+          </button>
+
+          <button
+            onClick={shareSelection}
+            disabled={!isConnected || !activeFile}
+            className="flex items-center space-x-1 px-3 py-1 bg-gray-500 text-white rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            title="Share the selected lines in chat"
+          >
+            <Share2 size={14} />
+            <span>Share</span>
+          </button>
+
+          <button
+            onClick={() => setShowUndoHistory(!showUndoHistory)}
+            disabled={!activeFile}
+            className={`flex items-center space-x-1 px-3 py-1 rounded-md text-sm disabled:opacity-50 ${
+              showUndoHistory
+                ? 'bg-primary-100 text-primary-700 hover:bg-primary-200'
+                : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+            }`}
+            title="Your edits to this file, to undo and redo"
+          >
+            <Undo2 size={14} />
+            <span>My edits</span>
+          </button>
+
           <button
             onClick={handleCopyCode}
-            className="flex items-center space-x-1 px-3 py-1 bg-gray-500 text-white rounded-md hover:bg-gray-600 text-sm"
+            disabled={!activeFile}
+            className="flex items-center space-x-1 px-3 py-1 bg-gray-500 text-white rounded-md hover:bg-gray-600 disabled:opacity-50 text-sm"
           >
             <Copy size={14} />
             <span>Copy</span>
           </button>
-          
+
           <button
             onClick={handleDownloadCode}
-            className="flex items-center space-x-1 px-3 py-1 bg-gray-500 text-white rounded-md hover:bg-gray-600 text-sm"
+            disabled={!activeFile}
+            className="flex items-center space-x-1 px-3 py-1 bg-gray-500 text-white rounded-md hover:bg-gray-600 disabled:opacity-50 text-sm"
           >
             <Download size={14} />
             <span>Download</span>
@@ -367,38 +1083,123 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
         </div>
       </div>
 
-      {/* Editor container */}
-      <div className="flex-1 relative editor-container">
-        <Editor
-          height="100%"
-          language={language}
-          value={content}
-          onMount={handleEditorDidMount}
-          options={{
-            theme: 'vs-dark',
-            fontFamily: 'Fira Code, Monaco, Menlo, monospace',
-            fontSize: 14,
-            lineNumbers: 'on',
-            minimap: { enabled: true },
-            scrollBeyondLastLine: false,
-            automaticLayout: true,
-            cursorStyle: 'line',
-            renderWhitespace: 'selection',
-            wordWrap: 'on',
-            bracketPairColorization: { enabled: true },
-            suggestOnTriggerCharacters: true,
-            quickSuggestions: true,
-            parameterHints: { enabled: true },
-            autoClosingBrackets: 'always',
-            autoIndent: 'full',
-            formatOnPaste: true,
-            formatOnType: true,
+      {/* Open file tabs */}
+      {openFiles.length > 0 && (
+        <div className="flex bg-gray-100 border-b border-gray-200 overflow-x-auto">
+          {openFiles.map((file) => (
+            <div
+              key={file.id}
+              onClick={() => onSelectFile(file.id)}
+              className={`flex items-center space-x-2 px-3 py-2 text-sm border-r border-gray-200 cursor-pointer whitespace-nowrap ${
+                file.id === activeFileId
+                  ? 'bg-white text-gray-900'
+                  : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              <span>{file.name}</span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onCloseFile(file.id);
+                }}
+                className="p-0.5 rounded hover:bg-gray-200"
+                title="Close"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 flex min-h-0">
+        {/* Editor container */}
+        <div className="flex-1 min-w-0 relative editor-container">
+          <Editor
+            height="100%"
+            onMount={handleEditorDidMount}
+            options={{
+              theme: 'vs-dark',
+              fontFamily: 'Fira Code, Monaco, Menlo, monospace',
+              fontSize: 14,
+              lineNumbers: 'on',
+              minimap: { enabled: true },
+              scrollBeyondLastLine: false,
+              automaticLayout: true,
+              cursorStyle: 'line',
+              renderWhitespace: 'selection',
+              wordWrap: 'on',
+              bracketPairColorization: { enabled: true },
+              inlineSuggest: { enabled: true, showToolbar: 'onHover' },
+              suggestOnTriggerCharacters: true,
+              quickSuggestions: true,
+              parameterHints: { enabled: true },
+              autoClosingBrackets: 'always',
+              autoIndent: 'full',
+              formatOnPaste: true,
+              formatOnType: true,
+              glyphMargin: true,
+            }}
+          />
+
+          {commentLayerRef.current && commentZone && createPortal(commentZone, commentLayerRef.current.container)}
+
+          {!activeFile && (
+            <div className="absolute inset-0 flex items-center justify-center bg-gray-50 text-gray-500 text-sm">
+              Select a file in the explorer to start editing
+            </div>
+          )}
+
+          {suggestion && (
+            <div className="absolute bottom-4 right-4 w-80 max-w-[80%] bg-white border border-gray-200 rounded-md shadow-lg text-sm z-10">
+              <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+                <span className="flex items-center space-x-1 text-gray-700">
+                  <Wand2 size={14} />
+                  <span>{suggestion.error ? 'AI suggestion failed' : 'AI is writing...'}</span>
+                </span>
+                <button
+                  onClick={dismissSuggestion}
+                  className="p-0.5 rounded text-gray-500 hover:bg-gray-100"
+                  title={suggestion.error ? 'Dismiss' : 'Cancel'}
+                >
+                  <X size={14} />
+                </button>
+              </div>
+              <pre className={`px-3 py-2 max-h-40 overflow-auto whitespace-pre-wrap font-mono text-xs ${
+                suggestion.error ? 'text-red-600' : 'text-gray-800'
+              }`}>
+                {suggestion.error || suggestion.text || '...'}
+              </pre>
+            </div>
+          )}
+        </div>
+
+        {showUndoHistory && activeFile && (
+          <UndoHistoryPanel
+            fileName={activeFile.name}
+            undo={undoSteps.undo}
+            redo={undoSteps.redo}
+            canEdit={!readOnly}
+            onUndo={(count) => stepHistory('undo', count)}
+            onRedo={(count) => stepHistory('redo', count)}
+            onClose={() => setShowUndoHistory(false)}
+          />
+        )}
+      </div>
+
+      {proposal && (
+        <ApplySuggestionDialog
+          edit={proposal.edit}
+          content={proposal.session.getContent()}
+          language={proposal.file?.language}
+          canApply={!readOnly && isConnected}
+          onApply={(content) => {
+            proposal.session.replaceContent(content);
+            onProposalClosed();
           }}
+          onClose={onProposalClosed}
         />
-        
-        {/* User cursors overlay */}
-        {renderUserCursors()}
-      </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { CheckCircle2, RotateCcw, Send, X } from 'lucide-react';
+import { CommentThread } from '../types';
+
+interface CommentThreadViewProps {
+  // Null while a new thread is being written
+  thread: CommentThread | null;
+  canComment: boolean;
+  onSubmit: (content: string) => void;
+  onResolve: (resolved: boolean) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: Date) =>
+  new Date(timestamp).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// A review thread as shown under the code it is about, with a box to reply
+// or, for a new thread, to write its first comment
+export const CommentThreadView: React.FC<CommentThreadViewProps> = ({
+  thread,
+  canComment,
+  onSubmit,
+  onResolve,
+  onClose
+}) => {
+  const [draft, setDraft] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || !canComment) return;
+    onSubmit(draft.trim());
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      handleSubmit(e);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="mx-2 my-1 bg-gray-800 border border-gray-600 rounded-md text-sm text-gray-100 shadow-lg font-sans">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-gray-700">
+        <span className="text-xs text-gray-400">
+          {!thread
+            ? 'New comment'
+            : thread.resolved
+              ? `Resolved${thread.resolvedBy ? ` by ${thread.resolvedBy}` : ''}`
+              : `${thread.comments.length} ${thread.comments.length === 1 ? 'comment' : 'comments'}`}
+        </span>
+        <div className="flex items-center space-x-1">
+          {thread && canComment && (
+            <button
+              onClick={() => onResolve(!thread.resolved)}
+              className="flex items-center space-x-1 px-2 py-0.5 text-xs rounded bg-gray-700 hover:bg-gray-600"
+              title={thread.resolved ? 'Reopen the discussion' : 'Mark the discussion as resolved'}
+            >
+              {thread.resolved ? <RotateCcw size={12} /> : <CheckCircle2 size={12} />}
+              <span>{thread.resolved ? 'Reopen' : 'Resolve'}</span>
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-200 rounded"
+            title="Close"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {thread && (
+        <div className="max-h-64 overflow-y-auto px-3 py-2 space-y-2">
+          {thread.comments.map(comment => (
+            <div key={comment.id}>
+              <div className="flex items-center space-x-2 text-xs">
+                <span className="font-medium" style={{ color: comment.authorColor }}>
+                  {comment.authorName}
+                </span>
+                <span className="text-gray-500">{formatTime(comment.createdAt)}</span>
+              </div>
+              <div className="whitespace-pre-wrap break-words">{comment.content}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canComment && (
+        <form onSubmit={handleSubmit} className="flex items-end space-x-2 px-3 py-2 border-t border-gray-700">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={thread ? 'Reply (Ctrl+Enter to send)' : 'Write a comment (Ctrl+Enter to send)'}
+            rows={2}
+            autoFocus={!thread}
+            maxLength={2000}
+            className="flex-1 bg-gray-900 px-2 py-1 rounded text-sm resize-y focus:outline-none focus:ring-1 focus:ring-primary-500"
+          />
+          <button
+            type="submit"
+            disabled={!draft.trim()}
+            className="p-1.5 bg-primary-500 text-white rounded hover:bg-primary-600 disabled:opacity-50"
+            title={thread ? 'Reply' : 'Comment'}
+          >
+            <Send size={14} />
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { MessageSquare, CheckCircle2 } from 'lucide-react';
+import { CommentThread, FileNode } from '../types';
+
+interface CommentsPanelProps {
+  threads: CommentThread[];
+  files: FileNode[];
+  focusedThreadId: string | null;
+  onOpenThread: (thread: CommentThread) => void;
+}
+
+type ThreadFilter = 'open' | 'resolved' | 'all';
+
+const FILTERS: { value: ThreadFilter; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'all', label: 'All' }
+];
+
+// Every review thread in the room, grouped by file. Picking one opens its
+// file and shows the thread under the code it is about.
+export const CommentsPanel: React.FC<CommentsPanelProps> = ({
+  threads,
+  files,
+  focusedThreadId,
+  onOpenThread
+}) => {
+  const [filter, setFilter] = useState<ThreadFilter>('open');
+
+  const visible = threads.filter(thread =>
+    filter === 'all' || thread.resolved === (filter === 'resolved'));
+  const openCount = threads.filter(thread => !thread.resolved).length;
+
+  const byFile = files
+    .filter(file => file.type === 'file')
+    .map(file => ({ file, threads: visible.filter(thread => thread.fileId === file.id) }))
+    .filter(group => group.threads.length > 0);
+
+  return (
+    <div className="bg-white border-l border-gray-200 w-64 flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 bg-gray-50 flex items-center space-x-2">
+        <MessageSquare size={20} className="text-primary-500" />
+        <div>
+          <h3 className="font-semibold text-gray-800">Comments</h3>
+          <p className="text-xs text-gray-500">{openCount} open</p>
+        </div>
+      </div>
+
+      {/* Filter */}
+      <div className="flex p-2 space-x-1 border-b border-gray-200">
+        {FILTERS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setFilter(value)}
+            className={`flex-1 px-2 py-1 rounded text-xs ${
+              filter === value
+                ? 'bg-primary-100 text-primary-700'
+                : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Thread list */}
+      <div className="flex-1 overflow-y-auto">
+        {byFile.length === 0 ? (
+          <div className="flex items-center justify-center h-32 px-4 text-center text-gray-500 text-sm">
+            {threads.length === 0
+              ? 'Select some code and choose Comment to start a discussion'
+              : 'No comments here'}
+          </div>
+        ) : (
+          byFile.map(({ file, threads: fileThreads }) => (
+            <div key={file.id} className="p-2">
+              <div className="px-1 pb-1 text-xs font-medium text-gray-500 truncate">{file.name}</div>
+              <div className="space-y-1">
+                {fileThreads.map((thread) => {
+                  const [first] = thread.comments;
+                  return (
+                    <button
+                      key={thread.id}
+                      onClick={() => onOpenThread(thread)}
+                      className={`w-full text-left p-2 rounded-lg transition-colors ${
+                        thread.id === focusedThreadId ? 'bg-primary-50' : 'bg-gray-50 hover:bg-gray-100'
+                      }`}
+                    >
+                      <pre className="text-xs text-gray-500 font-mono truncate">{thread.quote.split('\n')[0]}</pre>
+                      <div className="text-sm text-gray-800 line-clamp-2">
+                        <span className="font-medium" style={{ color: first?.authorColor }}>{first?.authorName}</span>
+                        {': '}
+                        {first?.content}
+                      </div>
+                      <div className="flex items-center space-x-1 text-xs text-gray-500">
+                        {thread.resolved && <CheckCircle2 size={12} className="text-green-600" />}
+                        <span>
+                          {thread.comments.length} {thread.comments.length === 1 ? 'comment' : 'comments'}
+                        </span>
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
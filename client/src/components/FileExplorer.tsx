@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import {
+  ChevronDown,
+  ChevronRight,
+  File,
+  FilePlus,
+  Folder,
+  FolderPlus,
+  Pencil,
+  Trash2
+} from 'lucide-react';
+import { socketService } from '../services/socket';
+import { FileNode } from '../types';
+
+interface FileExplorerProps {
+  files: FileNode[];
+  activeFileId: string | null;
+  isConnected: boolean;
+  readOnly: boolean;
+  onOpenFile: (fileId: string) => void;
+}
+
+const byTypeThenName = (a: FileNode, b: FileNode) => {
+  if (a.type !== b.type) return a.type === 'folder' ? -1 : 1;
+  return a.name.localeCompare(b.name);
+};
+
+export const FileExplorer: React.FC<FileExplorerProps> = ({
+  files,
+  activeFileId,
+  isConnected,
+  readOnly,
+  onOpenFile
+}) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null | undefined>(undefined);
+  const canModify = isConnected && !readOnly;
+
+  // The selected folder may have been deleted by someone else
+  const targetFolderId = files.some(f => f.id === selectedFolderId) ? selectedFolderId : null;
+
+  const childrenOf = (parentId: string | null) =>
+    files.filter(file => file.parentId === parentId).sort(byTypeThenName);
+
+  const toggleFolder = (folderId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
+    });
+  };
+
+  const handleCreate = (type: FileNode['type']) => {
+    if (!canModify) return;
+
+    const name = window.prompt(type === 'file' ? 'New file name' : 'New folder name');
+    if (name && name.trim()) {
+      socketService.createFile(targetFolderId, name.trim(), type);
+    }
+  };
+
+  const handleRename = (node: FileNode) => {
+    const name = window.prompt('Rename to', node.name);
+    if (name && name.trim() && name.trim() !== node.name) {
+      socketService.renameFile(node.id, name.trim());
+    }
+  };
+
+  const handleDelete = (node: FileNode) => {
+    const what = node.type === 'folder' ? `folder "${node.name}" and everything in it` : `"${node.name}"`;
+    if (window.confirm(`Delete ${what} for everyone in the room?`)) {
+      socketService.deleteFile(node.id);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, parentId: string | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTargetId(undefined);
+
+    const node = files.find(f => f.id === draggedId);
+    setDraggedId(null);
+    if (node && node.parentId !== parentId && node.id !== parentId && canModify) {
+      socketService.moveFile(node.id, parentId);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent, parentId: string | null) => {
+    if (!draggedId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTargetId(parentId);
+  };
+
+  const renderNode = (node: FileNode, depth: number): React.ReactNode => {
+    const isFolder = node.type === 'folder';
+    const isOpen = isFolder && !collapsed.has(node.id);
+    const isHighlighted = isFolder
+      ? node.id === targetFolderId || node.id === dropTargetId
+      : node.id === activeFileId;
+
+    return (
+      <div key={node.id}>
+        <div
+          draggable={canModify}
+          onDragStart={() => setDraggedId(node.id)}
+          onDragEnd={() => {
+            setDraggedId(null);
+            setDropTargetId(undefined);
+          }}
+          onDragOver={isFolder ? (e) => handleDragOver(e, node.id) : undefined}
+          onDrop={isFolder ? (e) => handleDrop(e, node.id) : undefined}
+          onClick={() => {
+            if (isFolder) {
+              toggleFolder(node.id);
+              setSelectedFolderId(node.id);
+            } else {
+              onOpenFile(node.id);
+              setSelectedFolderId(node.parentId);
+            }
+          }}
+          className={`group flex items-center space-x-1 pr-2 py-1 text-sm cursor-pointer rounded ${
+            isHighlighted ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-100'
+          }`}
+          style={{ paddingLeft: `${depth * 12 + 8}px` }}
+        >
+          {isFolder ? (
+            <>
+              {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+              <Folder size={14} className="text-primary-500 flex-shrink-0" />
+            </>
+          ) : (
+            <File size={14} className="ml-3.5 text-gray-500 flex-shrink-0" />
+          )}
+          <span className="flex-1 truncate">{node.name}</span>
+
+          {canModify && (
+            <div className="hidden group-hover:flex items-center space-x-1">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleRename(node);
+                }}
+                className="p-0.5 text-gray-500 hover:text-gray-800"
+                title="Rename"
+              >
+                <Pencil size={12} />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(node);
+                }}
+                className="p-0.5 text-gray-500 hover:text-red-600"
+                title="Delete"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {isOpen && childrenOf(node.id).map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white border-r border-gray-200 w-56 flex flex-col">
+      {/* Header */}
+      <div className="p-3 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+        <h3 className="font-semibold text-gray-800 text-sm">Files</h3>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => handleCreate('file')}
+            disabled={!canModify}
+            className="p-1 text-gray-500 hover:text-gray-700 rounded disabled:opacity-50"
+            title="New File"
+          >
+            <FilePlus size={16} />
+          </button>
+          <button
+            onClick={() => handleCreate('folder')}
+            disabled={!canModify}
+            className="p-1 text-gray-500 hover:text-gray-700 rounded disabled:opacity-50"
+            title="New Folder"
+          >
+            <FolderPlus size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Tree; dropping on empty space moves to the workspace root */}
+      <div
+        className={`flex-1 overflow-y-auto p-1 ${dropTargetId === null ? 'bg-primary-50' : ''}`}
+        onClick={() => setSelectedFolderId(null)}
+        onDragOver={(e) => handleDragOver(e, null)}
+        onDrop={(e) => handleDrop(e, null)}
+      >
+        {files.length === 0 ? (
+          <div className="flex items-center justify-center h-32 text-gray-500 text-sm">
+            No files yet
+          </div>
+        ) : (
+          <div onClick={(e) => e.stopPropagation()}>
+            {childrenOf(null).map(node => renderNode(node, 0))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
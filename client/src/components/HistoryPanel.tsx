@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { History, Save, RotateCcw, X, RefreshCw } from 'lucide-react';
+import { socketService } from '../services/socket';
+import { FileNode, Snapshot, SnapshotSummary, SnapshotRestored } from '../types';
+
+interface HistoryPanelProps {
+  roomId: string;
+  file: FileNode | null;
+  currentContent: string;
+  memberToken: string;
+  canEdit: boolean;
+  isConnected: boolean;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  roomId,
+  file,
+  currentContent,
+  memberToken,
+  canEdit,
+  isConnected
+}) => {
+  const fileId = file?.id ?? null;
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [selectedSnapshot, setSelectedSnapshot] = useState<Snapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [lastRestore, setLastRestore] = useState<string | null>(null);
+
+  const loadSnapshots = useCallback(async () => {
+    if (!fileId) {
+      setSnapshots([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(
+        `/api/rooms/${encodeURIComponent(roomId)}/snapshots?fileId=${encodeURIComponent(fileId)}`,
+        { headers: { 'X-Member-Token': memberToken } }
+      );
+      if (response.ok) {
+        setSnapshots(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to load snapshots:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [roomId, fileId, memberToken]);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [loadSnapshots]);
+
+  // Keep the list current as anyone in the room saves or restores
+  useEffect(() => {
+    const handleSnapshotCreated = (snapshot: SnapshotSummary) => {
+      if (snapshot.fileId !== fileId) return;
+      setSnapshots(prev => [snapshot, ...prev.filter(s => s.id !== snapshot.id)]);
+    };
+
+    const handleSnapshotRestored = (data: SnapshotRestored) => {
+      setLastRestore(`${data.userName} restored a snapshot`);
+    };
+
+    socketService.onSnapshotCreated(handleSnapshotCreated);
+    socketService.onSnapshotRestored(handleSnapshotRestored);
+
+    return () => {
+      socketService.removeListener('snapshot-created');
+      socketService.removeListener('snapshot-restored');
+    };
+  }, [fileId]);
+
+  const handleCreateSnapshot = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isConnected || !canEdit || !fileId) return;
+
+    socketService.createSnapshot(fileId, snapshotName.trim());
+    setSnapshotName('');
+  };
+
+  const handleOpenSnapshot = async (snapshotId: string) => {
+    try {
+      const response = await fetch(
+        `/api/rooms/${encodeURIComponent(roomId)}/snapshots/${encodeURIComponent(snapshotId)}`,
+        { headers: { 'X-Member-Token': memberToken } }
+      );
+      if (response.ok) {
+        setSelectedSnapshot(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to load snapshot:', error);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!selectedSnapshot || !isConnected || !canEdit) return;
+
+    if (window.confirm(`Restore "${selectedSnapshot.name}" for everyone in the room?`)) {
+      socketService.restoreSnapshot(selectedSnapshot.id);
+      setSelectedSnapshot(null);
+    }
+  };
+
+  const formatTimestamp = (timestamp: Date) => {
+    const date = new Date(timestamp);
+    return date.toLocaleString([], {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="bg-white border-l border-gray-200 w-64 flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <History size={20} className="text-primary-500" />
+          <div className="min-w-0">
+            <h3 className="font-semibold text-gray-800">History</h3>
+            {file && <p className="text-xs text-gray-500 truncate">{file.name}</p>}
+          </div>
+        </div>
+        <button
+          onClick={loadSnapshots}
+          disabled={isLoading}
+          className="p-1 text-gray-500 hover:text-gray-700 rounded disabled:opacity-50"
+          title="Refresh"
+        >
+          <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {/* New snapshot */}
+      <form onSubmit={handleCreateSnapshot} className="p-3 border-b border-gray-200">
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            placeholder="Snapshot name"
+            disabled={!isConnected || !canEdit || !file}
+            className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-100"
+            maxLength={100}
+          />
+          <button
+            type="submit"
+            disabled={!isConnected || !canEdit || !file}
+            className="px-2 py-1 bg-primary-500 text-white rounded-md hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Save snapshot"
+          >
+            <Save size={16} />
+          </button>
+        </div>
+        {lastRestore && (
+          <div className="mt-2 text-xs text-gray-500">{lastRestore}</div>
+        )}
+      </form>
+
+      {/* Snapshot list */}
+      <div className="flex-1 overflow-y-auto">
+        {snapshots.length === 0 ? (
+          <div className="flex items-center justify-center h-32 text-gray-500 text-sm">
+            {file ? 'No snapshots yet' : 'Open a file to see its history'}
+          </div>
+        ) : (
+          <div className="p-2 space-y-1">
+            {snapshots.map((snapshot) => (
+              <button
+                key={snapshot.id}
+                onClick={() => handleOpenSnapshot(snapshot.id)}
+                className="w-full text-left p-3 rounded-lg bg-gray-50 hover:bg-gray-100 transition-colors"
+              >
+                <div className="font-medium text-sm text-gray-800 truncate">
+                  {snapshot.name}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {formatTimestamp(snapshot.createdAt)}
+                  {snapshot.createdBy ? ` • ${snapshot.createdBy}` : ' • auto'}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Diff view between the snapshot and the live document */}
+      {selectedSnapshot && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-8">
+          <div className="bg-white rounded-lg shadow-xl w-full h-full flex flex-col overflow-hidden">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
+              <div>
+                <h3 className="font-semibold text-gray-800">{selectedSnapshot.name}</h3>
+                <p className="text-xs text-gray-500">
+                  Snapshot (left) compared with the live document (right)
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={handleRestore}
+                  disabled={!isConnected || !canEdit}
+                  className="flex items-center space-x-1 px-3 py-1 bg-primary-500 text-white rounded-md hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                >
+                  <RotateCcw size={14} />
+                  <span>Restore</span>
+                </button>
+                <button
+                  onClick={() => setSelectedSnapshot(null)}
+                  className="p-1 text-gray-500 hover:text-gray-700 rounded"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            </div>
+            <div className="flex-1">
+              <DiffEditor
+                height="100%"
+                original={selectedSnapshot.content}
+                modified={currentContent}
+                originalLanguage={selectedSnapshot.language}
+                modifiedLanguage={file?.language}
+                theme="vs-dark"
+                options={{
+                  readOnly: true,
+                  renderSideBySide: true,
+                  automaticLayout: true,
+                  minimap: { enabled: false }
+                }}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { Link, Copy, Trash2 } from 'lucide-react';
+import { socketService } from '../services/socket';
+import { InviteCreated, InviteSummary } from '../types';
+
+interface InviteLinksProps {
+  roomId: string;
+  invites: InviteSummary[];
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS = [
+  { value: HOUR, label: '1 hour' },
+  { value: 24 * HOUR, label: '1 day' },
+  { value: 7 * 24 * HOUR, label: '7 days' },
+  { value: 30 * 24 * HOUR, label: '30 days' },
+];
+
+const buildInviteLink = (roomId: string, token: string) =>
+  `${window.location.origin}/room/${encodeURIComponent(roomId)}?invite=${encodeURIComponent(token)}`;
+
+// Owner tool for minting, copying and revoking signed invite links
+export const InviteLinks: React.FC<InviteLinksProps> = ({ roomId, invites }) => {
+  const [role, setRole] = useState<InviteSummary['role']>('editor');
+  const [expiresInMs, setExpiresInMs] = useState(24 * HOUR);
+  const [maxUses, setMaxUses] = useState('');
+  const [lastLink, setLastLink] = useState<string | null>(null);
+
+  // The token is only handed out once, when the invite is created
+  useEffect(() => {
+    const handleInviteCreated = ({ token }: InviteCreated) => {
+      const link = buildInviteLink(roomId, token);
+      setLastLink(link);
+      navigator.clipboard.writeText(link).catch((error) => {
+        console.error('Failed to copy invite link:', error);
+      });
+    };
+
+    socketService.onInviteCreated(handleInviteCreated);
+
+    return () => {
+      socketService.removeListener('invite-created');
+    };
+  }, [roomId]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const uses = parseInt(maxUses, 10);
+    socketService.createInvite({
+      role,
+      expiresInMs,
+      maxUses: Number.isNaN(uses) ? null : uses
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!lastLink) return;
+    try {
+      await navigator.clipboard.writeText(lastLink);
+    } catch (error) {
+      console.error('Failed to copy invite link:', error);
+    }
+  };
+
+  const formatExpiry = (expiresAt: number) =>
+    new Date(expiresAt).toLocaleString([], {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-1 font-semibold text-gray-800">
+        <Link size={12} />
+        <span>Invite links</span>
+      </div>
+
+      <form onSubmit={handleCreate} className="space-y-1">
+        <div className="flex space-x-1">
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as InviteSummary['role'])}
+            className="flex-1 min-w-0 px-1 py-0.5 border border-gray-300 rounded"
+          >
+            <option value="editor">Editor</option>
+            <option value="viewer">Viewer</option>
+          </select>
+          <select
+            value={expiresInMs}
+            onChange={(e) => setExpiresInMs(Number(e.target.value))}
+            className="flex-1 min-w-0 px-1 py-0.5 border border-gray-300 rounded"
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex space-x-1">
+          <input
+            type="number"
+            min={1}
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            placeholder="Unlimited uses"
+            className="flex-1 min-w-0 px-1 py-0.5 border border-gray-300 rounded"
+          />
+          <button
+            type="submit"
+            className="px-2 py-0.5 bg-primary-500 text-white rounded hover:bg-primary-600"
+          >
+            Create
+          </button>
+        </div>
+      </form>
+
+      {lastLink && (
+        <div className="flex items-center space-x-1">
+          <code className="flex-1 truncate bg-gray-100 px-1 py-0.5 rounded" title={lastLink}>{lastLink}</code>
+          <button onClick={handleCopy} className="p-0.5 text-gray-500 hover:text-gray-800" title="Copy link">
+            <Copy size={12} />
+          </button>
+        </div>
+      )}
+
+      {invites.length > 0 && (
+        <ul className="space-y-1">
+          {invites.map((invite) => (
+            <li key={invite.id} className="flex items-center justify-between">
+              <span className="truncate">
+                {invite.role === 'editor' ? 'Editor' : 'Viewer'} • {invite.uses}
+                {invite.maxUses !== null ? `/${invite.maxUses}` : ''} used • until {formatExpiry(invite.expiresAt)}
+              </span>
+              <button
+                onClick={() => socketService.revokeInvite(invite.id)}
+                className="p-0.5 text-gray-500 hover:text-red-600"
+                title="Revoke"
+              >
+                <Trash2 size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { TerminalSquare, Square, Send, X } from 'lucide-react';
+import { socketService } from '../services/socket';
+import { CodeRun } from '../types';
+
+interface OutputPanelProps {
+  runs: CodeRun[];
+  currentUserId?: string;
+  isOwner: boolean;
+  isConnected: boolean;
+  // Input handed to the next program started from this client
+  programInput: string;
+  onProgramInputChange: (input: string) => void;
+  error: string | null;
+  onClose: () => void;
+}
+
+const REASONS: Record<NonNullable<CodeRun['reason']>, string> = {
+  timeout: 'Stopped: time limit reached',
+  'output-limit': 'Stopped: too much output',
+  cancelled: 'Stopped'
+};
+
+const describeStatus = (run: CodeRun): string => {
+  switch (run.status) {
+    case 'queued':
+      return 'Waiting for the previous run to finish...';
+    case 'running':
+      return 'Running...';
+    case 'failed':
+      return 'Could not run';
+    default:
+      if (run.reason) return REASONS[run.reason];
+      if (run.signal) return `Killed by ${run.signal}`;
+      return `Exited with code ${run.exitCode} in ${run.durationMs} ms`;
+  }
+};
+
+// Output of the programs run in the room, shared by everyone in it. The
+// newest run is shown unless another one has been picked.
+export const OutputPanel: React.FC<OutputPanelProps> = ({
+  runs,
+  currentUserId,
+  isOwner,
+  isConnected,
+  programInput,
+  onProgramInputChange,
+  error,
+  onClose
+}) => {
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [line, setLine] = useState('');
+  const outputEndRef = useRef<HTMLDivElement>(null);
+
+  const run = runs.find(r => r.id === selectedRunId) || runs[runs.length - 1] || null;
+  const isActive = run !== null && (run.status === 'queued' || run.status === 'running');
+  const isMine = run !== null && run.userId === currentUserId;
+
+  useEffect(() => {
+    outputEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [run]);
+
+  // Follow the newest run again when one is started
+  const latestRunId = runs[runs.length - 1]?.id;
+  useEffect(() => {
+    setSelectedRunId(null);
+  }, [latestRunId]);
+
+  const handleSendLine = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!run || !isConnected) return;
+    socketService.sendRunInput({ runId: run.id, text: `${line}\n` });
+    setLine('');
+  };
+
+  return (
+    <div className="h-64 flex flex-col border-t border-gray-700 bg-gray-900 text-gray-100">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-gray-700 bg-gray-800">
+        <div className="flex items-center space-x-2 min-w-0">
+          <TerminalSquare size={16} className="text-primary-500" />
+          <span className="text-sm font-semibold">Output</span>
+          {runs.length > 0 && (
+            <select
+              value={run?.id}
+              onChange={(e) => setSelectedRunId(e.target.value)}
+              className="bg-gray-700 text-xs rounded px-1 py-0.5 border-none focus:outline-none min-w-0"
+            >
+              {runs.map(r => (
+                <option key={r.id} value={r.id}>
+                  {r.fileName} by {r.userName} at {new Date(r.requestedAt).toLocaleTimeString()}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div className="flex items-center space-x-1">
+          {run && isActive && (isMine || isOwner) && (
+            <button
+              onClick={() => socketService.cancelRun(run.id)}
+              disabled={!isConnected}
+              className="flex items-center space-x-1 px-2 py-0.5 text-xs bg-red-600 rounded hover:bg-red-700 disabled:opacity-50"
+              title="Stop the program"
+            >
+              <Square size={12} />
+              <span>Stop</span>
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-200 rounded"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {/* Output */}
+      <div className="flex-1 overflow-y-auto px-3 py-2 font-mono text-xs">
+        {error && <div className="text-red-400 mb-1">{error}</div>}
+        {run ? (
+          <>
+            <pre className="whitespace-pre-wrap break-words">
+              {(run.output || []).map((part, index) => (
+                <span key={index} className={part.stream === 'stderr' ? 'text-red-400' : undefined}>
+                  {part.text}
+                </span>
+              ))}
+            </pre>
+            <div className={`mt-1 ${run.status === 'failed' || run.reason ? 'text-yellow-400' : 'text-gray-500'}`}>
+              {describeStatus(run)}
+            </div>
+          </>
+        ) : (
+          !error && <div className="text-gray-500">Press Run to execute the current file</div>
+        )}
+        <div ref={outputEndRef} />
+      </div>
+
+      {/* Input: live for our running program, otherwise for the next run */}
+      {run && isActive && isMine ? (
+        <form onSubmit={handleSendLine} className="flex items-center space-x-2 px-3 py-1.5 border-t border-gray-700">
+          <input
+            type="text"
+            value={line}
+            onChange={(e) => setLine(e.target.value)}
+            placeholder="Type a line for the program"
+            disabled={!isConnected}
+            className="flex-1 bg-gray-800 px-2 py-1 rounded text-xs font-mono focus:outline-none focus:ring-1 focus:ring-primary-500"
+          />
+          <button
+            type="submit"
+            disabled={!isConnected}
+            className="p-1 text-gray-300 hover:text-white disabled:opacity-50"
+            title="Send line"
+          >
+            <Send size={14} />
+          </button>
+          <button
+            type="button"
+            onClick={() => socketService.sendRunInput({ runId: run.id, end: true })}
+            disabled={!isConnected}
+            className="px-2 py-0.5 text-xs bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50"
+            title="Close the program's input"
+          >
+            End input
+          </button>
+        </form>
+      ) : (
+        <div className="px-3 py-1.5 border-t border-gray-700">
+          <textarea
+            value={programInput}
+            onChange={(e) => onProgramInputChange(e.target.value)}
+            placeholder="Input for the next run (stdin)"
+            rows={1}
+            className="w-full bg-gray-800 px-2 py-1 rounded text-xs font-mono resize-y focus:outline-none focus:ring-1 focus:ring-primary-500"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,318 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import Editor, { Monaco } from '@monaco-editor/react';
+import * as monaco from 'monaco-editor';
+import { Film, Play, Pause, SkipBack, SkipForward, Download, Upload, X, FileText } from 'lucide-react';
+import { ReplayTimeline, downloadRecording, readRecordingFile } from '../services/replay';
+import { classNameFor } from '../services/remoteCursors';
+import { Recording } from '../types';
+
+interface ReplayViewerProps {
+  recording: Recording;
+  // Replace the recording being shown with one opened from a file
+  onLoad: (recording: Recording) => void;
+  onClose: () => void;
+}
+
+const SPEEDS = [1, 2, 5, 10, 50];
+
+// Longest wait between two edits during playback, however long the authors
+// actually paused
+const MAX_PAUSE_MS = 1500;
+
+const formatTime = (timestamp: number | string) =>
+  new Date(timestamp).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+
+// Plays back how a room's files were written, one recorded edit at a time,
+// in a read-only editor. Text is tinted with the colour of whoever wrote it.
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ recording, onLoad, onClose }) => {
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(5);
+  const [viewedFileId, setViewedFileId] = useState<string | null>(recording.files[0]?.id ?? null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isEditorReady, setIsEditorReady] = useState(false);
+  const editorRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const decorationsRef = useRef<monaco.editor.IEditorDecorationsCollection | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { timeline, error } = useMemo(() => {
+    try {
+      return { timeline: new ReplayTimeline(recording), error: null };
+    } catch (e) {
+      return { timeline: null, error: (e as Error).message };
+    }
+  }, [recording]);
+
+  // Start over whenever another recording is opened
+  useEffect(() => {
+    setStep(0);
+    setIsPlaying(false);
+    setViewedFileId(recording.files[0]?.id ?? null);
+  }, [recording]);
+
+  const length = timeline?.length ?? 0;
+  const event = timeline?.eventAt(step) ?? null;
+  const author = timeline?.authorAt(step) ?? null;
+  const viewedFile = recording.files.find(f => f.id === viewedFileId) || null;
+
+  // Moving through the timeline shows the file that was just edited
+  const goTo = (next: number) => {
+    const target = Math.max(0, Math.min(next, length));
+    setStep(target);
+    const edited = timeline?.eventAt(target);
+    if (edited) setViewedFileId(edited.fileId);
+  };
+
+  // Wait as long as the authors did between edits, sped up
+  useEffect(() => {
+    if (!isPlaying || !timeline) return;
+    if (step >= timeline.length) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const previous = timeline.eventAt(step);
+    const next = timeline.eventAt(step + 1);
+    const gap = previous && next ? next.timestamp - previous.timestamp : 0;
+    const timer = setTimeout(() => {
+      setStep(step + 1);
+      if (next) setViewedFileId(next.fileId);
+    }, Math.min(Math.max(gap, 0) / speed, MAX_PAUSE_MS));
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, speed, timeline]);
+
+  // Show the viewed file as of the current step
+  useEffect(() => {
+    const editor = editorRef.current;
+    const monacoInstance = monacoRef.current;
+    const model = editor?.getModel();
+    const state = viewedFileId ? timeline?.stateAt(step).get(viewedFileId) : undefined;
+    if (!editor || !monacoInstance || !model || !timeline) return;
+
+    if (model.getValue() !== (state?.content ?? '')) {
+      model.setValue(state?.content ?? '');
+    }
+    monacoInstance.editor.setModelLanguage(model, viewedFile?.language || 'plaintext');
+
+    let offset = 0;
+    const decorations: monaco.editor.IModelDeltaDecoration[] = [];
+    for (const span of state?.spans ?? []) {
+      if (span.author !== null) {
+        const writer = timeline.authors[span.author];
+        const start = model.getPositionAt(offset);
+        const end = model.getPositionAt(offset + span.length);
+        decorations.push({
+          range: new monacoInstance.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+          options: {
+            className: `remote-cursor-selection ${classNameFor(writer.color)}-selection`,
+            hoverMessage: { value: writer.name }
+          }
+        });
+      }
+      offset += span.length;
+    }
+    decorationsRef.current?.set(decorations);
+
+    // Keep the latest edit in view
+    const latest = timeline.eventAt(step);
+    if (latest && latest.fileId === viewedFileId && latest.operations.length > 0) {
+      const position = model.getPositionAt(latest.operations[latest.operations.length - 1].position);
+      editor.revealPositionInCenterIfOutsideViewport(position);
+    }
+  }, [step, viewedFileId, viewedFile, timeline, isEditorReady]);
+
+  const handleEditorDidMount = (editor: monaco.editor.IStandaloneCodeEditor, monacoInstance: Monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monacoInstance;
+    decorationsRef.current = editor.createDecorationsCollection();
+    setIsEditorReady(true);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onLoad(await readRecordingFile(file));
+      setImportError(null);
+    } catch (err) {
+      setImportError((err as Error).message);
+    }
+  };
+
+  const togglePlaying = () => {
+    if (!isPlaying && step >= length) goTo(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-8">
+      <div className="bg-white rounded-lg shadow-xl w-full h-full flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
+          <div className="flex items-center space-x-2">
+            <Film size={20} className="text-primary-500" />
+            <div>
+              <h3 className="font-semibold text-gray-800">Replay: {recording.roomName}</h3>
+              <p className="text-xs text-gray-500">
+                Recorded {formatTime(recording.recordedAt)} • {length} {length === 1 ? 'edit' : 'edits'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            {importError && <span className="text-xs text-red-600">{importError}</span>}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center space-x-1 px-3 py-1 bg-gray-500 text-white rounded-md hover:bg-gray-600 text-sm"
+              title="Open a recording saved earlier"
+            >
+              <Upload size={14} />
+              <span>Open</span>
+            </button>
+            <button
+              onClick={() => downloadRecording(recording)}
+              className="flex items-center space-x-1 px-3 py-1 bg-primary-500 text-white rounded-md hover:bg-primary-600 text-sm"
+              title="Save this recording as a JSON file"
+            >
+              <Download size={14} />
+              <span>Export</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 text-gray-500 hover:text-gray-700 rounded"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Files */}
+          <div className="w-56 border-r border-gray-200 overflow-y-auto p-2 space-y-1">
+            {recording.files.map(file => (
+              <button
+                key={file.id}
+                onClick={() => setViewedFileId(file.id)}
+                className={`w-full flex items-center space-x-2 px-2 py-1 rounded text-left text-sm ${
+                  file.id === viewedFileId ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                <FileText size={14} className="flex-shrink-0" />
+                <span className="truncate">{file.path}</span>
+              </button>
+            ))}
+          </div>
+
+          {/* Document */}
+          <div className="flex-1 relative">
+            <Editor
+              height="100%"
+              defaultValue=""
+              onMount={handleEditorDidMount}
+              theme="vs-dark"
+              options={{
+                readOnly: true,
+                readOnlyMessage: { value: 'This is a replay' },
+                automaticLayout: true,
+                minimap: { enabled: false },
+                scrollBeyondLastLine: false,
+                wordWrap: 'on'
+              }}
+            />
+            {(error || !viewedFile) && (
+              <div className="absolute inset-0 flex items-center justify-center bg-gray-50 text-gray-500 text-sm">
+                {error || 'Pick a file to watch'}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Playback controls */}
+        <div className="p-3 border-t border-gray-200 bg-gray-50 space-y-2">
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => goTo(step - 1)}
+              disabled={!timeline || step === 0}
+              className="p-1 text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              title="Previous edit"
+            >
+              <SkipBack size={16} />
+            </button>
+            <button
+              onClick={togglePlaying}
+              disabled={!timeline || length === 0}
+              className="p-2 bg-primary-500 text-white rounded-full hover:bg-primary-600 disabled:opacity-50"
+              title={isPlaying ? 'Pause' : 'Play'}
+            >
+              {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+            </button>
+            <button
+              onClick={() => goTo(step + 1)}
+              disabled={!timeline || step >= length}
+              className="p-1 text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              title="Next edit"
+            >
+              <SkipForward size={16} />
+            </button>
+            <select
+              value={speed}
+              onChange={(e) => setSpeed(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              title="Playback speed"
+            >
+              {SPEEDS.map(value => (
+                <option key={value} value={value}>{value}x</option>
+              ))}
+            </select>
+            <input
+              type="range"
+              min={0}
+              max={length}
+              value={step}
+              onChange={(e) => goTo(Number(e.target.value))}
+              disabled={!timeline || length === 0}
+              className="flex-1"
+            />
+            <span className="text-sm text-gray-600 tabular-nums whitespace-nowrap">
+              {step} / {length}
+            </span>
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>
+              {event && author ? (
+                <>
+                  <span className="font-medium" style={{ color: author.color }}>{author.name}</span>
+                  {` edited ${recording.files.find(f => f.id === event.fileId)?.path ?? 'a file'} at ${formatTime(event.timestamp)}`}
+                </>
+              ) : 'Before the first recorded edit'}
+            </span>
+            <div className="flex items-center space-x-3">
+              {timeline?.authors.map(writer => (
+                <span key={`${writer.name}-${writer.color}`} className="flex items-center space-x-1">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: writer.color }} />
+                  <span>{writer.name}</span>
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
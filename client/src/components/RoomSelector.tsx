@@ -1,29 +1,45 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Users, Clock, ArrowRight, RefreshCw } from 'lucide-react';
+import { Plus, Users, Clock, ArrowRight, RefreshCw, Lock, Film } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
+import { JoinError } from '../types';
 
 interface Room {
   id: string;
   name: string;
   userCount: number;
+  hasPassword: boolean;
   lastActivity: Date;
 }
 
 interface RoomSelectorProps {
-  onJoinRoom: (roomId: string, userName: string) => void;
-  onCreateRoom: (roomName: string, userName: string) => void;
+  onJoinRoom: (roomId: string, userName: string, accessCode?: string) => void;
+  onCreateRoom: (roomName: string, userName: string, options: { password?: string; inviteOnly?: boolean }) => void;
+  // Replay a session recording exported from a room
+  onOpenRecording: (file: File) => void;
+  joinError: JoinError | null;
+  // Set when the page was opened from a /room/:roomId link
+  initialRoomId?: string;
+  isInvited?: boolean;
 }
 
 export const RoomSelector: React.FC<RoomSelectorProps> = ({
   onJoinRoom,
-  onCreateRoom
+  onCreateRoom,
+  onOpenRecording,
+  joinError,
+  initialRoomId,
+  isInvited
 }) => {
   const [userName, setUserName] = useState('');
   const [roomName, setRoomName] = useState('');
-  const [customRoomId, setCustomRoomId] = useState('');
+  const [customRoomId, setCustomRoomId] = useState(initialRoomId || '');
+  const [accessCode, setAccessCode] = useState('');
+  const [newRoomPassword, setNewRoomPassword] = useState('');
+  const [inviteOnly, setInviteOnly] = useState(false);
   const [availableRooms, setAvailableRooms] = useState<Room[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<'join' | 'create' | 'existing'>('join');
+  const [linkedRoomId, setLinkedRoomId] = useState<string | null>(initialRoomId || null);
 
   // Load existing rooms
   const loadRooms = async () => {
@@ -41,6 +57,14 @@ export const RoomSelector: React.FC<RoomSelectorProps> = ({
     }
   };
 
+  // A protected room asked for credentials: let the user supply them
+  useEffect(() => {
+    if (joinError) {
+      setActiveTab('join');
+      setCustomRoomId(joinError.roomId);
+    }
+  }, [joinError]);
+
   useEffect(() => {
     loadRooms();
     
@@ -59,7 +83,7 @@ export const RoomSelector: React.FC<RoomSelectorProps> = ({
 
     // Save user name
     localStorage.setItem('collaborativeEditor_userName', userName.trim());
-    onJoinRoom(roomId, userName.trim());
+    onJoinRoom(roomId, userName.trim(), accessCode.trim() || undefined);
   };
 
   const handleCreateRoom = () => {
@@ -75,7 +99,10 @@ export const RoomSelector: React.FC<RoomSelectorProps> = ({
 
     // Save user name
     localStorage.setItem('collaborativeEditor_userName', userName.trim());
-    onCreateRoom(roomName.trim(), userName.trim());
+    onCreateRoom(roomName.trim(), userName.trim(), {
+      password: newRoomPassword || undefined,
+      inviteOnly
+    });
   };
 
   const handleQuickJoin = () => {
@@ -111,6 +138,12 @@ export const RoomSelector: React.FC<RoomSelectorProps> = ({
             </p>
           </div>
 
+          {joinError && (
+            <div className="mb-6 px-4 py-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">
+              {joinError.message}
+            </div>
+          )}
+
           {/* User name input */}
           <div className="mb-8">
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -121,162 +154,245 @@ export const RoomSelector: React.FC<RoomSelectorProps> = ({
               value={userName}
               onChange={(e) => setUserName(e.target.value)}
               placeholder="Enter your display name"
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && linkedRoomId) handleJoinRoom(linkedRoomId);
+              }}
+              autoFocus={Boolean(linkedRoomId)}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
               maxLength={50}
             />
           </div>
 
-          {/* Tabs */}
-          <div className="mb-6">
-            <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
-              <button
-                onClick={() => setActiveTab('join')}
-                className={`flex-1 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                  activeTab === 'join'
-                    ? 'bg-white text-primary-600 shadow-sm'
-                    : 'text-gray-600 hover:text-gray-900'
-                }`}
-              >
-                Quick Join
-              </button>
+          {linkedRoomId ? (
+            // Opened from a room link: just ask for a name and go straight in
+            <div className="space-y-4">
+              <div className="px-4 py-3 bg-primary-50 border border-primary-200 rounded-lg text-sm text-primary-800">
+                {isInvited ? "You've been invited to join room " : 'Join room '}
+                <span className="font-mono">{linkedRoomId}</span>
+              </div>
+
+              {(!isInvited || joinError?.reason === 'password-required' || joinError?.reason === 'invalid-password') && (
+                <input
+                  type="password"
+                  value={accessCode}
+                  onChange={(e) => setAccessCode(e.target.value)}
+                  placeholder="Password or invite code (if the room needs one)"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  maxLength={200}
+                />
+              )}
+
               <button
-                onClick={() => setActiveTab('existing')}
-                className={`flex-1 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                  activeTab === 'existing'
-                    ? 'bg-white text-primary-600 shadow-sm'
-                    : 'text-gray-600 hover:text-gray-900'
-                }`}
+                onClick={() => handleJoinRoom(linkedRoomId)}
+                disabled={!userName.trim()}
+                className="w-full bg-primary-500 text-white px-6 py-3 rounded-lg font-medium hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
               >
-                Existing Rooms
+                <ArrowRight size={20} />
+                <span>Join Room</span>
               </button>
+
               <button
-                onClick={() => setActiveTab('create')}
-                className={`flex-1 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                  activeTab === 'create'
-                    ? 'bg-white text-primary-600 shadow-sm'
-                    : 'text-gray-600 hover:text-gray-900'
-                }`}
+                onClick={() => setLinkedRoomId(null)}
+                className="w-full text-sm text-gray-500 hover:text-gray-700"
               >
-                Create Room
+                Choose a different room
               </button>
             </div>
-          </div>
-
-          {/* Tab content */}
-          {activeTab === 'join' && (
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Room ID (Optional)
-                </label>
-                <input
-                  type="text"
-                  value={customRoomId}
-                  onChange={(e) => setCustomRoomId(e.target.value)}
-                  placeholder="Enter room ID or leave empty for random room"
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                />
-              </div>
-              
-              <div className="flex space-x-4">
+          ) : (
+            <>
+            {/* Tabs */}
+            <div className="mb-6">
+              <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
                 <button
-                  onClick={() => handleJoinRoom(customRoomId || uuidv4())}
-                  disabled={!userName.trim()}
-                  className="flex-1 bg-primary-500 text-white px-6 py-3 rounded-lg font-medium hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+                  onClick={() => setActiveTab('join')}
+                  className={`flex-1 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                    activeTab === 'join'
+                      ? 'bg-white text-primary-600 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
                 >
-                  <ArrowRight size={20} />
-                  <span>Join Room</span>
+                  Quick Join
                 </button>
-                
                 <button
-                  onClick={handleQuickJoin}
-                  disabled={!userName.trim()}
-                  className="px-6 py-3 border border-primary-500 text-primary-500 rounded-lg font-medium hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  onClick={() => setActiveTab('existing')}
+                  className={`flex-1 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                    activeTab === 'existing'
+                      ? 'bg-white text-primary-600 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
                 >
-                  Quick Join
+                  Existing Rooms
                 </button>
-              </div>
-            </div>
-          )}
-
-          {activeTab === 'existing' && (
-            <div>
-              <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-semibold text-gray-900">Available Rooms</h3>
                 <button
-                  onClick={loadRooms}
-                  disabled={isLoading}
-                  className="flex items-center space-x-1 px-3 py-1 text-sm text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                  onClick={() => setActiveTab('create')}
+                  className={`flex-1 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                    activeTab === 'create'
+                      ? 'bg-white text-primary-600 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
                 >
-                  <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
-                  <span>Refresh</span>
+                  Create Room
                 </button>
               </div>
+            </div>
+
+            {/* Tab content */}
+            {activeTab === 'join' && (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Room ID (Optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={customRoomId}
+                    onChange={(e) => setCustomRoomId(e.target.value)}
+                    placeholder="Enter room ID or leave empty for random room"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Password or Invite Code (Optional)
+                  </label>
+                  <input
+                    type="password"
+                    value={accessCode}
+                    onChange={(e) => setAccessCode(e.target.value)}
+                    placeholder="Only needed for protected rooms"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    maxLength={200}
+                  />
+                </div>
               
-              <div className="space-y-2 max-h-64 overflow-y-auto">
-                {availableRooms.length === 0 ? (
-                  <div className="text-center py-8 text-gray-500">
-                    No active rooms found. Create one to get started!
-                  </div>
-                ) : (
-                  availableRooms.map((room) => (
-                    <div
-                      key={room.id}
-                      className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
-                    >
-                      <div className="flex-1">
-                        <h4 className="font-medium text-gray-900">{room.name}</h4>
-                        <div className="flex items-center space-x-4 text-sm text-gray-500 mt-1">
-                          <div className="flex items-center space-x-1">
-                            <Users size={14} />
-                            <span>{room.userCount} users</span>
-                          </div>
-                          <div className="flex items-center space-x-1">
-                            <Clock size={14} />
-                            <span>{formatLastActivity(room.lastActivity)}</span>
+                <div className="flex space-x-4">
+                  <button
+                    onClick={() => handleJoinRoom(customRoomId || uuidv4())}
+                    disabled={!userName.trim()}
+                    className="flex-1 bg-primary-500 text-white px-6 py-3 rounded-lg font-medium hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+                  >
+                    <ArrowRight size={20} />
+                    <span>Join Room</span>
+                  </button>
+                
+                  <button
+                    onClick={handleQuickJoin}
+                    disabled={!userName.trim()}
+                    className="px-6 py-3 border border-primary-500 text-primary-500 rounded-lg font-medium hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Quick Join
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {activeTab === 'existing' && (
+              <div>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Available Rooms</h3>
+                  <button
+                    onClick={loadRooms}
+                    disabled={isLoading}
+                    className="flex items-center space-x-1 px-3 py-1 text-sm text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                  >
+                    <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+                    <span>Refresh</span>
+                  </button>
+                </div>
+              
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {availableRooms.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      No active rooms found. Create one to get started!
+                    </div>
+                  ) : (
+                    availableRooms.map((room) => (
+                      <div
+                        key={room.id}
+                        className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+                      >
+                        <div className="flex-1">
+                          <h4 className="font-medium text-gray-900 flex items-center space-x-1">
+                            <span>{room.name}</span>
+                            {room.hasPassword && <Lock size={14} className="text-gray-400" />}
+                          </h4>
+                          <div className="flex items-center space-x-4 text-sm text-gray-500 mt-1">
+                            <div className="flex items-center space-x-1">
+                              <Users size={14} />
+                              <span>{room.userCount} users</span>
+                            </div>
+                            <div className="flex items-center space-x-1">
+                              <Clock size={14} />
+                              <span>{formatLastActivity(room.lastActivity)}</span>
+                            </div>
                           </div>
                         </div>
-                      </div>
                       
-                      <button
-                        onClick={() => handleJoinRoom(room.id)}
-                        disabled={!userName.trim()}
-                        className="px-4 py-2 bg-primary-500 text-white rounded-lg text-sm font-medium hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                      >
-                        Join
-                      </button>
-                    </div>
-                  ))
-                )}
+                        <button
+                          onClick={() => handleJoinRoom(room.id)}
+                          disabled={!userName.trim()}
+                          className="px-4 py-2 bg-primary-500 text-white rounded-lg text-sm font-medium hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          Join
+                        </button>
+                      </div>
+                    ))
+                  )}
+                </div>
               </div>
-            </div>
-          )}
+            )}
 
-          {activeTab === 'create' && (
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Room Name
+            {activeTab === 'create' && (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Room Name
+                  </label>
+                  <input
+                    type="text"
+                    value={roomName}
+                    onChange={(e) => setRoomName(e.target.value)}
+                    placeholder="Enter a name for your room"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    maxLength={100}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Password (Optional)
+                  </label>
+                  <input
+                    type="password"
+                    value={newRoomPassword}
+                    onChange={(e) => setNewRoomPassword(e.target.value)}
+                    placeholder="Leave empty for an open room"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    maxLength={200}
+                  />
+                </div>
+
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={inviteOnly}
+                    onChange={(e) => setInviteOnly(e.target.checked)}
+                  />
+                  <span>Invite only (hidden from the room list)</span>
                 </label>
-                <input
-                  type="text"
-                  value={roomName}
-                  onChange={(e) => setRoomName(e.target.value)}
-                  placeholder="Enter a name for your room"
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                  maxLength={100}
-                />
-              </div>
               
-              <button
-                onClick={handleCreateRoom}
-                disabled={!userName.trim() || !roomName.trim()}
-                className="w-full bg-primary-500 text-white px-6 py-3 rounded-lg font-medium hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
-              >
-                <Plus size={20} />
-                <span>Create Room</span>
-              </button>
-            </div>
+                <button
+                  onClick={handleCreateRoom}
+                  disabled={!userName.trim() || !roomName.trim()}
+                  className="w-full bg-primary-500 text-white px-6 py-3 rounded-lg font-medium hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+                >
+                  <Plus size={20} />
+                  <span>Create Room</span>
+                </button>
+              </div>
+            )}
+            </>
           )}
         </div>
 
@@ -285,6 +401,20 @@ export const RoomSelector: React.FC<RoomSelectorProps> = ({
           <p>
             Features: Real-time editing • Multi-user collaboration • Integrated chat • AI assistance
           </p>
+          <label className="inline-flex items-center space-x-1 mt-2 text-primary-600 hover:text-primary-700 cursor-pointer">
+            <Film size={14} />
+            <span>Replay a saved session recording</span>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) onOpenRecording(file);
+              }}
+              className="hidden"
+            />
+          </label>
         </div>
       </div>
     </div>
@@ -0,0 +1,206 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Terminal } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import { Terminal as TerminalIcon, Play, Square, X } from 'lucide-react';
+import '@xterm/xterm/css/xterm.css';
+import { socketService } from '../services/socket';
+import { TerminalInputBuffer } from '../services/terminalInput';
+import { TerminalState } from '../types';
+
+interface TerminalPanelProps {
+  // Editors type into the shell and decide its size; viewers only watch
+  canType: boolean;
+  isConnected: boolean;
+  onClose: () => void;
+}
+
+// The room's shared shell. The server keeps one terminal per room and sends
+// the same screen to everyone, so the panel shows it at the room's size
+// rather than its own.
+export const TerminalPanel: React.FC<TerminalPanelProps> = ({
+  canType,
+  isConnected,
+  onClose
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const terminalRef = useRef<Terminal | null>(null);
+  const fitRef = useRef<FitAddon | null>(null);
+  const canTypeRef = useRef(canType);
+  const runningRef = useRef(false);
+  const [state, setState] = useState<Pick<TerminalState, 'enabled' | 'running'> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    canTypeRef.current = canType;
+  }, [canType]);
+
+  useEffect(() => {
+    const terminal = new Terminal({
+      cursorBlink: true,
+      fontSize: 12,
+      fontFamily: 'Menlo, Monaco, "Courier New", monospace',
+      theme: { background: '#111827' }
+    });
+    const fit = new FitAddon();
+    terminal.loadAddon(fit);
+    if (containerRef.current) {
+      terminal.open(containerRef.current);
+    }
+    terminalRef.current = terminal;
+    fitRef.current = fit;
+
+    const buffer = new TerminalInputBuffer(data => socketService.sendTerminalInput(data));
+    const input = terminal.onData((data) => {
+      if (canTypeRef.current && runningRef.current) {
+        buffer.write(data);
+      }
+    });
+
+    return () => {
+      input.dispose();
+      buffer.dispose();
+      terminal.dispose();
+      terminalRef.current = null;
+      fitRef.current = null;
+    };
+  }, []);
+
+  // Editors size the shared terminal to fit their panel
+  const fitToPanel = useCallback(() => {
+    const terminal = terminalRef.current;
+    const size = fitRef.current?.proposeDimensions();
+    if (!terminal || !size || !canTypeRef.current) return;
+
+    if (size.cols !== terminal.cols || size.rows !== terminal.rows) {
+      terminal.resize(size.cols, size.rows);
+      if (runningRef.current) {
+        socketService.resizeTerminal({ cols: size.cols, rows: size.rows });
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(() => fitToPanel());
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [fitToPanel]);
+
+  useEffect(() => {
+    socketService.onTerminalState((next) => {
+      const terminal = terminalRef.current;
+      if (!terminal) return;
+
+      runningRef.current = next.running;
+      setState({ enabled: next.enabled, running: next.running });
+      setError(null);
+      terminal.reset();
+      terminal.resize(next.cols, next.rows);
+      terminal.write(next.scrollback);
+      fitToPanel();
+    });
+
+    socketService.onTerminalOutput(({ data }) => {
+      terminalRef.current?.write(data);
+    });
+
+    socketService.onTerminalExit(() => {
+      runningRef.current = false;
+      setState(prev => prev && { ...prev, running: false });
+      terminalRef.current?.write('\r\n[Shell exited]\r\n');
+    });
+
+    socketService.onTerminalResize(({ cols, rows }) => {
+      terminalRef.current?.resize(cols, rows);
+    });
+
+    socketService.onTerminalError(({ message }) => {
+      setError(message);
+    });
+
+    return () => {
+      socketService.removeListener('terminal-state');
+      socketService.removeListener('terminal-output');
+      socketService.removeListener('terminal-exit');
+      socketService.removeListener('terminal-resize');
+      socketService.removeListener('terminal-error');
+      socketService.detachTerminal();
+    };
+  }, [fitToPanel]);
+
+  // Attach on open and again after a reconnect, which redraws the screen
+  useEffect(() => {
+    if (isConnected) {
+      socketService.attachTerminal();
+    }
+  }, [isConnected]);
+
+  const handleStart = () => {
+    const terminal = terminalRef.current;
+    if (!terminal) return;
+
+    const size = fitRef.current?.proposeDimensions();
+    socketService.startTerminal({
+      cols: size?.cols ?? terminal.cols,
+      rows: size?.rows ?? terminal.rows
+    });
+    terminal.focus();
+  };
+
+  const running = state?.running ?? false;
+
+  return (
+    <div className="h-64 flex flex-col border-t border-gray-700 bg-gray-900 text-gray-100">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-gray-700 bg-gray-800">
+        <div className="flex items-center space-x-2">
+          <TerminalIcon size={16} className="text-primary-500" />
+          <span className="text-sm font-semibold">Terminal</span>
+          <span className="text-xs text-gray-400">
+            {!state
+              ? 'Connecting...'
+              : !state.enabled
+                ? 'Disabled on this server'
+                : running
+                  ? canType ? 'Shared with the room' : 'Read only'
+                  : 'Not running'}
+          </span>
+          {error && <span className="text-xs text-red-400">{error}</span>}
+        </div>
+        <div className="flex items-center space-x-1">
+          {canType && state?.enabled && (running ? (
+            <button
+              onClick={() => socketService.killTerminal()}
+              disabled={!isConnected}
+              className="flex items-center space-x-1 px-2 py-0.5 text-xs bg-red-600 rounded hover:bg-red-700 disabled:opacity-50"
+              title="Stop the shell for everyone"
+            >
+              <Square size={12} />
+              <span>Stop</span>
+            </button>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={!isConnected}
+              className="flex items-center space-x-1 px-2 py-0.5 text-xs bg-green-600 rounded hover:bg-green-700 disabled:opacity-50"
+              title="Start a shell in the room's scratch directory"
+            >
+              <Play size={12} />
+              <span>Start shell</span>
+            </button>
+          ))}
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-200 rounded"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="flex-1 overflow-auto px-2 py-1" />
+    </div>
+  );
+};
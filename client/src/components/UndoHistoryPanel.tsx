@@ -0,0 +1,120 @@
+import React from 'react';
+import { Undo2, Redo2, X } from 'lucide-react';
+import { UndoStep } from '../services/undoHistory';
+
+interface UndoHistoryPanelProps {
+  fileName: string | null;
+  undo: UndoStep[];
+  redo: UndoStep[];
+  canEdit: boolean;
+  // Undo or redo this many steps at once
+  onUndo: (count: number) => void;
+  onRedo: (count: number) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_CHARS = 24;
+
+const preview = (text: string) => {
+  const shown = text.replace(/\n/g, '⏎').replace(/\t/g, '⇥');
+  return shown.length > PREVIEW_CHARS ? `${shown.slice(0, PREVIEW_CHARS)}…` : shown;
+};
+
+const characters = (count: number) => `${count} ${count === 1 ? 'character' : 'characters'}`;
+
+function describeStep({ inserted, deleted }: UndoStep): string {
+  if (inserted && deleted) return `Replaced ${characters(deleted)} with "${preview(inserted)}"`;
+  if (inserted) return `Typed "${preview(inserted)}"`;
+  return `Deleted ${characters(deleted)}`;
+}
+
+// Our own edits to the active file, newest at the top, with the ones we
+// have undone above them. Picking a step undoes or redoes everything up to
+// and including it; other people's edits are left alone either way.
+export const UndoHistoryPanel: React.FC<UndoHistoryPanelProps> = ({
+  fileName,
+  undo,
+  redo,
+  canEdit,
+  onUndo,
+  onRedo,
+  onClose
+}) => {
+  // The redo stack is listed oldest undo first, so the next step to redo
+  // sits right above the current state
+  const undone = [...redo].reverse();
+
+  return (
+    <div className="bg-white border-l border-gray-200 w-64 flex flex-col">
+      {/* Header */}
+      <div className="p-3 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+        <div className="min-w-0">
+          <h3 className="font-semibold text-gray-800 text-sm">My edits</h3>
+          <p className="text-xs text-gray-500 truncate">{fileName ?? 'No file open'}</p>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => onUndo(1)}
+            disabled={!canEdit || undo.length === 0}
+            className="p-1 rounded text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+            title="Undo (Ctrl/Cmd+Z)"
+          >
+            <Undo2 size={16} />
+          </button>
+          <button
+            onClick={() => onRedo(1)}
+            disabled={!canEdit || redo.length === 0}
+            className="p-1 rounded text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+            title="Redo (Ctrl/Cmd+Shift+Z)"
+          >
+            <Redo2 size={16} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-gray-500 hover:bg-gray-200"
+            title="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Steps */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {undo.length === 0 && redo.length === 0 ? (
+          <div className="flex items-center justify-center h-32 px-4 text-center text-gray-500 text-sm">
+            Your edits to this file will show up here
+          </div>
+        ) : (
+          <>
+            {undone.map((step, index) => (
+              <button
+                key={step.id}
+                onClick={() => onRedo(undone.length - index)}
+                disabled={!canEdit}
+                className="w-full text-left p-2 rounded-lg bg-gray-50 hover:bg-gray-100 disabled:cursor-not-allowed"
+                title="Redo up to here"
+              >
+                <div className="text-sm text-gray-400 line-through truncate">{describeStep(step)}</div>
+                <div className="text-xs text-gray-400">{new Date(step.timestamp).toLocaleTimeString()}</div>
+              </button>
+            ))}
+            {undone.length > 0 && undo.length > 0 && <div className="border-t border-primary-300 my-1" />}
+            {undo.map((step, index) => (
+              <button
+                key={step.id}
+                onClick={() => onUndo(index + 1)}
+                disabled={!canEdit}
+                className="w-full text-left p-2 rounded-lg bg-gray-50 hover:bg-gray-100 disabled:cursor-not-allowed"
+                title="Undo back to before this"
+              >
+                <div className="text-sm text-gray-800 truncate">{describeStep(step)}</div>
+                <div className="text-xs text-gray-500">{new Date(step.timestamp).toLocaleTimeString()}</div>
+              </button>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
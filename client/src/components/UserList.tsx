@@ -1,18 +1,61 @@
 import React from 'react';
-import { Users, Crown } from 'lucide-react';
-import { User } from '../types';
+import { Users, Crown, Eye, ArrowUp, ArrowDown, UserX, Copy, KeyRound, LocateFixed, Presentation } from 'lucide-react';
+import { socketService } from '../services/socket';
+import { InviteLinks } from './InviteLinks';
+import { User, FileNode, Role, RoomAccess, Presence, PresenceStatus } from '../types';
 
 interface UserListProps {
+  roomId: string;
   users: User[];
+  files: FileNode[];
   currentUserId?: string;
+  currentUserRole?: Role;
+  access: RoomAccess | null;
   isConnected: boolean;
+  followedUserId: string | null;
+  onFollow: (userId: string | null) => void;
+  // The owner everyone has been asked to follow
+  presenterId: string | null;
 }
 
+const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer'
+};
+
+const STATUS_LABELS: Record<PresenceStatus, string> = {
+  active: 'Active',
+  idle: 'Idle',
+  away: 'Away'
+};
+
+const STATUS_COLORS: Record<PresenceStatus, string> = {
+  active: 'text-green-600',
+  idle: 'text-amber-600',
+  away: 'text-gray-400'
+};
+
+const describePresence = ({ status, typing }: Presence) => {
+  if (typing === 'editor') return 'Typing in the editor';
+  if (typing === 'chat') return 'Typing in chat';
+  return STATUS_LABELS[status];
+};
+
 export const UserList: React.FC<UserListProps> = ({
+  roomId,
   users,
+  files,
   currentUserId,
-  isConnected
+  currentUserRole,
+  access,
+  isConnected,
+  followedUserId,
+  onFollow,
+  presenterId
 }) => {
+  const canManage = currentUserRole === 'owner' && isConnected;
+
   const formatJoinTime = (joinedAt: Date) => {
     const date = new Date(joinedAt);
     const now = new Date();
@@ -29,6 +72,42 @@ export const UserList: React.FC<UserListProps> = ({
 
   const isCurrentUser = (userId: string) => userId === currentUserId;
 
+  const fileName = (fileId: string | null) =>
+    files.find(file => file.id === fileId)?.name;
+
+  const handleKick = (user: User) => {
+    // Nothing keeps them from joining an open room again
+    const warning = access && !access.hasPassword && !access.inviteOnly
+      ? ' Anyone can join this room, so they can come straight back unless you set a password or make it invite only.'
+      : '';
+    if (window.confirm(`Remove ${user.name} from the room?${warning}`)) {
+      socketService.kickUser(user.id);
+    }
+  };
+
+  const handleSetPassword = () => {
+    const password = window.prompt('New room password');
+    if (password) {
+      socketService.updateRoomAccess({ password });
+    }
+  };
+
+  // Regenerating invalidates the previous invite code
+  const handleNewInvite = () => {
+    if (!access?.inviteToken || window.confirm('Create a new invite code? The current one will stop working.')) {
+      socketService.updateRoomAccess({ regenerateInvite: true });
+    }
+  };
+
+  const handleCopyInvite = async () => {
+    if (!access?.inviteToken) return;
+    try {
+      await navigator.clipboard.writeText(access.inviteToken);
+    } catch (error) {
+      console.error('Failed to copy invite code:', error);
+    }
+  };
+
   return (
     <div className="bg-white border-l border-gray-200 w-64 flex flex-col">
       {/* Header */}
@@ -63,7 +142,10 @@ export const UserList: React.FC<UserListProps> = ({
                   {/* User avatar */}
                   <div className="relative">
                     <div
-                      className="w-10 h-10 rounded-full flex items-center justify-center text-white font-semibold text-sm user-indicator"
+                      className={`w-10 h-10 rounded-full flex items-center justify-center text-white font-semibold text-sm user-indicator ${
+                        user.presence.status === 'active' ? '' : `user-indicator-${user.presence.status}`
+                      }`}
+                      title={STATUS_LABELS[user.presence.status]}
                       style={{ backgroundColor: user.color }}
                     >
                       {user.name.charAt(0).toUpperCase()}
@@ -76,41 +158,168 @@ export const UserList: React.FC<UserListProps> = ({
                       <span className="font-medium text-gray-800 truncate">
                         {user.name}
                       </span>
-                      {isCurrentUser(user.id) && (
-                        <Crown size={12} className="text-primary-500 flex-shrink-0" />
+                      {user.role === 'owner' && (
+                        <span title="Owner"><Crown size={12} className="text-primary-500 flex-shrink-0" /></span>
+                      )}
+                      {user.role === 'viewer' && (
+                        <span title="Viewer"><Eye size={12} className="text-gray-400 flex-shrink-0" /></span>
+                      )}
+                      {user.id === presenterId && (
+                        <span title="Presenting"><Presentation size={12} className="text-primary-500 flex-shrink-0" /></span>
                       )}
                     </div>
                     
                     <div className="text-xs text-gray-500 space-y-1">
                       <div>Joined {formatJoinTime(user.joinedAt)}</div>
-                      <div>
+                      <div className="truncate">
+                        {fileName(user.cursor.fileId) ? `${fileName(user.cursor.fileId)} • ` : ''}
                         Line {user.cursor.line}, Col {user.cursor.column}
+                        {user.cursor.anchor !== user.cursor.offset &&
+                          ` • ${Math.abs(user.cursor.anchor - user.cursor.offset)} selected`}
                       </div>
+                      {user.cursor.viewport && (
+                        <div>
+                          Viewing lines {user.cursor.viewport.startLine}–{user.cursor.viewport.endLine}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
 
                 {/* User status indicator */}
-                <div className="mt-2 flex items-center space-x-2">
-                  <div className="flex-1 bg-gray-200 rounded-full h-1">
-                    <div
-                      className="h-1 rounded-full"
-                      style={{
-                        backgroundColor: user.color,
-                        width: '100%'
-                      }}
-                    />
-                  </div>
+                <div className="mt-2 flex items-center justify-between space-x-2">
+                  <span className={`flex items-center space-x-1 text-xs ${STATUS_COLORS[user.presence.status]}`}>
+                    {user.presence.typing && (
+                      <span className="typing-dots"><span /><span /><span /></span>
+                    )}
+                    <span>{describePresence(user.presence)}</span>
+                  </span>
                   <span className="text-xs text-gray-400">
-                    {isCurrentUser(user.id) ? 'You' : 'Active'}
+                    {isCurrentUser(user.id) ? `You • ${ROLE_LABELS[user.role]}` : ROLE_LABELS[user.role]}
                   </span>
                 </div>
+
+                {/* Follow someone, or present to everyone */}
+                <div className="mt-2 flex items-center justify-end">
+                  {!isCurrentUser(user.id) ? (
+                    <button
+                      onClick={() => onFollow(followedUserId === user.id ? null : user.id)}
+                      className={`flex items-center space-x-1 px-2 py-0.5 text-xs rounded ${
+                        followedUserId === user.id
+                          ? 'bg-primary-500 text-white hover:bg-primary-600'
+                          : 'text-gray-600 hover:text-gray-900 hover:bg-gray-200'
+                      }`}
+                      title={followedUserId === user.id ? 'Stop following' : `Keep ${user.name}'s view on screen`}
+                    >
+                      <LocateFixed size={12} />
+                      <span>{followedUserId === user.id ? 'Following' : 'Follow'}</span>
+                    </button>
+                  ) : canManage && (
+                    <button
+                      onClick={() => user.id === presenterId
+                        ? socketService.stopPresenting()
+                        : socketService.startPresenting()}
+                      className={`flex items-center space-x-1 px-2 py-0.5 text-xs rounded ${
+                        user.id === presenterId
+                          ? 'bg-primary-500 text-white hover:bg-primary-600'
+                          : 'text-gray-600 hover:text-gray-900 hover:bg-gray-200'
+                      }`}
+                      title={user.id === presenterId ? 'Stop presenting' : 'Ask everyone to follow you'}
+                    >
+                      <Presentation size={12} />
+                      <span>{user.id === presenterId ? 'Presenting' : 'Present'}</span>
+                    </button>
+                  )}
+                </div>
+
+                {/* Owner controls */}
+                {canManage && !isCurrentUser(user.id) && user.role !== 'owner' && (
+                  <div className="mt-2 flex items-center justify-end space-x-1">
+                    {user.role === 'viewer' ? (
+                      <button
+                        onClick={() => socketService.changeUserRole(user.id, 'editor')}
+                        className="flex items-center space-x-1 px-2 py-0.5 text-xs text-gray-600 hover:text-gray-900 hover:bg-gray-200 rounded"
+                        title="Allow editing"
+                      >
+                        <ArrowUp size={12} />
+                        <span>Editor</span>
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => socketService.changeUserRole(user.id, 'viewer')}
+                        className="flex items-center space-x-1 px-2 py-0.5 text-xs text-gray-600 hover:text-gray-900 hover:bg-gray-200 rounded"
+                        title="Make read-only"
+                      >
+                        <ArrowDown size={12} />
+                        <span>Viewer</span>
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleKick(user)}
+                      className="flex items-center space-x-1 px-2 py-0.5 text-xs text-red-600 hover:bg-red-50 rounded"
+                      title="Remove from room"
+                    >
+                      <UserX size={12} />
+                      <span>Kick</span>
+                    </button>
+                  </div>
+                )}
               </div>
             ))}
           </div>
         )}
       </div>
 
+      {/* Room access settings for the owner */}
+      {canManage && access && (
+        <div className="p-3 border-t border-gray-200 space-y-2 text-xs text-gray-700">
+          <div className="flex items-center space-x-1 font-semibold text-gray-800">
+            <KeyRound size={12} />
+            <span>Room access</span>
+          </div>
+
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={access.inviteOnly}
+              onChange={(e) => socketService.updateRoomAccess({ inviteOnly: e.target.checked })}
+            />
+            <span>Invite only</span>
+          </label>
+
+          <div className="flex items-center justify-between">
+            <span>{access.hasPassword ? 'Password set' : 'No password'}</span>
+            <div className="space-x-2">
+              <button onClick={handleSetPassword} className="text-primary-600 hover:underline">
+                {access.hasPassword ? 'Change' : 'Set'}
+              </button>
+              {access.hasPassword && (
+                <button
+                  onClick={() => socketService.updateRoomAccess({ password: null })}
+                  className="text-red-600 hover:underline"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          </div>
+
+          {access.inviteToken && (
+            <div className="flex items-center space-x-1">
+              <code className="flex-1 truncate bg-gray-100 px-1 py-0.5 rounded">{access.inviteToken}</code>
+              <button onClick={handleCopyInvite} className="p-0.5 text-gray-500 hover:text-gray-800" title="Copy invite code">
+                <Copy size={12} />
+              </button>
+            </div>
+          )}
+          <button onClick={handleNewInvite} className="text-primary-600 hover:underline">
+            New invite code
+          </button>
+
+          <InviteLinks roomId={roomId} invites={access.invites || []} />
+        </div>
+      )}
+
       {/* Footer with room info */}
       <div className="p-3 border-t border-gray-200 bg-gray-50">
         <div className="text-xs text-gray-500 text-center">
@@ -0,0 +1,129 @@
+import * as monaco from 'monaco-editor';
+import { Monaco } from '@monaco-editor/react';
+import { CommentRange } from './documentSession';
+
+export interface CommentMarker extends CommentRange {
+  resolved: boolean;
+}
+
+// Where the open thread (or a new comment being written) is shown; `key`
+// tells threads apart so the zone is only rebuilt when another one opens
+export interface CommentZoneTarget {
+  key: string;
+  offset: number;
+}
+
+// Events the editor would otherwise take for itself: typing in the reply box
+// must not reach its keybindings, and clicks must not move the caret
+const CAPTURED_EVENTS = ['keydown', 'keypress', 'keyup', 'mousedown', 'pointerdown', 'contextmenu'];
+
+// Draws review threads into an editor: a glyph in the gutter where each one
+// starts, a highlight over the code of the open ones, and a view zone under
+// the code of the thread being read. The zone's content is rendered by React
+// into `container`; the layer only places it and keeps it as tall as that
+// content. Ranges come from the document session; call render again whenever
+// they, the threads or the editor's model change.
+export class CommentLayer {
+  readonly container: HTMLDivElement;
+  private readonly decorations: monaco.editor.IEditorDecorationsCollection;
+  private readonly zoneNode: HTMLDivElement;
+  private readonly resizeObserver: ResizeObserver;
+  private zone: { id: string; key: string; zone: monaco.editor.IViewZone } | null = null;
+
+  constructor(
+    private readonly editor: monaco.editor.IStandaloneCodeEditor,
+    private readonly monacoInstance: Monaco
+  ) {
+    this.decorations = editor.createDecorationsCollection();
+
+    this.zoneNode = document.createElement('div');
+    this.zoneNode.className = 'comment-zone';
+    CAPTURED_EVENTS.forEach(type => this.zoneNode.addEventListener(type, e => e.stopPropagation()));
+    this.container = document.createElement('div');
+    this.zoneNode.appendChild(this.container);
+
+    this.resizeObserver = new ResizeObserver(() => this.fitZone());
+    this.resizeObserver.observe(this.container);
+  }
+
+  render(markers: CommentMarker[], target: CommentZoneTarget | null): void {
+    const model = this.editor.getModel();
+    if (!model) {
+      this.clear();
+      return;
+    }
+
+    const { Range, editor: editorApi } = this.monacoInstance;
+    const stickiness = editorApi.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges;
+
+    const decorations = markers.flatMap((marker): monaco.editor.IModelDeltaDecoration[] => {
+      const start = model.getPositionAt(marker.start);
+      const end = model.getPositionAt(marker.end);
+      const isOpen = target?.key === marker.threadId;
+      const result: monaco.editor.IModelDeltaDecoration[] = [{
+        range: new Range(start.lineNumber, 1, start.lineNumber, 1),
+        options: {
+          glyphMarginClassName: marker.resolved ? 'comment-glyph comment-glyph-resolved' : 'comment-glyph',
+          glyphMarginHoverMessage: { value: marker.resolved ? 'Resolved comment' : 'Comment' },
+          stickiness
+        }
+      }];
+
+      if (!marker.resolved || isOpen) {
+        result.push({
+          range: new Range(start.lineNumber, start.column, end.lineNumber, end.column),
+          options: {
+            className: isOpen ? 'comment-range comment-range-open' : 'comment-range',
+            stickiness,
+            overviewRuler: { color: '#eab308', position: editorApi.OverviewRulerLane.Left }
+          }
+        });
+      }
+      return result;
+    });
+    this.decorations.set(decorations);
+
+    this.placeZone(target && model.getPositionAt(target.offset).lineNumber, target?.key ?? null);
+  }
+
+  clear(): void {
+    this.decorations.clear();
+    this.placeZone(null, null);
+  }
+
+  dispose(): void {
+    this.clear();
+    this.resizeObserver.disconnect();
+  }
+
+  // Show the zone below `lineNumber`, or remove it when there is none
+  private placeZone(lineNumber: number | null, key: string | null): void {
+    const current = this.zone;
+    if (current && current.key === key && current.zone.afterLineNumber === lineNumber) return;
+
+    this.editor.changeViewZones((accessor) => {
+      if (current) {
+        accessor.removeZone(current.id);
+        this.zone = null;
+      }
+      if (lineNumber === null || key === null) return;
+
+      const zone: monaco.editor.IViewZone = {
+        afterLineNumber: lineNumber,
+        heightInPx: Math.max(this.container.offsetHeight, 1),
+        domNode: this.zoneNode,
+        suppressMouseDown: true
+      };
+      this.zone = { id: accessor.addZone(zone), key, zone };
+    });
+  }
+
+  private fitZone(): void {
+    const current = this.zone;
+    const height = this.container.offsetHeight;
+    if (!current || height === current.zone.heightInPx) return;
+
+    current.zone.heightInPx = height;
+    this.editor.changeViewZones(accessor => accessor.layoutZone(current.id));
+  }
+}
@@ -0,0 +1,366 @@
+import * as monaco from 'monaco-editor';
+import { applyOperations, decodeOperations, transformOffset, transformRange } from 'collaborative-code-editor-shared';
+import { OTClient } from './otClient';
+import { UndoHistory, UndoStep } from './undoHistory';
+import { TextOperation, OperationSubmission, RevisionedOperation, CursorPosition, Viewport } from '../types';
+
+type SendOperation = (submission: OperationSubmission) => void;
+
+// Another user's caret and selection, as offsets into this session's content
+export interface RemoteCursor {
+  userId: string;
+  userName: string;
+  color: string;
+  offset: number;
+  anchor: number;
+  // What they can see of the file, if they said
+  viewport: Viewport | null;
+}
+
+// A review thread's range, as offsets into this session's content
+export interface CommentRange {
+  threadId: string;
+  start: number;
+  end: number;
+}
+
+// Monaco reports each change as a replace against the pre-change model;
+// applying them from the end of the document backwards keeps offsets valid
+const toTextOperations = (changes: monaco.editor.IModelContentChange[]): TextOperation[] =>
+  [...changes]
+    .sort((a, b) => b.rangeOffset - a.rangeOffset)
+    .flatMap((change) => {
+      const operations: TextOperation[] = [];
+      if (change.rangeLength > 0) {
+        operations.push({ type: 'delete', position: change.rangeOffset, content: '', length: change.rangeLength });
+      }
+      if (change.text) {
+        operations.push({ type: 'insert', position: change.rangeOffset, content: change.text, length: change.text.length });
+      }
+      return operations;
+    });
+
+// Keeps one workspace file in sync with the server. Until a Monaco model is
+// attached the text lives in a plain string, so remote edits to files that
+// were never opened are still applied and stay convergent. Undo and redo are
+// ours too rather than Monaco's, whose stack would take back other people's
+// edits along with ours.
+export class DocumentSession {
+  readonly fileId: string;
+  // The text as of the last change we saw, which local edits are made against
+  private content: string;
+  private model: monaco.editor.ITextModel | null = null;
+  private modelListener: monaco.IDisposable | null = null;
+  private viewState: monaco.editor.ICodeEditorViewState | null = null;
+  private isApplyingRemoteChange = false;
+  private readonly remoteCursors = new Map<string, RemoteCursor>();
+  private readonly commentRanges = new Map<string, CommentRange>();
+  private readonly otClient: OTClient;
+  private readonly history = new UndoHistory();
+  private readonly onChange: (content: string) => void;
+
+  constructor(
+    fileId: string,
+    content: string,
+    revision: number,
+    send: SendOperation,
+    onChange: (content: string) => void
+  ) {
+    this.fileId = fileId;
+    this.content = content;
+    this.onChange = onChange;
+    this.otClient = new OTClient(revision, content, (submission) => send({ ...submission, fileId }));
+  }
+
+  getContent(): string {
+    return this.model ? this.model.getValue() : this.content;
+  }
+
+  getRevision(): number {
+    return this.otClient.getRevision();
+  }
+
+  getPendingSubmission(): string | null {
+    return this.otClient.getPendingSubmission();
+  }
+
+  getModel(): monaco.editor.ITextModel | null {
+    return this.model;
+  }
+
+  // Take over a model created with this session's current content
+  attach(model: monaco.editor.ITextModel): void {
+    this.model = model;
+    this.modelListener = model.onDidChangeContent((e) => {
+      if (this.isApplyingRemoteChange) return;
+
+      // Hand the edits to the OT client, which sends or buffers them
+      const operations = toTextOperations(e.changes);
+      this.history.record(this.content, operations);
+      this.otClient.applyLocal(operations);
+      this.shiftAnchors(operations);
+      this.content = model.getValue();
+      this.onChange(this.content);
+    });
+  }
+
+  // Take back our latest edit, keeping what others wrote since. Returns the
+  // offset the change ended at, or null if there was nothing to undo.
+  undo(): number | null {
+    return this.applyLocally(this.history.undo(this.content));
+  }
+
+  // Put back the edit undone last
+  redo(): number | null {
+    return this.applyLocally(this.history.redo(this.content));
+  }
+
+  getUndoSteps(): { undo: UndoStep[]; redo: UndoStep[] } {
+    return this.history.getSteps();
+  }
+
+  // Insert text at an offset in the server's document as if it were typed
+  // here, so it reaches the room like any other local edit
+  insertText(offset: number, text: string): void {
+    if (!text) return;
+    const position = this.fromServerOffset(offset);
+    this.editLocally(position, position, text);
+  }
+
+  // Replace the whole content with a single edit covering only the part
+  // that differs, so collaborators' cursors elsewhere stay put
+  replaceContent(content: string): void {
+    const current = this.getContent();
+    let start = 0;
+    while (start < current.length && start < content.length && current[start] === content[start]) {
+      start++;
+    }
+    let end = 0;
+    while (
+      end < current.length - start &&
+      end < content.length - start &&
+      current[current.length - 1 - end] === content[content.length - 1 - end]
+    ) {
+      end++;
+    }
+    if (start === current.length && start === content.length) return;
+
+    this.editLocally(start, current.length - end, content.slice(start, content.length - end));
+  }
+
+  // Map an offset in the server's document onto the local content, which
+  // also has our unacknowledged edits
+  fromServerOffset(offset: number): number {
+    return Math.min(this.otClient.transformRemoteOffset(offset), this.getContent().length);
+  }
+
+  getRemoteCursors(): RemoteCursor[] {
+    return Array.from(this.remoteCursors.values());
+  }
+
+  // Place a cursor reported by the server. It does not know about our
+  // unacknowledged edits yet, so the offsets are moved past them.
+  setRemoteCursor({ userId, userName, color, cursor }: CursorPosition): void {
+    this.remoteCursors.set(userId, {
+      userId,
+      userName,
+      color,
+      offset: this.fromServerOffset(cursor.offset),
+      anchor: this.fromServerOffset(cursor.anchor),
+      viewport: cursor.viewport && {
+        start: this.fromServerOffset(cursor.viewport.start),
+        end: this.fromServerOffset(cursor.viewport.end)
+      }
+    });
+  }
+
+  removeRemoteCursor(userId: string): void {
+    this.remoteCursors.delete(userId);
+  }
+
+  getCommentRanges(): CommentRange[] {
+    return Array.from(this.commentRanges.values());
+  }
+
+  // Anchor a review thread at a range the server reported, moved past our
+  // unacknowledged edits like remote cursors are
+  setCommentRange(threadId: string, start: number, end: number): void {
+    this.commentRanges.set(threadId, {
+      threadId,
+      start: this.fromServerOffset(start),
+      end: this.fromServerOffset(end)
+    });
+  }
+
+  removeCommentRange(threadId: string): void {
+    this.commentRanges.delete(threadId);
+  }
+
+  saveViewState(editor: monaco.editor.IStandaloneCodeEditor): void {
+    this.viewState = editor.saveViewState();
+  }
+
+  restoreViewState(editor: monaco.editor.IStandaloneCodeEditor): void {
+    if (this.viewState) editor.restoreViewState(this.viewState);
+  }
+
+  applyRemote(operation: RevisionedOperation): void {
+    const operations = decodeOperations(operation.operations) ?? [];
+    this.applyOperations(this.otClient.applyRemote(operation.revision, operations));
+  }
+
+  catchUp(operations: RevisionedOperation[]): void {
+    this.applyOperations(this.otClient.catchUp(operations));
+  }
+
+  acknowledge(revision: number): void {
+    this.otClient.acknowledge(revision);
+  }
+
+  // The server sent its whole content. When we were only too far behind for
+  // a catch-up, our pending edits are rebased onto it; when it could not
+  // reconcile them, they are dropped and its content adopted as is.
+  resync(content: string, revision: number, rebase?: { committed: boolean }): void {
+    if (rebase) {
+      this.applyOperations(this.otClient.rebase(revision, content, rebase.committed));
+      return;
+    }
+
+    this.otClient.reset(revision, content);
+    this.history.clear();
+
+    this.content = content;
+    if (this.model) {
+      this.withoutEcho(() => this.model?.setValue(content));
+    }
+    this.remoteCursors.forEach((cursor) => {
+      cursor.offset = Math.min(cursor.offset, content.length);
+      cursor.anchor = Math.min(cursor.anchor, content.length);
+      if (cursor.viewport) {
+        cursor.viewport = {
+          start: Math.min(cursor.viewport.start, content.length),
+          end: Math.min(cursor.viewport.end, content.length)
+        };
+      }
+    });
+    this.commentRanges.forEach((range) => {
+      range.start = Math.min(range.start, content.length);
+      range.end = Math.min(range.end, content.length);
+    });
+    this.onChange(content);
+  }
+
+  dispose(): void {
+    this.otClient.dispose();
+    this.modelListener?.dispose();
+    this.model?.dispose();
+    this.model = null;
+  }
+
+  // Apply edits that did not originate here without echoing them back
+  private applyOperations(operations: TextOperation[]): void {
+    if (operations.length === 0) return;
+
+    this.shiftAnchors(operations);
+    this.history.transform(operations);
+    this.writeContent(operations);
+  }
+
+  // Apply undo or redo edits as if they were typed, without recording them
+  // as a new step
+  private applyLocally(operations: TextOperation[] | null): number | null {
+    if (operations === null || operations.length === 0) return null;
+
+    this.otClient.applyLocal(operations);
+    this.shiftAnchors(operations);
+    this.writeContent(operations);
+
+    const last = operations[operations.length - 1];
+    return last.type === 'insert' ? last.position + last.length : last.position;
+  }
+
+  // Change the text, bypassing Monaco's own undo stack and our change listener
+  private writeContent(operations: TextOperation[]): void {
+    const model = this.model;
+    if (!model) {
+      this.content = applyOperations(this.content, operations);
+    } else {
+      // One at a time: each operation is relative to the text the previous
+      // one left, while edits in one applyEdits call all refer to the start
+      this.withoutEcho(() => {
+        for (const operation of operations) {
+          const start = model.getPositionAt(operation.position);
+          const end = operation.type === 'delete'
+            ? model.getPositionAt(operation.position + operation.length)
+            : start;
+
+          model.applyEdits([{
+            range: {
+              startLineNumber: start.lineNumber,
+              startColumn: start.column,
+              endLineNumber: end.lineNumber,
+              endColumn: end.column
+            },
+            text: operation.type === 'insert' ? operation.content : ''
+          }]);
+        }
+      });
+      this.content = model.getValue();
+    }
+    this.onChange(this.content);
+  }
+
+  // Apply an edit made on this client: through the model when there is one,
+  // so it is picked up like typing, otherwise straight to the OT client
+  private editLocally(start: number, end: number, text: string): void {
+    const model = this.model;
+    if (model) {
+      const from = model.getPositionAt(start);
+      const to = model.getPositionAt(end);
+      model.pushEditOperations([], [{
+        range: {
+          startLineNumber: from.lineNumber,
+          startColumn: from.column,
+          endLineNumber: to.lineNumber,
+          endColumn: to.column
+        },
+        text
+      }], () => null);
+      return;
+    }
+
+    const operations: TextOperation[] = [];
+    if (end > start) {
+      operations.push({ type: 'delete', position: start, content: '', length: end - start });
+    }
+    if (text) {
+      operations.push({ type: 'insert', position: start, content: text, length: text.length });
+    }
+    this.history.record(this.content, operations);
+    this.content = applyOperations(this.content, operations);
+    this.otClient.applyLocal(operations);
+    this.shiftAnchors(operations);
+    this.onChange(this.content);
+  }
+
+  // Keep remote cursors and comment ranges on the same text as it changes
+  private shiftAnchors(operations: TextOperation[]): void {
+    this.remoteCursors.forEach((cursor) => {
+      cursor.offset = transformOffset(cursor.offset, operations);
+      cursor.anchor = transformOffset(cursor.anchor, operations);
+      if (cursor.viewport) cursor.viewport = transformRange(cursor.viewport, operations);
+    });
+    this.commentRanges.forEach((range) => {
+      Object.assign(range, transformRange(range, operations));
+    });
+  }
+
+  private withoutEcho(change: () => void): void {
+    this.isApplyingRemoteChange = true;
+    try {
+      change();
+    } finally {
+      this.isApplyingRemoteChange = false;
+    }
+  }
+}
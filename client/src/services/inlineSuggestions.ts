@@ -0,0 +1,116 @@
+import * as monaco from 'monaco-editor';
+import { Monaco } from '@monaco-editor/react';
+import { v4 as uuidv4 } from 'uuid';
+import { socketService } from './socket';
+import { DocumentSession } from './documentSession';
+import { AIAssistanceResponse } from '../types';
+
+// How long typing has to pause before a suggestion is requested
+const TYPING_PAUSE_MS = 500;
+
+const NO_SUGGESTIONS: monaco.languages.InlineCompletions = { items: [] };
+
+interface InlineSuggestionOptions {
+  sessionFor: (model: monaco.editor.ITextModel) => DocumentSession | undefined;
+  isEnabled: () => boolean;
+}
+
+const waitForPause = (token: monaco.CancellationToken) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, TYPING_PAUSE_MS);
+    token.onCancellationRequested(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+// Feeds AI completions to Monaco as ghost text. Monaco takes care of showing
+// them, Tab/Esc and word-by-word acceptance; accepted text lands in the model
+// like typing and is sent to the room as a normal document operation. Monaco
+// cancels a request as soon as the caret moves on, and so do we on the server.
+export class InlineSuggestionProvider implements monaco.languages.InlineCompletionsProvider {
+  private readonly pending = new Map<string, (response: AIAssistanceResponse | null) => void>();
+
+  constructor(
+    private readonly monacoInstance: Monaco,
+    private readonly options: InlineSuggestionOptions
+  ) {}
+
+  async provideInlineCompletions(
+    model: monaco.editor.ITextModel,
+    position: monaco.Position,
+    context: monaco.languages.InlineCompletionContext,
+    token: monaco.CancellationToken
+  ): Promise<monaco.languages.InlineCompletions> {
+    const session = this.options.sessionFor(model);
+    if (!session || !this.options.isEnabled()) return NO_SUGGESTIONS;
+
+    if (context.triggerKind === this.monacoInstance.languages.InlineCompletionTriggerKind.Automatic) {
+      await waitForPause(token);
+    }
+    if (token.isCancellationRequested || !this.options.isEnabled()) return NO_SUGGESTIONS;
+
+    // The server only works on one request per user at a time
+    this.cancelAll();
+
+    const requestId = uuidv4();
+    const offset = model.getOffsetAt(position);
+    const response = await new Promise<AIAssistanceResponse | null>((resolve) => {
+      this.pending.set(requestId, resolve);
+      token.onCancellationRequested(() => {
+        if (this.settle(requestId, null)) {
+          socketService.cancelAIAssistance(requestId);
+        }
+      });
+      socketService.requestAIAssistance({
+        requestId,
+        fileId: session.fileId,
+        offset,
+        revision: session.getRevision(),
+        stream: false
+      });
+    });
+
+    if (!response?.suggestion || token.isCancellationRequested || model.isDisposed()) return NO_SUGGESTIONS;
+
+    // Only show the suggestion if it still belongs where the caret is
+    if (session.fromServerOffset(response.position.offset) !== model.getOffsetAt(position)) {
+      return NO_SUGGESTIONS;
+    }
+    return {
+      items: [{
+        insertText: response.suggestion,
+        range: {
+          startLineNumber: position.lineNumber,
+          startColumn: position.column,
+          endLineNumber: position.lineNumber,
+          endColumn: position.column
+        }
+      }]
+    };
+  }
+
+  freeInlineCompletions(): void {}
+
+  // Route a finished suggestion; returns false if it was not one of ours
+  handleSuggestion(response: AIAssistanceResponse): boolean {
+    return this.settle(response.requestId, response);
+  }
+
+  handleError(requestId: string): boolean {
+    return this.settle(requestId, null);
+  }
+
+  // Give up on everything in flight, e.g. when an explicit request replaces it
+  cancelAll(): void {
+    Array.from(this.pending.keys()).forEach(requestId => this.settle(requestId, null));
+  }
+
+  private settle(requestId: string, response: AIAssistanceResponse | null): boolean {
+    const resolve = this.pending.get(requestId);
+    if (!resolve) return false;
+    this.pending.delete(requestId);
+    resolve(response);
+    return true;
+  }
+}
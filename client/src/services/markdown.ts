@@ -0,0 +1,80 @@
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+// Tags that could run code, restyle the page or load things from elsewhere
+// (images would tell their host who read the message)
+const FORBIDDEN_TAGS = ['img', 'style', 'form', 'input', 'button', 'iframe'];
+
+// Text in these is shown as written, mentions included
+const LITERAL_TAGS = new Set(['CODE', 'PRE', 'A']);
+
+// Links open in a new tab, without access to this one
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A') {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches `@name` for any of the names, preferring the longest, as long as
+// the name is not followed by more of a word
+const mentionPattern = (names: string[]): RegExp | null => {
+  const alternatives = names
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  return alternatives.length > 0 ? new RegExp(`@(${alternatives.join('|')})(?![\\w])`, 'gi') : null;
+};
+
+export const mentionsName = (content: string, name: string): boolean =>
+  Boolean(name) && Boolean(mentionPattern([name])?.test(content));
+
+// Wrap mentions in text nodes outside code and links in spans
+const highlightMentions = (root: Node, pattern: RegExp, selfName: string) => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    let parent = node.parentElement;
+    while (parent && !LITERAL_TAGS.has(parent.tagName)) parent = parent.parentElement;
+    if (!parent) textNodes.push(node as Text);
+  }
+
+  for (const node of textNodes) {
+    const text = node.data;
+    const pieces: Node[] = [];
+    let last = 0;
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      if (match.index > last) pieces.push(document.createTextNode(text.slice(last, match.index)));
+      const span = document.createElement('span');
+      span.className = match[1].toLowerCase() === selfName.toLowerCase()
+        ? 'chat-mention chat-mention-self'
+        : 'chat-mention';
+      span.textContent = match[0];
+      pieces.push(span);
+      last = match.index + match[0].length;
+    }
+    if (pieces.length === 0) continue;
+    if (last < text.length) pieces.push(document.createTextNode(text.slice(last)));
+    node.replaceWith(...pieces);
+  }
+};
+
+// Render the Markdown of a chat message (fenced code blocks are split out
+// beforehand) to sanitized HTML, with @mentions of room members marked
+export function renderMarkdown(text: string, memberNames: string[], selfName: string): string {
+  const html = marked.parse(text, { gfm: true, breaks: true, async: false }) as string;
+  const fragment = DOMPurify.sanitize(html, {
+    FORBID_TAGS: FORBIDDEN_TAGS,
+    RETURN_DOM_FRAGMENT: true
+  });
+
+  const pattern = mentionPattern(memberNames);
+  if (pattern) highlightMentions(fragment, pattern, selfName);
+
+  const container = document.createElement('div');
+  container.appendChild(fragment);
+  return container.innerHTML;
+}
@@ -0,0 +1,137 @@
+import { applyOperations, decodeOperations } from 'collaborative-code-editor-shared';
+import { OTClient } from './otClient';
+import { EncodedOperations, OperationSubmission, RevisionedOperation, TextOperation } from '../types';
+
+const insert = (position: number, content: string): TextOperation =>
+  ({ type: 'insert', position, content, length: content.length });
+
+type Sent = Omit<OperationSubmission, 'fileId'>;
+
+// A client on `content` at revision 0 with one batch in flight, ">" typed
+// after it and still buffered, and everything it sent
+function clientWithPendingEdits(content: string) {
+  const sent: Sent[] = [];
+  const client = new OTClient(0, content, submission => sent.push(submission));
+  let local = content;
+  const edit = (operations: TextOperation[]) => {
+    local = applyOperations(local, operations);
+    client.applyLocal(operations);
+  };
+
+  edit([insert(content.length, '!')]);
+  jest.advanceTimersByTime(50);
+  edit([insert(0, '>')]);
+  return { client, sent, local: () => local };
+}
+
+const applySent = (content: string, submission: Sent) =>
+  applyOperations(content, decodeOperations(submission.operations) ?? []);
+
+// A committed batch as the server relays it
+const entry = (revision: number, operations: EncodedOperations, submissionId?: string): RevisionedOperation =>
+  ({ fileId: 'f1', submissionId, revision, operations, userId: 'u1', userName: 'tester', timestamp: revision });
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('sending and acknowledging', () => {
+  test('quick edits go out as one batch, later ones wait for the ack', () => {
+    const sent: Sent[] = [];
+    const client = new OTClient(3, 'ab', submission => sent.push(submission));
+
+    client.applyLocal([insert(2, 'c')]);
+    client.applyLocal([insert(3, 'd')]);
+    jest.advanceTimersByTime(50);
+    client.applyLocal([insert(4, 'e')]);
+    jest.advanceTimersByTime(50);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ revision: 3, operations: [2, 'cd'] });
+
+    client.acknowledge(4);
+    expect(sent).toHaveLength(2);
+    expect(sent[1]).toMatchObject({ revision: 4, operations: [4, 'e'] });
+    expect(sent[1].id).not.toBe(sent[0].id);
+
+    client.acknowledge(5);
+    expect(client.getRevision()).toBe(5);
+    expect(client.hasPendingOperations()).toBe(false);
+  });
+
+  test('remote edits are moved past our unacknowledged ones', () => {
+    const client = new OTClient(0, 'abc', () => {});
+    client.applyLocal([insert(0, 'xy')]);
+
+    expect(client.applyRemote(1, [insert(3, '!')])).toEqual([insert(5, '!')]);
+    expect(client.transformRemoteOffset(1)).toBe(3);
+    expect(client.getRevision()).toBe(1);
+  });
+});
+
+describe('catching up after a reconnect', () => {
+  test('an in-flight batch the server committed counts as acknowledged', () => {
+    const { client, sent, local } = clientWithPendingEdits('hello');
+    const [batch] = sent;
+
+    const remote = client.catchUp([
+      entry(1, [2, 'XY']),
+      entry(2, [7, '!'], batch.id)
+    ]);
+
+    // Only the buffered ">" goes out, made against the latest revision
+    expect(sent).toHaveLength(2);
+    expect(sent[1]).toMatchObject({ revision: 2 });
+    expect(applyOperations(local(), remote)).toBe('>heXYllo!');
+    expect(applySent('heXYllo!', sent[1])).toBe('>heXYllo!');
+  });
+
+  test('an in-flight batch the server never got is resent, rebased', () => {
+    const { client, sent, local } = clientWithPendingEdits('hello');
+    const [batch] = sent;
+
+    const remote = client.catchUp([entry(1, [2, 'XY'])]);
+
+    expect(sent).toHaveLength(2);
+    expect(sent[1]).toMatchObject({ id: batch.id, revision: 1 });
+    expect(applySent('heXYllo', sent[1])).toBe('heXYllo!');
+    expect(applyOperations(local(), remote)).toBe('>heXYllo!');
+  });
+});
+
+describe('rebasing onto a resent document', () => {
+  test('pending edits are sent again on top of what others wrote', () => {
+    const { client, sent, local } = clientWithPendingEdits('hello');
+
+    const remote = client.rebase(7, 'hello world', false);
+
+    expect(sent).toHaveLength(2);
+    expect(sent[1]).toMatchObject({ id: client.getPendingSubmission(), revision: 7 });
+    expect(applyOperations(local(), remote)).toBe('>hello world!');
+    expect(applySent('hello world', sent[1])).toBe('>hello world!');
+  });
+
+  test('a batch the server already has is not sent twice', () => {
+    const { client, sent, local } = clientWithPendingEdits('hello');
+
+    const remote = client.rebase(7, 'hello! world', true);
+
+    expect(applyOperations(local(), remote)).toBe('>hello! world');
+    expect(decodeOperations(sent[1].operations)).toEqual([insert(0, '>')]);
+    expect(applySent('hello! world', sent[1])).toBe('>hello! world');
+  });
+
+  test('with nothing pending it only catches up', () => {
+    const sent: Sent[] = [];
+    const client = new OTClient(0, 'abc', submission => sent.push(submission));
+
+    expect(applyOperations('abc', client.rebase(3, 'abcd', false))).toBe('abcd');
+    expect(client.getRevision()).toBe(3);
+    expect(client.hasPendingOperations()).toBe(false);
+    expect(sent).toHaveLength(0);
+  });
+});
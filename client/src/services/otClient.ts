@@ -0,0 +1,179 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  applyOperations,
+  decodeOperations,
+  diffToOperations,
+  encodeOperations,
+  normalizeOperations,
+  transform,
+  transformOffset
+} from 'collaborative-code-editor-shared';
+import { TextOperation, OperationSubmission, RevisionedOperation } from '../types';
+
+type SendOperation = (submission: Omit<OperationSubmission, 'fileId'>) => void;
+
+// Keystrokes this close together go to the server as one batch
+const BATCH_WINDOW_MS = 50;
+
+// Client half of the revision-based OT protocol. At most one batch is in
+// flight to the server; edits made while waiting for its ack, or within a
+// short window of each other, accumulate in a buffer and are sent together.
+// Remote operations are transformed past both so they can be applied to the
+// local editor.
+export class OTClient {
+  private revision: number;
+  // The server's content at `revision`, which the pending edits apply to
+  private confirmed: string;
+  private inflight: TextOperation[] | null = null;
+  private inflightId: string | null = null;
+  private buffer: TextOperation[] | null = null;
+  private batchTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly send: SendOperation;
+
+  constructor(revision: number, content: string, send: SendOperation) {
+    this.revision = revision;
+    this.confirmed = content;
+    this.send = send;
+  }
+
+  getRevision(): number {
+    return this.revision;
+  }
+
+  // Id of the batch awaiting its ack, if one is in flight
+  getPendingSubmission(): string | null {
+    return this.inflightId;
+  }
+
+  hasPendingOperations(): boolean {
+    return this.inflight !== null || this.buffer !== null;
+  }
+
+  applyLocal(operations: TextOperation[]): void {
+    if (operations.length === 0) return;
+
+    this.buffer = (this.buffer || []).concat(operations);
+    if (this.inflight === null && this.batchTimer === null) {
+      this.batchTimer = setTimeout(this.flush, BATCH_WINDOW_MS);
+    }
+  }
+
+  // Returns the remote operations rewritten against the local document
+  applyRemote(revision: number, operations: TextOperation[]): TextOperation[] {
+    let remote = operations;
+    this.confirmed = applyOperations(this.confirmed, operations);
+
+    if (this.inflight !== null) {
+      [this.inflight, remote] = transform(this.inflight, remote);
+    }
+    if (this.buffer !== null) {
+      [this.buffer, remote] = transform(this.buffer, remote);
+    }
+
+    this.revision = revision;
+    return remote;
+  }
+
+  acknowledge(revision: number): void {
+    if (this.inflight !== null) this.confirmed = applyOperations(this.confirmed, this.inflight);
+    this.revision = revision;
+    this.inflight = null;
+    this.inflightId = null;
+    this.flush();
+  }
+
+  // Rewrite an offset in the server's document to match the local one, which
+  // also contains our unacknowledged edits
+  transformRemoteOffset(offset: number): number {
+    return transformOffset(transformOffset(offset, this.inflight || []), this.buffer || []);
+  }
+
+  // Replay operations missed while disconnected. Our own in-flight batch
+  // shows up among them if the server committed it before the connection
+  // dropped; otherwise it is resent, rebased on everything we just saw.
+  // Returns the remote operations to apply to the local document.
+  catchUp(entries: RevisionedOperation[]): TextOperation[] {
+    const pendingId = this.inflightId;
+    let remote: TextOperation[] = [];
+
+    for (const entry of entries) {
+      if (entry.submissionId !== undefined && entry.submissionId === this.inflightId) {
+        this.acknowledge(entry.revision);
+      } else {
+        remote = remote.concat(this.applyRemote(entry.revision, decodeOperations(entry.operations) ?? []));
+      }
+    }
+
+    if (this.inflight !== null && this.inflightId === pendingId) {
+      this.sendInflight();
+    }
+    return remote;
+  }
+
+  // Drop all unconfirmed state after the server resent the whole document
+  reset(revision: number, content: string): void {
+    this.revision = revision;
+    this.confirmed = content;
+    this.inflight = null;
+    this.inflightId = null;
+    this.buffer = null;
+    this.cancelBatch();
+  }
+
+  // Keep our unconfirmed edits when the server resent the whole document
+  // because the operations we missed are no longer in its log. What others
+  // changed is worked out by comparing its content with ours at `revision`,
+  // and the pending edits are rebased past that and sent again. `committed`
+  // says the content already includes our in-flight batch. Returns the
+  // operations that bring the local document up to date.
+  rebase(revision: number, content: string, committed: boolean): TextOperation[] {
+    let base = this.confirmed;
+    let pending = this.buffer || [];
+    if (this.inflight !== null) {
+      if (committed) {
+        base = applyOperations(base, this.inflight);
+      } else {
+        pending = this.inflight.concat(pending);
+      }
+    }
+
+    const [rebased, remote] = transform(pending, diffToOperations(base, content));
+    this.reset(revision, content);
+    if (rebased.length > 0) {
+      this.buffer = rebased;
+      this.flush();
+    }
+    return remote;
+  }
+
+  // Send the buffered edits as the next batch. They are rewritten as the
+  // server will decode them, so both sides transform the same operations.
+  private flush = () => {
+    this.cancelBatch();
+    if (this.inflight !== null || this.buffer === null) return;
+
+    const operations = normalizeOperations(this.buffer);
+    this.buffer = null;
+    // Edits that cancel out, like typing a character and deleting it
+    if (operations.length === 0) return;
+
+    this.inflight = operations;
+    this.inflightId = uuidv4();
+    this.sendInflight();
+  };
+
+  // Stop a pending batch from being sent once the file is gone
+  dispose(): void {
+    this.cancelBatch();
+  }
+
+  private cancelBatch(): void {
+    if (this.batchTimer !== null) clearTimeout(this.batchTimer);
+    this.batchTimer = null;
+  }
+
+  private sendInflight(): void {
+    if (this.inflight === null || this.inflightId === null) return;
+    this.send({ id: this.inflightId, revision: this.revision, operations: encodeOperations(this.inflight) });
+  }
+}
@@ -0,0 +1,123 @@
+import { Presence, PresenceStatus } from '../types';
+
+// No input for this long and we count as idle
+const IDLE_AFTER_MS = 3 * 60 * 1000;
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000;
+
+// Typing indicators go out after a pause this long between keystrokes
+const TYPING_TIMEOUT_MS = 3000;
+
+// Shortest gap between two updates sent to the server; changes in between
+// are folded into the next one
+const SEND_INTERVAL_MS = 1000;
+
+// What the server assumes of everyone who has just joined
+const INITIAL_PRESENCE: Presence = { status: 'active', typing: null };
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart'];
+
+const samePresence = (a: Presence, b: Presence) => a.status === b.status && a.typing === b.typing;
+
+// Works out our own presence from what happens in the page and reports it,
+// throttled, while we are in a room. Components tell it when the user types
+// in the editor or the chat; idleness and hidden tabs it notices itself.
+export class PresenceTracker {
+  private send: ((presence: Presence) => void) | null = null;
+  private sent: Presence = INITIAL_PRESENCE;
+  private lastSentAt = 0;
+  private lastActivityAt = Date.now();
+  private isIdle = false;
+  private typing: Presence['typing'] = null;
+  private typingTimer: ReturnType<typeof setTimeout> | null = null;
+  private sendTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setInterval> | null = null;
+
+  start(send: (presence: Presence) => void): void {
+    this.stop();
+    this.send = send;
+    this.sent = INITIAL_PRESENCE;
+    this.lastActivityAt = Date.now();
+    this.isIdle = false;
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', this.update);
+    this.idleTimer = setInterval(this.checkIdle, IDLE_CHECK_INTERVAL_MS);
+    this.update();
+  }
+
+  stop(): void {
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.handleActivity));
+    document.removeEventListener('visibilitychange', this.update);
+    [this.typingTimer, this.sendTimer].forEach(timer => timer && clearTimeout(timer));
+    if (this.idleTimer) clearInterval(this.idleTimer);
+    this.typingTimer = this.sendTimer = this.idleTimer = null;
+    this.typing = null;
+    this.send = null;
+  }
+
+  // After a (re)join the server has forgotten what we told it
+  resync(): void {
+    this.sent = INITIAL_PRESENCE;
+    this.update();
+  }
+
+  // Report a keystroke; typing ends after a pause or with stoppedTyping
+  typed(where: 'editor' | 'chat'): void {
+    if (this.typingTimer) clearTimeout(this.typingTimer);
+    this.typingTimer = setTimeout(() => this.stoppedTyping(), TYPING_TIMEOUT_MS);
+    if (this.typing !== where) {
+      this.typing = where;
+      this.update();
+    }
+  }
+
+  stoppedTyping(): void {
+    if (this.typingTimer) clearTimeout(this.typingTimer);
+    this.typingTimer = null;
+    if (this.typing !== null) {
+      this.typing = null;
+      this.update();
+    }
+  }
+
+  current(): Presence {
+    const status: PresenceStatus = document.hidden ? 'away' : this.isIdle ? 'idle' : 'active';
+    return { status, typing: this.typing };
+  }
+
+  private handleActivity = () => {
+    this.lastActivityAt = Date.now();
+    if (this.isIdle) {
+      this.isIdle = false;
+      this.update();
+    }
+  };
+
+  private checkIdle = () => {
+    if (!this.isIdle && Date.now() - this.lastActivityAt >= IDLE_AFTER_MS) {
+      this.isIdle = true;
+      this.update();
+    }
+  };
+
+  private update = () => {
+    if (!this.send || this.sendTimer) return;
+    const wait = this.lastSentAt + SEND_INTERVAL_MS - Date.now();
+    if (wait > 0) {
+      this.sendTimer = setTimeout(this.flush, wait);
+    } else {
+      this.flush();
+    }
+  };
+
+  private flush = () => {
+    this.sendTimer = null;
+    const presence = this.current();
+    if (!this.send || samePresence(presence, this.sent)) return;
+    this.send(presence);
+    this.sent = presence;
+    this.lastSentAt = Date.now();
+  };
+}
+
+export const presenceTracker = new PresenceTracker();
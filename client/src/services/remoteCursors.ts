@@ -0,0 +1,178 @@
+import * as monaco from 'monaco-editor';
+import { Monaco } from '@monaco-editor/react';
+import { RemoteCursor } from './documentSession';
+import { Presence } from '../types';
+
+// Decorations can only be styled through class names, so each user colour
+// gets its own generated rules: `<name>-caret` and `<name>-selection`
+const colorClasses = new Map<string, string>();
+let styleElement: HTMLStyleElement | null = null;
+
+export const classNameFor = (color: string): string => {
+  let className = colorClasses.get(color);
+  if (className) return className;
+
+  className = `remote-cursor-${colorClasses.size}`;
+  colorClasses.set(color, className);
+
+  if (!styleElement) {
+    styleElement = document.createElement('style');
+    document.head.appendChild(styleElement);
+  }
+  styleElement.textContent += `
+    .${className}-caret { border-left-color: ${color}; }
+    .${className}-selection { background-color: ${color}; }
+  `;
+  return className;
+};
+
+// The minimap only understands hex colours; users get `hsl(h, s%, l%)`
+const toHex = (color: string): string => {
+  const match = /^hsl\(\s*([\d.]+),\s*([\d.]+)%,\s*([\d.]+)%\s*\)$/.exec(color);
+  if (!match) return color;
+
+  const [h, s, l] = [Number(match[1]), Number(match[2]) / 100, Number(match[3]) / 100];
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const value = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+};
+
+// What a name tag says after the name, if anything
+const presenceSuffix = (presence?: Presence): string => {
+  if (presence?.typing === 'editor') return ' · typing';
+  if (presence?.status === 'idle') return ' · idle';
+  if (presence?.status === 'away') return ' · away';
+  return '';
+};
+
+// Floating name tag shown above a remote caret; faded while its owner is
+// idle or away
+class CursorLabel implements monaco.editor.IContentWidget {
+  readonly allowEditorOverflow = true;
+  private readonly domNode: HTMLDivElement;
+  private position: monaco.IPosition;
+
+  constructor(
+    private readonly userId: string,
+    private readonly monacoInstance: Monaco
+  ) {
+    this.domNode = document.createElement('div');
+    this.domNode.className = 'remote-cursor-label';
+    this.position = { lineNumber: 1, column: 1 };
+  }
+
+  update(cursor: RemoteCursor, position: monaco.IPosition, presence?: Presence): void {
+    this.domNode.textContent = cursor.userName + presenceSuffix(presence);
+    this.domNode.style.backgroundColor = cursor.color;
+    this.domNode.classList.toggle(
+      'remote-cursor-label-inactive',
+      presence !== undefined && presence.status !== 'active'
+    );
+    this.position = position;
+  }
+
+  getId(): string {
+    return `remote-cursor-label.${this.userId}`;
+  }
+
+  getDomNode(): HTMLElement {
+    return this.domNode;
+  }
+
+  getPosition(): monaco.editor.IContentWidgetPosition {
+    const { ABOVE, BELOW } = this.monacoInstance.editor.ContentWidgetPositionPreference;
+    return { position: this.position, preference: [ABOVE, BELOW] };
+  }
+}
+
+// Draws other users' carets, selections and name tags into an editor, with
+// matching marks in the minimap and overview ruler. Positions come from the
+// document session, which keeps them in step with edits; call render again
+// whenever they, their owners' presence or the editor's model change.
+export class RemoteCursorLayer {
+  private readonly decorations: monaco.editor.IEditorDecorationsCollection;
+  private readonly labels = new Map<string, CursorLabel>();
+
+  constructor(
+    private readonly editor: monaco.editor.IStandaloneCodeEditor,
+    private readonly monacoInstance: Monaco
+  ) {
+    this.decorations = editor.createDecorationsCollection();
+  }
+
+  render(cursors: RemoteCursor[], presence: Map<string, Presence> = new Map()): void {
+    const model = this.editor.getModel();
+    if (!model) {
+      this.clear();
+      return;
+    }
+
+    const { Range, editor: editorApi } = this.monacoInstance;
+    const stickiness = editorApi.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges;
+
+    const decorations = cursors.flatMap((cursor): monaco.editor.IModelDeltaDecoration[] => {
+      const className = classNameFor(cursor.color);
+      const color = toHex(cursor.color);
+      const head = model.getPositionAt(cursor.offset);
+      const result: monaco.editor.IModelDeltaDecoration[] = [{
+        range: new Range(head.lineNumber, head.column, head.lineNumber, head.column),
+        options: {
+          beforeContentClassName: `remote-cursor-caret ${className}-caret`,
+          hoverMessage: { value: cursor.userName },
+          stickiness,
+          overviewRuler: { color, position: editorApi.OverviewRulerLane.Full },
+          minimap: { color, position: editorApi.MinimapPosition.Gutter }
+        }
+      }];
+
+      if (cursor.anchor !== cursor.offset) {
+        const start = model.getPositionAt(Math.min(cursor.anchor, cursor.offset));
+        const end = model.getPositionAt(Math.max(cursor.anchor, cursor.offset));
+        result.push({
+          range: new Range(start.lineNumber, start.column, end.lineNumber, end.column),
+          options: {
+            className: `remote-cursor-selection ${className}-selection`,
+            stickiness,
+            overviewRuler: { color, position: editorApi.OverviewRulerLane.Center },
+            minimap: { color, position: editorApi.MinimapPosition.Inline }
+          }
+        });
+      }
+      return result;
+    });
+    this.decorations.set(decorations);
+
+    // Keep one name tag per visible cursor
+    this.labels.forEach((label, userId) => {
+      if (!cursors.some(cursor => cursor.userId === userId)) {
+        this.editor.removeContentWidget(label);
+        this.labels.delete(userId);
+      }
+    });
+    for (const cursor of cursors) {
+      let label = this.labels.get(cursor.userId);
+      const isNew = !label;
+      if (!label) {
+        label = new CursorLabel(cursor.userId, this.monacoInstance);
+        this.labels.set(cursor.userId, label);
+      }
+      label.update(cursor, model.getPositionAt(cursor.offset), presence.get(cursor.userId));
+
+      if (isNew) {
+        this.editor.addContentWidget(label);
+      } else {
+        this.editor.layoutContentWidget(label);
+      }
+    }
+  }
+
+  clear(): void {
+    this.decorations.clear();
+    this.labels.forEach(label => this.editor.removeContentWidget(label));
+    this.labels.clear();
+  }
+}
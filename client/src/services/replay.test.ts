@@ -0,0 +1,53 @@
+import { ReplayTimeline, parseRecording } from './replay';
+
+const recording = (overrides: Record<string, unknown> = {}) => ({
+  format: 'collaborative-editor-recording',
+  version: 1,
+  roomName: 'room',
+  recordedAt: '2024-01-01T00:00:00.000Z',
+  files: [{ id: 'f1', path: 'main.js', language: 'javascript', initialContent: 'ab' }],
+  events: [{
+    fileId: 'f1',
+    revision: 1,
+    timestamp: 1,
+    userName: 'alice',
+    userColor: null,
+    operations: [
+      { type: 'insert', position: 2, content: 'c', length: 1 },
+      { type: 'delete', position: 0, length: 1 }
+    ]
+  }],
+  ...overrides
+});
+
+describe('parseRecording', () => {
+  test('a recording from the server parses and replays', () => {
+    const parsed = parseRecording(recording());
+
+    expect(parsed.events[0].operations[1]).toEqual({ type: 'delete', position: 0, content: '', length: 1 });
+    expect(new ReplayTimeline(parsed).stateAt(1).get('f1')?.content).toBe('bc');
+  });
+
+  test('files and events that are not what they claim are rejected', () => {
+    const event = recording().events[0];
+
+    expect(() => parseRecording(recording({ files: [{ id: 'f1', path: 'main.js' }] })))
+      .toThrow('File 1 of the recording is malformed');
+    expect(() => parseRecording(recording({ files: [null] }))).toThrow('File 1');
+    expect(() => parseRecording(recording({ events: [{ ...event, operations: 'x' }] })))
+      .toThrow('Event 1 of the recording is malformed');
+    expect(() => parseRecording(recording({
+      events: [{ ...event, operations: [{ type: 'insert', position: -1, content: 'x' }] }]
+    }))).toThrow('Event 1');
+    expect(() => parseRecording(recording({ events: [{ ...event, timestamp: '1' }] }))).toThrow('Event 1');
+    expect(() => parseRecording(recording({ roomName: 5 }))).toThrow('incomplete');
+  });
+
+  test('unknown fields are left behind', () => {
+    const parsed = parseRecording(recording({
+      files: [{ id: 'f1', path: 'main.js', initialContent: '', extra: '<script>' }]
+    }));
+
+    expect(parsed.files[0]).toEqual({ id: 'f1', path: 'main.js', initialContent: '' });
+  });
+});
@@ -0,0 +1,262 @@
+import { applyOperations } from 'collaborative-code-editor-shared';
+import { Recording, RecordedEvent, RecordedFile, TextOperation } from '../types';
+
+const RECORDING_FORMAT = 'collaborative-editor-recording';
+const RECORDING_VERSION = 1;
+
+// How many events apart the timeline keeps full copies of the files, so
+// scrubbing never replays more than this many
+const CHECKPOINT_INTERVAL = 200;
+
+export interface ReplayAuthor {
+  name: string;
+  color: string;
+}
+
+// A stretch of a file written by one author; `author` indexes
+// ReplayTimeline.authors and is null for text from before the recording
+export interface AuthoredSpan {
+  length: number;
+  author: number | null;
+}
+
+export interface ReplayFileState {
+  content: string;
+  spans: AuthoredSpan[];
+}
+
+export type ReplayState = Map<string, ReplayFileState>;
+
+// Operations made before colours were recorded get one derived from the name
+const colorForName = (name: string): string => {
+  let hash = 0;
+  for (const char of name) hash = (hash * 31 + char.charCodeAt(0)) % 360;
+  return `hsl(${hash}, 70%, 60%)`;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isOffset = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+// A recorded operation, or null if it is not one
+function parseOperation(value: unknown): TextOperation | null {
+  if (!isObject(value) || !isOffset(value.position)) return null;
+  if (value.type === 'insert' && typeof value.content === 'string' && value.content.length > 0) {
+    return { type: 'insert', position: value.position, content: value.content, length: value.content.length };
+  }
+  if (value.type === 'delete' && isOffset(value.length) && value.length > 0) {
+    return { type: 'delete', position: value.position, content: '', length: value.length };
+  }
+  return null;
+}
+
+function parseFile(value: unknown, index: number): RecordedFile {
+  if (
+    !isObject(value)
+    || typeof value.id !== 'string' || !value.id
+    || typeof value.path !== 'string'
+    || (value.language !== undefined && typeof value.language !== 'string')
+    || typeof value.initialContent !== 'string'
+  ) {
+    throw new Error(`File ${index + 1} of the recording is malformed`);
+  }
+  return {
+    id: value.id,
+    path: value.path,
+    ...(value.language !== undefined && { language: value.language as string }),
+    initialContent: value.initialContent
+  };
+}
+
+function parseEvent(value: unknown, index: number): RecordedEvent {
+  const operations = isObject(value) && Array.isArray(value.operations)
+    ? value.operations.map(parseOperation)
+    : null;
+  if (
+    !isObject(value) || !operations || operations.includes(null)
+    || typeof value.fileId !== 'string'
+    || !isOffset(value.revision)
+    || typeof value.timestamp !== 'number' || !Number.isFinite(value.timestamp)
+    || typeof value.userName !== 'string'
+    || (value.userColor !== null && value.userColor !== undefined && typeof value.userColor !== 'string')
+  ) {
+    throw new Error(`Event ${index + 1} of the recording is malformed`);
+  }
+  return {
+    fileId: value.fileId,
+    revision: value.revision,
+    timestamp: value.timestamp,
+    userName: value.userName,
+    userColor: (value.userColor as string | null | undefined) ?? null,
+    operations: operations as TextOperation[]
+  };
+}
+
+// Check that parsed JSON is a recording this version can play. Every file
+// and event is checked and copied, so nothing else in it gets through.
+export function parseRecording(data: unknown): Recording {
+  if (!isObject(data) || data.format !== RECORDING_FORMAT) {
+    throw new Error('This file is not a session recording');
+  }
+  if (data.version !== RECORDING_VERSION) {
+    throw new Error(`Recordings of version ${String(data.version)} are not supported`);
+  }
+  if (
+    typeof data.roomName !== 'string' || typeof data.recordedAt !== 'string'
+    || !Array.isArray(data.files) || !Array.isArray(data.events)
+  ) {
+    throw new Error('The recording is incomplete');
+  }
+
+  const files = data.files.map(parseFile);
+  if (new Set(files.map(file => file.id)).size !== files.length) {
+    throw new Error('The recording has two files with the same id');
+  }
+  return {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    roomName: data.roomName,
+    recordedAt: data.recordedAt,
+    files,
+    events: data.events.map(parseEvent)
+  };
+}
+
+export async function readRecordingFile(file: File): Promise<Recording> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error('This file is not a session recording');
+  }
+  return parseRecording(data);
+}
+
+export function downloadRecording(recording: Recording): void {
+  const blob = new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${recording.roomName.replace(/[^\w.-]+/g, '-') || 'room'}-recording.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Split the spans at `offset` and return the index of the first span after it
+const splitAt = (spans: AuthoredSpan[], offset: number): number => {
+  let start = 0;
+  for (let i = 0; i < spans.length; i++) {
+    const end = start + spans[i].length;
+    if (offset === start) return i;
+    if (offset < end) {
+      const { author } = spans[i];
+      spans.splice(i, 1, { length: offset - start, author }, { length: end - offset, author });
+      return i + 1;
+    }
+    start = end;
+  }
+  return spans.length;
+};
+
+// Follow an operation in the authorship of a file; returns new spans
+const applyToSpans = (spans: AuthoredSpan[], op: TextOperation, author: number): AuthoredSpan[] => {
+  const next = [...spans];
+  const from = splitAt(next, op.position);
+  if (op.type === 'insert') {
+    next.splice(from, 0, { length: op.length, author });
+  } else {
+    const to = splitAt(next, op.position + op.length);
+    next.splice(from, to - from);
+  }
+
+  // Merge neighbours by the same author so the spans stay few
+  return next.reduce<AuthoredSpan[]>((merged, span) => {
+    const last = merged[merged.length - 1];
+    if (span.length === 0) return merged;
+    if (last && last.author === span.author) {
+      merged[merged.length - 1] = { length: last.length + span.length, author: span.author };
+    } else {
+      merged.push(span);
+    }
+    return merged;
+  }, []);
+};
+
+// The files of a recording at any point of its history: after step n, the
+// first n events have been applied. Building the timeline replays the whole
+// recording once, so a recording that does not add up fails here rather than
+// halfway through playback.
+export class ReplayTimeline {
+  readonly authors: ReplayAuthor[] = [];
+  private readonly eventAuthors: number[];
+  private readonly checkpoints: ReplayState[] = [];
+
+  constructor(readonly recording: Recording) {
+    this.eventAuthors = recording.events.map(event => this.authorOf(event));
+
+    let state: ReplayState = new Map(recording.files.map(file => [file.id, {
+      content: file.initialContent,
+      spans: file.initialContent ? [{ length: file.initialContent.length, author: null }] : []
+    }]));
+    this.checkpoints.push(state);
+    for (let step = 0; step < recording.events.length; step++) {
+      state = this.apply(state, step);
+      if ((step + 1) % CHECKPOINT_INTERVAL === 0) this.checkpoints.push(state);
+    }
+  }
+
+  get length(): number {
+    return this.recording.events.length;
+  }
+
+  // The event that step `step` applied, if any
+  eventAt(step: number): RecordedEvent | null {
+    return this.recording.events[step - 1] ?? null;
+  }
+
+  authorAt(step: number): ReplayAuthor | null {
+    return step > 0 ? this.authors[this.eventAuthors[step - 1]] : null;
+  }
+
+  stateAt(step: number): ReplayState {
+    const target = Math.max(0, Math.min(step, this.length));
+    const checkpoint = Math.floor(target / CHECKPOINT_INTERVAL);
+    let state = this.checkpoints[checkpoint];
+    for (let i = checkpoint * CHECKPOINT_INTERVAL; i < target; i++) {
+      state = this.apply(state, i);
+    }
+    return state;
+  }
+
+  private authorOf({ userName, userColor }: RecordedEvent): number {
+    const color = userColor || colorForName(userName);
+    const index = this.authors.findIndex(a => a.name === userName && a.color === color);
+    if (index !== -1) return index;
+    this.authors.push({ name: userName, color });
+    return this.authors.length - 1;
+  }
+
+  // Apply event `index` to a state, leaving the original untouched
+  private apply(state: ReplayState, index: number): ReplayState {
+    const event = this.recording.events[index];
+    const file = state.get(event.fileId);
+    if (!file) throw new Error(`Event ${index + 1} edits a file that is not in the recording`);
+
+    let { content, spans } = file;
+    for (const op of event.operations) {
+      const end = op.position + (op.type === 'delete' ? op.length : 0);
+      if (op.position < 0 || end > content.length) {
+        throw new Error(`Event ${index + 1} does not fit the file it edits`);
+      }
+      content = applyOperations(content, [op]);
+      spans = applyToSpans(spans, op, this.eventAuthors[index]);
+    }
+
+    const next = new Map(state);
+    next.set(event.fileId, { content, spans });
+    return next;
+  }
+}
@@ -1,25 +1,83 @@
 import { io, Socket } from 'socket.io-client';
 import {
   User,
-  Room,
-  DocumentOperation,
+  Role,
+  JoinedRoom,
+  JoinError,
+  PermissionDenied,
+  Kicked,
+  RoomAccess,
+  RoomAccessUpdate,
+  InviteRequest,
+  InviteCreated,
+  OperationSubmission,
+  RevisionedOperation,
+  OperationAck,
+  DocumentSync,
+  DocumentCatchup,
+  FileNode,
+  FileDeleted,
+  FileError,
+  SnapshotSummary,
+  SnapshotRestored,
   ChatMessage,
+  ChatMessageChunk,
+  CodeReference,
+  ChatHistory,
+  ChatSearchResults,
+  ChatError,
+  CursorUpdate,
   CursorPosition,
+  Presence,
+  PresenceUpdate,
   AIAssistanceRequest,
   AIAssistanceResponse,
+  AISuggestionChunk,
+  AIError,
+  CodeRun,
+  RunOutputChunk,
+  RunRequest,
+  RunInput,
+  RunError,
+  TerminalSize,
+  TerminalState,
+  TerminalOutput,
+  TerminalExit,
+  TerminalError,
+  CommentThread,
+  CommentRequest,
+  CommentReply,
+  CommentResolve,
+  CommentError,
+  PresenterUpdate,
   RoomJoinData,
-  LanguageChangeData
+  LanguageChangeData,
+  EventError,
+  ClientToServerEvents,
+  ServerToClientEvents
 } from '../types';
 
+const MEMBER_TOKEN_KEY = 'collaborativeEditor_memberToken_';
+
+// Event names and payloads are checked against the contract shared with the
+// server
+type TypedSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// Where each open file stands, for picking up where we left off
+type ResumeState = Pick<RoomJoinData, 'revisions' | 'pending'>;
+
 class SocketService {
-  private socket: Socket | null = null;
+  private socket: TypedSocket | null = null;
   private readonly serverUrl: string;
+  // Room identity kept across dropped connections so we can rejoin
+  private roomSession: RoomJoinData | null = null;
+  private resumeProvider: (() => ResumeState) | null = null;
 
   constructor() {
     this.serverUrl = process.env.REACT_APP_SERVER_URL || 'http://localhost:5000';
   }
 
-  connect(): Socket {
+  connect(): TypedSocket {
     if (this.socket?.connected) {
       return this.socket;
     }
@@ -32,6 +90,17 @@ class SocketService {
 
     this.socket.on('connect', () => {
       console.log('Connected to server:', this.socket?.id);
+
+      // Socket.io reconnected on its own: get back into the room we were in
+      this.rejoinRoom();
+    });
+
+    // The room is now sequenced by another server process, which does not
+    // know us yet
+    this.socket.on('room-moved', ({ roomId }) => {
+      if (this.roomSession?.roomId === roomId) {
+        this.rejoinRoom();
+      }
     });
 
     this.socket.on('disconnect', (reason) => {
@@ -46,19 +115,60 @@ class SocketService {
   }
 
   disconnect(): void {
+    this.roomSession = null;
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
     }
   }
 
+  // Join the room we were in again, resuming each file from the revision we
+  // last saw
+  private rejoinRoom(): void {
+    if (!this.roomSession) return;
+    this.socket?.emit('join-room', {
+      ...this.roomSession,
+      ...this.resumeProvider?.()
+    });
+  }
+
   // Room management
   joinRoom(data: RoomJoinData): void {
-    this.socket?.emit('join-room', data);
+    const memberToken = data.memberToken || this.getMemberToken(data.roomId) || undefined;
+    this.roomSession = { roomId: data.roomId, userName: data.userName, memberToken };
+    this.socket?.emit('join-room', { ...data, memberToken });
   }
 
-  onRoomJoined(callback: (room: Room) => void): void {
-    this.socket?.on('room-joined', callback);
+  // Member tokens are kept per room so coming back keeps the same role
+  rememberMemberToken(roomId: string, memberToken: string): void {
+    localStorage.setItem(`${MEMBER_TOKEN_KEY}${roomId}`, memberToken);
+  }
+
+  getMemberToken(roomId: string): string | null {
+    return localStorage.getItem(`${MEMBER_TOKEN_KEY}${roomId}`);
+  }
+
+  // Supplies the last revision this client has seen of each file, and the
+  // batch it still awaits an ack for, when rejoining
+  setResumeProvider(provider: (() => ResumeState) | null): void {
+    this.resumeProvider = provider;
+  }
+
+  onRoomJoined(callback: (room: JoinedRoom) => void): void {
+    this.socket?.on('room-joined', (room: JoinedRoom) => {
+      this.rememberMemberToken(room.id, room.memberToken);
+      if (this.roomSession?.roomId === room.id) {
+        this.roomSession.memberToken = room.memberToken;
+      }
+      callback(room);
+    });
+  }
+
+  onJoinError(callback: (error: JoinError) => void): void {
+    this.socket?.on('join-error', (error: JoinError) => {
+      this.roomSession = null;
+      callback(error);
+    });
   }
 
   onUserJoined(callback: (user: User) => void): void {
@@ -69,17 +179,124 @@ class SocketService {
     this.socket?.on('user-left', callback);
   }
 
+  onUserUpdated(callback: (user: User) => void): void {
+    this.socket?.on('user-updated', callback);
+  }
+
+  // Access control
+  changeUserRole(userId: string, role: Exclude<Role, 'owner'>): void {
+    this.socket?.emit('user-role-change', { userId, role });
+  }
+
+  kickUser(userId: string): void {
+    this.socket?.emit('user-kick', { userId });
+  }
+
+  updateRoomAccess(update: RoomAccessUpdate): void {
+    this.socket?.emit('room-access-update', update);
+  }
+
+  createInvite(request: InviteRequest): void {
+    this.socket?.emit('invite-create', request);
+  }
+
+  revokeInvite(inviteId: string): void {
+    this.socket?.emit('invite-revoke', { inviteId });
+  }
+
+  onInviteCreated(callback: (data: InviteCreated) => void): void {
+    this.socket?.on('invite-created', callback);
+  }
+
+  onRoomAccess(callback: (access: RoomAccess) => void): void {
+    this.socket?.on('room-access', callback);
+  }
+
+  onPermissionDenied(callback: (data: PermissionDenied) => void): void {
+    this.socket?.on('permission-denied', callback);
+  }
+
+  // Being removed from the room ends the session; don't rejoin on reconnect
+  onKicked(callback: (data: Kicked) => void): void {
+    this.socket?.on('kicked', (data: Kicked) => {
+      this.roomSession = null;
+      callback(data);
+    });
+  }
+
   // Document operations
-  sendDocumentOperation(operation: Omit<DocumentOperation, 'id' | 'timestamp'>): void {
-    this.socket?.emit('document-operation', operation);
+  sendDocumentOperation(submission: OperationSubmission): void {
+    this.socket?.emit('document-operation', submission);
   }
 
-  onDocumentOperation(callback: (operation: DocumentOperation) => void): void {
+  onDocumentOperation(callback: (operation: RevisionedOperation) => void): void {
     this.socket?.on('document-operation', callback);
   }
 
+  onOperationAck(callback: (ack: OperationAck) => void): void {
+    this.socket?.on('operation-ack', callback);
+  }
+
+  onDocumentSync(callback: (sync: DocumentSync) => void): void {
+    this.socket?.on('document-sync', callback);
+  }
+
+  onDocumentCatchup(callback: (catchup: DocumentCatchup) => void): void {
+    this.socket?.on('document-catchup', callback);
+  }
+
+  // File tree
+  createFile(parentId: string | null, name: string, type: FileNode['type']): void {
+    this.socket?.emit('file-create', { parentId, name, type });
+  }
+
+  renameFile(fileId: string, name: string): void {
+    this.socket?.emit('file-rename', { fileId, name });
+  }
+
+  moveFile(fileId: string, parentId: string | null): void {
+    this.socket?.emit('file-move', { fileId, parentId });
+  }
+
+  deleteFile(fileId: string): void {
+    this.socket?.emit('file-delete', { fileId });
+  }
+
+  onFileCreated(callback: (file: FileNode) => void): void {
+    this.socket?.on('file-created', callback);
+  }
+
+  onFileUpdated(callback: (file: FileNode) => void): void {
+    this.socket?.on('file-updated', callback);
+  }
+
+  onFileDeleted(callback: (data: FileDeleted) => void): void {
+    this.socket?.on('file-deleted', callback);
+  }
+
+  onFileError(callback: (error: FileError) => void): void {
+    this.socket?.on('file-error', callback);
+  }
+
+  // Version history
+  createSnapshot(fileId: string, name: string): void {
+    this.socket?.emit('snapshot-create', { fileId, name });
+  }
+
+  restoreSnapshot(snapshotId: string): void {
+    this.socket?.emit('snapshot-restore', { snapshotId });
+  }
+
+  onSnapshotCreated(callback: (snapshot: SnapshotSummary) => void): void {
+    this.socket?.on('snapshot-created', callback);
+  }
+
+  onSnapshotRestored(callback: (data: SnapshotRestored) => void): void {
+    this.socket?.on('snapshot-restored', callback);
+  }
+
   // Cursor position
-  sendCursorPosition(cursor: { line: number; column: number }): void {
+  sendCursorPosition(cursor: CursorUpdate): void {
     this.socket?.emit('cursor-position', { cursor });
   }
 
@@ -87,9 +304,31 @@ class SocketService {
     this.socket?.on('cursor-position', callback);
   }
 
+  // Our own status and typing; the presence tracker throttles these
+  updatePresence(presence: Presence): void {
+    this.socket?.emit('presence-update', presence);
+  }
+
+  onPresenceUpdate(callback: (update: PresenceUpdate) => void): void {
+    this.socket?.on('presence-update', callback);
+  }
+
+  // Presenter mode (owners): ask everyone to follow us, or stop
+  startPresenting(): void {
+    this.socket?.emit('presenter-start');
+  }
+
+  stopPresenting(): void {
+    this.socket?.emit('presenter-stop');
+  }
+
+  onPresenterUpdate(callback: (update: PresenterUpdate) => void): void {
+    this.socket?.on('presenter-update', callback);
+  }
+
   // Language change
-  sendLanguageChange(language: string): void {
-    this.socket?.emit('language-change', { language });
+  sendLanguageChange(fileId: string, language: string): void {
+    this.socket?.emit('language-change', { fileId, language });
   }
 
   onLanguageChange(callback: (data: LanguageChangeData) => void): void {
@@ -97,14 +336,67 @@ class SocketService {
   }
 
   // Chat
-  sendChatMessage(message: string): void {
-    this.socket?.emit('chat-message', { message });
+  // Messages are Markdown; shared code says where in the room it is from
+  sendChatMessage(message: string, reference?: CodeReference): void {
+    this.socket?.emit('chat-message', { message, reference });
   }
 
   onChatMessage(callback: (message: ChatMessage) => void): void {
     this.socket?.on('chat-message', callback);
   }
 
+  // Assistant replies stream in as chunks, then arrive complete
+  onChatMessageChunk(callback: (chunk: ChatMessageChunk) => void): void {
+    this.socket?.on('chat-message-chunk', callback);
+  }
+
+  onChatMessageUpdate(callback: (message: ChatMessage) => void): void {
+    this.socket?.on('chat-message-update', callback);
+  }
+
+  // Ask for the page of messages before `before`, the oldest one we have
+  requestChatHistory(before: string): void {
+    this.socket?.emit('chat-history', { before });
+  }
+
+  onChatHistory(callback: (history: ChatHistory) => void): void {
+    this.socket?.on('chat-history', callback);
+  }
+
+  searchChat(query: string): void {
+    this.socket?.emit('chat-search', { query });
+  }
+
+  onChatSearchResults(callback: (results: ChatSearchResults) => void): void {
+    this.socket?.on('chat-search-results', callback);
+  }
+
+  onChatError(callback: (error: ChatError) => void): void {
+    this.socket?.on('chat-error', callback);
+  }
+
+  // Review comments
+  createComment(request: CommentRequest): void {
+    this.socket?.emit('comment-create', request);
+  }
+
+  replyToComment(reply: CommentReply): void {
+    this.socket?.emit('comment-reply', reply);
+  }
+
+  resolveComment(resolve: CommentResolve): void {
+    this.socket?.emit('comment-resolve', resolve);
+  }
+
+  // Sent with the whole thread whenever it is created or changes
+  onCommentThread(callback: (thread: CommentThread) => void): void {
+    this.socket?.on('comment-thread', callback);
+  }
+
+  onCommentError(callback: (error: CommentError) => void): void {
+    this.socket?.on('comment-error', callback);
+  }
+
   // AI assistance
   requestAIAssistance(request: AIAssistanceRequest): void {
     this.socket?.emit('ai-assistance', request);
@@ -114,12 +406,99 @@ class SocketService {
     this.socket?.on('ai-suggestion', callback);
   }
 
+  cancelAIAssistance(requestId: string): void {
+    this.socket?.emit('ai-cancel', { requestId });
+  }
+
+  onAISuggestionChunk(callback: (chunk: AISuggestionChunk) => void): void {
+    this.socket?.on('ai-suggestion-chunk', callback);
+  }
+
+  onAIError(callback: (error: AIError) => void): void {
+    this.socket?.on('ai-error', callback);
+  }
+
+  // Code execution
+  runCode(request: RunRequest): void {
+    this.socket?.emit('run-code', request);
+  }
+
+  sendRunInput(input: RunInput): void {
+    this.socket?.emit('run-input', input);
+  }
+
+  cancelRun(runId: string): void {
+    this.socket?.emit('run-cancel', { runId });
+  }
+
+  onRunUpdate(callback: (run: CodeRun) => void): void {
+    this.socket?.on('run-update', callback);
+  }
+
+  onRunOutput(callback: (chunk: RunOutputChunk) => void): void {
+    this.socket?.on('run-output', callback);
+  }
+
+  onRunError(callback: (error: RunError) => void): void {
+    this.socket?.on('run-error', callback);
+  }
+
+  // Shared terminal
+  attachTerminal(): void {
+    this.socket?.emit('terminal-attach');
+  }
+
+  detachTerminal(): void {
+    this.socket?.emit('terminal-detach');
+  }
+
+  startTerminal(size: TerminalSize): void {
+    this.socket?.emit('terminal-start', size);
+  }
+
+  sendTerminalInput(data: string): void {
+    this.socket?.emit('terminal-input', { data });
+  }
+
+  resizeTerminal(size: TerminalSize): void {
+    this.socket?.emit('terminal-resize', size);
+  }
+
+  killTerminal(): void {
+    this.socket?.emit('terminal-kill');
+  }
+
+  onTerminalState(callback: (state: TerminalState) => void): void {
+    this.socket?.on('terminal-state', callback);
+  }
+
+  onTerminalOutput(callback: (output: TerminalOutput) => void): void {
+    this.socket?.on('terminal-output', callback);
+  }
+
+  onTerminalExit(callback: (exit: TerminalExit) => void): void {
+    this.socket?.on('terminal-exit', callback);
+  }
+
+  onTerminalResize(callback: (size: TerminalSize) => void): void {
+    this.socket?.on('terminal-resize', callback);
+  }
+
+  onTerminalError(callback: (error: TerminalError) => void): void {
+    this.socket?.on('terminal-error', callback);
+  }
+
+  // Events the server could not act on, with the reason
+  onEventError(callback: (error: EventError) => void): void {
+    this.socket?.on('error', callback);
+  }
+
   // Utility methods
   removeAllListeners(): void {
     this.socket?.removeAllListeners();
   }
 
-  removeListener(event: string): void {
+  removeListener(event: keyof ServerToClientEvents): void {
     this.socket?.off(event);
   }
 
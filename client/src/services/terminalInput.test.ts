@@ -0,0 +1,52 @@
+import { TerminalInputBuffer, splitInput } from './terminalInput';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('terminal input', () => {
+  test('keystrokes a few milliseconds apart go out together', () => {
+    const sent: string[] = [];
+    const buffer = new TerminalInputBuffer(data => sent.push(data));
+
+    for (const key of 'ls -la\r') {
+      buffer.write(key);
+      jest.advanceTimersByTime(2);
+    }
+    jest.advanceTimersByTime(20);
+    buffer.write('x');
+    jest.advanceTimersByTime(20);
+
+    expect(sent).toEqual(['ls -la\r', 'x']);
+  });
+
+  test('pastes are split to fit one message each', () => {
+    const sent: string[] = [];
+    const buffer = new TerminalInputBuffer(data => sent.push(data));
+
+    buffer.write('a'.repeat(10000));
+    jest.advanceTimersByTime(20);
+
+    expect(sent.map(chunk => chunk.length)).toEqual([4096, 4096, 1808]);
+  });
+
+  test('surrogate pairs are never split', () => {
+    expect(splitInput('ab😀c', 3)).toEqual(['ab', '😀c']);
+    expect(splitInput('', 3)).toEqual([]);
+  });
+
+  test('nothing is sent once disposed', () => {
+    const sent: string[] = [];
+    const buffer = new TerminalInputBuffer(data => sent.push(data));
+
+    buffer.write('rm');
+    buffer.dispose();
+    jest.advanceTimersByTime(20);
+
+    expect(sent).toEqual([]);
+  });
+});
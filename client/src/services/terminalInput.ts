@@ -0,0 +1,57 @@
+import { MAX_TERMINAL_INPUT } from 'collaborative-code-editor-shared';
+
+// Keystrokes this close together go to the shell as one message
+const INPUT_WINDOW_MS = 15;
+
+const isHighSurrogate = (code: number) => code >= 0xd800 && code <= 0xdbff;
+
+// Split text into pieces of at most `max` characters, never between the two
+// halves of a surrogate pair
+export function splitInput(data: string, max = MAX_TERMINAL_INPUT): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < data.length) {
+    let end = Math.min(start + max, data.length);
+    if (end < data.length && end - start > 1 && isHighSurrogate(data.charCodeAt(end - 1))) end--;
+    chunks.push(data.slice(start, end));
+    start = end;
+  }
+  return chunks;
+}
+
+// What is typed or pasted into the terminal, on its way to the server.
+// xterm reports every keystroke on its own, which held keys and fast typing
+// would turn into more messages than the server's rate limit allows, so
+// input arriving within a few milliseconds is sent together, and anything
+// longer than one message may carry is split.
+export class TerminalInputBuffer {
+  private pending = '';
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly send: (data: string) => void;
+
+  constructor(send: (data: string) => void) {
+    this.send = send;
+  }
+
+  write(data: string): void {
+    this.pending += data;
+    if (this.timer === null) {
+      this.timer = setTimeout(this.flush, INPUT_WINDOW_MS);
+    }
+  }
+
+  flush = () => {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+    const data = this.pending;
+    this.pending = '';
+    splitInput(data).forEach(chunk => this.send(chunk));
+  };
+
+  // Drop whatever has not been sent, e.g. when the panel goes away
+  dispose(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+    this.pending = '';
+  }
+}
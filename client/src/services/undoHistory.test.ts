@@ -0,0 +1,90 @@
+import { applyOperations } from 'collaborative-code-editor-shared';
+import { UndoHistory, invertOperations } from './undoHistory';
+import { TextOperation } from '../types';
+
+const insert = (position: number, content: string): TextOperation =>
+  ({ type: 'insert', position, content, length: content.length });
+const remove = (position: number, length: number): TextOperation =>
+  ({ type: 'delete', position, content: '', length });
+
+describe('invertOperations', () => {
+  test.each([
+    ['an insert', 'hello', [insert(5, ' world')]],
+    ['a delete', 'hello world', [remove(5, 6)]],
+    ['a replacement', 'const a = 1;', [remove(10, 1), insert(10, '42')]],
+    ['edits that build on each other', 'abc', [insert(3, 'def'), remove(0, 2), insert(1, 'x')]]
+  ])('takes back %s', (_, content, operations) => {
+    const edited = applyOperations(content, operations);
+    expect(applyOperations(edited, invertOperations(content, operations))).toBe(content);
+  });
+
+  test('edits that change nothing have nothing to take back', () => {
+    expect(invertOperations('abc', [insert(1, ''), remove(2, 0)])).toEqual([]);
+  });
+});
+
+describe('UndoHistory', () => {
+  // Record a local edit and return the document it leaves
+  const edit = (history: UndoHistory, content: string, operations: TextOperation[], now: number) => {
+    history.record(content, operations, now);
+    return applyOperations(content, operations);
+  };
+
+  test('undo and redo move a step between the stacks', () => {
+    const history = new UndoHistory();
+    let content = edit(history, 'ab', [insert(2, 'c')], 0);
+
+    content = applyOperations(content, history.undo(content) ?? []);
+    expect(content).toBe('ab');
+    expect(history.canUndo()).toBe(false);
+    expect(history.getSteps().redo).toMatchObject([{ inserted: 'c', deleted: 0 }]);
+
+    content = applyOperations(content, history.redo(content) ?? []);
+    expect(content).toBe('abc');
+    expect(history.canRedo()).toBe(false);
+    expect(history.undo(content)).not.toBeNull();
+    expect(history.undo('ab')).toBeNull();
+  });
+
+  test('quick edits are one step, slower ones their own', () => {
+    const history = new UndoHistory();
+    let content = edit(history, '', [insert(0, 'a')], 0);
+    content = edit(history, content, [insert(1, 'b')], 500);
+    content = edit(history, content, [insert(2, 'c')], 5000);
+
+    expect(history.getSteps().undo.map(step => step.inserted)).toEqual(['c', 'ab']);
+    content = applyOperations(content, history.undo(content) ?? []);
+    content = applyOperations(content, history.undo(content) ?? []);
+    expect(content).toBe('');
+  });
+
+  test('a new edit clears what could be redone', () => {
+    const history = new UndoHistory();
+    let content = edit(history, 'x', [insert(1, 'y')], 0);
+    content = applyOperations(content, history.undo(content) ?? []);
+    edit(history, content, [insert(0, 'z')], 5000);
+
+    expect(history.canRedo()).toBe(false);
+  });
+
+  test('undoing keeps what others wrote since', () => {
+    const history = new UndoHistory();
+    let content = edit(history, 'hello', [insert(5, ' world')], 0);
+
+    // Someone else's edit arrives
+    const remote = [insert(0, '> ')];
+    content = applyOperations(content, remote);
+    history.transform(remote);
+
+    expect(applyOperations(content, history.undo(content) ?? [])).toBe('> hello');
+  });
+
+  test('a step whose text others removed is dropped', () => {
+    const history = new UndoHistory();
+    const content = edit(history, 'ab', [insert(1, 'x')], 0);
+
+    history.transform([remove(0, content.length)]);
+
+    expect(history.canUndo()).toBe(false);
+  });
+});
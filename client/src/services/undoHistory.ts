@@ -0,0 +1,128 @@
+import { v4 as uuidv4 } from 'uuid';
+import { applyOperations, transform } from 'collaborative-code-editor-shared';
+import { TextOperation } from '../types';
+
+// Edits this close together are undone as one step, like typing a word
+const GROUP_WINDOW_MS = 1000;
+
+// One of our own edits that can be taken back, or put back once undone
+export interface UndoStep {
+  id: string;
+  // What the edit did, for the history panel
+  inserted: string;
+  deleted: number;
+  timestamp: number;
+}
+
+interface StoredStep extends UndoStep {
+  // Edits that revert the step (on the undo stack) or redo it (on the redo
+  // stack), against the current local document
+  operations: TextOperation[];
+  // Later edits start a step of their own
+  sealed: boolean;
+}
+
+// Edits that revert `operations` once they have been applied to `content`
+export function invertOperations(content: string, operations: TextOperation[]): TextOperation[] {
+  const inverse: TextOperation[] = [];
+  let current = content;
+  for (const op of operations) {
+    inverse.unshift(op.type === 'insert'
+      ? { type: 'delete', position: op.position, content: '', length: op.length }
+      : {
+        type: 'insert',
+        position: op.position,
+        content: current.slice(op.position, op.position + op.length),
+        length: Math.min(op.length, current.length - op.position)
+      });
+    current = applyOperations(current, [op]);
+  }
+  return inverse.filter(op => op.length > 0);
+}
+
+// Undo and redo stacks of one user's edits to a file. Other people's edits
+// are never undone: each step is transformed past them as they arrive, so
+// undoing takes back only what we did and keeps what they did since.
+export class UndoHistory {
+  private undoStack: StoredStep[] = [];
+  private redoStack: StoredStep[] = [];
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // Steps that can be undone and redone, most recent first
+  getSteps(): { undo: UndoStep[]; redo: UndoStep[] } {
+    const describe = ({ operations, sealed, ...step }: StoredStep): UndoStep => step;
+    return {
+      undo: this.undoStack.map(describe).reverse(),
+      redo: this.redoStack.map(describe).reverse()
+    };
+  }
+
+  // A local edit made against `content`. It joins the previous step if that
+  // was still being typed, and nothing can be redone after it.
+  record(content: string, operations: TextOperation[], now = Date.now()): void {
+    const inverse = invertOperations(content, operations);
+    if (inverse.length === 0) return;
+
+    const inserted = operations.filter(op => op.type === 'insert').map(op => op.content).join('');
+    const deleted = operations.filter(op => op.type === 'delete').reduce((sum, op) => sum + op.length, 0);
+    this.redoStack = [];
+
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (last && !last.sealed && now - last.timestamp < GROUP_WINDOW_MS) {
+      last.operations = inverse.concat(last.operations);
+      last.inserted += inserted;
+      last.deleted += deleted;
+      last.timestamp = now;
+      return;
+    }
+
+    this.undoStack.push({ id: uuidv4(), inserted, deleted, timestamp: now, operations: inverse, sealed: false });
+  }
+
+  // Move every step past edits someone else made to the local document
+  transform(remote: TextOperation[]): void {
+    for (const stack of [this.undoStack, this.redoStack]) {
+      let incoming = remote;
+      for (let i = stack.length - 1; i >= 0 && incoming.length > 0; i--) {
+        [stack[i].operations, incoming] = transform(stack[i].operations, incoming);
+      }
+    }
+    // A step whose text others have since removed has nothing left to undo
+    this.undoStack = this.undoStack.filter(step => step.operations.length > 0);
+    this.redoStack = this.redoStack.filter(step => step.operations.length > 0);
+  }
+
+  // Take the latest step off the undo stack and return the edits that revert
+  // it; `content` is the current document. The step moves to the redo stack.
+  undo(content: string): TextOperation[] | null {
+    return this.move(this.undoStack, this.redoStack, content);
+  }
+
+  redo(content: string): TextOperation[] | null {
+    return this.move(this.redoStack, this.undoStack, content);
+  }
+
+  // Forget everything, e.g. after the document was replaced wholesale
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  private move(from: StoredStep[], to: StoredStep[], content: string): TextOperation[] | null {
+    const step = from.pop();
+    if (!step) return null;
+
+    const { operations } = step;
+    to.push({ ...step, operations: invertOperations(content, operations), sealed: true });
+    const top = from[from.length - 1];
+    if (top) top.sealed = true;
+    return operations;
+  }
+}
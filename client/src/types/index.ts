@@ -1,78 +1,43 @@
-export interface User {
-  id: string;
-  name: string;
-  color: string;
-  cursor: {
-    line: number;
-    column: number;
-  };
-  joinedAt: Date;
-}
+import { AssistantContext, SnapshotSummary, TextOperation } from 'collaborative-code-editor-shared';
 
-export interface Room {
-  id: string;
-  name: string;
-  userCount: number;
-  users: User[];
-  document: {
-    content: string;
-    language: string;
-  };
-  lastActivity: Date;
-}
+// Everything sent over the socket is declared, along with the events
+// themselves, in the module shared with the server
+export * from 'collaborative-code-editor-shared';
 
-export interface DocumentOperation {
-  id: string;
-  type: 'insert' | 'delete';
-  position: number;
+export interface Snapshot extends Omit<SnapshotSummary, 'size'> {
   content: string;
-  length: number;
-  timestamp: number;
-  userId?: string;
-  userName?: string;
 }
 
-export interface ChatMessage {
-  id: string;
-  userId: string;
-  userName: string;
-  userColor: string;
-  content: string;
-  timestamp: Date;
+// A code block from an assistant reply waiting to be previewed and applied
+export interface ProposedEdit {
+  context: AssistantContext;
+  code: string;
 }
 
-export interface CursorPosition {
-  userId: string;
-  userName: string;
-  color: string;
-  cursor: {
-    line: number;
-    column: number;
-  };
-}
-
-export interface AIAssistanceRequest {
-  position: {
-    line: number;
-    column: number;
-  };
-  context: string;
-}
-
-export interface AIAssistanceResponse {
-  suggestion: string;
-  position: {
-    line: number;
-    column: number;
-  };
-  context: string;
+// A room's edit history as served by /api/rooms/:roomId/recording and
+// saved to file by the replay viewer
+export interface RecordedFile {
+  id: string;
+  path: string;
+  language?: string;
+  // Content before the file's first recorded operation
+  initialContent: string;
 }
 
-export interface RoomJoinData {
-  roomId: string;
+export interface RecordedEvent {
+  fileId: string;
+  revision: number;
+  timestamp: number;
   userName: string;
+  userColor: string | null;
+  operations: TextOperation[];
 }
 
-export interface LanguageChangeData {
-  language: string;
-}
\ No newline at end of file
+export interface Recording {
+  format: 'collaborative-editor-recording';
+  version: number;
+  roomName: string;
+  recordedAt: string;
+  files: RecordedFile[];
+  events: RecordedEvent[];
+}
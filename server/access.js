@@ -0,0 +1,316 @@
+const crypto = require('crypto');
+
+const ROLES = ['owner', 'editor', 'viewer'];
+
+// What each role may do. 'edit' covers documents, languages, the file tree
+// and restoring snapshots; 'manage' covers roles, kicks, room settings and
+// presenting.
+const PERMISSIONS = {
+  owner: ['edit', 'chat', 'manage'],
+  editor: ['edit', 'chat'],
+  viewer: ['chat']
+};
+
+const DEFAULT_ROLE = 'editor';
+const INVITE_ROLES = ['editor', 'viewer'];
+const MAX_USER_NAME_LENGTH = 50;
+const MAX_PASSWORD_LENGTH = 200;
+
+// A join or management request that is not allowed; `reason` is a stable
+// code the client can act on (e.g. ask for a password)
+class AccessError extends Error {
+  constructor(message, reason) {
+    super(message);
+    this.reason = reason;
+  }
+}
+
+function randomToken() {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+// Tokens are only stored hashed so a leaked room file cannot be used to join
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, 32).toString('hex');
+  return { salt, hash };
+}
+
+function verifyPassword(stored, password) {
+  if (typeof password !== 'string' || password.length > MAX_PASSWORD_LENGTH) return false;
+  const hash = crypto.scryptSync(password, stored.salt, 32);
+  return crypto.timingSafeEqual(hash, Buffer.from(stored.hash, 'hex'));
+}
+
+function matchesToken(tokenHash, token) {
+  if (typeof token !== 'string' || !tokenHash) return false;
+  return crypto.timingSafeEqual(Buffer.from(hashToken(token), 'hex'), Buffer.from(tokenHash, 'hex'));
+}
+
+function validatePassword(password) {
+  if (typeof password !== 'string' || password.length === 0 || password.length > MAX_PASSWORD_LENGTH) {
+    throw new AccessError(`Password must be 1-${MAX_PASSWORD_LENGTH} characters`, 'invalid-settings');
+  }
+}
+
+// Access settings for a new room: open to anyone until an owner sets a
+// password, makes it invite only or hands out an invite token
+function createAccess() {
+  return {
+    password: null,
+    inviteOnly: false,
+    inviteTokenHash: null,
+    invites: {},
+    members: {}
+  };
+}
+
+function signInvite(payload, secret) {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = crypto.createHmac('sha256', secret).update(body).digest('base64url');
+  return `${body}.${signature}`;
+}
+
+// The payload of a correctly signed invite token, or null for anything else
+function readInvite(token, secret) {
+  if (typeof token !== 'string') return null;
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) return null;
+
+  const expected = crypto.createHmac('sha256', secret).update(body).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+
+  try {
+    return JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch (error) {
+    return null;
+  }
+}
+
+function pruneInvites(room, now = Date.now()) {
+  for (const [id, invite] of Object.entries(room.access.invites)) {
+    if (invite.expiresAt <= now) delete room.access.invites[id];
+  }
+}
+
+// Mint a signed invite link token. The room keeps a record of the invite so
+// its uses can be counted and it can be revoked before it expires.
+function createInvite(room, { role, expiresInMs, maxUses, createdBy }, { secret, maxTtlMs }) {
+  if (!INVITE_ROLES.includes(role)) {
+    throw new AccessError(`Invites cannot grant the ${role} role`, 'invalid-settings');
+  }
+  if (maxUses != null && (!Number.isInteger(maxUses) || maxUses < 1)) {
+    throw new AccessError('Max uses must be a positive whole number', 'invalid-settings');
+  }
+
+  const now = Date.now();
+  const ttl = Number.isInteger(expiresInMs) && expiresInMs > 0 ? Math.min(expiresInMs, maxTtlMs) : maxTtlMs;
+  const invite = {
+    id: crypto.randomUUID(),
+    role,
+    expiresAt: now + ttl,
+    maxUses: maxUses ?? null,
+    uses: 0,
+    createdBy,
+    createdAt: now
+  };
+
+  pruneInvites(room, now);
+  room.access.invites[invite.id] = invite;
+  const token = signInvite({ roomId: room.id, inviteId: invite.id, role, expiresAt: invite.expiresAt }, secret);
+  return { invite, token };
+}
+
+function revokeInvite(room, inviteId) {
+  delete room.access.invites[inviteId];
+}
+
+// Look up the invite a signed token refers to. Returns null when the token is
+// not a signed invite for this room, and throws when it is one that can no
+// longer be used.
+function checkInvite(room, token, secret, now = Date.now()) {
+  const payload = readInvite(token, secret);
+  if (!payload || payload.roomId !== room.id) return null;
+
+  const invite = room.access.invites[payload.inviteId];
+  if (!invite) {
+    throw new AccessError('This invite link has been revoked', 'invite-revoked');
+  }
+  if (invite.expiresAt <= now) {
+    throw new AccessError('This invite link has expired', 'invite-expired');
+  }
+  if (invite.maxUses !== null && invite.uses >= invite.maxUses) {
+    throw new AccessError('This invite link has already been used up', 'invite-used-up');
+  }
+  return invite;
+}
+
+function normalizeUserName(userName) {
+  const name = typeof userName === 'string' ? userName.trim().slice(0, MAX_USER_NAME_LENGTH) : '';
+  return name || `User ${Math.floor(Math.random() * 1000)}`;
+}
+
+function isRole(role) {
+  return ROLES.includes(role);
+}
+
+function can(role, permission) {
+  return (PERMISSIONS[role] || []).includes(permission);
+}
+
+// Register a new member and return the secret token that identifies them
+function addMember(room, role, now = Date.now()) {
+  const token = randomToken();
+  room.access.members[hashToken(token)] = { role, createdAt: new Date(now), lastSeenAt: now };
+  return token;
+}
+
+// Every visit without a member token adds a member, so members holding the
+// role anyone gets on joining are forgotten once they have stayed away for
+// `retentionMs`, and the least recently seen go first past `maxMembers`.
+// They join again like any newcomer. Owners, and members whose role was
+// changed from the default, are kept. 0 disables either limit.
+function pruneMembers(room, { retentionMs, maxMembers }, now = Date.now()) {
+  const prunable = Object.entries(room.access.members)
+    .filter(([, member]) => member.role === DEFAULT_ROLE)
+    .map(([key, member]) => ({ key, lastSeenAt: member.lastSeenAt ?? new Date(member.createdAt).getTime() }))
+    .sort((a, b) => a.lastSeenAt - b.lastSeenAt);
+
+  const total = Object.keys(room.access.members).length;
+  const overCap = maxMembers ? Math.max(0, total - maxMembers) : 0;
+  prunable.forEach(({ key, lastSeenAt }, index) => {
+    if (index < overCap || (retentionMs && now - lastSeenAt > retentionMs)) {
+      delete room.access.members[key];
+    }
+  });
+}
+
+function findMemberKey(room, memberToken) {
+  if (typeof memberToken !== 'string') return null;
+  const key = hashToken(memberToken);
+  return room.access.members[key] ? key : null;
+}
+
+function getMemberRole(room, memberToken) {
+  const key = findMemberKey(room, memberToken);
+  return key ? room.access.members[key].role : null;
+}
+
+function hasOwner(room) {
+  return Object.values(room.access.members).some(member => member.role === 'owner');
+}
+
+// Decide who a joining client is. Returning members present the token they
+// were given; newcomers need an invite link, the invite code or the password
+// when the room has one. A room nobody owns yet (created by joining it) is
+// claimed by its first visitor. Returns { memberKey, memberToken, role }.
+function authenticate(room, { memberToken, password, inviteToken }, { inviteSecret, members } = {}) {
+  const existingKey = findMemberKey(room, memberToken);
+  if (existingKey) {
+    const member = room.access.members[existingKey];
+    member.lastSeenAt = Date.now();
+    return { memberKey: existingKey, memberToken, role: member.role };
+  }
+
+  let role = DEFAULT_ROLE;
+  const invite = inviteSecret && hasOwner(room) ? checkInvite(room, inviteToken, inviteSecret) : null;
+  if (!hasOwner(room)) {
+    role = 'owner';
+  } else if (invite) {
+    role = invite.role;
+    invite.uses += 1;
+  } else if (!matchesToken(room.access.inviteTokenHash, inviteToken)) {
+    if (room.access.inviteOnly) {
+      throw new AccessError('This room can only be joined with an invite', 'invite-required');
+    }
+    if (room.access.password && !verifyPassword(room.access.password, password)) {
+      throw password
+        ? new AccessError('Incorrect room password', 'invalid-password')
+        : new AccessError('This room requires a password', 'password-required');
+    }
+  }
+
+  // Make room for the newcomer under the cap
+  if (members) {
+    pruneMembers(room, { ...members, maxMembers: members.maxMembers && Math.max(members.maxMembers - 1, 1) });
+  }
+  const token = addMember(room, role);
+  return { memberKey: hashToken(token), memberToken: token, role };
+}
+
+function setMemberRole(room, memberKey, role) {
+  if (!isRole(role) || role === 'owner') {
+    throw new AccessError(`Cannot assign role ${role}`, 'invalid-role');
+  }
+  const member = Object.hasOwn(room.access.members, memberKey) ? room.access.members[memberKey] : null;
+  if (!member) throw new AccessError('Unknown member', 'unknown-member');
+  if (member.role === 'owner') {
+    throw new AccessError('The room owner cannot be demoted', 'invalid-role');
+  }
+  member.role = role;
+}
+
+function removeMember(room, memberKey) {
+  delete room.access.members[memberKey];
+}
+
+// Apply an owner's changes to the password and invite settings. Returns a
+// new invite token when one was regenerated.
+function updateAccess(room, { password, inviteOnly, regenerateInvite }) {
+  if (password === null) {
+    room.access.password = null;
+  } else if (password !== undefined) {
+    validatePassword(password);
+    room.access.password = hashPassword(password);
+  }
+
+  if (typeof inviteOnly === 'boolean') {
+    room.access.inviteOnly = inviteOnly;
+  }
+
+  if (regenerateInvite) {
+    const inviteToken = randomToken();
+    room.access.inviteTokenHash = hashToken(inviteToken);
+    return inviteToken;
+  }
+  return null;
+}
+
+// Access settings as shown to a member; only managers see the invite links
+function describeAccess(room, role) {
+  const access = {
+    hasPassword: Boolean(room.access.password),
+    inviteOnly: room.access.inviteOnly
+  };
+  if (!can(role, 'manage')) return access;
+
+  pruneInvites(room);
+  return {
+    ...access,
+    invites: Object.values(room.access.invites)
+      .sort((a, b) => a.createdAt - b.createdAt)
+  };
+}
+
+module.exports = {
+  AccessError,
+  createAccess,
+  normalizeUserName,
+  validatePassword,
+  can,
+  addMember,
+  pruneMembers,
+  getMemberRole,
+  authenticate,
+  setMemberRole,
+  removeMember,
+  updateAccess,
+  createInvite,
+  revokeInvite,
+  describeAccess
+};
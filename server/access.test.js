@@ -0,0 +1,282 @@
+const { rooms } = require('./index');
+const { serveForSuite } = require('./testing/server');
+const { createRoom } = require('./rooms');
+const { AccessError, authenticate, updateAccess, createInvite, setMemberRole } = require('./access');
+
+const INVITES = { secret: 'test-secret', maxTtlMs: 60 * 60 * 1000 };
+
+const app = serveForSuite({ silence: ['log', 'warn'] });
+
+function once(socket, event) {
+  return new Promise(resolve => socket.once(event, resolve));
+}
+
+// Resolves with the room on success or the join error on failure
+function join(socket, data) {
+  return new Promise((resolve) => {
+    socket.once('room-joined', resolve);
+    socket.once('join-error', resolve);
+    socket.emit('join-room', { userName: 'tester', ...data });
+  });
+}
+
+async function createRoomOverHttp(body) {
+  const response = await fetch(`${app.url}/api/rooms`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return response.json();
+}
+
+describe('authenticate', () => {
+  test('the first visitor of an unowned room becomes its owner', () => {
+    const room = createRoom('claim');
+
+    expect(authenticate(room, {}).role).toBe('owner');
+    expect(authenticate(room, {}).role).toBe('editor');
+  });
+
+  test('returning members keep their role without the password', () => {
+    const room = createRoom('private');
+    authenticate(room, {});
+    updateAccess(room, { password: 'secret' });
+
+    expect(() => authenticate(room, {})).toThrow(AccessError);
+    expect(() => authenticate(room, { password: 'wrong' })).toThrow('Incorrect room password');
+
+    const { memberToken } = authenticate(room, { password: 'secret' });
+    expect(authenticate(room, { memberToken }).memberToken).toBe(memberToken);
+  });
+
+  test('an invite token gets past invite-only rooms', () => {
+    const room = createRoom('invite');
+    authenticate(room, {});
+    const inviteToken = updateAccess(room, { inviteOnly: true, regenerateInvite: true });
+
+    expect(() => authenticate(room, {})).toThrow(expect.objectContaining({ reason: 'invite-required' }));
+    expect(authenticate(room, { inviteToken }).role).toBe('editor');
+  });
+
+  test('members with the default role are forgotten once away too long or past the cap', () => {
+    const room = createRoom('crowded');
+    const limits = { members: { retentionMs: 1000, maxMembers: 4 } };
+    const owner = authenticate(room, {}, limits);
+    const viewer = authenticate(room, {}, limits);
+    setMemberRole(room, viewer.memberKey, 'viewer');
+    const stale = authenticate(room, {}, limits);
+    room.access.members[stale.memberKey].lastSeenAt = Date.now() - 2000;
+    const regular = authenticate(room, {}, limits);
+
+    authenticate(room, {}, limits);
+    expect(Object.keys(room.access.members)).not.toContain(stale.memberKey);
+
+    authenticate(room, {}, limits);
+    expect(Object.keys(room.access.members)).toHaveLength(4);
+    expect(Object.keys(room.access.members)).not.toContain(regular.memberKey);
+    expect(room.access.members[owner.memberKey].role).toBe('owner');
+    expect(room.access.members[viewer.memberKey].role).toBe('viewer');
+  });
+});
+
+describe('invite links', () => {
+  function ownedRoom(id) {
+    const room = createRoom(id);
+    authenticate(room, {});
+    updateAccess(room, { inviteOnly: true });
+    return room;
+  }
+
+  const redeem = (room, inviteToken) => authenticate(room, { inviteToken }, { inviteSecret: INVITES.secret });
+
+  test('grant the role they were created with until used up', () => {
+    const room = ownedRoom('links');
+    const { token, invite } = createInvite(room, { role: 'viewer', maxUses: 2 }, INVITES);
+
+    expect(redeem(room, token).role).toBe('viewer');
+    expect(redeem(room, token).role).toBe('viewer');
+    expect(invite.uses).toBe(2);
+    expect(() => redeem(room, token)).toThrow(expect.objectContaining({ reason: 'invite-used-up' }));
+  });
+
+  test('stop working once expired', async () => {
+    const room = ownedRoom('expiring');
+    const { token } = createInvite(room, { role: 'editor', expiresInMs: 1 }, INVITES);
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    expect(() => redeem(room, token)).toThrow(expect.objectContaining({ reason: 'invite-expired' }));
+  });
+
+  test('are rejected when tampered with or signed for another room', () => {
+    const room = ownedRoom('signed');
+    const other = ownedRoom('other');
+    const { token } = createInvite(room, { role: 'viewer' }, INVITES);
+    const [body, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({
+      ...JSON.parse(Buffer.from(body, 'base64url').toString()),
+      role: 'editor'
+    })).toString('base64url');
+
+    expect(() => redeem(room, `${forged}.${signature}`)).toThrow(expect.objectContaining({ reason: 'invite-required' }));
+    expect(() => redeem(other, token)).toThrow(expect.objectContaining({ reason: 'invite-required' }));
+  });
+
+  test('cannot make someone an owner', () => {
+    const room = ownedRoom('escalate');
+    expect(() => createInvite(room, { role: 'owner' }, INVITES)).toThrow(AccessError);
+  });
+});
+
+describe('room access over sockets', () => {
+  test('the creator owns a room and can demote editors to viewers', async () => {
+    const { roomId, ownerToken } = await createRoomOverHttp({ name: 'Owned', password: 'pw' });
+    const owner = app.connect();
+    const guest = app.connect();
+
+    try {
+      const ownerRoom = await join(owner, { roomId, memberToken: ownerToken });
+      expect(ownerRoom.role).toBe('owner');
+
+      expect(await join(guest, { roomId })).toMatchObject({ reason: 'password-required' });
+      const guestRoom = await join(guest, { roomId, password: 'pw' });
+      expect(guestRoom.role).toBe('editor');
+
+      const updated = once(guest, 'user-updated');
+      owner.emit('user-role-change', { userId: guest.id, role: 'viewer' });
+      expect(await updated).toMatchObject({ id: guest.id, role: 'viewer' });
+
+      // The viewer's edit is refused and their document rolled back
+      const [file] = guestRoom.files;
+      const denied = once(guest, 'permission-denied');
+      const sync = once(guest, 'document-sync');
+      guest.emit('document-operation', {
+        fileId: file.id,
+        id: 'v1',
+        revision: file.revision,
+        operations: ['x']
+      });
+      await denied;
+      expect(await sync).toMatchObject({ fileId: file.id, revision: file.revision });
+      expect(rooms.get(roomId).files[file.id].content).toBe(file.content);
+    } finally {
+      owner.close();
+      guest.close();
+    }
+  });
+
+  test('only owners can manage participants', async () => {
+    const { roomId, ownerToken } = await createRoomOverHttp({ name: 'Managed' });
+    const owner = app.connect();
+    const editor = app.connect();
+
+    try {
+      await join(owner, { roomId, memberToken: ownerToken });
+      const editorRoom = await join(editor, { roomId });
+
+      const denied = once(editor, 'permission-denied');
+      editor.emit('user-kick', { userId: owner.id });
+      expect(await denied).toMatchObject({ action: 'removing participants' });
+
+      const kicked = once(editor, 'kicked');
+      const left = once(owner, 'user-left');
+      owner.emit('user-kick', { userId: editor.id });
+      await kicked;
+      expect((await left).id).toBe(editor.id);
+
+      // The revoked token no longer identifies a member, but the room is open:
+      // the kick only disconnected them and they are let back in as new
+      const rejoined = await join(editor, { roomId, memberToken: editorRoom.memberToken });
+      expect(rejoined.memberToken).not.toBe(editorRoom.memberToken);
+      expect(rejoined.role).toBe('editor');
+    } finally {
+      owner.close();
+      editor.close();
+    }
+  });
+
+  test('someone kicked from a protected room needs the password again', async () => {
+    const { roomId, ownerToken } = await createRoomOverHttp({ name: 'Guarded', password: 'pw' });
+    const owner = app.connect();
+    const guest = app.connect();
+
+    try {
+      await join(owner, { roomId, memberToken: ownerToken });
+      const guestRoom = await join(guest, { roomId, password: 'pw' });
+
+      const kicked = once(guest, 'kicked');
+      owner.emit('user-kick', { userId: guest.id });
+      await kicked;
+
+      const refused = await join(guest, { roomId, memberToken: guestRoom.memberToken });
+      expect(refused).toMatchObject({ reason: 'password-required' });
+    } finally {
+      owner.close();
+      guest.close();
+    }
+  });
+
+  test('owners present to the room until they stop or leave', async () => {
+    const { roomId, ownerToken } = await createRoomOverHttp({ name: 'Presented' });
+    const owner = app.connect();
+    const editor = app.connect();
+
+    try {
+      await join(owner, { roomId, memberToken: ownerToken });
+      await join(editor, { roomId });
+
+      const denied = once(editor, 'permission-denied');
+      editor.emit('presenter-start');
+      expect(await denied).toMatchObject({ action: 'presenting' });
+
+      const started = once(editor, 'presenter-update');
+      owner.emit('presenter-start');
+      expect(await started).toEqual({ presenterId: owner.id });
+
+      const late = app.connect();
+      try {
+        expect(await join(late, { roomId })).toMatchObject({ presenterId: owner.id });
+      } finally {
+        late.close();
+      }
+
+      const stopped = once(editor, 'presenter-update');
+      owner.close();
+      expect(await stopped).toEqual({ presenterId: null });
+    } finally {
+      owner.close();
+      editor.close();
+    }
+  });
+
+  test('owners create invite links that let people into invite-only rooms', async () => {
+    const { roomId, ownerToken } = await createRoomOverHttp({ name: 'Invites', inviteOnly: true });
+    const owner = app.connect();
+    const guest = app.connect();
+
+    try {
+      await join(owner, { roomId, memberToken: ownerToken });
+      const created = once(owner, 'invite-created');
+      owner.emit('invite-create', { role: 'viewer', expiresInMs: 60000, maxUses: 1 });
+      const { token, invite } = await created;
+      expect(invite).toMatchObject({ role: 'viewer', maxUses: 1, uses: 0 });
+
+      expect(await join(guest, { roomId })).toMatchObject({ reason: 'invite-required' });
+      expect(await join(guest, { roomId, inviteToken: token })).toMatchObject({ role: 'viewer' });
+    } finally {
+      owner.close();
+      guest.close();
+    }
+  });
+
+  test('snapshots are only served to members', async () => {
+    const { roomId, ownerToken } = await createRoomOverHttp({ name: 'History' });
+
+    const anonymous = await fetch(`${app.url}/api/rooms/${roomId}/snapshots`);
+    const member = await fetch(`${app.url}/api/rooms/${roomId}/snapshots`, {
+      headers: { 'X-Member-Token': ownerToken }
+    });
+
+    expect(anonymous.status).toBe(403);
+    expect(member.status).toBe(200);
+  });
+});
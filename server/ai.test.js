@@ -0,0 +1,212 @@
+const http = require('http');
+const { serveForSuite } = require('./testing/server');
+const {
+  AIProviderError,
+  OpenAIProvider,
+  LocalProvider,
+  StubProvider,
+  buildCompletionRequest,
+  stripCodeFence
+} = require('./ai');
+const { SUGGESTIONS } = require('./ai/stubProvider');
+
+const file = { name: 'main.js', language: 'javascript', content: 'function add(a, b) {\n  \n}\n' };
+const request = buildCompletionRequest(file, { offset: 23, line: 2, column: 3 }, { contextChars: 10 });
+
+// A stand-in model server: `respond(req, body, res)` writes the reply
+function startFakeEndpoint(respond) {
+  const requests = [];
+  const endpoint = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const parsed = JSON.parse(body);
+      requests.push({ url: req.url, headers: req.headers, body: parsed });
+      respond(req, parsed, res);
+    });
+  });
+  return new Promise((resolve) => {
+    endpoint.listen(0, () => resolve({
+      url: `http://localhost:${endpoint.address().port}`,
+      requests,
+      close: () => new Promise(done => endpoint.close(done))
+    }));
+  });
+}
+
+async function collect(chunks) {
+  const received = [];
+  for await (const chunk of chunks) received.push(chunk);
+  return received;
+}
+
+describe('completion requests', () => {
+  test('carry the whole document and the text around the cursor', () => {
+    expect(request).toMatchObject({
+      fileName: 'main.js',
+      language: 'javascript',
+      document: file.content,
+      prefix: 'a, b) {\n  ',
+      suffix: '\n}\n'
+    });
+  });
+
+  test('fenced answers are unwrapped', () => {
+    expect(stripCodeFence('```js\nreturn a + b;\n```')).toBe('return a + b;');
+    expect(stripCodeFence('return a + b;')).toBe('return a + b;');
+  });
+});
+
+describe('providers', () => {
+  test('the OpenAI provider streams deltas from server-sent events', async () => {
+    const endpoint = await startFakeEndpoint((req, body, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (const text of ['return ', 'a + b;']) {
+        res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n`);
+      }
+      res.end('data: [DONE]\n\n');
+    });
+
+    try {
+      const provider = new OpenAIProvider({ baseUrl: `${endpoint.url}/v1/`, apiKey: 'key', model: 'm', maxTokens: 64, timeoutMs: 1000 });
+      expect(await collect(provider.complete(request))).toEqual(['return ', 'a + b;']);
+
+      const [sent] = endpoint.requests;
+      expect(sent.url).toBe('/v1/chat/completions');
+      expect(sent.headers.authorization).toBe('Bearer key');
+      expect(sent.body).toMatchObject({ model: 'm', stream: true, max_tokens: 64 });
+      expect(sent.body.messages[1].content).toContain('a, b) {\n  <CURSOR>\n}');
+    } finally {
+      await endpoint.close();
+    }
+  });
+
+  test('the local provider streams newline-delimited JSON', async () => {
+    const endpoint = await startFakeEndpoint((req, body, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.write(`${JSON.stringify({ response: 'return a', done: false })}\n`);
+      res.end(`${JSON.stringify({ response: ' + b;', done: true })}\n`);
+    });
+
+    try {
+      const provider = new LocalProvider({ baseUrl: endpoint.url, model: 'coder', maxTokens: 32, timeoutMs: 1000 });
+      expect((await collect(provider.complete(request))).join('')).toBe('return a + b;');
+      expect(endpoint.requests[0]).toMatchObject({ url: '/api/generate', body: { model: 'coder', stream: true } });
+    } finally {
+      await endpoint.close();
+    }
+  });
+
+  test('upstream failures become provider errors', async () => {
+    const endpoint = await startFakeEndpoint((req, body, res) => {
+      res.writeHead(429);
+      res.end('slow down');
+    });
+
+    try {
+      const provider = new OpenAIProvider({ baseUrl: endpoint.url, model: 'm', maxTokens: 8, timeoutMs: 1000 });
+      await expect(collect(provider.complete(request))).rejects.toThrow(AIProviderError);
+      await expect(collect(provider.complete(request))).rejects.toThrow('429: slow down');
+    } finally {
+      await endpoint.close();
+    }
+  });
+
+  test('the stub provider is deterministic', async () => {
+    const provider = new StubProvider({ chunkSize: 4 });
+    const chunks = await collect(provider.complete(request));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(SUGGESTIONS.javascript);
+  });
+});
+
+describe('AI over sockets', () => {
+  const { connect } = serveForSuite();
+
+  test('streams the suggestion and returns where to insert it', async () => {
+    const client = connect();
+
+    try {
+      const room = await new Promise((resolve) => {
+        client.once('room-joined', resolve);
+        client.emit('join-room', { roomId: 'ai-room', userName: 'tester' });
+      });
+      const [target] = room.files;
+
+      const chunks = [];
+      client.on('ai-suggestion-chunk', ({ text }) => chunks.push(text));
+      const suggested = new Promise(resolve => client.once('ai-suggestion', resolve));
+      client.emit('ai-assistance', { requestId: 'r1', fileId: target.id, offset: 5, revision: target.revision });
+
+      const suggestion = await suggested;
+      expect(suggestion).toMatchObject({
+        requestId: 'r1',
+        fileId: target.id,
+        suggestion: chunks.join(''),
+        position: { offset: 5, line: 1, column: 6 }
+      });
+    } finally {
+      client.close();
+    }
+  });
+
+  test('@ai in chat gets a streamed reply about the selected code', async () => {
+    const client = connect();
+
+    try {
+      const room = await new Promise((resolve) => {
+        client.once('room-joined', resolve);
+        client.emit('join-room', { roomId: 'ai-chat', userName: 'tester' });
+      });
+      const [target] = room.files;
+      const selected = target.content.slice(0, 10);
+      client.emit('cursor-position', { cursor: { fileId: target.id, anchor: 0, offset: 10, revision: target.revision } });
+
+      const messages = [];
+      let streamed = '';
+      client.on('chat-message', message => messages.push(message));
+      client.on('chat-message-chunk', ({ text }) => { streamed += text; });
+      const answered = new Promise(resolve => client.once('chat-message-update', resolve));
+      client.emit('chat-message', { message: '@ai please add a greeting' });
+
+      const reply = await answered;
+      expect(messages.map(m => m.userName)).toEqual(['tester', 'AI Assistant']);
+      expect(reply).toMatchObject({
+        id: messages[1].id,
+        bot: true,
+        pending: false,
+        replyTo: messages[0].id,
+        content: streamed,
+        context: { fileId: target.id, selection: { start: 0, end: 10, text: selected } }
+      });
+      expect(reply.content).toContain(`\`\`\`${target.language}\n${selected}\n`);
+    } finally {
+      client.close();
+    }
+  });
+
+  test('inline requests get only the finished suggestion and can be cancelled', async () => {
+    const client = connect();
+
+    try {
+      const room = await new Promise((resolve) => {
+        client.once('room-joined', resolve);
+        client.emit('join-room', { roomId: 'ai-inline', userName: 'tester' });
+      });
+      const [target] = room.files;
+      const received = [];
+      client.onAny((event, payload) => received.push({ event, requestId: payload?.requestId }));
+
+      client.emit('ai-assistance', { requestId: 'stale', fileId: target.id, offset: 0, stream: false });
+      client.emit('ai-cancel', { requestId: 'stale' });
+      const suggested = new Promise(resolve => client.once('ai-suggestion', resolve));
+      client.emit('ai-assistance', { requestId: 'fresh', fileId: target.id, offset: 0, stream: false });
+
+      expect((await suggested).requestId).toBe('fresh');
+      expect(received).toEqual([{ event: 'ai-suggestion', requestId: 'fresh' }]);
+    } finally {
+      client.close();
+    }
+  });
+});
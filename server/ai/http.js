@@ -0,0 +1,49 @@
+// A completion request the upstream model could not serve; the message is
+// safe to show to the user who asked
+class AIProviderError extends Error {}
+
+// POST JSON to a model endpoint and return the response once headers arrive.
+// The request is abandoned when `signal` aborts or after `timeoutMs`.
+async function postJson(url, body, { headers = {}, signal, timeoutMs }) {
+  const signals = [AbortSignal.timeout(timeoutMs)];
+  if (signal) signals.push(signal);
+
+  let response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.any(signals)
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new AIProviderError(error.name === 'TimeoutError'
+      ? 'The AI provider took too long to respond'
+      : `Could not reach the AI provider: ${error.message}`);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new AIProviderError(`The AI provider responded with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+  return response;
+}
+
+// Split a streamed response body into lines as they arrive
+async function* readLines(body) {
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  for await (const chunk of body) {
+    buffered += decoder.decode(chunk, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop();
+    yield* lines;
+  }
+
+  buffered += decoder.decode();
+  if (buffered) yield buffered;
+}
+
+module.exports = { AIProviderError, postJson, readLines };
@@ -0,0 +1,48 @@
+const { AIProviderError } = require('./http');
+const { OpenAIProvider } = require('./openaiProvider');
+const { LocalProvider } = require('./localProvider');
+const { StubProvider } = require('./stubProvider');
+const { buildCompletionRequest, buildAssistantRequest, stripCodeFence } = require('./prompt');
+
+// Every provider implements the same interface:
+//   complete(request, { signal }) -> async iterable of text chunks
+//   reply(request, { signal }) -> async iterable of text chunks
+// where `request` comes from buildCompletionRequest (code completion at a
+// cursor) or buildAssistantRequest (a chat question). Iteration stops early
+// when `signal` aborts; failures are thrown as AIProviderError.
+function createAIProvider({ provider, baseUrl, apiKey, model, maxTokens, replyMaxTokens, timeoutMs }) {
+  switch (provider) {
+    case 'openai':
+      return new OpenAIProvider({
+        baseUrl: baseUrl || 'https://api.openai.com/v1',
+        apiKey,
+        model: model || 'gpt-4o-mini',
+        maxTokens,
+        replyMaxTokens,
+        timeoutMs
+      });
+    case 'local':
+      return new LocalProvider({
+        baseUrl: baseUrl || 'http://localhost:11434',
+        model: model || 'codellama',
+        maxTokens,
+        replyMaxTokens,
+        timeoutMs
+      });
+    case 'stub':
+      return new StubProvider();
+    default:
+      throw new Error(`Unknown AI provider: ${provider}`);
+  }
+}
+
+module.exports = {
+  AIProviderError,
+  createAIProvider,
+  buildCompletionRequest,
+  buildAssistantRequest,
+  stripCodeFence,
+  OpenAIProvider,
+  LocalProvider,
+  StubProvider
+};
@@ -0,0 +1,48 @@
+const { AIProviderError, postJson, readLines } = require('./http');
+const { buildPrompt, buildAssistantPrompt, SYSTEM_PROMPT, ASSISTANT_PROMPT } = require('./prompt');
+
+// A model served on this machine or network through the Ollama generate API,
+// which streams one JSON object per line
+class LocalProvider {
+  constructor({ baseUrl, model, maxTokens, replyMaxTokens, timeoutMs }) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+    this.maxTokens = maxTokens;
+    this.replyMaxTokens = replyMaxTokens || maxTokens;
+    this.timeoutMs = timeoutMs;
+  }
+
+  complete(request, { signal } = {}) {
+    return this.stream(SYSTEM_PROMPT, buildPrompt(request), this.maxTokens, signal);
+  }
+
+  reply(request, { signal } = {}) {
+    return this.stream(ASSISTANT_PROMPT, buildAssistantPrompt(request), this.replyMaxTokens, signal);
+  }
+
+  async *stream(system, prompt, maxTokens, signal) {
+    const response = await postJson(`${this.baseUrl}/api/generate`, {
+      model: this.model,
+      system,
+      prompt,
+      stream: true,
+      options: { num_predict: maxTokens, temperature: 0.2 }
+    }, { signal, timeoutMs: this.timeoutMs });
+
+    for await (const line of readLines(response.body)) {
+      if (!line.trim()) continue;
+
+      let event;
+      try {
+        event = JSON.parse(line);
+      } catch (error) {
+        throw new AIProviderError('The AI provider sent a malformed stream');
+      }
+      if (event.error) throw new AIProviderError(`The AI provider failed: ${event.error}`);
+      if (event.response) yield event.response;
+      if (event.done) return;
+    }
+  }
+}
+
+module.exports = { LocalProvider };
@@ -0,0 +1,58 @@
+const { AIProviderError, postJson, readLines } = require('./http');
+const { buildPrompt, buildAssistantPrompt, SYSTEM_PROMPT, ASSISTANT_PROMPT } = require('./prompt');
+
+// Any endpoint that speaks the OpenAI chat completions API with streaming
+// (OpenAI itself, Azure-style proxies, vLLM, LM Studio, ...)
+class OpenAIProvider {
+  constructor({ baseUrl, apiKey, model, maxTokens, replyMaxTokens, timeoutMs }) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.model = model;
+    this.maxTokens = maxTokens;
+    this.replyMaxTokens = replyMaxTokens || maxTokens;
+    this.timeoutMs = timeoutMs;
+  }
+
+  complete(request, { signal } = {}) {
+    return this.stream(SYSTEM_PROMPT, buildPrompt(request), this.maxTokens, signal);
+  }
+
+  reply(request, { signal } = {}) {
+    return this.stream(ASSISTANT_PROMPT, buildAssistantPrompt(request), this.replyMaxTokens, signal);
+  }
+
+  async *stream(system, prompt, maxTokens, signal) {
+    const response = await postJson(`${this.baseUrl}/chat/completions`, {
+      model: this.model,
+      stream: true,
+      max_tokens: maxTokens,
+      temperature: 0.2,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: prompt }
+      ]
+    }, {
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      signal,
+      timeoutMs: this.timeoutMs
+    });
+
+    // Server-sent events: `data: {json}` per chunk, then `data: [DONE]`
+    for await (const line of readLines(response.body)) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+
+      let event;
+      try {
+        event = JSON.parse(data);
+      } catch (error) {
+        throw new AIProviderError('The AI provider sent a malformed stream');
+      }
+      const text = event.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
+
+module.exports = { OpenAIProvider };
@@ -0,0 +1,74 @@
+const CURSOR_MARKER = '<CURSOR>';
+
+const SYSTEM_PROMPT = 'You are a code completion engine inside a collaborative editor. ' +
+  `Reply with only the text to insert at ${CURSOR_MARKER}: no explanations and no Markdown fences.`;
+
+const ASSISTANT_PROMPT = 'You are an assistant taking part in the team chat of a collaborative code editor. ' +
+  'Answer briefly in Markdown. When you suggest a change, put the complete replacement for the selected ' +
+  'code (or the whole file when nothing is selected) in a single fenced code block.';
+
+// Everything a provider gets to see about a completion request. The whole
+// document is included; `prefix` and `suffix` are the text around the cursor
+// trimmed to `contextChars` so prompts stay a sensible size.
+function buildCompletionRequest(file, { offset, line, column }, { contextChars }) {
+  return {
+    fileName: file.name,
+    language: file.language,
+    document: file.content,
+    offset,
+    line,
+    column,
+    prefix: file.content.slice(Math.max(0, offset - contextChars), offset),
+    suffix: file.content.slice(offset, offset + contextChars)
+  };
+}
+
+function buildPrompt({ fileName, language, line, column, prefix, suffix }) {
+  return [
+    `File: ${fileName} (${language})`,
+    `Cursor: line ${line}, column ${column}`,
+    '',
+    `${prefix}${CURSOR_MARKER}${suffix}`
+  ].join('\n');
+}
+
+// What the chat assistant gets to see: the question, the file the asker is
+// in and what they have selected in it, if anything
+function buildAssistantRequest(question, file, selection) {
+  return {
+    question,
+    fileName: file ? file.name : null,
+    language: file ? file.language : null,
+    document: file ? file.content : null,
+    selection: file && selection
+      ? { ...selection, text: file.content.slice(selection.start, selection.end) }
+      : null
+  };
+}
+
+function buildAssistantPrompt({ question, fileName, language, document, selection }) {
+  if (document === null) return question;
+
+  const parts = [`The user is working on ${fileName} (${language}):`, '```', document, '```'];
+  if (selection) {
+    parts.push('', 'They have selected this part of it:', '```', selection.text, '```');
+  }
+  parts.push('', `Question: ${question}`);
+  return parts.join('\n');
+}
+
+// Models sometimes wrap the answer in a fenced block despite being asked not to
+function stripCodeFence(text) {
+  const match = /^\s*```[\w+-]*\n([\s\S]*?)\n?```\s*$/.exec(text);
+  return match ? match[1] : text;
+}
+
+module.exports = {
+  SYSTEM_PROMPT,
+  ASSISTANT_PROMPT,
+  buildCompletionRequest,
+  buildPrompt,
+  buildAssistantRequest,
+  buildAssistantPrompt,
+  stripCodeFence
+};
@@ -0,0 +1,56 @@
+const SUGGESTIONS = {
+  javascript: 'console.log("Hello, world!");',
+  typescript: 'console.log("Hello, world!");',
+  python: 'print("Hello, world!")',
+  java: 'System.out.println("Hello, world!");',
+  cpp: 'std::cout << "Hello, world!" << std::endl;',
+  csharp: 'Console.WriteLine("Hello, world!");',
+  go: 'fmt.Println("Hello, world!")',
+  rust: 'println!("Hello, world!");',
+  php: 'echo "Hello, world!";',
+  sql: 'SELECT 1;',
+  html: '<p>Hello, world!</p>',
+  css: '/* TODO: add styles */',
+  markdown: 'Hello, world!'
+};
+
+const suggestionFor = language => SUGGESTIONS[language] || '// TODO: implement';
+
+// Offline provider with fixed answers, streamed in small pieces so clients
+// exercise the same code path as with a real model
+class StubProvider {
+  constructor({ chunkSize = 8 } = {}) {
+    this.chunkSize = chunkSize;
+  }
+
+  complete({ language }, { signal } = {}) {
+    return this.stream(suggestionFor(language), signal);
+  }
+
+  // Proposes the code the question was about with the language's snippet
+  // appended, so "apply to editor" has something predictable to apply
+  reply({ fileName, language, document, selection }, { signal } = {}) {
+    if (document === null) {
+      return this.stream('Open a file and ask again, and I will suggest a change to it.', signal);
+    }
+
+    const code = selection ? selection.text : document;
+    const separator = code === '' || code.endsWith('\n') ? '' : '\n';
+    const target = selection ? 'the selected code' : fileName;
+    return this.stream(
+      `Here is a suggestion for ${target}:\n\n\`\`\`${language}\n${code}${separator}${suggestionFor(language)}\n\`\`\``,
+      signal
+    );
+  }
+
+  async *stream(text, signal) {
+    for (let i = 0; i < text.length; i += this.chunkSize) {
+      if (signal?.aborted) return;
+      // Yield to the event loop between chunks like a network stream would
+      await new Promise(resolve => setImmediate(resolve));
+      yield text.slice(i, i + this.chunkSize);
+    }
+  }
+}
+
+module.exports = { StubProvider, SUGGESTIONS };
@@ -0,0 +1,122 @@
+const { v4: uuidv4 } = require('uuid');
+const { getFile } = require('./files');
+
+// A room's chat log. Messages are kept oldest first and pruned by count and
+// age as new ones arrive, so the log stays bounded however long a room
+// lives. Clients get the latest page when they join and page backwards from
+// the oldest message they have.
+
+// A message that cannot be posted, or a history or search request that
+// cannot be answered
+class ChatError extends Error {}
+
+// Messages are Markdown and may carry shared code, so they can be long.
+// This is the default; the server passes its configured limit.
+const MAX_MESSAGE_LENGTH = 10000;
+const MAX_QUERY_LENGTH = 200;
+
+function timeOf(message) {
+  return new Date(message.timestamp).getTime();
+}
+
+function validateContent(content, maxLength) {
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new ChatError('A message cannot be empty');
+  }
+  if (content.length > maxLength) {
+    throw new ChatError(`Messages are limited to ${maxLength} characters`);
+  }
+  return content.trim();
+}
+
+// Lines of a file shared along with a message, so readers can jump to them.
+// They are kept as line numbers: a pointer to where the code was when it
+// was shared, not something that follows later edits.
+function normalizeReference(room, reference) {
+  if (!reference) return null;
+
+  const file = getFile(room, reference.fileId);
+  const { startLine, endLine } = reference;
+  if (!file) {
+    throw new ChatError('The shared code is not in a file of this room');
+  }
+  if (!Number.isInteger(startLine) || !Number.isInteger(endLine) || startLine < 1 || endLine < startLine) {
+    throw new ChatError('The shared lines are not valid');
+  }
+  return { fileId: file.id, fileName: file.name, startLine, endLine };
+}
+
+function createMessage(room, author, { message, reference }, { maxMessageChars = MAX_MESSAGE_LENGTH } = {}) {
+  return {
+    id: uuidv4(),
+    userId: author.id,
+    userName: author.name,
+    userColor: author.color,
+    content: validateContent(message, maxMessageChars),
+    reference: normalizeReference(room, reference),
+    timestamp: new Date()
+  };
+}
+
+// Drop messages past the retention window and beyond the cap, oldest first.
+// A limit of 0 disables it.
+function pruneChat(room, { maxMessages, retentionMs }, now = Date.now()) {
+  let chat = room.chat;
+  if (retentionMs) {
+    chat = chat.filter(message => now - timeOf(message) <= retentionMs);
+  }
+  if (maxMessages && chat.length > maxMessages) {
+    chat = chat.slice(chat.length - maxMessages);
+  }
+  room.chat = chat;
+}
+
+function addMessage(room, message, options) {
+  room.chat.push(message);
+  pruneChat(room, options, timeOf(message));
+}
+
+// Up to `limit` messages from before the one with id `before`, or the latest
+// ones when `before` is null, and whether there are older ones still
+function chatHistory(room, { before = null, limit }) {
+  let end = room.chat.length;
+  if (before !== null) {
+    end = room.chat.findIndex(message => message.id === before);
+    if (end === -1) throw new ChatError('That message is no longer in the chat history');
+  }
+
+  const start = Math.max(0, end - limit);
+  return { messages: room.chat.slice(start, end), hasMore: start > 0 };
+}
+
+// Messages whose text or author contains every word of the query, newest
+// first
+function searchChat(room, query, { limit }) {
+  if (typeof query !== 'string' || !query.trim()) {
+    throw new ChatError('Enter something to search for');
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    throw new ChatError(`Searches are limited to ${MAX_QUERY_LENGTH} characters`);
+  }
+
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const results = [];
+  for (let i = room.chat.length - 1; i >= 0 && results.length < limit; i--) {
+    const message = room.chat[i];
+    if (typeof message.content !== 'string') continue;
+
+    const text = `${message.userName} ${message.content}`.toLowerCase();
+    if (terms.every(term => text.includes(term))) results.push(message);
+  }
+  return results;
+}
+
+module.exports = {
+  ChatError,
+  MAX_MESSAGE_LENGTH,
+  createMessage,
+  pruneChat,
+  addMessage,
+  chatHistory,
+  searchChat
+};
@@ -0,0 +1,143 @@
+const { serveForSuite } = require('./testing/server');
+const { createRoom } = require('./rooms');
+const { ChatError, createMessage, pruneChat, addMessage, chatHistory, searchChat } = require('./chat');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function message(id, content, { userName = 'Ann', timestamp = new Date() } = {}) {
+  return { id, userId: 'u1', userName, userColor: 'red', content, timestamp };
+}
+
+function roomWithMessages(count) {
+  const room = createRoom('chat');
+  for (let i = 1; i <= count; i++) room.chat.push(message(`m${i}`, `message ${i}`));
+  return room;
+}
+
+const AUTHOR = { id: 'u1', name: 'Ann', color: 'red' };
+
+describe('chat messages', () => {
+  test('are trimmed and must not be empty or too long', () => {
+    const room = createRoom('chat');
+
+    expect(createMessage(room, AUTHOR, { message: '  **hi**  ' })).toMatchObject({
+      userName: 'Ann',
+      content: '**hi**',
+      reference: null
+    });
+    expect(() => createMessage(room, AUTHOR, { message: ' ' })).toThrow(ChatError);
+    expect(() => createMessage(room, AUTHOR, { message: 'x'.repeat(10001) })).toThrow(ChatError);
+  });
+
+  test('can point at lines of a file in the room', () => {
+    const room = createRoom('chat');
+    const [file] = Object.values(room.files);
+
+    const { reference } = createMessage(room, AUTHOR, {
+      message: 'look',
+      reference: { fileId: file.id, startLine: 1, endLine: 2 }
+    });
+    expect(reference).toEqual({ fileId: file.id, fileName: file.name, startLine: 1, endLine: 2 });
+
+    expect(() => createMessage(room, AUTHOR, {
+      message: 'look',
+      reference: { fileId: 'missing', startLine: 1, endLine: 2 }
+    })).toThrow(ChatError);
+    expect(() => createMessage(room, AUTHOR, {
+      message: 'look',
+      reference: { fileId: file.id, startLine: 3, endLine: 2 }
+    })).toThrow(ChatError);
+  });
+});
+
+describe('chat log', () => {
+  test('keeps at most the configured number of messages', () => {
+    const room = roomWithMessages(5);
+    addMessage(room, message('m6', 'latest'), { maxMessages: 3, retentionMs: 0 });
+
+    expect(room.chat.map(m => m.id)).toEqual(['m4', 'm5', 'm6']);
+  });
+
+  test('drops messages older than the retention window', () => {
+    const room = createRoom('chat');
+    const now = Date.now();
+    room.chat.push(message('old', 'hi', { timestamp: new Date(now - 3 * DAY).toISOString() }));
+    room.chat.push(message('new', 'hi', { timestamp: new Date(now - DAY).toISOString() }));
+
+    pruneChat(room, { maxMessages: 0, retentionMs: 2 * DAY }, now);
+    expect(room.chat.map(m => m.id)).toEqual(['new']);
+  });
+
+  test('pages backwards from a message', () => {
+    const room = roomWithMessages(5);
+
+    const latest = chatHistory(room, { limit: 2 });
+    expect(latest.messages.map(m => m.id)).toEqual(['m4', 'm5']);
+    expect(latest.hasMore).toBe(true);
+
+    const oldest = chatHistory(room, { before: 'm3', limit: 2 });
+    expect(oldest.messages.map(m => m.id)).toEqual(['m1', 'm2']);
+    expect(oldest.hasMore).toBe(false);
+
+    expect(() => chatHistory(room, { before: 'gone', limit: 2 })).toThrow(ChatError);
+  });
+
+  test('search matches every word in text or author, newest first', () => {
+    const room = createRoom('chat');
+    room.chat.push(message('a', 'The build is broken'));
+    room.chat.push(message('b', 'fixed the BUILD', { userName: 'Bob' }));
+    room.chat.push(message('c', 'lunch?', { userName: 'Bob' }));
+
+    expect(searchChat(room, 'build', { limit: 10 }).map(m => m.id)).toEqual(['b', 'a']);
+    expect(searchChat(room, 'bob build', { limit: 10 }).map(m => m.id)).toEqual(['b']);
+    expect(searchChat(room, 'build', { limit: 1 }).map(m => m.id)).toEqual(['b']);
+    expect(() => searchChat(room, '  ', { limit: 10 })).toThrow(ChatError);
+  });
+});
+
+describe('chat history over the socket', () => {
+  const { connect } = serveForSuite();
+
+  function once(socket, event) {
+    return new Promise(resolve => socket.once(event, resolve));
+  }
+
+  async function join(socket, roomId) {
+    const joined = once(socket, 'room-joined');
+    socket.emit('join-room', { roomId, userName: 'tester' });
+    return joined;
+  }
+
+  test('late joiners get recent messages and can search them', async () => {
+    const first = connect();
+    const late = connect();
+
+    try {
+      await join(first, 'chat-history');
+      const sent = once(first, 'chat-message');
+      first.emit('chat-message', { message: 'hello from earlier' });
+      const { id } = await sent;
+
+      const room = await join(late, 'chat-history');
+      expect(room.chatHistory).toEqual({
+        messages: [expect.objectContaining({ id, content: 'hello from earlier' })],
+        hasMore: false
+      });
+
+      const page = once(late, 'chat-history');
+      late.emit('chat-history', { before: id });
+      expect(await page).toEqual({ before: id, messages: [], hasMore: false });
+
+      const results = once(late, 'chat-search-results');
+      late.emit('chat-search', { query: 'EARLIER' });
+      expect(await results).toMatchObject({ query: 'EARLIER', messages: [{ id }] });
+
+      const error = once(late, 'chat-error');
+      late.emit('chat-history', { before: 'unknown' });
+      expect(await error).toEqual({ message: 'That message is no longer in the chat history' });
+    } finally {
+      first.close();
+      late.close();
+    }
+  });
+});
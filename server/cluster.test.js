@@ -0,0 +1,313 @@
+const { io: connectClient } = require('socket.io-client');
+const { createServer } = require('./index');
+const { createCluster, MemoryHub } = require('./cluster');
+const { MemoryStore } = require('./storage');
+const { SimulatedClient, createRandom, delay } = require('./testing/simulatedClient');
+
+const LEASE_TTL_MS = 60000;
+
+describe('room leases', () => {
+  test('a room has one owner until its lease lapses', () => {
+    let now = 0;
+    const hub = new MemoryHub(() => now);
+
+    expect(hub.acquire('room', 'a', 100)).toBe('a');
+    expect(hub.acquire('room', 'b', 100)).toBe('a');
+
+    now = 50;
+    expect(hub.renew(['room', 'other'], 'a', 100)).toEqual(['room']);
+    now = 120;
+    expect(hub.acquire('room', 'b', 100)).toBe('a');
+
+    now = 151;
+    expect(hub.acquire('room', 'b', 100)).toBe('b');
+    expect(hub.renew(['room'], 'a', 100)).toEqual([]);
+  });
+
+  test('a released room can be taken at once', () => {
+    const hub = new MemoryHub();
+
+    hub.acquire('room', 'a', 100);
+    hub.release('room', 'b');
+    expect(hub.acquire('room', 'b', 100)).toBe('a');
+
+    hub.release('room', 'a');
+    expect(hub.acquire('room', 'b', 100)).toBe('b');
+  });
+
+  test('looking up the owner claims nothing', () => {
+    let now = 0;
+    const hub = new MemoryHub(() => now);
+
+    expect(hub.owner('room')).toBeNull();
+    hub.acquire('room', 'a', 100);
+    expect(hub.owner('room')).toBe('a');
+
+    now = 101;
+    expect(hub.owner('room')).toBeNull();
+    expect(hub.leases.get('room').nodeId).toBe('a');
+  });
+});
+
+// Needs a Redis server to talk to, e.g. REDIS_URL=redis://localhost:6379
+(process.env.REDIS_URL ? describe : describe.skip)('room leases in Redis', () => {
+  const keyPrefix = `cluster-test-${Date.now()}:`;
+  let nodes;
+
+  beforeAll(() => {
+    nodes = [0, 1].map(() => createCluster({
+      driver: 'redis',
+      redisUrl: process.env.REDIS_URL,
+      redisKeyPrefix: keyPrefix,
+      leaseTtlMs: 200
+    }));
+  });
+
+  afterAll(async () => {
+    await Promise.all(nodes.flatMap(node => [node.client.quit(), node.subscriber.quit()]));
+  });
+
+  test('a room has one owner until it is released or its lease lapses', async () => {
+    const [a, b] = nodes;
+
+    expect(await a.acquire('room')).toBe(a.nodeId);
+    expect(await b.acquire('room')).toBe(a.nodeId);
+    expect(await a.renew(['room', 'other'])).toEqual(['room']);
+
+    await b.release('room');
+    expect(await b.acquire('room')).toBe(a.nodeId);
+    await a.release('room');
+    expect(await b.acquire('room')).toBe(b.nodeId);
+
+    await delay(300);
+    expect(await b.renew(['room'])).toEqual([]);
+    expect(await a.acquire('room')).toBe(a.nodeId);
+  });
+});
+
+test('processes sharing rooms need an invite secret in common', () => {
+  const { CLUSTER_DRIVER, INVITE_SECRET } = process.env;
+  // Without a .env file, which could have the secret in it
+  const loadConfig = () => jest.isolateModules(() => require('./config'));
+  jest.doMock('dotenv', () => ({ config: () => {} }));
+  try {
+    process.env.CLUSTER_DRIVER = 'redis';
+    delete process.env.INVITE_SECRET;
+    expect(loadConfig).toThrow('INVITE_SECRET must be set');
+
+    process.env.INVITE_SECRET = 'shared';
+    expect(loadConfig).not.toThrow();
+  } finally {
+    jest.dontMock('dotenv');
+    for (const [name, value] of Object.entries({ CLUSTER_DRIVER, INVITE_SECRET })) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  }
+});
+
+describe('servers sharing rooms', () => {
+  let now;
+  let hub;
+  let storage;
+  let nodes;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    now = Date.now();
+    hub = new MemoryHub(() => now);
+    storage = new MemoryStore();
+    nodes = [await start(), await start()];
+    // Let the servers find each other
+    await delay(20);
+  });
+
+  afterEach(async () => {
+    await Promise.all(nodes.map(stop));
+  });
+
+  function start() {
+    const node = createServer({
+      storage,
+      cluster: createCluster({ driver: 'memory', leaseTtlMs: LEASE_TTL_MS, hub })
+    });
+    return new Promise((resolve) => {
+      node.server.listen(0, () => {
+        node.url = `http://localhost:${node.server.address().port}`;
+        resolve(node);
+      });
+    });
+  }
+
+  function stop(node) {
+    return new Promise(resolve => node.io.close(() => resolve()));
+  }
+
+  function connect(node) {
+    return connectClient(node.url, { transports: ['websocket'], forceNew: true });
+  }
+
+  function once(socket, event) {
+    return new Promise(resolve => socket.once(event, resolve));
+  }
+
+  function join(socket, roomId) {
+    const joined = once(socket, 'room-joined');
+    socket.emit('join-room', { roomId, userName: 'tester' });
+    return joined;
+  }
+
+  async function waitUntil(predicate, timeout = 10000) {
+    const deadline = Date.now() + timeout;
+    while (!predicate()) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting for clients to settle');
+      await delay(10);
+    }
+  }
+
+  test('clients on different servers edit one room, sequenced by one of them', async () => {
+    const random = createRandom(23);
+    const clients = [0, 1, 0, 1].map((n, i) =>
+      new SimulatedClient(nodes[n].url, { name: `client-${i}`, random })
+    );
+
+    try {
+      for (const client of clients) {
+        await client.join('shared');
+      }
+
+      await Promise.all(clients.map(async (client) => {
+        for (let i = 0; i < 20; i++) {
+          await delay(Math.floor(random() * 15));
+          client.edit();
+        }
+      }));
+
+      const owners = nodes.filter(node => node.rooms.has('shared'));
+      expect(owners).toHaveLength(1);
+      expect(owners[0].rooms.get('shared').users.size).toBe(clients.length);
+
+      const file = owners[0].rooms.get('shared').files[clients[0].fileId];
+      await waitUntil(() => clients.every(client => client.isSettled(file.revision)));
+      await Promise.all(clients.map(client => client.drain()));
+
+      for (const client of clients) {
+        expect(client.content).toBe(file.content);
+      }
+    } finally {
+      clients.forEach(client => client.close());
+    }
+  });
+
+  test('events a client may not send are dropped on the way to the owner', async () => {
+    const alice = connect(nodes[0]);
+    const bob = connect(nodes[1]);
+
+    try {
+      await join(alice, 'guarded');
+      await join(bob, 'guarded');
+
+      // Forwarded as is, 'error' would be an unhandled error event on the owner
+      bob.emit('error', { message: 'boom' });
+      bob.emit('__proto__', {});
+      const message = once(alice, 'chat-message');
+      bob.emit('chat-message', { message: 'still here' });
+      expect((await message).content).toBe('still here');
+    } finally {
+      alice.close();
+      bob.close();
+    }
+  });
+
+  test('the REST API answers for rooms loaded on another server', async () => {
+    const client = connect(nodes[0]);
+
+    try {
+      const room = await join(client, 'listed');
+      const other = nodes[1].url;
+
+      const list = await (await fetch(`${other}/api/rooms`)).json();
+      expect(list.map(entry => entry.id)).toContain('listed');
+
+      const recording = await fetch(`${other}/api/rooms/listed/recording`, {
+        headers: { 'X-Member-Token': room.memberToken }
+      });
+      expect(recording.status).toBe(200);
+      expect((await recording.json()).files).toHaveLength(1);
+
+      const stranger = await fetch(`${other}/api/rooms/listed/recording`);
+      expect(stranger.status).toBe(403);
+      expect((await fetch(`${other}/api/rooms/nowhere/snapshots`)).status).toBe(404);
+    } finally {
+      client.close();
+    }
+  });
+
+  test('a client leaving a room does not claim its lease', async () => {
+    const [first, second] = nodes;
+    const alice = connect(first);
+    const bob = connect(second);
+
+    try {
+      await join(alice, 'emptying');
+      await join(bob, 'emptying');
+      expect(hub.owner('emptying')).toBe(first.cluster.nodeId);
+
+      // The owner's lease has lapsed by the time bob goes
+      now += LEASE_TTL_MS + 1;
+      bob.close();
+      await delay(50);
+
+      expect(hub.owner('emptying')).toBeNull();
+    } finally {
+      alice.close();
+      bob.close();
+    }
+  });
+
+  test('another server takes a room over once its owner is gone', async () => {
+    const [first, second] = nodes;
+    const alice = connect(first);
+    const bob = connect(second);
+
+    try {
+      const { files } = await join(alice, 'handover');
+      await join(bob, 'handover');
+      const [file] = files;
+
+      const acked = once(alice, 'operation-ack');
+      alice.emit('document-operation', {
+        fileId: file.id,
+        revision: file.revision,
+        operations: ['A']
+      });
+      await acked;
+
+      // The owner saves its rooms and stops renewing their leases
+      await first.roomManager.flushAll();
+      await stop(first);
+      nodes = [second];
+      now += LEASE_TTL_MS + 1;
+
+      const moved = once(bob, 'room-moved');
+      bob.emit('cursor-position', {
+        cursor: { fileId: file.id, anchor: 0, offset: 0, revision: file.revision + 1 }
+      });
+      expect(await moved).toEqual({ roomId: 'handover' });
+
+      const rejoined = once(bob, 'room-joined');
+      const catchup = once(bob, 'document-catchup');
+      bob.emit('join-room', { roomId: 'handover', userName: 'bob', revisions: { [file.id]: file.revision } });
+      expect((await rejoined).files[0].content).toBe(`A${file.content}`);
+      expect((await catchup).operations).toHaveLength(1);
+      expect(second.rooms.has('handover')).toBe(true);
+    } finally {
+      alice.close();
+      bob.close();
+    }
+  });
+});
@@ -0,0 +1,49 @@
+const { EventEmitter } = require('events');
+const { clientEventSchemas } = require('../../shared/events');
+
+// A connected client as the process that owns its room sees it, which need
+// not be the process holding its socket. Event handlers register on it as
+// they would on the socket; whatever they send goes out through the
+// Socket.io adapter, which reaches the socket on whichever process has it.
+class ClusterClient {
+  constructor(io, id) {
+    this.io = io;
+    this.id = id;
+    this.data = {};
+    this.events = new EventEmitter();
+  }
+
+  on(event, listener) {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  // An event from the client, forwarded by the process it is connected to.
+  // Only events a client may send get through, plus the disconnect the
+  // connected process reports; any other name, such as 'error', means
+  // something else to an EventEmitter.
+  receive(event, payload) {
+    if (event !== 'disconnect' && !Object.hasOwn(clientEventSchemas, event)) return;
+    this.events.emit(event, payload);
+  }
+
+  emit(event, payload) {
+    this.io.to(this.id).emit(event, payload);
+    return true;
+  }
+
+  // Everyone in a Socket.io room but this client
+  to(room) {
+    return this.io.to(room).except(this.id);
+  }
+
+  join(room) {
+    this.io.in(this.id).socketsJoin(room);
+  }
+
+  leave(room) {
+    this.io.in(this.id).socketsLeave(room);
+  }
+}
+
+module.exports = { ClusterClient };
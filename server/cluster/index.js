@@ -0,0 +1,39 @@
+const { SingleNode } = require('./singleNode');
+const { MemoryCluster } = require('./memoryCluster');
+const { MemoryHub } = require('./memoryHub');
+const { RedisCluster } = require('./redisCluster');
+const { ClusterClient } = require('./client');
+
+// Servers started in this process without a hub of their own share this one
+const defaultHub = new MemoryHub();
+
+// Several server processes can serve the same rooms. Each room is sequenced
+// by one process at a time, the holder of its lease, and the others forward
+// their clients' events for it there. Every backend provides:
+//   nodeId                   - this process
+//   adapter                  - Socket.io adapter class, null for the default
+//   acquire(roomId) -> owner - claims the room if nobody holds its lease
+//   owner(roomId) -> owner   - who holds its lease, null if nobody does
+//   renew(roomIds) -> held   - extends this process's leases among roomIds
+//   release(roomId)
+function createCluster({ driver, leaseTtlMs, redisUrl, redisKeyPrefix, hub = defaultHub }) {
+  switch (driver) {
+    case 'single':
+      return new SingleNode();
+    case 'memory':
+      return new MemoryCluster(hub, { leaseTtlMs });
+    case 'redis':
+      return new RedisCluster({ url: redisUrl, keyPrefix: redisKeyPrefix, leaseTtlMs });
+    default:
+      throw new Error(`Unknown cluster driver: ${driver}`);
+  }
+}
+
+module.exports = {
+  createCluster,
+  ClusterClient,
+  SingleNode,
+  MemoryCluster,
+  MemoryHub,
+  RedisCluster
+};
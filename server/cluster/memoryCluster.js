@@ -0,0 +1,63 @@
+const { v4: uuidv4 } = require('uuid');
+const { ClusterAdapterWithHeartbeat } = require('socket.io-adapter');
+
+// A Socket.io adapter class that fans broadcasts, room joins and server-side
+// events out to the other servers on a MemoryHub
+function createMemoryAdapter(hub) {
+  return class MemoryAdapter extends ClusterAdapterWithHeartbeat {
+    constructor(nsp) {
+      super(nsp);
+      this.onHubMessage = (message) => {
+        if (message.nsp === this.nsp.name) this.onMessage(message);
+      };
+      this.onHubResponse = (requesterUid, response) => {
+        if (requesterUid === this.uid) this.onResponse(response);
+      };
+      hub.on('message', this.onHubMessage);
+      hub.on('response', this.onHubResponse);
+    }
+
+    async doPublish(message) {
+      hub.publish('message', message);
+      return '';
+    }
+
+    async doPublishResponse(requesterUid, response) {
+      hub.publish('response', requesterUid, response);
+    }
+
+    close() {
+      super.close();
+      hub.off('message', this.onHubMessage);
+      hub.off('response', this.onHubResponse);
+    }
+  };
+}
+
+// One of several servers sharing rooms through a MemoryHub
+class MemoryCluster {
+  constructor(hub, { leaseTtlMs }) {
+    this.hub = hub;
+    this.nodeId = uuidv4();
+    this.leaseTtlMs = leaseTtlMs;
+    this.adapter = createMemoryAdapter(hub);
+  }
+
+  async acquire(roomId) {
+    return this.hub.acquire(roomId, this.nodeId, this.leaseTtlMs);
+  }
+
+  async owner(roomId) {
+    return this.hub.owner(roomId);
+  }
+
+  async renew(roomIds) {
+    return this.hub.renew(roomIds, this.nodeId, this.leaseTtlMs);
+  }
+
+  async release(roomId) {
+    this.hub.release(roomId, this.nodeId);
+  }
+}
+
+module.exports = { MemoryCluster, createMemoryAdapter };
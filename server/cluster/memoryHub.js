@@ -0,0 +1,64 @@
+const { EventEmitter } = require('events');
+
+// Stands in for what processes on separate machines would share, a pub/sub
+// channel and a table of room leases, for servers running side by side in
+// one process. Messages are cloned on the way, as if they had been
+// serialized, and delivered in order on a later tick.
+class MemoryHub extends EventEmitter {
+  constructor(now = Date.now) {
+    super();
+    this.setMaxListeners(0);
+    this.now = now;
+    // roomId -> { nodeId, expiresAt }
+    this.leases = new Map();
+  }
+
+  publish(channel, ...args) {
+    const message = structuredClone(args);
+    setImmediate(() => this.emit(channel, ...message));
+  }
+
+  // The room's owner, after handing it to `nodeId` if nobody holds it
+  acquire(roomId, nodeId, ttlMs) {
+    const now = this.now();
+    const lease = this.leases.get(roomId);
+    if (lease && lease.nodeId !== nodeId && lease.expiresAt > now) {
+      return lease.nodeId;
+    }
+
+    this.leases.set(roomId, { nodeId, expiresAt: now + ttlMs });
+    return nodeId;
+  }
+
+  // Who holds the room's lease, without claiming it
+  owner(roomId) {
+    const lease = this.leases.get(roomId);
+    return lease && lease.expiresAt > this.now() ? lease.nodeId : null;
+  }
+
+  // Extend the leases `nodeId` holds among `roomIds` and return those rooms.
+  // Expired leases of every node are cleared out on the way.
+  renew(roomIds, nodeId, ttlMs) {
+    const now = this.now();
+    for (const [roomId, lease] of this.leases) {
+      if (lease.nodeId !== nodeId && lease.expiresAt <= now) {
+        this.leases.delete(roomId);
+      }
+    }
+
+    return roomIds.filter((roomId) => {
+      const lease = this.leases.get(roomId);
+      if (!lease || lease.nodeId !== nodeId) return false;
+      lease.expiresAt = now + ttlMs;
+      return true;
+    });
+  }
+
+  release(roomId, nodeId) {
+    if (this.leases.get(roomId)?.nodeId === nodeId) {
+      this.leases.delete(roomId);
+    }
+  }
+}
+
+module.exports = { MemoryHub };
@@ -0,0 +1,84 @@
+const { v4: uuidv4 } = require('uuid');
+const { createClient } = require('redis');
+const { createAdapter } = require('@socket.io/redis-adapter');
+
+// Leases are keys holding the owner's node id, expiring with the lease. Each
+// change is a script so that reading the owner and acting on it is one step
+// even with several processes racing for a room.
+
+// KEYS[1] lease, ARGV[1] node id, ARGV[2] ttl in ms -> the room's owner
+const ACQUIRE = `
+local owner = redis.call('GET', KEYS[1])
+if owner and owner ~= ARGV[1] then return owner end
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+return ARGV[1]`;
+
+// KEYS leases, ARGV[1] node id, ARGV[2] ttl in ms -> positions (1-based) of
+// the keys that were held and are extended
+const RENEW = `
+local held = {}
+for i, key in ipairs(KEYS) do
+  if redis.call('GET', key) == ARGV[1] then
+    redis.call('PEXPIRE', key, ARGV[2])
+    held[#held + 1] = i
+  end
+end
+return held`;
+
+// KEYS[1] lease, ARGV[1] node id
+const RELEASE = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then redis.call('DEL', KEYS[1]) end
+return 0`;
+
+// One of several server processes sharing rooms through a Redis server: the
+// leases live there, and the Socket.io Redis adapter carries broadcasts and
+// forwarded events between the processes over pub/sub
+class RedisCluster {
+  constructor({ url, keyPrefix, leaseTtlMs }) {
+    this.nodeId = uuidv4();
+    this.leaseTtlMs = leaseTtlMs;
+    this.keyPrefix = keyPrefix;
+    this.client = createClient({ url });
+    // Subscribing takes a connection of its own
+    this.subscriber = this.client.duplicate();
+    for (const client of [this.client, this.subscriber]) {
+      // Lost connections are retried; commands wait for them meanwhile
+      client.on('error', error => console.error('Redis connection error:', error.message));
+      client.connect().catch(error => console.error('Could not connect to Redis:', error.message));
+    }
+    this.adapter = createAdapter(this.client, this.subscriber, { key: `${keyPrefix}socket.io` });
+  }
+
+  leaseKey(roomId) {
+    return `${this.keyPrefix}lease:${roomId}`;
+  }
+
+  async acquire(roomId) {
+    return this.client.eval(ACQUIRE, {
+      keys: [this.leaseKey(roomId)],
+      arguments: [this.nodeId, String(this.leaseTtlMs)]
+    });
+  }
+
+  async owner(roomId) {
+    return this.client.get(this.leaseKey(roomId));
+  }
+
+  async renew(roomIds) {
+    if (roomIds.length === 0) return [];
+    const held = await this.client.eval(RENEW, {
+      keys: roomIds.map(roomId => this.leaseKey(roomId)),
+      arguments: [this.nodeId, String(this.leaseTtlMs)]
+    });
+    return held.map(position => roomIds[position - 1]);
+  }
+
+  async release(roomId) {
+    await this.client.eval(RELEASE, {
+      keys: [this.leaseKey(roomId)],
+      arguments: [this.nodeId]
+    });
+  }
+}
+
+module.exports = { RedisCluster };
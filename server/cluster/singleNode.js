@@ -0,0 +1,24 @@
+// The only server there is: it owns every room and has nobody to forward
+// events or broadcasts to, so Socket.io's default adapter does.
+class SingleNode {
+  constructor() {
+    this.nodeId = 'single';
+    this.adapter = null;
+  }
+
+  async acquire() {
+    return this.nodeId;
+  }
+
+  async owner() {
+    return this.nodeId;
+  }
+
+  async renew(roomIds) {
+    return roomIds;
+  }
+
+  async release() {}
+}
+
+module.exports = { SingleNode };
@@ -0,0 +1,86 @@
+const { v4: uuidv4 } = require('uuid');
+const { transformRange } = require('../shared/events');
+
+const MAX_COMMENT_LENGTH = 2000;
+// How much of the commented code is kept for when it has been edited away
+const MAX_QUOTE_LENGTH = 200;
+
+// A review comment that cannot be posted (empty, unknown thread, ...)
+class CommentError extends Error {}
+
+function validateContent(content) {
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new CommentError('A comment cannot be empty');
+  }
+  if (content.length > MAX_COMMENT_LENGTH) {
+    throw new CommentError(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+  }
+  return content.trim();
+}
+
+function createComment(author, content) {
+  return {
+    id: uuidv4(),
+    authorName: author.name,
+    authorColor: author.color,
+    content: validateContent(content),
+    createdAt: new Date()
+  };
+}
+
+function findThread(room, threadId) {
+  const thread = room.comments.find(t => t.id === threadId);
+  if (!thread) throw new CommentError('That comment thread no longer exists');
+  return thread;
+}
+
+// Start a thread on a range of a file. `start` and `end` must already be
+// offsets into the file's current content.
+function createThread(room, { file, start, end, author, content }) {
+  const thread = {
+    id: uuidv4(),
+    fileId: file.id,
+    start,
+    end,
+    quote: file.content.slice(start, Math.min(end, start + MAX_QUOTE_LENGTH)),
+    resolved: false,
+    resolvedBy: null,
+    createdAt: new Date(),
+    comments: [createComment(author, content)]
+  };
+  room.comments.push(thread);
+  return thread;
+}
+
+function addReply(room, threadId, { author, content }) {
+  const thread = findThread(room, threadId);
+  thread.comments.push(createComment(author, content));
+  // Replying to a resolved discussion picks it up again
+  thread.resolved = false;
+  thread.resolvedBy = null;
+  return thread;
+}
+
+function setResolved(room, threadId, resolved, user) {
+  const thread = findThread(room, threadId);
+  thread.resolved = Boolean(resolved);
+  thread.resolvedBy = thread.resolved ? user.name : null;
+  return thread;
+}
+
+// Keep the threads on a file anchored to the same code as it is edited
+function transformComments(room, file, entry) {
+  for (const thread of room.comments) {
+    if (thread.fileId !== file.id) continue;
+    Object.assign(thread, transformRange(thread, entry.operations));
+  }
+}
+
+module.exports = {
+  CommentError,
+  MAX_COMMENT_LENGTH,
+  createThread,
+  addReply,
+  setResolved,
+  transformComments
+};
@@ -0,0 +1,128 @@
+const { rooms } = require('./index');
+const { serveForSuite } = require('./testing/server');
+const { CommentError, createThread, addReply, setResolved, transformComments } = require('./comments');
+const { transformRange } = require('../shared/events');
+const { createRoom, serializeRoom } = require('./rooms');
+const { createNode } = require('./files');
+const { insert, remove } = require('./testing/operations');
+
+const author = { name: 'reviewer', color: 'hsl(10, 70%, 60%)' };
+
+function roomWithFile(content) {
+  const room = createRoom('comments');
+  const file = createNode(room, { name: 'review.js', type: 'file', content });
+  return { room, file };
+}
+
+describe('transformRange', () => {
+  test('text typed at either edge stays outside the range', () => {
+    expect(transformRange({ start: 4, end: 8 }, [insert(4, 'ab')])).toEqual({ start: 6, end: 10 });
+    expect(transformRange({ start: 4, end: 8 }, [insert(8, 'ab')])).toEqual({ start: 4, end: 8 });
+    expect(transformRange({ start: 4, end: 8 }, [insert(6, 'ab')])).toEqual({ start: 4, end: 10 });
+  });
+
+  test('deleting the code collapses the range where it was', () => {
+    expect(transformRange({ start: 4, end: 8 }, [remove(2, 4)])).toEqual({ start: 2, end: 4 });
+    expect(transformRange({ start: 4, end: 8 }, [remove(0, 20)])).toEqual({ start: 0, end: 0 });
+  });
+});
+
+describe('comment threads', () => {
+  test('keep a quote of the code and follow it through edits', () => {
+    const { room, file } = roomWithFile('const a = 1;\nconst b = 2;\n');
+    const thread = createThread(room, { file, start: 13, end: 25, author, content: ' rename b ' });
+
+    expect(thread).toMatchObject({ quote: 'const b = 2;', resolved: false });
+    expect(thread.comments).toEqual([expect.objectContaining({ authorName: 'reviewer', content: 'rename b' })]);
+
+    transformComments(room, file, { operations: [insert(0, '// header\n')] });
+    expect(thread).toMatchObject({ start: 23, end: 35 });
+  });
+
+  test('can be resolved and are reopened by a reply', () => {
+    const { room, file } = roomWithFile('code');
+    const thread = createThread(room, { file, start: 0, end: 4, author, content: 'why?' });
+
+    setResolved(room, thread.id, true, author);
+    expect(thread).toMatchObject({ resolved: true, resolvedBy: 'reviewer' });
+
+    addReply(room, thread.id, { author, content: 'still unclear' });
+    expect(thread).toMatchObject({ resolved: false, resolvedBy: null });
+    expect(thread.comments).toHaveLength(2);
+  });
+
+  test('empty comments and unknown threads are rejected', () => {
+    const { room, file } = roomWithFile('code');
+
+    expect(() => createThread(room, { file, start: 0, end: 4, author, content: '   ' })).toThrow(CommentError);
+    expect(() => addReply(room, 'missing', { author, content: 'hello' })).toThrow(CommentError);
+  });
+
+  test('are saved with the room', () => {
+    const { room, file } = roomWithFile('code');
+    createThread(room, { file, start: 0, end: 4, author, content: 'note' });
+
+    expect(serializeRoom(room).comments).toEqual(room.comments);
+  });
+});
+
+describe('comments over sockets', () => {
+  const { connect } = serveForSuite();
+  const join = (socket, userName) => new Promise((resolve) => {
+    socket.once('room-joined', resolve);
+    socket.emit('join-room', { roomId: 'comment-room', userName });
+  });
+  // Resolves with the thread as the second socket sees it, once both have
+  const nextThread = (...sockets) => Promise.all(
+    sockets.map(socket => new Promise(resolve => socket.once('comment-thread', resolve)))
+  ).then(threads => threads[threads.length - 1]);
+
+  test('threads are shared, stay anchored and can be discussed', async () => {
+    const reviewer = connect();
+    const coder = connect();
+
+    try {
+      const room = await join(reviewer, 'reviewer');
+      const joined = await join(coder, 'coder');
+      expect(joined.comments).toEqual([]);
+      const file = room.files.find(f => f.name === 'main.js');
+      const target = file.content.indexOf('Welcome');
+
+      // The coder edits before the reviewer's comment arrives
+      coder.emit('document-operation', {
+        fileId: file.id,
+        id: 'edit-1',
+        revision: file.revision,
+        operations: ['// hi\n']
+      });
+      await new Promise(resolve => coder.once('operation-ack', resolve));
+
+      let shared = nextThread(reviewer, coder);
+      reviewer.emit('comment-create', {
+        fileId: file.id,
+        start: target,
+        end: target + 'Welcome'.length,
+        revision: file.revision,
+        content: 'Friendlier wording?'
+      });
+      const thread = await shared;
+      expect(thread).toMatchObject({ fileId: file.id, quote: 'Welcome', start: target + 6 });
+
+      shared = nextThread(coder, reviewer);
+      coder.emit('comment-reply', { threadId: thread.id, content: 'Done' });
+      expect((await shared).comments.map(c => c.content)).toEqual(['Friendlier wording?', 'Done']);
+
+      shared = nextThread(reviewer, coder);
+      reviewer.emit('comment-resolve', { threadId: thread.id, resolved: true });
+      expect(await shared).toMatchObject({ resolved: true, resolvedBy: 'reviewer' });
+
+      const error = new Promise(resolve => coder.once('comment-error', resolve));
+      coder.emit('comment-reply', { threadId: thread.id, content: '' });
+      expect(await error).toEqual({ message: 'A comment cannot be empty' });
+      expect(rooms.get('comment-room').comments).toHaveLength(1);
+    } finally {
+      reviewer.close();
+      coder.close();
+    }
+  });
+});
@@ -0,0 +1,181 @@
+const crypto = require('crypto');
+const os = require('os');
+const path = require('path');
+require('dotenv').config();
+
+function readInt(name, fallback) {
+  const value = parseInt(process.env[name], 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+// All environment-driven settings for the server in one place
+const config = {
+  port: readInt('PORT', 5000),
+  clientUrl: process.env.CLIENT_URL || 'http://localhost:3000',
+
+  storage: {
+    // 'file' writes JSON to disk, 'memory' keeps rooms for the life of the process
+    driver: process.env.ROOM_STORAGE || 'file',
+    dataDir: process.env.ROOM_DATA_DIR || path.join(__dirname, '../data/rooms'),
+    saveDebounceMs: readInt('ROOM_SAVE_DEBOUNCE_MS', 2000)
+  },
+
+  rooms: {
+    // Empty rooms are flushed and dropped from memory after this long
+    unloadAfterMs: readInt('ROOM_UNLOAD_AFTER_MS', 60 * 60 * 1000),
+    // Stored rooms untouched for this long are deleted; 0 keeps them forever
+    retentionMs: readInt('ROOM_RETENTION_MS', 7 * 24 * 60 * 60 * 1000),
+    sweepIntervalMs: readInt('ROOM_SWEEP_INTERVAL_MS', 60 * 60 * 1000)
+  },
+
+  cluster: {
+    // 'single' serves every room from this process; 'redis' shares rooms
+    // between processes through a Redis server; 'memory' lets servers
+    // started in the same process share rooms, for trying out or testing a
+    // multi-process setup without one
+    driver: process.env.CLUSTER_DRIVER || 'single',
+    // A room's owner renews its lease well within this; once it lapses,
+    // another process takes the room over
+    leaseTtlMs: readInt('CLUSTER_LEASE_TTL_MS', 15000),
+    redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+    // Prepended to the leases and pub/sub channels, so servers of several
+    // deployments can share one Redis
+    redisKeyPrefix: process.env.REDIS_KEY_PREFIX || 'collaborative-editor:'
+  },
+
+  history: {
+    // Minimum gap between automatic snapshots while a room is being edited; 0 disables them
+    autoSnapshotIntervalMs: readInt('HISTORY_AUTO_SNAPSHOT_INTERVAL_MS', 5 * 60 * 1000),
+    maxAutoSnapshots: readInt('HISTORY_MAX_AUTO_SNAPSHOTS', 50),
+    // A file's operation log is cut back to its latest `keepOperations`
+    // entries once it holds more than `maxOperations`; 0 keeps them all
+    maxOperations: readInt('HISTORY_MAX_OPERATIONS', 1000),
+    keepOperations: readInt('HISTORY_KEEP_OPERATIONS', 200)
+  },
+
+  chat: {
+    // Messages sent to people as they join, and the most one page of
+    // history or search results holds
+    pageSize: readInt('CHAT_PAGE_SIZE', 50),
+    // Oldest messages are dropped past this many; 0 keeps them all
+    maxMessages: readInt('CHAT_MAX_MESSAGES', 1000),
+    // Messages older than this are dropped; 0 keeps them forever
+    retentionMs: readInt('CHAT_RETENTION_MS', 30 * 24 * 60 * 60 * 1000),
+    maxMessageChars: readInt('CHAT_MAX_MESSAGE_CHARS', 10000)
+  },
+
+  limits: {
+    // Largest message a client may send at all; bigger ones drop the connection
+    maxPayloadBytes: readInt('MAX_PAYLOAD_BYTES', 1000000),
+    // Most text one batch of edits may add, and how large a file may grow;
+    // 0 disables either
+    maxOperationChars: readInt('MAX_OPERATION_CHARS', 100000),
+    maxDocumentChars: readInt('MAX_DOCUMENT_CHARS', 1000000),
+    // Token buckets per member (or address, before joining a room) and
+    // event: up to `burst` events at once, then `perSecond` on average. A
+    // rate of 0 disables the limit.
+    rates: {
+      'document-operation': {
+        burst: readInt('RATE_LIMIT_OPERATION_BURST', 50),
+        perSecond: readInt('RATE_LIMIT_OPERATIONS_PER_SECOND', 20)
+      },
+      'cursor-position': {
+        burst: readInt('RATE_LIMIT_CURSOR_BURST', 60),
+        perSecond: readInt('RATE_LIMIT_CURSORS_PER_SECOND', 30)
+      },
+      'chat-message': {
+        burst: readInt('RATE_LIMIT_CHAT_BURST', 5),
+        perSecond: readInt('RATE_LIMIT_CHAT_PER_SECOND', 1)
+      },
+      // Each asks the AI provider for a completion
+      'ai-assistance': {
+        burst: readInt('RATE_LIMIT_AI_BURST', 10),
+        perSecond: readInt('RATE_LIMIT_AI_PER_SECOND', 2)
+      },
+      'run-code': {
+        burst: readInt('RATE_LIMIT_RUN_BURST', 3),
+        perSecond: readInt('RATE_LIMIT_RUNS_PER_SECOND', 1)
+      },
+      // Typing in the shared terminal. Clients send keystrokes a few
+      // milliseconds apart together, and key repeat and pastes go well past
+      // what a person types, so this sits far above typing speed.
+      'terminal-input': {
+        burst: readInt('RATE_LIMIT_TERMINAL_BURST', 200),
+        perSecond: readInt('RATE_LIMIT_TERMINAL_INPUT_PER_SECOND', 100)
+      },
+      // Every other event
+      default: {
+        burst: readInt('RATE_LIMIT_DEFAULT_BURST', 20),
+        perSecond: readInt('RATE_LIMIT_DEFAULT_PER_SECOND', 10)
+      }
+    }
+  },
+
+  invites: {
+    // Signs invite links. Without a fixed secret, links stop working when the
+    // server restarts; with several processes it must be set (see below)
+    secret: process.env.INVITE_SECRET || crypto.randomBytes(32).toString('hex'),
+    // Longest an invite link may stay valid, also used when none is requested
+    maxTtlMs: readInt('INVITE_MAX_TTL_MS', 30 * 24 * 60 * 60 * 1000)
+  },
+
+  members: {
+    // Members with the default role are forgotten after staying away this
+    // long, and the least recently seen go first past the cap; 0 disables either
+    retentionMs: readInt('MEMBER_RETENTION_MS', 30 * 24 * 60 * 60 * 1000),
+    maxMembers: readInt('MAX_MEMBERS_PER_ROOM', 1000)
+  },
+
+  ai: {
+    // 'openai' (any OpenAI-compatible API), 'local' (Ollama-style endpoint)
+    // or 'stub' (fixed offline answers)
+    provider: process.env.AI_PROVIDER || 'stub',
+    // Defaults to the provider's usual address when unset
+    baseUrl: process.env.AI_BASE_URL || null,
+    apiKey: process.env.AI_API_KEY || null,
+    model: process.env.AI_MODEL || null,
+    maxTokens: readInt('AI_MAX_TOKENS', 256),
+    // Chat answers may propose whole files, so they get a larger budget
+    replyMaxTokens: readInt('AI_REPLY_MAX_TOKENS', 1024),
+    timeoutMs: readInt('AI_TIMEOUT_MS', 30000),
+    // Characters of document before and after the cursor put in the prompt
+    contextChars: readInt('AI_CONTEXT_CHARS', 4000)
+  },
+
+  execution: {
+    // Longest a program may run before it is killed
+    timeoutMs: readInt('EXEC_TIMEOUT_MS', 10000),
+    memoryMb: readInt('EXEC_MEMORY_MB', 256),
+    // Output past this many characters is dropped and the program killed
+    maxOutputChars: readInt('EXEC_MAX_OUTPUT_CHARS', 100000),
+    // Runs that may wait in a room behind the one in progress
+    maxQueued: readInt('EXEC_MAX_QUEUED', 5),
+    pythonCommand: process.env.EXEC_PYTHON || 'python3',
+    // Run programs without network, without the server's files and without
+    // its privileges. Where the system cannot, nothing is run unless this is
+    // turned off explicitly.
+    sandbox: process.env.EXEC_SANDBOX !== 'false'
+  },
+
+  terminal: {
+    // Off unless asked for: it gives everyone with the editor role a shell on the server
+    enabled: process.env.TERMINAL_ENABLED === 'true',
+    // Must accept bash's --noprofile and --norc. It runs in the code runner's
+    // sandbox, which is not optional here: without it the terminal stays off.
+    shell: process.env.TERMINAL_SHELL || 'bash',
+    // Data segment cap for the shell and everything started from it
+    memoryMb: readInt('TERMINAL_MEMORY_MB', 512),
+    // Each room's shell runs in a directory of its own under here
+    scratchDir: process.env.TERMINAL_SCRATCH_DIR || path.join(os.tmpdir(), 'collab-terminals'),
+    // Recent output replayed to people who open the terminal later
+    scrollbackChars: readInt('TERMINAL_SCROLLBACK_CHARS', 50000)
+  }
+};
+
+// Processes sharing rooms must sign invite links alike, or a link made on
+// one is turned away by the others
+if (config.cluster.driver !== 'single' && !process.env.INVITE_SECRET) {
+  throw new Error(`INVITE_SECRET must be set when CLUSTER_DRIVER is ${config.cluster.driver}`);
+}
+
+module.exports = { config, readInt };
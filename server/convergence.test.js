@@ -0,0 +1,91 @@
+const { rooms } = require('./index');
+const { serveForSuite } = require('./testing/server');
+const { SimulatedClient, createRandom, delay } = require('./testing/simulatedClient');
+
+const CLIENT_COUNT = 4;
+const EDITS_PER_CLIENT = 40;
+const SEEDS = [1, 7, 42, 1337, 20240501];
+
+const app = serveForSuite({ silence: ['log', 'warn'] });
+
+function join(socket, roomId) {
+  return new Promise((resolve) => {
+    socket.once('room-joined', resolve);
+    socket.emit('join-room', { roomId, userName: 'tester' });
+  });
+}
+
+async function waitUntil(predicate, timeout = 10000) {
+  const deadline = Date.now() + timeout;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for clients to settle');
+    await delay(10);
+  }
+}
+
+describe('document sync convergence', () => {
+  test.each(SEEDS)('concurrent random edits converge (seed %i)', async (seed) => {
+    const random = createRandom(seed);
+    const roomId = `fuzz-${seed}`;
+    const clients = Array.from({ length: CLIENT_COUNT }, (_, i) =>
+      new SimulatedClient(app.url, { name: `client-${i}`, random })
+    );
+
+    try {
+      for (const client of clients) {
+        await client.join(roomId);
+      }
+
+      // Every client types on its own schedule so edits overlap in flight
+      await Promise.all(clients.map(async (client) => {
+        for (let i = 0; i < EDITS_PER_CLIENT; i++) {
+          await delay(Math.floor(random() * 15));
+          client.edit();
+        }
+      }));
+
+      const file = rooms.get(roomId).files[clients[0].fileId];
+      await waitUntil(() => clients.every(client => client.isSettled(file.revision)));
+      await Promise.all(clients.map(client => client.drain()));
+
+      for (const client of clients) {
+        expect(client.content).toBe(file.content);
+      }
+      expect(file.operations).toHaveLength(file.revision);
+    } finally {
+      clients.forEach(client => client.close());
+    }
+  });
+
+  test('a stale revision is transformed rather than applied verbatim', async () => {
+    const [alice, bob] = [app.connect(), app.connect()];
+
+    try {
+      await join(alice, 'stale');
+      const room = await join(bob, 'stale');
+      const [file] = room.files;
+      const base = file.revision;
+      const stored = () => rooms.get('stale').files[file.id];
+
+      alice.emit('document-operation', {
+        fileId: file.id,
+        revision: base,
+        operations: ['A']
+      });
+      await waitUntil(() => stored().revision === base + 1);
+
+      // Bob has not seen Alice's insert yet and clears the whole document
+      bob.emit('document-operation', {
+        fileId: file.id,
+        revision: base,
+        operations: [-file.content.length]
+      });
+      await waitUntil(() => stored().revision === base + 2);
+
+      expect(stored().content).toBe('A');
+    } finally {
+      alice.close();
+      bob.close();
+    }
+  });
+});
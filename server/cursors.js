@@ -0,0 +1,111 @@
+const { transformOffset, transformRange } = require('../shared/events');
+const { operationsSince } = require('./oplog');
+const { getFile } = require('./files');
+
+// Where a user is before they have focused any file
+function createCursor() {
+  return { fileId: null, line: 0, column: 0, offset: 0, anchor: 0, viewport: null, revision: 0 };
+}
+
+// 1-based line and column of a character offset, for display
+function positionAt(content, offset) {
+  const before = content.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return {
+    line: before.split('\n').length,
+    column: offset - lineStart + 1
+  };
+}
+
+function clampOffset(value, content) {
+  return Number.isInteger(value) ? Math.min(Math.max(value, 0), content.length) : null;
+}
+
+// A viewport with the lines it spans, for showing who is looking where
+function describeViewport(content, { start, end }) {
+  return {
+    start,
+    end,
+    startLine: positionAt(content, start).line,
+    endLine: positionAt(content, end).line
+  };
+}
+
+// The part of the file the user can see, so followers can show the same
+// region; null when the client did not say
+function normalizeViewport(viewport, content, missed) {
+  const start = clampOffset(viewport?.start, content);
+  const end = clampOffset(viewport?.end, content);
+  if (start === null || end === null) return null;
+
+  const moved = transformRange({ start: Math.min(start, end), end: Math.max(start, end) }, missed);
+  return describeViewport(content, {
+    start: Math.min(moved.start, content.length),
+    end: Math.min(moved.end, content.length)
+  });
+}
+
+// Build a cursor from an untrusted client update. Clients report the caret
+// (`offset`) and the other end of their selection (`anchor`) against the
+// revision they last saw; anything committed since by other users is
+// transformed in so the cursor matches the current content. The sender's own
+// later commits are already reflected in what they see. Returns null when the
+// update does not refer to a file in the room.
+function normalizeCursor(room, userId, data) {
+  const file = data ? getFile(room, data.fileId) : null;
+  if (!file) return null;
+
+  const revision = Number.isInteger(data.revision) && data.revision >= 0 && data.revision <= file.revision
+    ? data.revision
+    : file.revision;
+  // A cursor from before the log was compacted is taken as it is
+  const missed = (operationsSince(file, revision) || [])
+    .filter(entry => !(entry.submissionId && entry.userId === userId))
+    .flatMap(entry => entry.operations);
+
+  // Offsets are clamped against the content the client edited, as best we
+  // can tell, and again after transforming
+  let offset = clampOffset(data.offset, file.content) ?? 0;
+  let anchor = clampOffset(data.anchor, file.content) ?? offset;
+  offset = Math.min(transformOffset(offset, missed), file.content.length);
+  anchor = Math.min(transformOffset(anchor, missed), file.content.length);
+
+  return {
+    fileId: file.id,
+    ...positionAt(file.content, offset),
+    offset,
+    anchor,
+    viewport: normalizeViewport(data.viewport, file.content, missed),
+    revision: file.revision
+  };
+}
+
+// Shift everyone's cursor in a file past a newly committed entry so users who
+// join later see them in the right place. Edits typed by a user already moved
+// their own cursor, which they report separately.
+function transformCursors(room, file, entry) {
+  for (const user of room.users.values()) {
+    const { cursor } = user;
+    if (!cursor || cursor.fileId !== file.id) continue;
+    if (entry.submissionId && entry.userId === user.id) continue;
+
+    const offset = transformOffset(cursor.offset, entry.operations);
+    user.cursor = {
+      ...cursor,
+      ...positionAt(file.content, offset),
+      offset,
+      anchor: transformOffset(cursor.anchor, entry.operations),
+      viewport: cursor.viewport
+        ? describeViewport(file.content, transformRange(cursor.viewport, entry.operations))
+        : null,
+      revision: file.revision
+    };
+  }
+}
+
+module.exports = {
+  createCursor,
+  positionAt,
+  normalizeCursor,
+  transformCursors
+};
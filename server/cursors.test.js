@@ -0,0 +1,87 @@
+const { createCursor, positionAt, normalizeCursor, transformCursors } = require('./cursors');
+const { transformOffset } = require('../shared/events');
+const { createRoom } = require('./rooms');
+const { createNode } = require('./files');
+const { insert, remove, commit } = require('./testing/operations');
+
+function roomWithFile(content) {
+  const room = createRoom('cursors');
+  const file = createNode(room, { name: 'notes.txt', type: 'file', content });
+  return { room, file };
+}
+
+describe('transformOffset', () => {
+  test('moves past inserts before it but not at it', () => {
+    expect(transformOffset(5, [insert(2, 'abc')])).toBe(8);
+    expect(transformOffset(5, [insert(5, 'abc')])).toBe(5);
+  });
+
+  test('collapses into a deletion that covers it', () => {
+    expect(transformOffset(5, [remove(0, 2)])).toBe(3);
+    expect(transformOffset(5, [remove(3, 4)])).toBe(3);
+    expect(transformOffset(5, [remove(5, 4)])).toBe(5);
+  });
+});
+
+describe('cursors', () => {
+  test('positionAt reports 1-based lines and columns', () => {
+    expect(positionAt('ab\ncd', 0)).toEqual({ line: 1, column: 1 });
+    expect(positionAt('ab\ncd', 4)).toEqual({ line: 2, column: 2 });
+  });
+
+  test('updates for unknown files or folders are ignored', () => {
+    const { room } = roomWithFile('text');
+    const folder = createNode(room, { name: 'src', type: 'folder' });
+
+    expect(normalizeCursor(room, 'u1', { fileId: 'missing', offset: 0 })).toBeNull();
+    expect(normalizeCursor(room, 'u1', { fileId: folder.id, offset: 0 })).toBeNull();
+    expect(normalizeCursor(room, 'u1', null)).toBeNull();
+  });
+
+  test('a stale cursor is moved past edits by others but not its own', () => {
+    const { room, file } = roomWithFile('hello world');
+    commit(file, [insert(0, '>> ')], { userId: 'other' });
+    commit(file, [insert(3, 'well, ')], { userId: 'u1' });
+
+    // u1 selected "world" before seeing the other user's prefix
+    const cursor = normalizeCursor(room, 'u1', { fileId: file.id, anchor: 12, offset: 17, revision: 0 });
+
+    expect(file.content.slice(cursor.anchor, cursor.offset)).toBe('world');
+    expect(cursor).toMatchObject({ line: 1, column: 21, revision: 2 });
+  });
+
+  test('offsets are clamped to the document', () => {
+    const { room, file } = roomWithFile('short');
+    const cursor = normalizeCursor(room, 'u1', { fileId: file.id, offset: 99, anchor: -4, revision: 0 });
+
+    expect(cursor).toMatchObject({ offset: 5, anchor: 0 });
+  });
+
+  test('the visible region is transformed and clamped like the caret', () => {
+    const { room, file } = roomWithFile('one\ntwo\nthree');
+    commit(file, [insert(0, 'zero\n')], { userId: 'other' });
+
+    const cursor = normalizeCursor(room, 'u1', {
+      fileId: file.id, offset: 0, anchor: 0, viewport: { start: 4, end: 99 }, revision: 0
+    });
+    expect(file.content.slice(cursor.viewport.start)).toBe('two\nthree');
+    expect(cursor.viewport.end).toBe(file.content.length);
+    expect(cursor.viewport).toMatchObject({ startLine: 3, endLine: 4 });
+
+    expect(normalizeCursor(room, 'u1', { fileId: file.id, offset: 0 }).viewport).toBeNull();
+  });
+
+  test('committed edits shift the cursors of other users in the file', () => {
+    const { room, file } = roomWithFile('line one\nline two');
+    room.users.set('author', { id: 'author', cursor: { ...createCursor(), fileId: file.id, offset: 9, anchor: 9 } });
+    room.users.set('reader', { id: 'reader', cursor: { ...createCursor(), fileId: file.id, offset: 14, anchor: 9 } });
+    room.users.set('elsewhere', { id: 'elsewhere', cursor: createCursor() });
+
+    const entry = commit(file, [insert(0, 'line zero\n')], { userId: 'author' });
+    transformCursors(room, file, entry);
+
+    expect(room.users.get('author').cursor.offset).toBe(9);
+    expect(room.users.get('reader').cursor).toMatchObject({ offset: 24, anchor: 19, line: 3, column: 6 });
+    expect(room.users.get('elsewhere').cursor).toEqual(createCursor());
+  });
+});
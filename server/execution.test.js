@@ -0,0 +1,247 @@
+const net = require('net');
+const { serveForSuite } = require('./testing/server');
+const { CodeRunner, ExecutionError, canSandbox } = require('./execution');
+
+const LIMITS = {
+  timeoutMs: 5000,
+  memoryMb: 64,
+  maxOutputChars: 1000,
+  maxQueued: 2,
+  pythonCommand: 'python3',
+  sandbox: true
+};
+
+const user = { id: 'u1', name: 'tester' };
+const file = (language, content) => ({ id: `f-${language}`, name: `main.${language}`, language, content });
+
+// A runner whose events are recorded; `finished(runId)` resolves with the run once it ends
+function createRunner(limits = {}) {
+  const updates = [];
+  const output = [];
+  const waiting = new Map();
+  const runner = new CodeRunner({ ...LIMITS, ...limits }, {
+    onUpdate: (roomId, run) => {
+      updates.push({ roomId, id: run.id, status: run.status });
+      if (!['queued', 'running'].includes(run.status)) waiting.get(run.id)?.(run);
+    },
+    onOutput: (roomId, chunk) => output.push(chunk)
+  });
+  const finished = runId => new Promise(resolve => waiting.set(runId, resolve));
+  const textOf = (runId, stream) => output
+    .filter(chunk => chunk.runId === runId && (!stream || chunk.stream === stream))
+    .map(chunk => chunk.text)
+    .join('');
+  return { runner, updates, finished, textOf };
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('code runner', () => {
+  test('streams stdout and stderr and reports the exit code', async () => {
+    const { runner, finished, textOf } = createRunner();
+    const run = runner.submit('room', {
+      file: file('javascript', 'console.log("out"); console.error("err"); process.exit(3);'),
+      user
+    });
+
+    expect(await finished(run.id)).toMatchObject({ status: 'finished', exitCode: 3, reason: null });
+    expect(textOf(run.id, 'stdout')).toBe('out\n');
+    expect(textOf(run.id, 'stderr')).toBe('err\n');
+  });
+
+  test('TypeScript is transpiled before it runs', async () => {
+    const { runner, finished, textOf } = createRunner();
+    const run = runner.submit('room', {
+      file: file('typescript', 'const answer: number = 6 * 7;\nconsole.log(answer);'),
+      user
+    });
+
+    expect(await finished(run.id)).toMatchObject({ exitCode: 0 });
+    expect(textOf(run.id)).toBe('42\n');
+  });
+
+  test('Python reads stdin given up front and typed later', async () => {
+    const { runner, finished, textOf } = createRunner();
+    const run = runner.submit('room', {
+      file: file('python', 'print(input().upper())\nprint(input()[::-1])'),
+      user,
+      stdin: 'hello\n'
+    });
+    runner.write('room', run.id, { text: 'world', end: true });
+
+    expect(await finished(run.id)).toMatchObject({ exitCode: 0 });
+    expect(textOf(run.id)).toBe('HELLO\ndlrow\n');
+  });
+
+  test('runs in a room wait for each other and the queue is bounded', async () => {
+    const { runner, updates, finished } = createRunner({ maxQueued: 1 });
+    const first = runner.submit('room', { file: file('javascript', 'setTimeout(() => {}, 200);'), user });
+    const second = runner.submit('room', { file: file('javascript', ''), user });
+
+    expect(() => runner.submit('room', { file: file('javascript', ''), user })).toThrow(ExecutionError);
+    expect(runner.list('room').map(run => run.status)).toEqual(['running', 'queued']);
+
+    await finished(second.id);
+    expect(updates.filter(u => u.status !== 'queued').map(u => [u.id, u.status])).toEqual([
+      [first.id, 'running'],
+      [first.id, 'finished'],
+      [second.id, 'running'],
+      [second.id, 'finished']
+    ]);
+  });
+
+  test('programs are stopped at the time and output limits', async () => {
+    const { runner, finished, textOf } = createRunner({ timeoutMs: 500, maxOutputChars: 10 });
+    const looping = runner.submit('room', { file: file('javascript', 'while (true) {}'), user });
+    const chatty = runner.submit('room', { file: file('javascript', 'while (true) console.log("spam");'), user });
+
+    expect(await finished(looping.id)).toMatchObject({ status: 'finished', reason: 'timeout', exitCode: null });
+    expect(await finished(chatty.id)).toMatchObject({ reason: 'output-limit' });
+    expect(textOf(chatty.id)).toBe('spam\nspam\n');
+  });
+
+  test('queued and running programs can be cancelled', async () => {
+    const { runner, finished } = createRunner();
+    const running = runner.submit('room', { file: file('javascript', 'setInterval(() => {}, 1000);'), user });
+    const queued = runner.submit('room', { file: file('javascript', ''), user });
+
+    const cancelled = [finished(queued.id), finished(running.id)];
+    runner.cancel('room', queued.id);
+    runner.cancel('room', running.id);
+
+    expect(await cancelled[0]).toMatchObject({ status: 'cancelled' });
+    expect(await cancelled[1]).toMatchObject({ status: 'cancelled', reason: 'cancelled' });
+  });
+
+  test('unsupported languages are rejected', () => {
+    const { runner } = createRunner();
+    expect(() => runner.submit('room', { file: file('rust', 'fn main() {}'), user })).toThrow('not supported');
+    for (const inherited of ['constructor', 'toString', '__proto__']) {
+      expect(() => runner.submit('room', { file: file(inherited, ''), user })).toThrow(ExecutionError);
+    }
+  });
+
+  (canSandbox() ? test : test.skip)('programs have no network', async () => {
+    const listener = net.createServer(socket => socket.end());
+    await new Promise(resolve => listener.listen(0, '127.0.0.1', resolve));
+    const { runner, finished, textOf } = createRunner();
+
+    try {
+      const run = runner.submit('room', {
+        file: file('javascript', `require('net').connect(${listener.address().port}, '127.0.0.1')
+          .on('connect', () => console.log('connected'))
+          .on('error', () => console.log('unreachable'));`),
+        user
+      });
+
+      await finished(run.id);
+      expect(textOf(run.id)).toBe('unreachable\n');
+    } finally {
+      await new Promise(resolve => listener.close(resolve));
+    }
+  });
+
+  (canSandbox() ? test : test.skip)('programs cannot see the server\'s files and are held to the memory cap', async () => {
+    // Node reports running out of memory at length
+    const { runner, finished, textOf } = createRunner({ maxOutputChars: 100000 });
+    const read = runner.submit('room', {
+      file: file('javascript', `const fs = require('fs');
+        try { fs.readFileSync(${JSON.stringify(__filename)}); console.log('read'); } catch (error) { console.log(error.code); }
+        try { fs.writeFileSync('/escaped', ''); } catch (error) { console.log(error.code); }
+        fs.writeFileSync('own.txt', 'ok'); console.log(fs.readFileSync('own.txt', 'utf8'));`),
+      user
+    });
+    expect(await finished(read.id)).toMatchObject({ status: 'finished', exitCode: 0 });
+    expect(textOf(read.id, 'stdout')).toBe('ENOENT\nEROFS\nok\n');
+
+    // Buffers live outside the V8 heap, so only the data limit stops them
+    const hog = runner.submit('room', {
+      file: file('javascript', 'const kept = []; for (;;) kept.push(Buffer.alloc(1 << 20, 1));'),
+      user
+    });
+    const ended = await finished(hog.id);
+    expect(ended).toMatchObject({ status: 'finished', reason: null });
+    expect(ended.exitCode).not.toBe(0);
+  });
+
+  test('nothing runs when programs cannot be sandboxed', () => {
+    let UnsandboxedRunner;
+    jest.isolateModules(() => {
+      jest.doMock('./execution/sandbox', () => ({ ...jest.requireActual('./execution/sandbox'), canSandbox: () => false }));
+      ({ CodeRunner: UnsandboxedRunner } = require('./execution'));
+    });
+    jest.dontMock('./execution/sandbox');
+    const runner = new UnsandboxedRunner(LIMITS, { onUpdate: () => {}, onOutput: () => {} });
+
+    expect(() => runner.submit('room', { file: file('javascript', 'console.log(1)'), user }))
+      .toThrow('cannot sandbox');
+  });
+});
+
+describe('code runs over sockets', () => {
+  const { connect } = serveForSuite();
+  const join = (socket, roomId, userName) => new Promise((resolve) => {
+    socket.once('room-joined', resolve);
+    socket.emit('join-room', { roomId, userName });
+  });
+
+  test('everyone in the room sees the run and its output', async () => {
+    const runner = connect();
+    const watcher = connect();
+
+    try {
+      const room = await join(runner, 'run-room', 'runner');
+      await join(watcher, 'run-room', 'watcher');
+      const target = room.files.find(f => f.name === 'main.js');
+      runner.emit('document-operation', {
+        fileId: target.id,
+        id: 's1',
+        revision: target.revision,
+        operations: [target.content.length, 'console.log(1 + 1);\n']
+      });
+
+      let output = '';
+      const statuses = [];
+      watcher.on('run-output', ({ text }) => { output += text; });
+      const done = new Promise((resolve) => {
+        watcher.on('run-update', (run) => {
+          statuses.push(run.status);
+          if (run.status === 'finished') resolve(run);
+        });
+      });
+      runner.emit('run-code', { fileId: target.id });
+
+      expect(await done).toMatchObject({ fileId: target.id, userName: 'runner', exitCode: 0 });
+      expect(statuses).toEqual(['queued', 'running', 'finished']);
+      expect(output).toBe('2\n');
+
+      // Late joiners get the recent runs with their output
+      const late = connect();
+      try {
+        const joined = await join(late, 'run-room', 'late');
+        expect(joined.runs).toEqual([expect.objectContaining({ status: 'finished', output: [{ stream: 'stdout', text: '2\n' }] })]);
+      } finally {
+        late.close();
+      }
+    } finally {
+      runner.close();
+      watcher.close();
+    }
+  });
+
+  test('problems are reported to whoever asked', async () => {
+    const client = connect();
+
+    try {
+      await join(client, 'run-errors', 'tester');
+      const error = new Promise(resolve => client.once('run-error', resolve));
+      client.emit('run-code', { fileId: 'missing' });
+
+      expect(await error).toEqual({ message: 'Open a file to run it' });
+    } finally {
+      client.close();
+    }
+  });
+});
@@ -0,0 +1,179 @@
+const { v4: uuidv4 } = require('uuid');
+const { ExecutionError, SUPPORTED_LANGUAGES, getRuntime } = require('./runtimes');
+const { SandboxedRun, canSandbox } = require('./sandbox');
+
+// Finished runs kept per room so people who join later can see them
+const RECENT_RUNS = 10;
+
+// What clients see of a run; updates leave the output out because it has
+// already been streamed
+function describeRun(run, { withOutput = false } = {}) {
+  const { output, ...rest } = run;
+  return withOutput ? { ...rest, output: output.map(part => ({ ...part })) } : rest;
+}
+
+function appendOutput(run, stream, text) {
+  const last = run.output[run.output.length - 1];
+  if (last && last.stream === stream) {
+    last.text += text;
+  } else {
+    run.output.push({ stream, text });
+  }
+}
+
+// Runs each room's programs one at a time in the order they were asked for.
+// Everything a run does is reported through `onUpdate(roomId, run)` and
+// `onOutput(roomId, { runId, stream, text })` so it can be shown to the room.
+class CodeRunner {
+  constructor(limits, { onUpdate, onOutput }) {
+    this.limits = limits;
+    this.onUpdate = onUpdate;
+    this.onOutput = onOutput;
+    // roomId -> { active: { run, sandbox } | null, queue: [...], recent: [run] }
+    this.rooms = new Map();
+  }
+
+  // Queue a file's current content to run. `stdin` is fed to the program
+  // when it starts; more can be written while it runs.
+  submit(roomId, { file, user, stdin }) {
+    const runtime = getRuntime(file.language);
+    if (this.limits.sandbox && !canSandbox()) {
+      throw new ExecutionError('Running code is disabled: this server cannot sandbox programs');
+    }
+    const state = this.stateFor(roomId);
+    if (state.queue.length >= this.limits.maxQueued) {
+      throw new ExecutionError('Too many runs are waiting in this room, try again shortly');
+    }
+
+    const run = {
+      id: uuidv4(),
+      fileId: file.id,
+      fileName: file.name,
+      language: file.language,
+      userId: user.id,
+      userName: user.name,
+      status: 'queued',
+      exitCode: null,
+      signal: null,
+      reason: null,
+      durationMs: null,
+      requestedAt: Date.now(),
+      output: []
+    };
+    const sandbox = new SandboxedRun(runtime, file.content, this.limits);
+    if (typeof stdin === 'string' && stdin) sandbox.write(stdin);
+
+    state.queue.push({ run, sandbox });
+    this.onUpdate(roomId, describeRun(run));
+    this.next(roomId);
+    return describeRun(run);
+  }
+
+  // A queued or running program
+  find(roomId, runId) {
+    const entry = this.entryFor(roomId, runId);
+    return entry ? describeRun(entry.run) : null;
+  }
+
+  // Input for a queued or running program; `end` closes its stdin
+  write(roomId, runId, { text, end }) {
+    const entry = this.entryFor(roomId, runId);
+    if (!entry) return;
+    if (typeof text === 'string' && text) entry.sandbox.write(text);
+    if (end) entry.sandbox.endInput();
+  }
+
+  cancel(roomId, runId) {
+    const state = this.rooms.get(roomId);
+    if (!state) return;
+
+    if (state.active?.run.id === runId) {
+      state.active.sandbox.stop('cancelled');
+      return;
+    }
+    const index = state.queue.findIndex(entry => entry.run.id === runId);
+    if (index === -1) return;
+    const [{ run }] = state.queue.splice(index, 1);
+    run.status = 'cancelled';
+    run.reason = 'cancelled';
+    this.finish(roomId, state, run);
+  }
+
+  // Runs in progress, waiting and recently finished, oldest first
+  list(roomId) {
+    const state = this.rooms.get(roomId);
+    if (!state) return [];
+    return [...state.recent, state.active?.run, ...state.queue.map(entry => entry.run)]
+      .filter(Boolean)
+      .map(run => describeRun(run, { withOutput: true }));
+  }
+
+  // Stop everything for a room nobody is in any more
+  release(roomId) {
+    const state = this.rooms.get(roomId);
+    if (!state) return;
+    this.rooms.delete(roomId);
+    state.queue = [];
+    state.active?.sandbox.stop('cancelled');
+  }
+
+  async next(roomId) {
+    const state = this.rooms.get(roomId);
+    if (!state || state.active || state.queue.length === 0) return;
+
+    const entry = state.queue.shift();
+    state.active = entry;
+    const { run, sandbox } = entry;
+    run.status = 'running';
+    this.onUpdate(roomId, describeRun(run));
+
+    try {
+      const result = await sandbox.run((stream, text) => {
+        appendOutput(run, stream, text);
+        this.onOutput(roomId, { runId: run.id, stream, text });
+      });
+      Object.assign(run, result, { status: result.reason === 'cancelled' ? 'cancelled' : 'finished' });
+    } catch (error) {
+      if (!(error instanceof ExecutionError)) {
+        console.error('Code run failed:', error);
+      }
+      const text = `${error instanceof ExecutionError ? error.message : 'The program could not be run'}\n`;
+      appendOutput(run, 'stderr', text);
+      this.onOutput(roomId, { runId: run.id, stream: 'stderr', text });
+      run.status = 'failed';
+    }
+
+    state.active = null;
+    this.finish(roomId, state, run);
+    this.next(roomId);
+  }
+
+  finish(roomId, state, run) {
+    state.recent.push(run);
+    state.recent.splice(0, state.recent.length - RECENT_RUNS);
+    this.onUpdate(roomId, describeRun(run));
+  }
+
+  entryFor(roomId, runId) {
+    const state = this.rooms.get(roomId);
+    if (!state) return null;
+    return [state.active, ...state.queue].find(entry => entry && entry.run.id === runId) || null;
+  }
+
+  stateFor(roomId) {
+    let state = this.rooms.get(roomId);
+    if (!state) {
+      state = { active: null, queue: [], recent: [] };
+      this.rooms.set(roomId, state);
+    }
+    return state;
+  }
+}
+
+module.exports = {
+  CodeRunner,
+  ExecutionError,
+  SUPPORTED_LANGUAGES,
+  canSandbox,
+  describeRun
+};
@@ -0,0 +1,85 @@
+const { spawnSync } = require('child_process');
+
+// A program that cannot be run: unsupported language, queue full, no interpreter, ...
+class ExecutionError extends Error {}
+
+// Python is started through a launcher that caps its address space and then
+// replaces itself with the real interpreter, so tracebacks stay clean
+const PYTHON_LAUNCHER = [
+  'import os, resource, sys',
+  'limit = int(sys.argv[1])',
+  'resource.setrlimit(resource.RLIMIT_AS, (limit, limit))',
+  "os.execv(sys.executable, [sys.executable, '-I', '-u', sys.argv[2]])"
+].join('\n');
+
+// The interpreter behind the configured python command. Resolved with the
+// server's environment because version-manager shims do not work in the
+// stripped-down one programs get.
+const pythonPaths = new Map();
+function resolvePython(command) {
+  if (!pythonPaths.has(command)) {
+    const result = spawnSync(command, ['-c', 'import sys; print(sys.executable)'], {
+      encoding: 'utf8',
+      timeout: 10000
+    });
+    pythonPaths.set(command, result.status === 0 ? result.stdout.trim() : null);
+  }
+  const executable = pythonPaths.get(command);
+  if (!executable) {
+    throw new ExecutionError(`Python is not available on the server (${command})`);
+  }
+  return executable;
+}
+
+function transpileTypeScript(code) {
+  const ts = require('typescript');
+  const { outputText } = ts.transpileModule(code, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+      esModuleInterop: true
+    }
+  });
+  return outputText;
+}
+
+const nodeCommand = (fileName, limits) => [
+  process.execPath,
+  [`--max-old-space-size=${limits.memoryMb}`, fileName]
+];
+
+// How to turn a file of each language into a running process. `compile`
+// turns the document into the source that is written to `fileName`.
+const RUNTIMES = {
+  javascript: {
+    fileName: 'main.js',
+    compile: code => code,
+    command: nodeCommand
+  },
+  typescript: {
+    fileName: 'main.js',
+    compile: transpileTypeScript,
+    command: nodeCommand
+  },
+  python: {
+    fileName: 'main.py',
+    compile: code => code,
+    command: (fileName, limits) => [
+      resolvePython(limits.pythonCommand),
+      ['-I', '-c', PYTHON_LAUNCHER, String(limits.memoryMb * 1024 * 1024), fileName]
+    ]
+  }
+};
+
+const SUPPORTED_LANGUAGES = Object.keys(RUNTIMES);
+
+// Languages are set by clients, so names like `constructor` must not reach
+// the object's prototype
+function getRuntime(language) {
+  if (typeof language !== 'string' || !Object.hasOwn(RUNTIMES, language)) {
+    throw new ExecutionError(`Running ${language || 'this'} code is not supported`);
+  }
+  return RUNTIMES[language];
+}
+
+module.exports = { ExecutionError, SUPPORTED_LANGUAGES, getRuntime };
@@ -0,0 +1,217 @@
+const { spawn, spawnSync } = require('child_process');
+const fs = require('fs/promises');
+const os = require('os');
+const path = require('path');
+
+// Programs run as nobody when the server itself runs as root
+const NOBODY = 65534;
+const runsAsRoot = () => process.getuid?.() === 0;
+
+// Programs get namespaces of their own: no network, their own mounts and
+// their own process ids. Without root that takes an unprivileged user
+// namespace, in which they stay the server's user as far as the rest of the
+// system is concerned.
+const namespaceArgs = () => [
+  ...(runsAsRoot() ? [] : ['--user', '--map-root-user']),
+  '--net', '--mount', '--pid', '--fork'
+];
+
+// What programs can see of the server's filesystem: system libraries and
+// devices, read-only. The interpreter's own install directory is added per
+// run; the rest (the server's code, its data, home directories) is not there.
+const VISIBLE_PATHS = [
+  '/usr', '/bin', '/lib', '/lib32', '/lib64',
+  '/dev/null', '/dev/zero', '/dev/random', '/dev/urandom'
+];
+
+// Started as root of the new namespaces: builds a root of its own out of a
+// tmpfs, the visible paths and the run's directory (as /sandbox), switches
+// to it for good, caps the data segment (which, unlike the address space,
+// Node can live with) and then drops every privilege before it becomes the
+// program.
+//   sh -c SANDBOX_LAUNCHER sandbox <root> <work> <data KB> <uid or ''> <path>... -- <command> <arg>...
+const SANDBOX_LAUNCHER = `set -e
+program_path=$PATH
+PATH=$PATH:/usr/sbin:/sbin
+root=$1 work=$2 data=$3 user=$4
+shift 4
+mount -t tmpfs -o mode=755 sandbox "$root"
+while [ "$1" != -- ]; do
+  if [ -L "$1" ]; then
+    mkdir -p "$root$(dirname "$1")"
+    ln -s "$(readlink "$1")" "$root$1"
+  elif [ -d "$1" ]; then
+    mkdir -p "$root$1"
+    mount --bind -o ro "$1" "$root$1"
+  elif [ -e "$1" ]; then
+    mkdir -p "$root$(dirname "$1")"
+    touch "$root$1"
+    mount --bind "$1" "$root$1"
+  fi
+  shift
+done
+shift
+mkdir "$root/sandbox" "$root/proc" "$root/.old"
+mount --bind "$work" "$root/sandbox"
+mount -o remount,bind,ro "$root"
+mount -t proc proc "$root/proc"
+cd "$root"
+pivot_root . .old
+umount -l /.old
+cd /sandbox
+ulimit -d "$data"
+PATH=$program_path
+drop_user=\${user:+--reuid=$user --regid=$user --clear-groups}
+exec setpriv --no-new-privs --bounding-set=-all --inh-caps=-all $drop_user -- "$@"`;
+
+// Whether this system lets the server create those namespaces. Checked once;
+// when it does not, programs are not run at all unless sandboxing is turned
+// off explicitly.
+let sandboxing;
+function canSandbox() {
+  if (sandboxing === undefined) {
+    const result = spawnSync('unshare', [...namespaceArgs(), 'true'], { stdio: 'ignore', timeout: 5000 });
+    sandboxing = result.status === 0;
+  }
+  return sandboxing;
+}
+
+// How to start `command` with `args` for a run in `dir`, whose files are in
+// `work`: inside the sandbox, or as a plain child process when sandboxing
+// is turned off. `dir` must hold an empty `root` directory to build the
+// sandbox's root in.
+function launch(command, args, { dir, work, limits }) {
+  if (!limits.sandbox) {
+    return {
+      command,
+      args,
+      options: { cwd: work, env: { PATH: process.env.PATH, HOME: work, TMPDIR: work, LANG: 'C.UTF-8' } }
+    };
+  }
+
+  // The interpreter's install prefix, e.g. /usr or a version manager's
+  // directory, so it finds its standard library
+  const prefix = path.dirname(path.dirname(command));
+  const visible = [...new Set([...VISIBLE_PATHS, ...(prefix === '/' ? [] : [prefix])])];
+  const root = path.join(dir, 'root');
+  return {
+    command: 'unshare',
+    args: [
+      ...namespaceArgs(), 'sh', '-c', SANDBOX_LAUNCHER, 'sandbox',
+      root, work, String(limits.memoryMb * 1024), runsAsRoot() ? String(NOBODY) : '',
+      ...visible, '--', command, ...args
+    ],
+    options: { cwd: dir, env: { PATH: process.env.PATH, HOME: '/sandbox', TMPDIR: '/sandbox', LANG: 'C.UTF-8' } }
+  };
+}
+
+// One program run in a throwaway directory with a time limit, a memory cap
+// and a cap on how much output it may produce. Input written before the
+// process has started is held until it has.
+class SandboxedRun {
+  constructor(runtime, code, limits) {
+    this.runtime = runtime;
+    this.code = code;
+    this.limits = limits;
+    this.child = null;
+    this.input = [];
+    this.inputEnded = false;
+    // Why the run was stopped early: 'timeout', 'output-limit' or 'cancelled'
+    this.stopReason = null;
+  }
+
+  // Resolves with how the program ended once it has; `onOutput(stream, text)`
+  // receives stdout and stderr as they are produced
+  async run(onOutput) {
+    const source = this.runtime.compile(this.code);
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'coderun-'));
+    const work = path.join(dir, 'work');
+    const startedAt = Date.now();
+
+    try {
+      await fs.mkdir(work);
+      await fs.mkdir(path.join(dir, 'root'));
+      await fs.writeFile(path.join(work, this.runtime.fileName), source);
+      if (this.limits.sandbox && runsAsRoot()) {
+        await fs.chown(work, NOBODY, NOBODY);
+        await fs.chown(path.join(work, this.runtime.fileName), NOBODY, NOBODY);
+      }
+      if (this.stopReason) return this.result(startedAt, null, null);
+
+      const [command, args] = this.runtime.command(this.runtime.fileName, this.limits);
+      const started = launch(command, args, { dir, work, limits: this.limits });
+      this.child = spawn(started.command, started.args, {
+        ...started.options,
+        // A process group of its own, so stopping it takes any children too
+        detached: true
+      });
+
+      const timer = setTimeout(() => this.stop('timeout'), this.limits.timeoutMs);
+      let outputChars = 0;
+      const forward = stream => (text) => {
+        if (this.stopReason) return;
+        const room = this.limits.maxOutputChars - outputChars;
+        outputChars += text.length;
+        onOutput(stream, text.slice(0, room));
+        if (outputChars > this.limits.maxOutputChars) this.stop('output-limit');
+      };
+      this.child.stdout.setEncoding('utf8').on('data', forward('stdout'));
+      this.child.stderr.setEncoding('utf8').on('data', forward('stderr'));
+      // Programs that exit without reading their input close the pipe on us
+      this.child.stdin.on('error', () => {});
+
+      this.input.forEach(text => this.child.stdin.write(text));
+      if (this.inputEnded) this.child.stdin.end();
+
+      const [code, signal] = await new Promise((resolve) => {
+        this.child.on('error', (error) => {
+          onOutput('stderr', `Could not start the program: ${error.message}\n`);
+          resolve([null, null]);
+        });
+        this.child.on('close', (exitCode, exitSignal) => resolve([exitCode, exitSignal]));
+      });
+      clearTimeout(timer);
+      return this.result(startedAt, code, signal);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  write(text) {
+    if (this.inputEnded) return;
+    if (this.child) {
+      this.child.stdin.write(text);
+    } else {
+      this.input.push(text);
+    }
+  }
+
+  endInput() {
+    if (this.inputEnded) return;
+    this.inputEnded = true;
+    this.child?.stdin.end();
+  }
+
+  stop(reason = 'cancelled') {
+    if (this.stopReason) return;
+    this.stopReason = reason;
+    if (this.child && this.child.exitCode === null && this.child.signalCode === null) {
+      try {
+        process.kill(-this.child.pid, 'SIGKILL');
+      } catch (error) {
+        // Already gone
+      }
+    }
+  }
+
+  result(startedAt, exitCode, signal) {
+    return {
+      exitCode,
+      signal,
+      reason: this.stopReason,
+      durationMs: Date.now() - startedAt
+    };
+  }
+}
+
+module.exports = { SandboxedRun, canSandbox, launch, runsAsRoot, NOBODY };
@@ -0,0 +1,165 @@
+const path = require('path');
+const { v4: uuidv4 } = require('uuid');
+
+const LANGUAGES_BY_EXTENSION = {
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.py': 'python',
+  '.java': 'java',
+  '.c': 'cpp',
+  '.h': 'cpp',
+  '.cpp': 'cpp',
+  '.cc': 'cpp',
+  '.hpp': 'cpp',
+  '.cs': 'csharp',
+  '.html': 'html',
+  '.htm': 'html',
+  '.css': 'css',
+  '.json': 'json',
+  '.md': 'markdown',
+  '.sql': 'sql',
+  '.php': 'php',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.yml': 'yaml',
+  '.yaml': 'yaml'
+};
+
+const MAX_NAME_LENGTH = 255;
+
+class FileTreeError extends Error {}
+
+function inferLanguage(name) {
+  return LANGUAGES_BY_EXTENSION[path.extname(name).toLowerCase()] || 'plaintext';
+}
+
+function validateName(name) {
+  if (typeof name !== 'string') throw new FileTreeError('A name is required');
+
+  const trimmed = name.trim();
+  if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+    throw new FileTreeError('Names must be between 1 and 255 characters');
+  }
+  if (/[\\/]/.test(trimmed) || trimmed === '.' || trimmed === '..') {
+    throw new FileTreeError(`"${trimmed}" is not a valid name`);
+  }
+  return trimmed;
+}
+
+// Ids come from clients, so only the room's own entries count: an id such
+// as "constructor" must not resolve to something inherited from Object
+function findNode(room, nodeId) {
+  return typeof nodeId === 'string' && Object.hasOwn(room.files, nodeId) ? room.files[nodeId] : null;
+}
+
+function getNode(room, nodeId) {
+  const node = findNode(room, nodeId);
+  if (!node) throw new FileTreeError('File not found');
+  return node;
+}
+
+function getFile(room, fileId) {
+  const node = findNode(room, fileId);
+  return node && node.type === 'file' ? node : null;
+}
+
+function getChildren(room, parentId) {
+  return Object.values(room.files).filter(node => node.parentId === parentId);
+}
+
+function validateParent(room, parentId) {
+  if (parentId === null) return;
+  const parent = getNode(room, parentId);
+  if (parent.type !== 'folder') throw new FileTreeError('Files can only be placed in folders');
+}
+
+function assertUniqueName(room, parentId, name, exceptId) {
+  const clash = getChildren(room, parentId)
+    .some(node => node.id !== exceptId && node.name.toLowerCase() === name.toLowerCase());
+  if (clash) throw new FileTreeError(`"${name}" already exists in this folder`);
+}
+
+function createNode(room, { parentId = null, name, type, content = '' }) {
+  if (type !== 'file' && type !== 'folder') throw new FileTreeError('Unknown node type');
+
+  const validName = validateName(name);
+  validateParent(room, parentId);
+  assertUniqueName(room, parentId, validName);
+
+  const node = { id: uuidv4(), name: validName, parentId, type };
+  if (type === 'file') {
+    Object.assign(node, {
+      content,
+      // Where the operation log starts, for replaying the file's history
+      initialContent: content,
+      language: inferLanguage(validName),
+      revision: 0,
+      operations: []
+    });
+  }
+
+  room.files[node.id] = node;
+  return node;
+}
+
+// Renaming a file re-infers its language from the new extension
+function renameNode(room, nodeId, name) {
+  const node = getNode(room, nodeId);
+  const validName = validateName(name);
+  assertUniqueName(room, node.parentId, validName, node.id);
+
+  node.name = validName;
+  if (node.type === 'file') node.language = inferLanguage(validName);
+  return node;
+}
+
+function moveNode(room, nodeId, parentId) {
+  const node = getNode(room, nodeId);
+  validateParent(room, parentId);
+
+  // A folder cannot be moved into itself or one of its descendants
+  for (let ancestor = parentId; ancestor !== null; ancestor = room.files[ancestor].parentId) {
+    if (ancestor === node.id) throw new FileTreeError('A folder cannot be moved into itself');
+  }
+  assertUniqueName(room, parentId, node.name, node.id);
+
+  node.parentId = parentId;
+  return node;
+}
+
+// Removes the node and everything below it; returns the removed ids
+function deleteNode(room, nodeId) {
+  const node = getNode(room, nodeId);
+  const removed = [];
+  const queue = [node.id];
+
+  while (queue.length > 0) {
+    const id = queue.shift();
+    removed.push(id);
+    getChildren(room, id).forEach(child => queue.push(child.id));
+  }
+
+  removed.forEach(id => delete room.files[id]);
+  return removed;
+}
+
+// What clients see of a node: everything but the operation log and what
+// is left of its compacted entries
+function describeNode({ operations, initialContent, baseRevision, compactedSubmissions, ...node }) {
+  return node;
+}
+
+module.exports = {
+  FileTreeError,
+  inferLanguage,
+  getFile,
+  createNode,
+  renameNode,
+  moveNode,
+  deleteNode,
+  describeNode
+};
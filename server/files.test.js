@@ -0,0 +1,77 @@
+const {
+  FileTreeError,
+  inferLanguage,
+  createNode,
+  renameNode,
+  moveNode,
+  deleteNode,
+  getFile
+} = require('./files');
+
+const emptyRoom = () => ({ files: {} });
+
+describe('file tree', () => {
+  test('languages are inferred from the extension', () => {
+    expect(inferLanguage('app.tsx')).toBe('typescript');
+    expect(inferLanguage('SCRIPT.PY')).toBe('python');
+    expect(inferLanguage('Makefile')).toBe('plaintext');
+  });
+
+  test('renaming a file updates its language', () => {
+    const room = emptyRoom();
+    const file = createNode(room, { name: 'notes.md', type: 'file' });
+
+    renameNode(room, file.id, 'notes.py');
+
+    expect(room.files[file.id]).toMatchObject({ name: 'notes.py', language: 'python' });
+  });
+
+  test('names must be unique within a folder', () => {
+    const room = emptyRoom();
+    const folder = createNode(room, { name: 'src', type: 'folder' });
+    createNode(room, { name: 'index.js', type: 'file' });
+
+    expect(() => createNode(room, { name: 'INDEX.js', type: 'file' })).toThrow(FileTreeError);
+    expect(() => createNode(room, { parentId: folder.id, name: 'index.js', type: 'file' })).not.toThrow();
+  });
+
+  test('rejects path separators and nesting under files', () => {
+    const room = emptyRoom();
+    const file = createNode(room, { name: 'a.js', type: 'file' });
+
+    expect(() => createNode(room, { name: '../etc', type: 'file' })).toThrow(FileTreeError);
+    expect(() => createNode(room, { parentId: file.id, name: 'b.js', type: 'file' })).toThrow(FileTreeError);
+  });
+
+  test('a folder cannot be moved into its own subtree', () => {
+    const room = emptyRoom();
+    const outer = createNode(room, { name: 'outer', type: 'folder' });
+    const inner = createNode(room, { parentId: outer.id, name: 'inner', type: 'folder' });
+
+    expect(() => moveNode(room, outer.id, inner.id)).toThrow(FileTreeError);
+    expect(() => moveNode(room, inner.id, null)).not.toThrow();
+  });
+
+  test('deleting a folder removes everything below it', () => {
+    const room = emptyRoom();
+    const folder = createNode(room, { name: 'src', type: 'folder' });
+    const nested = createNode(room, { parentId: folder.id, name: 'lib', type: 'folder' });
+    const file = createNode(room, { parentId: nested.id, name: 'util.js', type: 'file' });
+    const sibling = createNode(room, { name: 'README.md', type: 'file' });
+
+    expect(deleteNode(room, folder.id).sort()).toEqual([folder.id, nested.id, file.id].sort());
+    expect(Object.keys(room.files)).toEqual([sibling.id]);
+  });
+
+  test('ids inherited from Object are not nodes of the room', () => {
+    const room = emptyRoom();
+    createNode(room, { name: 'a.js', type: 'file' });
+
+    for (const id of ['toString', 'constructor', '__proto__']) {
+      expect(getFile(room, id)).toBeNull();
+      expect(() => moveNode(room, id, null)).toThrow(FileTreeError);
+      expect(() => deleteNode(room, id)).toThrow(FileTreeError);
+    }
+    expect(Object.prototype.toString.parentId).toBeUndefined();
+  });
+});
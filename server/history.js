@@ -0,0 +1,55 @@
+const { v4: uuidv4 } = require('uuid');
+
+// Capture a file as a named point in the room's history. Automatic
+// snapshots are capped per file; named ones are kept until deleted.
+function createSnapshot(room, file, { name, userName, auto = false, maxAutoSnapshots }) {
+  const snapshot = {
+    id: uuidv4(),
+    fileId: file.id,
+    fileName: file.name,
+    name: name || `Snapshot at revision ${file.revision}`,
+    content: file.content,
+    language: file.language,
+    revision: file.revision,
+    createdBy: userName || null,
+    auto,
+    createdAt: new Date()
+  };
+  room.snapshots.push(snapshot);
+
+  if (auto && maxAutoSnapshots) {
+    const autoSnapshots = room.snapshots.filter(s => s.auto && s.fileId === file.id);
+    const excess = autoSnapshots.length - maxAutoSnapshots;
+    if (excess > 0) {
+      const dropped = new Set(autoSnapshots.slice(0, excess));
+      room.snapshots = room.snapshots.filter(s => !dropped.has(s));
+    }
+  }
+
+  return snapshot;
+}
+
+// Take an automatic snapshot when the file has changed and its last
+// snapshot is older than the configured interval
+function maybeAutoSnapshot(room, file, { autoSnapshotIntervalMs, maxAutoSnapshots }) {
+  if (!autoSnapshotIntervalMs) return null;
+
+  const latest = room.snapshots.filter(s => s.fileId === file.id).pop();
+  if (latest && latest.revision === file.revision) return null;
+  if (latest && Date.now() - new Date(latest.createdAt).getTime() < autoSnapshotIntervalMs) {
+    return null;
+  }
+
+  return createSnapshot(room, file, {
+    name: `Autosave at revision ${file.revision}`,
+    auto: true,
+    maxAutoSnapshots
+  });
+}
+
+// Snapshot metadata without the (potentially large) document body
+function summarizeSnapshot({ content, ...summary }) {
+  return { ...summary, size: content.length };
+}
+
+module.exports = { createSnapshot, maybeAutoSnapshot, summarizeSnapshot };
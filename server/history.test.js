@@ -0,0 +1,32 @@
+const { createSnapshot, maybeAutoSnapshot } = require('./history');
+const { applyOperations } = require('../shared/events');
+const { createRoom } = require('./rooms');
+
+describe('snapshots', () => {
+  test('automatic snapshots are capped while named ones are kept', () => {
+    const room = createRoom('history');
+    const [file] = Object.values(room.files);
+    createSnapshot(room, file, { name: 'Keep me', userName: 'alice' });
+    for (let i = 0; i < 5; i++) {
+      file.revision += 1;
+      createSnapshot(room, file, { auto: true, maxAutoSnapshots: 2 });
+    }
+
+    expect(room.snapshots.map(s => s.name)).toEqual([
+      'Keep me',
+      'Snapshot at revision 4',
+      'Snapshot at revision 5'
+    ]);
+  });
+
+  test('no automatic snapshot is taken before the interval has passed', () => {
+    const room = createRoom('history');
+    const [file] = Object.values(room.files);
+    const options = { autoSnapshotIntervalMs: 60000, maxAutoSnapshots: 10 };
+
+    file.revision = 1;
+    expect(maybeAutoSnapshot(room, file, options)).not.toBeNull();
+    file.revision = 2;
+    expect(maybeAutoSnapshot(room, file, options)).toBeNull();
+  });
+});
@@ -4,331 +4,1399 @@ const socketIo = require('socket.io');
 const cors = require('cors');
 const path = require('path');
 const { v4: uuidv4 } = require('uuid');
-require('dotenv').config();
-
-const app = express();
-const server = http.createServer(app);
-const io = socketIo(server, {
-  cors: {
-    origin: process.env.CLIENT_URL || "http://localhost:3000",
-    methods: ["GET", "POST"]
-  }
-});
-
-// Middleware
-app.use(cors());
-app.use(express.json());
-app.use(express.static(path.join(__dirname, '../client/build')));
-
-// Store room data and user sessions
-const rooms = new Map();
-const userSessions = new Map();
-
-// Document operations for Operational Transformation
-class DocumentOperation {
-  constructor(type, position, content, length = 0) {
-    this.type = type; // 'insert' or 'delete'
-    this.position = position;
-    this.content = content;
-    this.length = length;
-    this.id = uuidv4();
-    this.timestamp = Date.now();
-  }
-}
+const { config } = require('./config');
+const { operationsSince, compactOperations, isCommitted, describeEntry } = require('./oplog');
+const { createStorage } = require('./storage');
+const { RoomManager } = require('./rooms');
+const {
+  FileTreeError,
+  getFile,
+  createNode,
+  renameNode,
+  moveNode,
+  deleteNode,
+  describeNode
+} = require('./files');
+const { createSnapshot, maybeAutoSnapshot, summarizeSnapshot } = require('./history');
+const { buildRecording } = require('./replay');
+const {
+  AccessError,
+  normalizeUserName,
+  validatePassword,
+  can,
+  addMember,
+  getMemberRole,
+  authenticate,
+  setMemberRole,
+  removeMember,
+  updateAccess,
+  createInvite,
+  revokeInvite,
+  describeAccess
+} = require('./access');
+const { createCursor, positionAt, normalizeCursor, transformCursors } = require('./cursors');
+const { createPresence, normalizePresence, samePresence } = require('./presence');
+const {
+  AIProviderError,
+  createAIProvider,
+  buildCompletionRequest,
+  buildAssistantRequest,
+  stripCodeFence
+} = require('./ai');
+const { CodeRunner, ExecutionError, canSandbox } = require('./execution');
+const {
+  CommentError,
+  createThread,
+  addReply,
+  setResolved,
+  transformComments
+} = require('./comments');
+const { RoomTerminals, TerminalError } = require('./terminal');
+const { ChatError, createMessage, pruneChat, addMessage, chatHistory, searchChat } = require('./chat');
+const { RequestError, listen } = require('./protocol');
+const {
+  validatePayload,
+  decodeOperations,
+  normalizeOperations,
+  transform,
+  applyOperations,
+  transformOffset,
+  diffToOperations
+} = require('../shared/events');
+const { RateLimiter, checkEditSize } = require('./limits');
+const { createCluster, ClusterClient } = require('./cluster');
 
-// Transform operations for concurrent editing
-function transformOperation(op1, op2) {
-  if (op1.position <= op2.position) {
-    if (op1.type === 'insert') {
-      return new DocumentOperation(
-        op2.type,
-        op2.position + op1.content.length,
-        op2.content,
-        op2.length
-      );
-    } else if (op1.type === 'delete') {
-      return new DocumentOperation(
-        op2.type,
-        Math.max(op2.position - op1.length, op1.position),
-        op2.content,
-        op2.length
-      );
-    }
-  }
-  return op2;
-}
+// Only people with the terminal panel open get its output
+const terminalChannel = roomId => `terminal:${roomId}`;
+
+// The assistant appears in chat as a participant of its own
+const ASSISTANT = { id: 'ai-assistant', name: 'AI Assistant', color: '#7c3aed' };
+const ASSISTANT_MENTION = /(^|\s)@ai\b/i;
 
-// Room management
-function createRoom(roomId, name = 'Untitled') {
-  const room = {
-    id: roomId,
-    name: name,
-    document: {
-      content: '// Welcome to the collaborative code editor!\n// Start typing to begin...\n',
-      language: 'javascript'
+// Build one server process: its HTTP app, Socket.io server and the rooms it
+// sequences. Several can share rooms through a cluster backend (see
+// cluster/), given storage they all read and write.
+function createServer({
+  storage = createStorage(config.storage),
+  cluster = createCluster(config.cluster)
+} = {}) {
+  const app = express();
+  const server = http.createServer(app);
+  /** @type {import('socket.io').Server<import('../shared/events').ClientToServerEvents, import('../shared/events').ServerToClientEvents>} */
+  const io = socketIo(server, {
+    cors: {
+      origin: config.clientUrl,
+      methods: ["GET", "POST"]
     },
-    users: new Map(),
-    operations: [],
-    chat: [],
-    createdAt: new Date(),
-    lastActivity: new Date()
-  };
-  rooms.set(roomId, room);
-  return room;
-}
+    maxHttpBufferSize: config.limits.maxPayloadBytes,
+    // Broadcasts reach clients connected to other processes through it
+    adapter: cluster.adapter
+  });
 
-function getRoomInfo(roomId) {
-  const room = rooms.get(roomId);
-  if (!room) return null;
-  
-  return {
-    id: room.id,
-    name: room.name,
-    userCount: room.users.size,
-    users: Array.from(room.users.values()).map(user => ({
-      id: user.id,
-      name: user.name,
-      color: user.color,
-      cursor: user.cursor
-    })),
-    document: room.document,
-    lastActivity: room.lastActivity
-  };
-}
+  // Middleware
+  app.use(cors());
+  app.use(express.json());
+  app.use(express.static(path.join(__dirname, '../client/build')));
+
+  // Store room data and user sessions
+  const roomManager = new RoomManager(storage, {
+    saveDebounceMs: config.storage.saveDebounceMs,
+    ...config.rooms,
+    onUnload: roomId => cluster.release(roomId)
+  });
+  const rooms = roomManager.rooms;
+  const userSessions = new Map();
+
+  const aiProvider = createAIProvider(config.ai);
+  // The completion each socket is waiting for; asking again, cancelling or
+  // leaving the room abandons it
+  const aiRequests = new Map();
+
+  function cancelAIRequest(socketId) {
+    const active = aiRequests.get(socketId);
+    if (!active) return;
+    active.controller.abort();
+    aiRequests.delete(socketId);
+  }
+
+  // Programs run for a room are seen by everyone in it
+  const codeRunner = new CodeRunner(config.execution, {
+    onUpdate: (roomId, run) => io.to(roomId).emit('run-update', run),
+    onOutput: (roomId, output) => io.to(roomId).emit('run-output', output)
+  });
+
+  const terminals = new RoomTerminals(config.terminal, {
+    onOutput: (roomId, data) => io.to(terminalChannel(roomId)).emit('terminal-output', { data }),
+    onExit: (roomId, state) => io.to(terminalChannel(roomId)).emit('terminal-exit', state)
+  });
 
-// Socket.io connection handling
-io.on('connection', (socket) => {
-  console.log('User connected:', socket.id);
-
-  // Join room
-  socket.on('join-room', (data) => {
-    const { roomId, userName } = data;
-    
-    // Leave previous room if any
-    if (userSessions.has(socket.id)) {
-      const prevSession = userSessions.get(socket.id);
-      socket.leave(prevSession.roomId);
-      if (rooms.has(prevSession.roomId)) {
-        rooms.get(prevSession.roomId).users.delete(socket.id);
-        socket.to(prevSession.roomId).emit('user-left', prevSession.user);
+  // Answer an @ai chat message as the assistant. The asker's cursor tells us
+  // which file they are in and what they have selected; the reply streams into
+  // a placeholder message that everyone in the room sees fill up.
+  async function answerInChat(room, user, question) {
+    const file = getFile(room, user.cursor.fileId);
+    const { anchor, offset } = user.cursor;
+    const selection = file && anchor !== offset
+      ? { start: Math.min(anchor, offset), end: Math.max(anchor, offset) }
+      : null;
+    const request = buildAssistantRequest(question.content.replace(ASSISTANT_MENTION, '$1').trim(), file, selection);
+
+    const reply = {
+      id: uuidv4(),
+      userId: ASSISTANT.id,
+      userName: ASSISTANT.name,
+      userColor: ASSISTANT.color,
+      content: '',
+      timestamp: new Date(),
+      bot: true,
+      pending: true,
+      replyTo: question.id,
+      // What "apply to editor" should replace
+      context: file ? { fileId: file.id, fileName: file.name, selection: request.selection } : null
+    };
+    addMessage(room, reply, config.chat);
+    io.to(room.id).emit('chat-message', reply);
+
+    try {
+      for await (const text of aiProvider.reply(request)) {
+        reply.content += text;
+        io.to(room.id).emit('chat-message-chunk', { id: reply.id, text });
+      }
+    } catch (error) {
+      if (!(error instanceof AIProviderError)) {
+        console.error('AI chat reply failed:', error);
       }
+      reply.content = `Sorry, I could not answer that. ${error instanceof AIProviderError ? error.message : ''}`.trim();
+      reply.error = true;
     }
 
-    // Create room if it doesn't exist
-    if (!rooms.has(roomId)) {
-      createRoom(roomId, `Room ${roomId.slice(0, 8)}`);
+    reply.pending = false;
+    roomManager.touch(room);
+    io.to(room.id).emit('chat-message-update', reply);
+  }
+
+  // Tell a client its local state for a file cannot be reconciled and hand it
+  // the authoritative content so it can drop its pending edits and start over.
+  // With `rebase` the client was only too far behind, with the edits it
+  // missed compacted away: it keeps its pending edits and rebases them onto
+  // the content instead. `rebase.submissionId` is the batch it had in flight,
+  // if any, which it is told whether the content already includes.
+  // A file that no longer exists is reported as deleted instead.
+  function resyncFile(socket, room, fileId, reason, rebase) {
+    console.warn(`Resyncing ${socket.id}: ${reason}`);
+    const file = getFile(room, fileId);
+    if (!file) {
+      socket.emit('file-deleted', { fileIds: [fileId] });
+      return;
     }
 
-    const room = rooms.get(roomId);
-    
-    // Create user object
-    const user = {
-      id: socket.id,
-      name: userName || `User ${Math.floor(Math.random() * 1000)}`,
-      color: `hsl(${Math.floor(Math.random() * 360)}, 70%, 60%)`,
-      cursor: { line: 0, column: 0 },
-      joinedAt: new Date()
+    socket.emit('document-sync', {
+      fileId: file.id,
+      content: file.content,
+      language: file.language,
+      revision: file.revision,
+      ...(rebase && {
+        rebase: { committed: Boolean(rebase.submissionId) && isCommitted(file, rebase.submissionId) }
+      })
+    });
+  }
+
+  // Apply already-transformed operations to a file and append them to its
+  // log as the next revision. Throws if they do not fit the file.
+  function commitOperations(room, file, edits, { submissionId, userId, userName, userColor }) {
+    // Kept as clients decode them off the wire, so that everyone transforms
+    // later edits past exactly the same operations
+    const operations = normalizeOperations(edits);
+    file.content = applyOperations(file.content, operations);
+    file.revision += 1;
+
+    // Store operation for operational transformation
+    const entry = {
+      fileId: file.id,
+      submissionId,
+      revision: file.revision,
+      operations,
+      userId,
+      userName,
+      userColor,
+      timestamp: Date.now()
     };
+    file.operations.push(entry);
+    const archived = compactOperations(file, config.history);
+    if (archived.length) roomManager.archive(room, file.id, archived);
+    transformCursors(room, file, entry);
+    transformComments(room, file, entry);
+    roomManager.touch(room);
+    maybeAutoSnapshot(room, file, config.history);
+    return entry;
+  }
 
-    // Add user to room
-    room.users.set(socket.id, user);
-    room.lastActivity = new Date();
-    
-    // Store user session
-    userSessions.set(socket.id, { roomId, user });
-    
-    // Join socket room
-    socket.join(roomId);
-    
-    // Send room info to user
-    socket.emit('room-joined', getRoomInfo(roomId));
-    
-    // Notify other users
-    socket.to(roomId).emit('user-joined', user);
-    
-    console.log(`User ${user.name} joined room ${roomId}`);
-  });
+  // Check a user's role allows an action, telling them if it does not
+  function authorize(socket, session, permission, action) {
+    if (can(session.user.role, permission)) return true;
 
-  // Handle document operations
-  socket.on('document-operation', (data) => {
+    socket.emit('permission-denied', {
+      action,
+      message: `Your role (${session.user.role}) does not allow ${action}`
+    });
+    return false;
+  }
+
+  // The session of a socket and the room it is in, for events that need one
+  function requireRoom(socket) {
     const session = userSessions.get(socket.id);
-    if (!session) return;
+    const room = session && rooms.get(session.roomId);
+    if (!room) throw new RequestError('not-in-room', 'Join a room first');
+    return { session, room };
+  }
 
-    const { roomId } = session;
-    const room = rooms.get(roomId);
-    if (!room) return;
+  function requireFile(room, fileId) {
+    const file = getFile(room, fileId);
+    if (!file) throw new RequestError('not-found', 'That file no longer exists');
+    return file;
+  }
 
-    const operation = new DocumentOperation(
-      data.type,
-      data.position,
-      data.content,
-      data.length
-    );
-
-    // Apply operation to document
-    if (operation.type === 'insert') {
-      const before = room.document.content.slice(0, operation.position);
-      const after = room.document.content.slice(operation.position);
-      room.document.content = before + operation.content + after;
-    } else if (operation.type === 'delete') {
-      const before = room.document.content.slice(0, operation.position);
-      const after = room.document.content.slice(operation.position + operation.length);
-      room.document.content = before + after;
+  // The session of another participant in the same room
+  function requireParticipant(roomId, userId) {
+    const target = userSessions.get(userId);
+    if (!target || target.roomId !== roomId) {
+      throw new RequestError('not-found', 'That participant has left the room');
     }
+    return target;
+  }
 
-    // Store operation for operational transformation
-    room.operations.push(operation);
-    room.lastActivity = new Date();
-
-    // Broadcast to other users in room
-    socket.to(roomId).emit('document-operation', {
-      ...operation,
-      userId: socket.id,
-      userName: session.user.name
-    });
-  });
+  function requireRun(roomId, runId) {
+    const run = codeRunner.find(roomId, runId);
+    if (!run) throw new RequestError('not-found', 'That program is no longer running');
+    return run;
+  }
 
-  // Handle cursor position updates
-  socket.on('cursor-position', (data) => {
+  // Remove a socket from the room it is in and let the others know
+  function leaveCurrentRoom(socket) {
     const session = userSessions.get(socket.id);
     if (!session) return;
 
     const { roomId, user } = session;
+    socket.leave(roomId);
+    socket.leave(terminalChannel(roomId));
+    userSessions.delete(socket.id);
+    cancelAIRequest(socket.id);
+
     const room = rooms.get(roomId);
     if (!room) return;
 
-    // Update user cursor position
-    user.cursor = data.cursor;
-    room.users.set(socket.id, user);
+    room.users.delete(socket.id);
+    roomManager.touch(room);
+    socket.to(roomId).emit('user-left', user);
+    if (room.presenterId === socket.id) {
+      room.presenterId = null;
+      socket.to(roomId).emit('presenter-update', { presenterId: null });
+    }
 
-    // Broadcast cursor position to other users
-    socket.to(roomId).emit('cursor-position', {
-      userId: socket.id,
-      userName: user.name,
-      color: user.color,
-      cursor: data.cursor
-    });
-  });
+    // Unload empty rooms once they have been idle for a while; nobody is left
+    // to watch their programs
+    if (room.users.size === 0) {
+      codeRunner.release(roomId);
+      terminals.kill(roomId, { cleanUp: true });
+      roomManager.scheduleUnload(roomId);
+    }
+  }
 
-  // Handle language change
-  socket.on('language-change', (data) => {
-    const session = userSessions.get(socket.id);
-    if (!session) return;
+  // Run a file tree change and report validation problems to the requester
+  function handleFileTreeChange(socket, change) {
+    try {
+      change();
+    } catch (error) {
+      if (!(error instanceof FileTreeError)) throw error;
+      socket.emit('file-error', { message: error.message });
+    }
+  }
+
+  // Run a change to a review thread and share the result with the room
+  function handleCommentChange(socket, roomId, change) {
+    try {
+      const thread = change();
+      roomManager.touch(rooms.get(roomId));
+      io.to(roomId).emit('comment-thread', thread);
+    } catch (error) {
+      if (!(error instanceof CommentError)) throw error;
+      socket.emit('comment-error', { message: error.message });
+    }
+  }
+
+  // Answer a request for chat history or search results, or report why not
+  function handleChatRequest(socket, event, request) {
+    try {
+      socket.emit(event, request());
+    } catch (error) {
+      if (!(error instanceof ChatError)) throw error;
+      socket.emit('chat-error', { message: error.message });
+    }
+  }
 
-    const { roomId } = session;
+  function getRoomInfo(roomId) {
     const room = rooms.get(roomId);
-    if (!room) return;
+    if (!room) return null;
+
+    return {
+      id: room.id,
+      name: room.name,
+      userCount: room.users.size,
+      users: Array.from(room.users.values()).map(user => ({
+        id: user.id,
+        name: user.name,
+        color: user.color,
+        cursor: user.cursor,
+        presence: user.presence,
+        role: user.role
+      })),
+      files: Object.values(room.files).map(describeNode),
+      lastActivity: room.lastActivity
+    };
+  }
+
+  // Event handlers for a client of a room sequenced here. `socket` is the
+  // ClusterClient standing in for it, whichever process it is connected to.
+  function registerHandlers(socket) {
+    // Join room
+    listen(socket, 'join-room', async (data) => {
+      const { roomId, userName } = data;
+
+      // Leave previous room if any
+      leaveCurrentRoom(socket);
+
+      // Load the room from storage, creating it if it doesn't exist
+      let room;
+      try {
+        room = await roomManager.open(roomId, `Room ${roomId.slice(0, 8)}`);
+      } catch (error) {
+        console.error(`Failed to open room ${roomId}:`, error);
+        throw new RequestError('server-error', 'The room could not be loaded');
+      }
+
+      // Work out who this is before letting them in
+      let member;
+      try {
+        member = authenticate(room, {
+          memberToken: data.memberToken,
+          password: data.password,
+          inviteToken: data.inviteToken
+        }, { inviteSecret: config.invites.secret, members: config.members });
+      } catch (error) {
+        if (!(error instanceof AccessError)) throw error;
+        socket.emit('join-error', { roomId, message: error.message, reason: error.reason });
+        if (room.users.size === 0) {
+          roomManager.scheduleUnload(roomId);
+        }
+        return;
+      }
+
+      // Create user object
+      const user = {
+        id: socket.id,
+        name: normalizeUserName(userName),
+        color: `hsl(${Math.floor(Math.random() * 360)}, 70%, 60%)`,
+        cursor: createCursor(),
+        presence: createPresence(),
+        role: member.role,
+        joinedAt: new Date()
+      };
+
+      // Add user to room
+      room.users.set(socket.id, user);
+      roomManager.touch(room);
+
+      // Store user session
+      userSessions.set(socket.id, { roomId, user, memberKey: member.memberKey });
+      socket.data.rateLimitKey = `member:${member.memberKey}`;
+
+      // Join socket room
+      socket.join(roomId);
+
+      // Send room info to user, with the token that identifies them next time
+      pruneChat(room, config.chat);
+      socket.emit('room-joined', {
+        ...getRoomInfo(roomId),
+        role: member.role,
+        memberToken: member.memberToken,
+        access: describeAccess(room, member.role),
+        comments: room.comments,
+        chatHistory: chatHistory(room, { limit: config.chat.pageSize }),
+        limits: {
+          maxOperationChars: config.limits.maxOperationChars,
+          maxDocumentChars: config.limits.maxDocumentChars,
+          maxChatMessageChars: config.chat.maxMessageChars
+        },
+        presenterId: room.presenterId,
+        runs: codeRunner.list(roomId),
+        terminalEnabled: terminals.isEnabled()
+      });
+
+      // A reconnecting client resumes each file from the revision it last saw:
+      // replay what it missed so its queued offline edits can be rebased on top
+      if (data.revisions) {
+        const pending = data.pending || {};
+        for (const [fileId, revision] of Object.entries(data.revisions)) {
+          const file = getFile(room, fileId);
+          if (!file || revision > file.revision) {
+            resyncFile(socket, room, fileId, `Cannot resume ${fileId} from revision ${revision}`);
+            continue;
+          }
+          const missed = operationsSince(file, revision);
+          if (missed) {
+            socket.emit('document-catchup', { fileId, operations: missed.map(describeEntry) });
+          } else {
+            // What it missed is compacted away, but its edits can still be rebased
+            resyncFile(socket, room, fileId, `Revision ${revision} of ${fileId} has been compacted`, {
+              submissionId: Object.hasOwn(pending, fileId) ? pending[fileId] : undefined
+            });
+          }
+        }
+      }
+
+      // Notify other users
+      socket.to(roomId).emit('user-joined', user);
+
+      console.log(`User ${user.name} joined room ${roomId}`);
+    });
+
+    // Handle document operations
+    listen(socket, 'document-operation', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId } = session;
+
+      const { fileId, id: submissionId, revision, operations: rawOperations } = data;
+      if (!authorize(socket, session, 'edit', 'editing documents')) {
+        // Roll the client back to the committed content
+        resyncFile(socket, room, fileId, `${session.user.name} may not edit`);
+        return;
+      }
+
+      const file = getFile(room, fileId);
+      if (!file) {
+        resyncFile(socket, room, fileId, `Operation for unknown file ${fileId}`);
+        return;
+      }
+
+      let operations = decodeOperations(rawOperations);
+
+      if (revision > file.revision || operations === null) {
+        resyncFile(socket, room, fileId, 'Malformed document operation');
+        return;
+      }
+
+      const concurrent = operationsSince(file, revision);
+      if (concurrent === null) {
+        resyncFile(socket, room, fileId, `Cannot rebase onto revision ${revision}, it is too old`, { submissionId });
+        return;
+      }
+
+      // A batch resent after a reconnect may already have been committed. The
+      // client still waits for its ack, or, with the entry compacted away,
+      // for the content that includes it.
+      if (submissionId && isCommitted(file, submissionId)) {
+        const entry = file.operations.find(entry => entry.submissionId === submissionId);
+        if (entry) {
+          socket.emit('operation-ack', { fileId, revision: entry.revision });
+        } else {
+          resyncFile(socket, room, fileId, `Batch ${submissionId} has been compacted`, { submissionId });
+        }
+        return;
+      }
+
+      // Transform against everything committed since the client's base revision
+      for (const committed of concurrent) {
+        [operations] = transform(operations, committed.operations);
+      }
+
+      const tooLarge = checkEditSize(file.content, operations, config.limits);
+      if (tooLarge) {
+        resyncFile(socket, room, fileId, tooLarge);
+        throw new RequestError('too-large', tooLarge);
+      }
+
+      let entry;
+      try {
+        entry = commitOperations(room, file, operations, {
+          submissionId,
+          userId: socket.id,
+          userName: session.user.name,
+          userColor: session.user.color
+        });
+      } catch (error) {
+        resyncFile(socket, room, fileId, error.message);
+        return;
+      }
+
+      socket.emit('operation-ack', { fileId, revision: file.revision });
+
+      // Broadcast to other users in room
+      socket.to(roomId).emit('document-operation', describeEntry(entry));
+    }, {
+      // The client waits for an ack or a resync before sending more
+      onRejected: (data) => {
+        const session = userSessions.get(socket.id);
+        const room = session && rooms.get(session.roomId);
+        if (room && typeof data?.fileId === 'string') {
+          resyncFile(socket, room, data.fileId, 'Rejected document operation');
+        }
+      }
+    });
+
+    // File tree changes are validated here and broadcast to everyone
+    listen(socket, 'file-create', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId } = session;
+      if (!authorize(socket, session, 'edit', 'creating files')) return;
+
+      handleFileTreeChange(socket, () => {
+        const node = createNode(room, {
+          parentId: data.parentId ?? null,
+          name: data.name,
+          type: data.type
+        });
+        roomManager.touch(room);
+        io.to(roomId).emit('file-created', describeNode(node));
+      });
+    });
+
+    listen(socket, 'file-rename', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId } = session;
+      if (!authorize(socket, session, 'edit', 'renaming files')) return;
+
+      handleFileTreeChange(socket, () => {
+        const node = renameNode(room, data.fileId, data.name);
+        roomManager.touch(room);
+        io.to(roomId).emit('file-updated', describeNode(node));
+      });
+    });
+
+    listen(socket, 'file-move', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId } = session;
+      if (!authorize(socket, session, 'edit', 'moving files')) return;
+
+      handleFileTreeChange(socket, () => {
+        const node = moveNode(room, data.fileId, data.parentId ?? null);
+        roomManager.touch(room);
+        io.to(roomId).emit('file-updated', describeNode(node));
+      });
+    });
+
+    listen(socket, 'file-delete', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId } = session;
+      if (!authorize(socket, session, 'edit', 'deleting files')) return;
+
+      handleFileTreeChange(socket, () => {
+        const fileIds = deleteNode(room, data.fileId);
+        room.snapshots = room.snapshots.filter(s => !fileIds.includes(s.fileId));
+        room.comments = room.comments.filter(t => !fileIds.includes(t.fileId));
+        roomManager.touch(room);
+        io.to(roomId).emit('file-deleted', { fileIds });
+      });
+    });
+
+    // Save a named snapshot of a file
+    listen(socket, 'snapshot-create', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId, user } = session;
+      if (!authorize(socket, session, 'edit', 'saving snapshots')) return;
+
+      const file = requireFile(room, data.fileId);
+      const name = (data.name ?? '').trim().slice(0, 100);
+      const snapshot = createSnapshot(room, file, { name, userName: user.name });
+      roomManager.touch(room);
+
+      io.to(roomId).emit('snapshot-created', summarizeSnapshot(snapshot));
+    });
+
+    // Restore a snapshot as a regular edit so everyone sees it collaboratively
+    listen(socket, 'snapshot-restore', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId, user } = session;
+      if (!authorize(socket, session, 'edit', 'restoring snapshots')) return;
+
+      const snapshot = room.snapshots.find(s => s.id === data.snapshotId);
+      if (!snapshot) throw new RequestError('not-found', 'That snapshot no longer exists');
+      const file = requireFile(room, snapshot.fileId);
+
+      // Keep what is being replaced so the restore itself can be undone
+      const backup = createSnapshot(room, file, {
+        name: `Before restoring "${snapshot.name}"`,
+        userName: user.name
+      });
+      io.to(roomId).emit('snapshot-created', summarizeSnapshot(backup));
+
+      const operations = diffToOperations(file.content, snapshot.content);
+      if (operations.length > 0) {
+        const entry = commitOperations(room, file, operations, {
+          userId: socket.id,
+          userName: user.name,
+          userColor: user.color
+        });
+        io.to(roomId).emit('document-operation', describeEntry(entry));
+      }
+
+      if (snapshot.language !== file.language) {
+        file.language = snapshot.language;
+        io.to(roomId).emit('language-change', { fileId: file.id, language: snapshot.language });
+      }
+      roomManager.touch(room);
+
+      io.to(roomId).emit('snapshot-restored', {
+        snapshotId: snapshot.id,
+        userName: user.name
+      });
+    });
+
+    // Handle cursor position updates
+    listen(socket, 'cursor-position', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId, user } = session;
+
+      // The cursor carries the file it is in and the selection, as offsets.
+      // One outside any file, or in a file just deleted, is not shown.
+      const cursor = normalizeCursor(room, socket.id, data.cursor);
+      if (!cursor) return;
+      user.cursor = cursor;
+
+      // Broadcast cursor position to other users
+      socket.to(roomId).emit('cursor-position', {
+        userId: socket.id,
+        userName: user.name,
+        color: user.color,
+        cursor
+      });
+    });
+
+    // Idle/away status and typing indicators. Clients throttle these, so the
+    // update goes to everyone, the sender included, as soon as it changes.
+    listen(socket, 'presence-update', (data) => {
+      const { session } = requireRoom(socket);
+      const { roomId, user } = session;
+
+      const presence = normalizePresence(data, user.role);
+      if (!presence || samePresence(presence, user.presence)) return;
+      user.presence = presence;
+
+      io.to(roomId).emit('presence-update', { userId: socket.id, presence });
+    });
+
+    // Presenter mode: an owner asks everyone else to follow them. Following is
+    // up to each client, which may stop at any time.
+    listen(socket, 'presenter-start', () => {
+      const { session, room } = requireRoom(socket);
+      const { roomId } = session;
+      if (!authorize(socket, session, 'manage', 'presenting')) return;
+
+      room.presenterId = socket.id;
+      io.to(roomId).emit('presenter-update', { presenterId: socket.id });
+    });
+
+    listen(socket, 'presenter-stop', () => {
+      const { session, room } = requireRoom(socket);
+      const { roomId } = session;
+      if (room.presenterId === null) return;
+      if (!authorize(socket, session, 'manage', 'presenting')) return;
+
+      room.presenterId = null;
+      io.to(roomId).emit('presenter-update', { presenterId: null });
+    });
+
+    // Review comments are open to everyone who may chat, viewers included.
+    // The range comes in like a selection: against the revision the client
+    // last saw, so edits made since are transformed in.
+    listen(socket, 'comment-create', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId, user } = session;
+      if (!authorize(socket, session, 'chat', 'commenting')) return;
+
+      const range = normalizeCursor(room, socket.id, {
+        fileId: data.fileId,
+        anchor: data.start,
+        offset: data.end,
+        revision: data.revision
+      });
+      if (!range) {
+        socket.emit('comment-error', { message: 'Select some code in a file to comment on it' });
+        return;
+      }
+
+      handleCommentChange(socket, roomId, () => createThread(room, {
+        file: getFile(room, range.fileId),
+        start: Math.min(range.anchor, range.offset),
+        end: Math.max(range.anchor, range.offset),
+        author: user,
+        content: data.content
+      }));
+    });
+
+    listen(socket, 'comment-reply', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId, user } = session;
+      if (!authorize(socket, session, 'chat', 'commenting')) return;
+
+      handleCommentChange(socket, roomId, () => addReply(room, data.threadId, {
+        author: user,
+        content: data.content
+      }));
+    });
+
+    listen(socket, 'comment-resolve', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId, user } = session;
+      if (!authorize(socket, session, 'chat', 'resolving comments')) return;
+
+      handleCommentChange(socket, roomId, () => setResolved(room, data.threadId, data.resolved !== false, user));
+    });
+
+    // Handle language change
+    listen(socket, 'language-change', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId } = session;
+
+      if (!authorize(socket, session, 'edit', 'changing the language')) return;
+
+      const file = requireFile(room, data.fileId);
+      file.language = data.language;
+      roomManager.touch(room);
+
+      // Broadcast language change to all users in room
+      io.to(roomId).emit('language-change', { fileId: file.id, language: data.language });
+    });
+
+    // Handle chat messages
+    listen(socket, 'chat-message', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId, user } = session;
+      if (!authorize(socket, session, 'chat', 'chatting')) return;
+
+      let message;
+      try {
+        message = createMessage(room, user, data, config.chat);
+      } catch (error) {
+        if (!(error instanceof ChatError)) throw error;
+        socket.emit('chat-error', { message: error.message });
+        return;
+      }
+
+      addMessage(room, message, config.chat);
+      roomManager.touch(room);
+
+      // Broadcast message to all users in room
+      io.to(roomId).emit('chat-message', message);
+
+      if (ASSISTANT_MENTION.test(message.content)) {
+        answerInChat(room, user, message);
+      }
+    });
+
+    // Earlier messages than the oldest the client has, a page at a time
+    listen(socket, 'chat-history', (data) => {
+      const { room } = requireRoom(socket);
+
+      const before = data.before ?? null;
+      handleChatRequest(socket, 'chat-history', () => ({
+        before,
+        ...chatHistory(room, { before, limit: config.chat.pageSize })
+      }));
+    });
+
+    listen(socket, 'chat-search', (data) => {
+      const { room } = requireRoom(socket);
+
+      handleChatRequest(socket, 'chat-search-results', () => ({
+        query: data.query,
+        messages: searchChat(room, data.query, { limit: config.chat.pageSize })
+      }));
+    });
+
+    // Owners promote and demote other participants
+    listen(socket, 'user-role-change', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId } = session;
+      if (!authorize(socket, session, 'manage', 'changing roles')) return;
+
+      const target = requireParticipant(roomId, data.userId);
+      try {
+        setMemberRole(room, target.memberKey, data.role);
+      } catch (error) {
+        if (!(error instanceof AccessError)) throw error;
+        socket.emit('permission-denied', { action: 'changing roles', message: error.message });
+        return;
+      }
+      roomManager.touch(room);
+
+      // The same member may be connected from several tabs
+      for (const [socketId, other] of userSessions) {
+        if (other.roomId === roomId && other.memberKey === target.memberKey) {
+          other.user.role = data.role;
+          io.to(roomId).emit('user-updated', other.user);
+          console.log(`${other.user.name} is now ${data.role} in room ${roomId} (${socketId})`);
+        }
+      }
+    });
+
+    // Owners remove a participant; their membership is revoked so they have to
+    // get past the room's password or invite again to come back. A room with
+    // neither lets anyone in, so there a kick only disconnects them.
+    listen(socket, 'user-kick', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId, user } = session;
+      if (!authorize(socket, session, 'manage', 'removing participants')) return;
+
+      const target = requireParticipant(roomId, data.userId);
+      if (target.memberKey === session.memberKey) {
+        throw new RequestError('invalid-request', 'You cannot remove yourself from the room');
+      }
+
+      removeMember(room, target.memberKey);
+      roomManager.touch(room);
+
+      for (const [socketId, other] of Array.from(userSessions)) {
+        if (other.roomId !== roomId || other.memberKey !== target.memberKey) continue;
+
+        const targetClient = clients.get(socketId);
+        if (!targetClient) continue;
+        targetClient.emit('kicked', { roomId, by: user.name });
+        leaveCurrentRoom(targetClient);
+      }
+    });
+
+    // Owners change the password and invite settings. A regenerated invite
+    // token is only ever sent back to the owner who asked for it.
+    listen(socket, 'room-access-update', (data) => {
+      const { session, room } = requireRoom(socket);
+      if (!authorize(socket, session, 'manage', 'changing room access')) return;
+
+      let inviteToken;
+      try {
+        inviteToken = updateAccess(room, {
+          password: data.password,
+          inviteOnly: data.inviteOnly,
+          regenerateInvite: data.regenerateInvite === true
+        });
+      } catch (error) {
+        if (!(error instanceof AccessError)) throw error;
+        socket.emit('permission-denied', { action: 'changing room access', message: error.message });
+        return;
+      }
+      roomManager.touch(room);
+
+      socket.emit('room-access', {
+        ...describeAccess(room, session.user.role),
+        inviteToken: inviteToken || undefined
+      });
+    });
+
+    // Owners mint signed invite links carrying a role, an expiry and a use limit
+    listen(socket, 'invite-create', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { user } = session;
+      if (!authorize(socket, session, 'manage', 'creating invites')) return;
+
+      let created;
+      try {
+        created = createInvite(room, {
+          role: data.role,
+          expiresInMs: data.expiresInMs,
+          maxUses: data.maxUses,
+          createdBy: user.name
+        }, config.invites);
+      } catch (error) {
+        if (!(error instanceof AccessError)) throw error;
+        socket.emit('permission-denied', { action: 'creating invites', message: error.message });
+        return;
+      }
+      roomManager.touch(room);
+
+      socket.emit('invite-created', { invite: created.invite, token: created.token });
+      socket.emit('room-access', describeAccess(room, session.user.role));
+    });
+
+    listen(socket, 'invite-revoke', (data) => {
+      const { session, room } = requireRoom(socket);
+      if (!authorize(socket, session, 'manage', 'revoking invites')) return;
+
+      revokeInvite(room, data.inviteId);
+      roomManager.touch(room);
+
+      socket.emit('room-access', describeAccess(room, session.user.role));
+    });
+
+    // Handle AI code assistance requests
+    // Stream a completion for the caret position in a file. Chunks are sent as
+    // they arrive so the client can show progress; the final suggestion carries
+    // the insertion point moved past any edits made in the meantime.
+    listen(socket, 'ai-assistance', async (data) => {
+      const { session, room } = requireRoom(socket);
+      if (!authorize(socket, session, 'edit', 'requesting AI suggestions')) return;
+
+      const requestId = data.requestId ?? uuidv4();
+      // Inline suggestions only need the finished text
+      const stream = data.stream !== false;
+      const cursor = normalizeCursor(room, socket.id, {
+        fileId: data.fileId,
+        offset: data.offset,
+        revision: data.revision
+      });
+      if (!cursor) {
+        socket.emit('ai-error', { requestId, message: 'Open a file to ask for a suggestion' });
+        return;
+      }
+
+      const file = getFile(room, cursor.fileId);
+      const startRevision = file.revision;
+      cancelAIRequest(socket.id);
+      const controller = new AbortController();
+      aiRequests.set(socket.id, { requestId, controller });
+
+      let suggestion = '';
+      try {
+        const request = buildCompletionRequest(file, cursor, config.ai);
+        for await (const text of aiProvider.complete(request, { signal: controller.signal })) {
+          if (controller.signal.aborted) break;
+          suggestion += text;
+          if (stream) {
+            socket.emit('ai-suggestion-chunk', { requestId, fileId: file.id, text });
+          }
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          if (!(error instanceof AIProviderError)) {
+            console.error('AI completion failed:', error);
+          }
+          socket.emit('ai-error', {
+            requestId,
+            message: error instanceof AIProviderError ? error.message : 'The AI suggestion failed'
+          });
+        }
+        return;
+      } finally {
+        if (aiRequests.get(socket.id)?.controller === controller) {
+          aiRequests.delete(socket.id);
+        }
+      }
+
+      if (controller.signal.aborted || !getFile(room, file.id)) return;
+
+      // Past a compaction the reported offset is the best there is
+      const offset = transformOffset(
+        cursor.offset,
+        (operationsSince(file, startRevision) || []).flatMap(entry => entry.operations)
+      );
+      socket.emit('ai-suggestion', {
+        requestId,
+        fileId: file.id,
+        suggestion: stripCodeFence(suggestion),
+        position: { offset, ...positionAt(file.content, offset) },
+        revision: file.revision
+      });
+    });
+
+    listen(socket, 'ai-cancel', (data) => {
+      if (aiRequests.get(socket.id)?.requestId === data.requestId) {
+        cancelAIRequest(socket.id);
+      }
+    });
+
+    // Run a file's current content in the sandbox; the room sees it queue,
+    // start, print and finish
+    listen(socket, 'run-code', (data) => {
+      const { session, room } = requireRoom(socket);
+      const { roomId, user } = session;
+      if (!authorize(socket, session, 'edit', 'running code')) return;
+
+      const file = getFile(room, data.fileId);
+      if (!file) {
+        socket.emit('run-error', { message: 'Open a file to run it' });
+        return;
+      }
+
+      try {
+        codeRunner.submit(roomId, { file, user, stdin: data.stdin });
+      } catch (error) {
+        if (!(error instanceof ExecutionError)) throw error;
+        socket.emit('run-error', { message: error.message });
+      }
+    });
+
+    // Only whoever started a program types into it
+    listen(socket, 'run-input', (data) => {
+      const { session } = requireRoom(socket);
+
+      const run = requireRun(session.roomId, data.runId);
+      if (run.userId !== socket.id) {
+        throw new RequestError('invalid-request', 'Only whoever started a program can type into it');
+      }
+      codeRunner.write(session.roomId, run.id, { text: data.text, end: data.end === true });
+    });
+
+    // Whoever started a program, or an owner, can stop it
+    listen(socket, 'run-cancel', (data) => {
+      const { session } = requireRoom(socket);
+
+      const run = requireRun(session.roomId, data.runId);
+      if (run.userId !== socket.id && !authorize(socket, session, 'manage', "stopping other people's programs")) return;
+      codeRunner.cancel(session.roomId, run.id);
+    });
+
+    // Open the terminal panel: start receiving output, with what came before
+    listen(socket, 'terminal-attach', () => {
+      const { session } = requireRoom(socket);
+
+      socket.join(terminalChannel(session.roomId));
+      socket.emit('terminal-state', terminals.describe(session.roomId));
+    });
+
+    listen(socket, 'terminal-detach', () => {
+      const { session } = requireRoom(socket);
+
+      socket.leave(terminalChannel(session.roomId));
+    });
+
+    listen(socket, 'terminal-start', (data) => {
+      const { session } = requireRoom(socket);
+      if (!authorize(socket, session, 'edit', 'using the terminal')) return;
+
+      try {
+        const state = terminals.start(session.roomId, data);
+        io.to(terminalChannel(session.roomId)).emit('terminal-state', state);
+      } catch (error) {
+        if (!(error instanceof TerminalError)) throw error;
+        socket.emit('terminal-error', { message: error.message });
+      }
+    });
+
+    // Keystrokes from editors go to the shell; everyone sees the echo
+    listen(socket, 'terminal-input', (data) => {
+      const { session } = requireRoom(socket);
+      if (!authorize(socket, session, 'edit', 'typing in the terminal')) return;
+
+      try {
+        terminals.write(session.roomId, data.data);
+      } catch (error) {
+        if (!(error instanceof TerminalError)) throw error;
+        socket.emit('terminal-error', { message: error.message });
+      }
+    });
+
+    // Viewers' panels follow the size the editors pick without asking
+    listen(socket, 'terminal-resize', (data) => {
+      const { session } = requireRoom(socket);
+      if (!can(session.user.role, 'edit')) return;
 
-    room.document.language = data.language;
-    room.lastActivity = new Date();
+      const size = terminals.resize(session.roomId, data);
+      if (size) {
+        socket.to(terminalChannel(session.roomId)).emit('terminal-resize', size);
+      }
+    });
+
+    listen(socket, 'terminal-kill', () => {
+      const { session } = requireRoom(socket);
+      if (!authorize(socket, session, 'edit', 'stopping the terminal')) return;
+
+      terminals.kill(session.roomId);
+    });
+
+    // The client disconnected, or moved to a room sequenced elsewhere
+    socket.on('disconnect', () => {
+      leaveCurrentRoom(socket);
+    });
+  }
+
+  // Clients whose rooms are sequenced here, by socket id. Each is set up the
+  // first time one of its events arrives.
+  const clients = new Map();
+  // Shared by every client, so limits follow the member (or, before they
+  // join a room, their address) across connections
+  const rateLimiter = new RateLimiter(config.limits.rates);
+
+  function deliver(socketId, roomId, event, payload, address) {
+    try {
+      let client = clients.get(socketId);
+      if (!client) {
+        if (event === 'disconnect') return;
+
+        // Its room was sequenced elsewhere until this process took it over,
+        // and its session went with the previous owner
+        if (roomId && event !== 'join-room') {
+          io.to(socketId).emit('room-moved', { roomId });
+          return;
+        }
 
-    // Broadcast language change to all users in room
-    io.to(roomId).emit('language-change', { language: data.language });
+        client = new ClusterClient(io, socketId);
+        client.data.rateLimiter = rateLimiter;
+        client.data.rateLimitKey = `address:${address}`;
+        registerHandlers(client);
+        clients.set(socketId, client);
+      }
+
+      client.receive(event, payload);
+      if (event === 'disconnect') clients.delete(socketId);
+    } catch (error) {
+      // Handlers report their own failures; this is whatever got past them,
+      // which must not take the process down with it
+      console.error(`Failed to handle ${event} from ${socketId}:`, error);
+    }
+  }
+
+  function send(nodeId, socketId, roomId, event, payload, address) {
+    if (nodeId === cluster.nodeId) {
+      deliver(socketId, roomId, event, payload, address);
+    } else {
+      io.serverSideEmit('client-event', nodeId, socketId, roomId, event, payload, address);
+    }
+  }
+
+  io.on('client-event', (nodeId, ...event) => {
+    if (nodeId === cluster.nodeId) deliver(...event);
   });
 
-  // Handle chat messages
-  socket.on('chat-message', (data) => {
-    const session = userSessions.get(socket.id);
-    if (!session) return;
+  // Pass an event on to the process sequencing the client's room, claiming
+  // the room for this one if nobody is. Events sent before joining a room
+  // are answered here.
+  async function route(socket, event, payload) {
+    const lastRoomId = socket.data.roomId;
+    if (event === 'join-room' && !validatePayload(event, payload)) {
+      socket.data.roomId = payload.roomId;
+    }
+    const { roomId } = socket.data;
 
-    const { roomId, user } = session;
-    const room = rooms.get(roomId);
-    if (!room) return;
+    // Leaving is only news for whoever sequences the room, if anyone does: it
+    // must not claim or extend a lease that is being let go. Whatever this
+    // process knows of the client is dropped as well.
+    if (event === 'disconnect') {
+      const owner = roomId ? await cluster.owner(roomId) : null;
+      if (owner && owner !== cluster.nodeId) send(owner, socket.id, roomId, 'disconnect');
+      deliver(socket.id, null, 'disconnect');
+      return;
+    }
 
-    const message = {
-      id: uuidv4(),
-      userId: socket.id,
-      userName: user.name,
-      userColor: user.color,
-      content: data.message,
-      timestamp: new Date()
+    const owner = roomId ? await cluster.acquire(roomId) : cluster.nodeId;
+
+    // Moving between rooms sequenced by different processes: the last one
+    // has to let the client go by itself. A room nobody holds any more can
+    // only have left something behind here.
+    if (lastRoomId && lastRoomId !== roomId) {
+      const lastOwner = (await cluster.owner(lastRoomId)) ?? cluster.nodeId;
+      if (lastOwner !== owner) send(lastOwner, socket.id, lastRoomId, 'disconnect');
+    }
+
+    send(owner, socket.id, roomId, event, payload, socket.handshake.address);
+  }
+
+  io.on('connection', (socket) => {
+    console.log('User connected:', socket.id);
+
+    // Routed one at a time so they reach the room's owner in order
+    let routing = Promise.resolve();
+    const enqueue = (event, payload) => {
+      routing = routing
+        .then(() => route(socket, event, payload))
+        .catch(error => console.error(`Failed to route ${event} from ${socket.id}:`, error));
     };
 
-    room.chat.push(message);
-    room.lastActivity = new Date();
+    socket.onAny(enqueue);
+    socket.on('disconnect', () => {
+      console.log('User disconnected:', socket.id);
+      enqueue('disconnect');
+    });
+  });
+
+  // Keep the leases of the rooms loaded here. A room whose lease lapsed
+  // anyway, say during a long pause, has been taken over elsewhere: drop it
+  // unsaved and send its clients to rejoin there.
+  async function renewLeases() {
+    const held = new Set(await cluster.renew([...rooms.keys(), ...roomManager.loading.keys()]));
+    for (const roomId of Array.from(rooms.keys())) {
+      if (held.has(roomId)) continue;
 
-    // Broadcast message to all users in room
-    io.to(roomId).emit('chat-message', message);
+      console.warn(`Lost the lease on room ${roomId}`);
+      for (const [socketId, session] of Array.from(userSessions)) {
+        if (session.roomId !== roomId) continue;
+        userSessions.delete(socketId);
+        clients.delete(socketId);
+        cancelAIRequest(socketId);
+      }
+      codeRunner.release(roomId);
+      terminals.kill(roomId, { cleanUp: true });
+      roomManager.drop(roomId);
+      io.to(roomId).emit('room-moved', { roomId });
+    }
+  }
+
+  // API endpoints
+  // Rooms are read on the process that has them loaded, so what the API
+  // serves about them is worked out there as plain data
+
+  // Invite-only rooms are left out; they cannot be joined from the list anyway
+  function listRooms() {
+    return Array.from(rooms.values())
+      .filter(room => !room.access.inviteOnly)
+      .map(room => ({
+        id: room.id,
+        name: room.name,
+        userCount: room.users.size,
+        hasPassword: Boolean(room.access.password),
+        lastActivity: room.lastActivity
+      }));
+  }
+
+  const roomViews = {
+    snapshots: (room, { fileId }) => {
+      const snapshots = fileId ? room.snapshots.filter(s => s.fileId === fileId) : room.snapshots;
+      return [200, snapshots.map(summarizeSnapshot).reverse()];
+    },
+    snapshot: (room, { snapshotId }) => {
+      const snapshot = room.snapshots.find(s => s.id === snapshotId);
+      return snapshot ? [200, snapshot] : [404, { error: 'Snapshot not found' }];
+    },
+    // Everything needed to replay how the room's files were written
+    recording: async room => [
+      200,
+      await buildRecording(room, fileId => roomManager.loadArchive(room.id, fileId))
+    ]
+  };
+
+  // A view of a room as [status, body], or null if it is not loaded here.
+  // Snapshot contents are only served to members of the room.
+  async function viewRoom(roomId, view, { memberToken, ...params }) {
+    const room = rooms.get(roomId);
+    if (!room) return null;
+
+    if (!getMemberRole(room, memberToken)) {
+      return [403, { error: 'Join the room to see its history' }];
+    }
+    return roomViews[view](room, params);
+  }
+
+  io.on('room-list', ack => ack(listRooms()));
+  io.on('room-view', (roomId, view, params, ack) => {
+    viewRoom(roomId, view, params).then(ack, (error) => {
+      console.error(`Failed to show ${view} of room ${roomId}:`, error);
+      ack(null);
+    });
   });
 
-  // Handle AI code assistance requests
-  socket.on('ai-assistance', (data) => {
-    const session = userSessions.get(socket.id);
-    if (!session) return;
+  // The answers of the other processes that had one. Those that do not
+  // answer in time are left out.
+  function askCluster(event, ...args) {
+    if (!cluster.adapter) return Promise.resolve([]);
 
-    // For now, return a mock response
-    // In a real implementation, this would call an AI service like OpenAI
-    const mockSuggestions = [
-      'console.log("Hello, world!");',
-      'function fibonacci(n) {\n  if (n <= 1) return n;\n  return fibonacci(n-1) + fibonacci(n-2);\n}',
-      '// TODO: Implement this function'
-    ];
-
-    const suggestion = mockSuggestions[Math.floor(Math.random() * mockSuggestions.length)];
-    
-    socket.emit('ai-suggestion', {
-      suggestion: suggestion,
-      position: data.position,
-      context: data.context
+    return new Promise((resolve) => {
+      io.serverSideEmit(event, ...args, (error, responses) => {
+        if (error) console.warn(`Not every server answered ${event}:`, error.message);
+        resolve(responses.filter(Boolean));
+      });
     });
+  }
+
+  async function sendRoomView(req, res, view, params = {}) {
+    const request = [req.params.roomId, view, { memberToken: req.get('X-Member-Token'), ...params }];
+    const [status, body] = (await viewRoom(...request))
+      || (await askCluster('room-view', ...request))[0]
+      || [404, { error: 'Room not found' }];
+    res.status(status).json(body);
+  }
+
+  app.get('/api/rooms', (req, res, next) => {
+    askCluster('room-list')
+      .then(lists => res.json(listRooms().concat(...lists)))
+      .catch(next);
   });
 
-  // Handle disconnect
-  socket.on('disconnect', () => {
-    console.log('User disconnected:', socket.id);
-    
-    const session = userSessions.get(socket.id);
-    if (session) {
-      const { roomId, user } = session;
-      const room = rooms.get(roomId);
-      
-      if (room) {
-        room.users.delete(socket.id);
-        room.lastActivity = new Date();
-        
-        // Notify other users
-        socket.to(roomId).emit('user-left', user);
-        
-        // Clean up empty rooms after 1 hour
-        if (room.users.size === 0) {
-          setTimeout(() => {
-            if (rooms.has(roomId) && rooms.get(roomId).users.size === 0) {
-              rooms.delete(roomId);
-              console.log(`Cleaned up empty room: ${roomId}`);
-            }
-          }, 3600000); // 1 hour
-        }
+  // The creator becomes the room's owner through the returned token
+  app.post('/api/rooms', (req, res, next) => {
+    const roomId = uuidv4();
+    const { name, password, inviteOnly } = req.body;
+
+    if (password) {
+      try {
+        validatePassword(password);
+      } catch (error) {
+        if (!(error instanceof AccessError)) throw error;
+        return res.status(400).json({ error: error.message });
       }
-      
-      userSessions.delete(socket.id);
+    }
+
+    // Nobody else holds a fresh id; claiming it keeps the room here
+    cluster.acquire(roomId).then(() => {
+      const room = roomManager.create(roomId, name || `Room ${roomId.slice(0, 8)}`);
+      const inviteToken = updateAccess(room, {
+        password: password || undefined,
+        inviteOnly: Boolean(inviteOnly),
+        regenerateInvite: true
+      });
+      const ownerToken = addMember(room, 'owner');
+
+      res.json({ roomId: room.id, name: room.name, ownerToken, inviteToken });
+    }).catch(next);
+  });
+
+  app.get('/api/rooms/:roomId/snapshots', (req, res, next) => {
+    sendRoomView(req, res, 'snapshots', { fileId: req.query.fileId }).catch(next);
+  });
+
+  app.get('/api/rooms/:roomId/snapshots/:snapshotId', (req, res, next) => {
+    sendRoomView(req, res, 'snapshot', { snapshotId: req.params.snapshotId }).catch(next);
+  });
+
+  app.get('/api/rooms/:roomId/recording', (req, res, next) => {
+    sendRoomView(req, res, 'recording').catch(next);
+  });
+
+  // Serve React app for any other routes
+  app.get('*', (req, res) => {
+    res.sendFile(path.join(__dirname, '../client/build/index.html'));
+  });
+
+  return { app, server, io, rooms, roomManager, userSessions, codeRunner, terminals, cluster, renewLeases };
+}
+
+const instance = createServer();
+
+// Write every loaded room to storage before exiting, then give up their
+// leases so other processes can take them over at once
+async function shutdown(signal) {
+  const { roomManager, terminals, rooms, cluster } = instance;
+  console.log(`Received ${signal}, saving rooms...`);
+  roomManager.stop();
+  terminals.killAll();
+  try {
+    await roomManager.flushAll();
+    await Promise.all(Array.from(rooms.keys()).map(roomId => cluster.release(roomId)));
+  } catch (error) {
+    console.error('Failed to save rooms on shutdown:', error);
+  }
+  process.exit(0);
+}
+
+// Only bind when run directly so tests can drive the server in-process
+if (require.main === module) {
+  instance.roomManager.startSweeper();
+  setInterval(() => {
+    instance.renewLeases().catch(error => console.error('Lease renewal failed:', error));
+  }, config.cluster.leaseTtlMs / 3).unref();
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  instance.server.listen(config.port, () => {
+    console.log(`Server running on port ${config.port}`);
+    if (config.storage.driver === 'memory') {
+      console.warn('ROOM_STORAGE=memory: rooms will be lost when the server stops');
+    }
+    if (!config.execution.sandbox) {
+      console.warn('EXEC_SANDBOX=false: programs run with the server\'s access to files and network');
+    } else if (!canSandbox()) {
+      console.warn('Programs cannot be sandboxed here (unshare failed), so running code is disabled');
+    }
+    if (config.terminal.enabled && !canSandbox()) {
+      console.warn('The shared terminal needs the sandbox, which is not available here, so it is disabled');
     }
   });
-});
-
-// API endpoints
-app.get('/api/rooms', (req, res) => {
-  const roomList = Array.from(rooms.values()).map(room => ({
-    id: room.id,
-    name: room.name,
-    userCount: room.users.size,
-    lastActivity: room.lastActivity
-  }));
-  res.json(roomList);
-});
-
-app.post('/api/rooms', (req, res) => {
-  const roomId = uuidv4();
-  const { name } = req.body;
-  const room = createRoom(roomId, name || `Room ${roomId.slice(0, 8)}`);
-  res.json({ roomId: room.id, name: room.name });
-});
-
-// Serve React app for any other routes
-app.get('*', (req, res) => {
-  res.sendFile(path.join(__dirname, '../client/build/index.html'));
-});
-
-const PORT = process.env.PORT || 5000;
-server.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-});
\ No newline at end of file
+}
+
+module.exports = { ...instance, createServer };
@@ -0,0 +1,96 @@
+// Limits on what a single client can send: how often each event may arrive,
+// and how much text an edit may add. Both are enforced here rather than
+// trusted to the client, which only uses them to explain a rejection.
+
+// How often buckets that have filled up again are forgotten
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+// Token buckets per sender and event. A sender is whoever the caller says,
+// such as a room member or an address, so reconnecting does not start anyone
+// over. A bucket holds up to `burst` tokens and gains `perSecond` of them
+// each second; every event takes one. Events without a rate of their own
+// share the `default` one's settings, each still in a bucket of its own. A
+// rate of 0 disables the limit.
+class RateLimiter {
+  constructor(rates, now = Date.now) {
+    this.rates = rates;
+    this.now = now;
+    // sender -> event -> { tokens, updatedAt }
+    this.senders = new Map();
+    this.prunedAt = now();
+  }
+
+  rateFor(event) {
+    return this.rates[event] || this.rates.default;
+  }
+
+  // Take a token for an event; false when the sender has run out
+  take(sender, event) {
+    const rate = this.rateFor(event);
+    if (!rate || !rate.perSecond) return true;
+
+    const now = this.now();
+    if (now - this.prunedAt >= PRUNE_INTERVAL_MS) this.prune(now);
+
+    let buckets = this.senders.get(sender);
+    if (!buckets) {
+      buckets = new Map();
+      this.senders.set(sender, buckets);
+    }
+    let bucket = buckets.get(event);
+    if (!bucket) {
+      bucket = { tokens: rate.burst, updatedAt: now };
+      buckets.set(event, bucket);
+    }
+
+    const refill = ((now - bucket.updatedAt) / 1000) * rate.perSecond;
+    bucket.tokens = Math.min(rate.burst, bucket.tokens + refill);
+    bucket.updatedAt = now;
+    if (bucket.tokens < 1) return false;
+
+    bucket.tokens -= 1;
+    return true;
+  }
+
+  // Forget senders whose buckets have all filled up again; a new bucket
+  // would start out the same
+  prune(now = this.now()) {
+    this.prunedAt = now;
+    for (const [sender, buckets] of this.senders) {
+      for (const [event, bucket] of buckets) {
+        const rate = this.rateFor(event);
+        const missing = rate.burst - bucket.tokens;
+        if ((now - bucket.updatedAt) / 1000 * rate.perSecond >= missing) buckets.delete(event);
+      }
+      if (buckets.size === 0) this.senders.delete(sender);
+    }
+  }
+}
+
+// Say why a batch of operations may not be applied to `content`, or return
+// null when it fits. Edits that leave an oversized file no larger, such as
+// deleting from it, are always allowed. A limit of 0 disables it.
+function checkEditSize(content, operations, { maxOperationChars, maxDocumentChars }) {
+  let inserted = 0;
+  let deleted = 0;
+  for (const op of operations) {
+    if (op.type === 'insert') {
+      inserted += op.content.length;
+    } else {
+      deleted += op.length;
+    }
+  }
+
+  if (maxOperationChars && inserted > maxOperationChars) {
+    return `An edit may add at most ${maxOperationChars} characters at once`;
+  }
+  if (maxDocumentChars && inserted > deleted && content.length + inserted - deleted > maxDocumentChars) {
+    return `Files are limited to ${maxDocumentChars} characters`;
+  }
+  return null;
+}
+
+module.exports = {
+  RateLimiter,
+  checkEditSize
+};
@@ -0,0 +1,155 @@
+const { serveForSuite } = require('./testing/server');
+const { config } = require('./config');
+const { RateLimiter, checkEditSize } = require('./limits');
+const { insert, remove } = require('./testing/operations');
+
+describe('rate limiter', () => {
+  test('allows a burst, then refills over time', () => {
+    let now = 0;
+    const limiter = new RateLimiter({ 'chat-message': { burst: 2, perSecond: 1 } }, () => now);
+
+    expect(limiter.take('alice', 'chat-message')).toBe(true);
+    expect(limiter.take('alice', 'chat-message')).toBe(true);
+    expect(limiter.take('alice', 'chat-message')).toBe(false);
+
+    now = 500;
+    expect(limiter.take('alice', 'chat-message')).toBe(false);
+    now = 1000;
+    expect(limiter.take('alice', 'chat-message')).toBe(true);
+
+    // Never more than the burst, however long it has been
+    now = 60000;
+    expect([1, 2, 3].map(() => limiter.take('alice', 'chat-message'))).toEqual([true, true, false]);
+  });
+
+  test('keeps buckets per sender and forgets the ones that have filled up', () => {
+    let now = 0;
+    const limiter = new RateLimiter({ default: { burst: 1, perSecond: 1 } }, () => now);
+
+    expect(limiter.take('alice', 'file-create')).toBe(true);
+    expect(limiter.take('alice', 'file-create')).toBe(false);
+    expect(limiter.take('bob', 'file-create')).toBe(true);
+
+    now = 500;
+    limiter.prune();
+    expect(limiter.senders.size).toBe(2);
+    now = 1000;
+    limiter.prune();
+    expect(limiter.senders.size).toBe(0);
+  });
+
+  test('keeps a bucket per event, with the default rate for the rest', () => {
+    const limiter = new RateLimiter({
+      'cursor-position': { burst: 0, perSecond: 0 },
+      default: { burst: 1, perSecond: 1 }
+    }, () => 0);
+
+    expect(limiter.take('alice', 'file-create')).toBe(true);
+    expect(limiter.take('alice', 'file-create')).toBe(false);
+    expect(limiter.take('alice', 'file-rename')).toBe(true);
+    // A rate of 0 is no limit at all
+    expect([1, 2, 3].every(() => limiter.take('alice', 'cursor-position'))).toBe(true);
+  });
+});
+
+describe('edit size', () => {
+  const limits = { maxOperationChars: 5, maxDocumentChars: 10 };
+
+  test('caps the text one edit adds and the size of the file', () => {
+    expect(checkEditSize('hello', [insert(0, 'hey ')], limits)).toBeNull();
+    expect(checkEditSize('hello', [insert(0, 'way too much')], limits))
+      .toBe('An edit may add at most 5 characters at once');
+    expect(checkEditSize('hello hi', [insert(0, 'abc')], limits))
+      .toBe('Files are limited to 10 characters');
+  });
+
+  test('lets an oversized file shrink', () => {
+    const content = 'x'.repeat(20);
+    expect(checkEditSize(content, [remove(0, 5), insert(0, 'abc')], limits)).toBeNull();
+    expect(checkEditSize(content, [insert(0, 'abc')], { maxOperationChars: 0, maxDocumentChars: 0 })).toBeNull();
+  });
+});
+
+describe('limits over the socket', () => {
+  const { connect } = serveForSuite();
+
+  test('chat floods are turned away once the burst is used up', async () => {
+    const client = connect();
+
+    try {
+      const joined = new Promise(resolve => client.once('room-joined', resolve));
+      client.emit('join-room', { roomId: 'limits-room', userName: 'tester' });
+      const room = await joined;
+      expect(room.limits.maxChatMessageChars).toBe(config.chat.maxMessageChars);
+
+      const received = [];
+      client.on('chat-message', message => received.push(message.content));
+      const error = new Promise(resolve => client.once('error', resolve));
+
+      const { burst } = config.limits.rates['chat-message'];
+      for (let i = 0; i <= burst; i++) {
+        client.emit('chat-message', { message: `spam ${i}` });
+      }
+
+      expect(await error).toMatchObject({ event: 'chat-message', code: 'rate-limited' });
+      expect(received).toHaveLength(burst);
+    } finally {
+      client.close();
+    }
+  });
+
+  test('typing in the terminal stays within its limit', async () => {
+    const client = connect();
+
+    try {
+      const joined = new Promise(resolve => client.once('room-joined', resolve));
+      client.emit('join-room', { roomId: 'limits-terminal-room', userName: 'tester' });
+      await joined;
+
+      const errors = [];
+      client.on('error', error => errors.push(error));
+
+      // Five seconds of a held key repeating 30 times a second, arriving at
+      // once and without the client's batching
+      for (let i = 0; i < 150; i++) {
+        client.emit('terminal-input', { data: 'x' });
+      }
+      const done = new Promise(resolve => client.once('chat-message', resolve));
+      client.emit('chat-message', { message: 'done' });
+      await done;
+
+      expect(errors).toEqual([]);
+    } finally {
+      client.close();
+    }
+  });
+
+  test('a member reconnecting keeps the buckets they had', async () => {
+    const join = async (memberToken) => {
+      const client = connect();
+      const joined = new Promise(resolve => client.once('room-joined', resolve));
+      client.emit('join-room', { roomId: 'limits-member-room', userName: 'tester', memberToken });
+      return { client, room: await joined };
+    };
+
+    const first = await join();
+    const second = await join(first.room.memberToken);
+    try {
+      const { burst } = config.limits.rates['chat-message'];
+      const sent = new Promise(resolve => second.client.on('chat-message', (message) => {
+        if (message.content === `spam ${burst - 1}`) resolve();
+      }));
+      for (let i = 0; i < burst; i++) {
+        first.client.emit('chat-message', { message: `spam ${i}` });
+      }
+      await sent;
+
+      const error = new Promise(resolve => second.client.once('error', resolve));
+      second.client.emit('chat-message', { message: 'from the other tab' });
+      expect(await error).toMatchObject({ event: 'chat-message', code: 'rate-limited' });
+    } finally {
+      first.client.close();
+      second.client.close();
+    }
+  });
+});
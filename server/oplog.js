@@ -0,0 +1,60 @@
+const { applyOperations, encodeOperations } = require('../shared/events');
+
+// A file's operation log holds only its recent entries. Older ones are
+// folded into `initialContent`, the content the log starts from, and
+// `baseRevision` says which revision that was. The submission ids of the
+// folded entries are kept in `compactedSubmissions`, up to `maxOperations`
+// of them, so batches resent after that can still be recognized. The
+// entries themselves go to the file's archive in storage, for recordings.
+function baseRevisionOf(file) {
+  return file.baseRevision || 0;
+}
+
+// Entries committed after `revision`, or null when some of them have
+// already been compacted away
+function operationsSince(file, revision) {
+  const base = baseRevisionOf(file);
+  if (revision < base) return null;
+  return file.operations.slice(revision - base);
+}
+
+// Once a file's log grows past `maxOperations` entries, drop all but the
+// last `keepOperations`. Clients further behind than that get the whole
+// document instead of a catchup. 0 keeps every entry.
+//
+// Returns what to append to the file's archive: the dropped entries, after
+// the content the log started from when this is its first compaction.
+function compactOperations(file, { maxOperations, keepOperations }) {
+  if (!maxOperations || file.operations.length <= maxOperations) return [];
+
+  const base = baseRevisionOf(file);
+  const dropped = file.operations.splice(0, file.operations.length - Math.min(keepOperations, maxOperations));
+  let archived = [];
+  // Files from before logs started at creation have nothing to fold into
+  if (typeof file.initialContent === 'string') {
+    archived = base === 0 ? [{ initialContent: file.initialContent }, ...dropped] : dropped;
+    file.initialContent = dropped.reduce(
+      (content, entry) => applyOperations(content, entry.operations),
+      file.initialContent
+    );
+  }
+  file.baseRevision = baseRevisionOf(file) + dropped.length;
+  file.compactedSubmissions = (file.compactedSubmissions || [])
+    .concat(dropped.map(entry => entry.submissionId).filter(Boolean))
+    .slice(-maxOperations);
+  return archived;
+}
+
+// Whether the batch a client submitted as `submissionId` was committed,
+// including when its entry has been compacted away since
+function isCommitted(file, submissionId) {
+  return file.operations.some(entry => entry.submissionId === submissionId) ||
+    (file.compactedSubmissions || []).includes(submissionId);
+}
+
+// An entry as sent to clients, with its operations in the wire encoding
+function describeEntry({ operations, ...entry }) {
+  return { ...entry, operations: encodeOperations(operations) };
+}
+
+module.exports = { operationsSince, compactOperations, isCommitted, describeEntry };
@@ -0,0 +1,104 @@
+const { operationsSince, compactOperations, isCommitted, describeEntry } = require('./oplog');
+const { createNode } = require('./files');
+const { createRoom } = require('./rooms');
+const { applyOperations, encodeOperations, decodeOperations, normalizeOperations } = require('../shared/events');
+const { insert, remove, commit } = require('./testing/operations');
+
+describe('wire encoding', () => {
+  test('a batch becomes retains, inserts and deletes in one pass', () => {
+    expect(encodeOperations([insert(4, 'x')])).toEqual([4, 'x']);
+    expect(encodeOperations([insert(0, 'a'), insert(1, 'b'), insert(2, 'c')])).toEqual(['abc']);
+    expect(encodeOperations([remove(3, 1), remove(2, 1), remove(1, 1)])).toEqual([1, -3]);
+    expect(encodeOperations([insert(0, 'ab'), remove(1, 1)])).toEqual(['a']);
+    expect(encodeOperations([])).toEqual([]);
+  });
+
+  test('decoding gives edits that apply to the same result', () => {
+    const batch = [insert(2, 'hello'), remove(0, 1), insert(10, '!'), remove(4, 3)];
+    const content = 'the quick brown fox';
+
+    const decoded = decodeOperations(encodeOperations(batch));
+    expect(applyOperations(content, decoded)).toBe(applyOperations(content, batch));
+    expect(normalizeOperations(decoded)).toEqual(decoded);
+  });
+
+  test('malformed encodings decode to null', () => {
+    expect(decodeOperations([0])).toBeNull();
+    expect(decodeOperations([1.5, 'x'])).toBeNull();
+    expect(decodeOperations([{ type: 'insert' }])).toBeNull();
+    expect(decodeOperations('x')).toBeNull();
+  });
+});
+
+describe('operation log compaction', () => {
+  function fileWithEdits(count) {
+    const room = createRoom('oplog');
+    const file = createNode(room, { name: 'log.js', type: 'file', content: '' });
+    for (let i = 0; i < count; i++) {
+      commit(file, [insert(file.content.length, String(i % 10))]);
+    }
+    return file;
+  }
+
+  test('old entries are folded into the content the log starts from', () => {
+    const file = fileWithEdits(12);
+
+    const archived = compactOperations(file, { maxOperations: 10, keepOperations: 4 });
+
+    expect(archived[0]).toEqual({ initialContent: '' });
+    expect(archived.slice(1).map(entry => entry.revision)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(file.operations.map(entry => entry.revision)).toEqual([9, 10, 11, 12]);
+    expect(file.baseRevision).toBe(8);
+    expect(file.initialContent).toBe('01234567');
+    const replayed = file.operations.reduce(
+      (content, entry) => applyOperations(content, entry.operations),
+      file.initialContent
+    );
+    expect(replayed).toBe(file.content);
+  });
+
+  test('logs within the limit, or with no limit, are left alone', () => {
+    const file = fileWithEdits(5);
+
+    expect(compactOperations(file, { maxOperations: 5, keepOperations: 2 })).toEqual([]);
+    expect(compactOperations(file, { maxOperations: 0, keepOperations: 2 })).toEqual([]);
+
+    expect(file.operations).toHaveLength(5);
+    expect(file.baseRevision).toBeUndefined();
+  });
+
+  test('entries since a revision are found past the compacted ones', () => {
+    const file = fileWithEdits(12);
+    compactOperations(file, { maxOperations: 10, keepOperations: 4 });
+
+    expect(operationsSince(file, 10).map(entry => entry.revision)).toEqual([11, 12]);
+    expect(operationsSince(file, 8)).toHaveLength(4);
+    expect(operationsSince(file, 12)).toEqual([]);
+    expect(operationsSince(file, 7)).toBeNull();
+  });
+
+  test('batches are still known to be committed once compacted away', () => {
+    const file = fileWithEdits(0);
+    ['a', 'b', 'c', 'd'].forEach(id => commit(file, [insert(0, id)], { submissionId: id }));
+
+    compactOperations(file, { maxOperations: 2, keepOperations: 1 });
+
+    expect(file.compactedSubmissions).toEqual(['b', 'c']);
+    expect(isCommitted(file, 'd')).toBe(true);
+    expect(isCommitted(file, 'b')).toBe(true);
+    // Only as many ids as the log may hold are remembered
+    expect(isCommitted(file, 'a')).toBe(false);
+    expect(isCommitted(file, 'never')).toBe(false);
+  });
+
+  test('entries go to clients with their operations encoded', () => {
+    const file = fileWithEdits(1);
+    expect(describeEntry(file.operations[0])).toEqual({
+      fileId: file.id,
+      submissionId: 'sub',
+      revision: 1,
+      operations: ['0'],
+      timestamp: 1
+    });
+  });
+});
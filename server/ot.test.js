@@ -0,0 +1,77 @@
+const { transform, applyOperations, diffToOperations } = require('../shared/events');
+const { createRandom } = require('./testing/simulatedClient');
+const { insert, remove } = require('./testing/operations');
+
+function randomOperation(content, random) {
+  if (content.length === 0 || random() < 0.5) {
+    return insert(Math.floor(random() * (content.length + 1)), 'xyz'.slice(0, 1 + Math.floor(random() * 3)));
+  }
+  const position = Math.floor(random() * content.length);
+  return remove(position, 1 + Math.floor(random() * (content.length - position)));
+}
+
+function randomBatch(content, random) {
+  const batch = [];
+  let text = content;
+  const size = 1 + Math.floor(random() * 3);
+  for (let i = 0; i < size; i++) {
+    const operation = randomOperation(text, random);
+    batch.push(operation);
+    text = applyOperations(text, [operation]);
+  }
+  return batch;
+}
+
+describe('transform', () => {
+  test('concurrent inserts at the same offset keep the server side first', () => {
+    const [clientPrime, serverPrime] = transform([insert(3, 'c')], [insert(3, 's')]);
+    expect(applyOperations(applyOperations('abcdef', [insert(3, 's')]), clientPrime)).toBe('abcscdef');
+    expect(applyOperations(applyOperations('abcdef', [insert(3, 'c')]), serverPrime)).toBe('abcscdef');
+  });
+
+  test('a delete spanning a concurrent insert leaves the inserted text', () => {
+    const [deletePrime] = transform([remove(1, 4)], [insert(3, 'XY')]);
+    expect(applyOperations('abcdef', [insert(3, 'XY'), ...deletePrime])).toBe('aXYf');
+  });
+
+  test('overlapping deletes remove the union exactly once', () => {
+    const [a, b] = transform([remove(1, 3)], [remove(2, 3)]);
+    expect(applyOperations('abcdefg', [remove(2, 3), ...a])).toBe('afg');
+    expect(applyOperations('abcdefg', [remove(1, 3), ...b])).toBe('afg');
+  });
+
+  test('satisfies the convergence property for random batches', () => {
+    const random = createRandom(99);
+    for (let i = 0; i < 5000; i++) {
+      const content = 'abcdefghij'.slice(0, Math.floor(random() * 11));
+      const a = randomBatch(content, random);
+      const b = randomBatch(content, random);
+      const [aPrime, bPrime] = transform(a, b);
+
+      expect(applyOperations(applyOperations(content, a), bPrime))
+        .toBe(applyOperations(applyOperations(content, b), aPrime));
+    }
+  });
+});
+
+describe('diffToOperations', () => {
+  test.each([
+    ['hello world', 'hello brave world'],
+    ['hello brave world', 'hello world'],
+    ['abc', 'xyz'],
+    ['', 'new file'],
+    ['old file', ''],
+    ['aaaa', 'aa'],
+    ['same', 'same']
+  ])('turns %p into %p', (from, to) => {
+    expect(applyOperations(from, diffToOperations(from, to))).toBe(to);
+  });
+
+  test('only touches the changed region', () => {
+    const operations = diffToOperations('const a = 1;\nconst b = 2;\n', 'const a = 1;\nconst b = 3;\n');
+    expect(operations.map(({ type, position, length }) => ({ type, position, length }))).toEqual([
+      { type: 'delete', position: 23, length: 1 },
+      { type: 'insert', position: 23, length: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,35 @@
+const { can } = require('./access');
+
+// What a user is up to, as their client reports it: `status` is whether they
+// are at the keyboard ('idle' after a while without input, 'away' while the
+// tab is hidden) and `typing` is where they are typing, if anywhere
+const PRESENCE_STATUSES = ['active', 'idle', 'away'];
+const TYPING_PLACES = ['editor', 'chat'];
+
+// Everyone starts out active until their client says otherwise
+function createPresence() {
+  return { status: 'active', typing: null };
+}
+
+// Build a presence from an untrusted client update, or null when it makes no
+// sense. Only users who may edit can be typing in the editor.
+function normalizePresence(data, role) {
+  if (!data || !PRESENCE_STATUSES.includes(data.status)) return null;
+
+  let typing = TYPING_PLACES.includes(data.typing) ? data.typing : null;
+  if (typing === 'editor' && !can(role, 'edit')) typing = null;
+  if (typing === 'chat' && !can(role, 'chat')) typing = null;
+
+  return { status: data.status, typing };
+}
+
+function samePresence(a, b) {
+  return a.status === b.status && a.typing === b.typing;
+}
+
+module.exports = {
+  PRESENCE_STATUSES,
+  createPresence,
+  normalizePresence,
+  samePresence
+};
@@ -0,0 +1,61 @@
+const { serveForSuite } = require('./testing/server');
+const { createPresence, normalizePresence, samePresence } = require('./presence');
+
+const { connect } = serveForSuite();
+
+function once(socket, event) {
+  return new Promise(resolve => socket.once(event, resolve));
+}
+
+async function join(socket, data) {
+  const joined = once(socket, 'room-joined');
+  socket.emit('join-room', { userName: 'tester', ...data });
+  return joined;
+}
+
+describe('normalizePresence', () => {
+  test('keeps known statuses and typing places', () => {
+    expect(normalizePresence({ status: 'idle', typing: null }, 'editor')).toEqual({ status: 'idle', typing: null });
+    expect(normalizePresence({ status: 'active', typing: 'editor' }, 'editor')).toEqual({ status: 'active', typing: 'editor' });
+    expect(normalizePresence({ status: 'away', typing: 'somewhere' }, 'editor')).toEqual({ status: 'away', typing: null });
+  });
+
+  test('rejects updates without a known status', () => {
+    expect(normalizePresence(null, 'editor')).toBeNull();
+    expect(normalizePresence({ status: 'asleep' }, 'editor')).toBeNull();
+  });
+
+  test('viewers can type in chat but not in the editor', () => {
+    expect(normalizePresence({ status: 'active', typing: 'editor' }, 'viewer').typing).toBeNull();
+    expect(normalizePresence({ status: 'active', typing: 'chat' }, 'viewer').typing).toBe('chat');
+  });
+
+  test('everyone starts out active', () => {
+    expect(samePresence(createPresence(), { status: 'active', typing: null })).toBe(true);
+  });
+});
+
+describe('presence updates', () => {
+  test('are shared with the room and kept for users who join later', async () => {
+    const typist = connect();
+    const watcher = connect();
+    const late = connect();
+
+    try {
+      await join(typist, { roomId: 'presence' });
+      await join(watcher, { roomId: 'presence' });
+
+      const update = once(watcher, 'presence-update');
+      typist.emit('presence-update', { status: 'active', typing: 'chat' });
+      expect(await update).toEqual({ userId: typist.id, presence: { status: 'active', typing: 'chat' } });
+
+      const room = await join(late, { roomId: 'presence' });
+      expect(room.users.find(u => u.id === typist.id).presence).toEqual({ status: 'active', typing: 'chat' });
+      expect(room.users.find(u => u.id === watcher.id).presence).toEqual(createPresence());
+    } finally {
+      typist.close();
+      watcher.close();
+      late.close();
+    }
+  });
+});
@@ -0,0 +1,58 @@
+const { validatePayload } = require('../shared/events');
+
+// Client events are handled through `listen`, which holds every one of them
+// to the contract in shared/: a payload that does not match its event's
+// schema never reaches the handler, and whatever stops a handler is sent
+// back to the client as an `error` event ({ event, code, message }) instead
+// of being dropped. Events over the sender's rate limit (the RateLimiter in
+// `socket.data.rateLimiter`, if any, keyed by `socket.data.rateLimitKey`)
+// are turned away the same way.
+
+// Why an event could not be handled; `code` is one of EVENT_ERROR_CODES
+class RequestError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.code = code;
+  }
+}
+
+function sendError(socket, event, code, message) {
+  socket.emit('error', { event, code, message });
+}
+
+// Register a handler for a client event. `onRejected` is called with a
+// payload that was turned away before reaching the handler, for events that
+// need more than the error to recover.
+function listen(socket, event, handler, { onRejected } = {}) {
+  socket.on(event, async (payload) => {
+    const { rateLimiter, rateLimitKey = socket.id } = socket.data;
+    if (rateLimiter && !rateLimiter.take(rateLimitKey, event)) {
+      sendError(socket, event, 'rate-limited', 'You are doing that too often, slow down a little');
+      if (onRejected) onRejected(payload);
+      return;
+    }
+
+    const problem = validatePayload(event, payload);
+    if (problem) {
+      sendError(socket, event, 'invalid-payload', problem);
+      if (onRejected) onRejected(payload);
+      return;
+    }
+
+    try {
+      await handler(payload);
+    } catch (error) {
+      if (error instanceof RequestError) {
+        sendError(socket, event, error.code, error.message);
+        return;
+      }
+      console.error(`Failed to handle ${event} from ${socket.id}:`, error);
+      sendError(socket, event, 'server-error', 'The server could not handle that');
+    }
+  });
+}
+
+module.exports = {
+  RequestError,
+  listen
+};
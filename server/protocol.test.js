@@ -0,0 +1,94 @@
+const { serveForSuite } = require('./testing/server');
+const { validatePayload } = require('../shared/events');
+
+describe('event payloads', () => {
+  test('are checked against the schema of their event', () => {
+    expect(validatePayload('chat-message', { message: 'hi' })).toBeNull();
+    expect(validatePayload('chat-message', { message: 42 })).toBe('payload.message must be a string');
+    expect(validatePayload('chat-message', null)).toBe('payload must be an object');
+    expect(validatePayload('presenter-start')).toBeNull();
+    expect(validatePayload('no-such-event', {})).toBe('Unknown event no-such-event');
+  });
+
+  test('document operations must be well-formed edits', () => {
+    const submission = {
+      fileId: 'f1',
+      id: 's1',
+      revision: 0,
+      operations: ['x', 1, -2]
+    };
+    expect(validatePayload('document-operation', submission)).toBeNull();
+
+    expect(validatePayload('document-operation', { ...submission, revision: -1 }))
+      .toBe('payload.revision must be between 0 and 9007199254740991');
+    expect(validatePayload('document-operation', { ...submission, operations: [{ type: 'insert', position: 0 }] }))
+      .toBe('payload.operations[0] must be text or a non-zero whole number');
+    expect(validatePayload('document-operation', { ...submission, operations: [3, 1.5] }))
+      .toBe('payload.operations[1] must be text or a non-zero whole number');
+    expect(validatePayload('document-operation', { ...submission, operations: [''] }))
+      .toBe('payload.operations[0] must not be empty');
+  });
+
+  test('optional fields may be left out but not given the wrong type', () => {
+    expect(validatePayload('file-create', { name: 'a.js', type: 'file' })).toBeNull();
+    expect(validatePayload('file-create', { parentId: null, name: 'a.js', type: 'file' })).toBeNull();
+    expect(validatePayload('file-create', { parentId: 7, name: 'a.js', type: 'file' }))
+      .toBe('payload.parentId must be a string');
+  });
+});
+
+describe('event errors over the socket', () => {
+  const { connect } = serveForSuite({ silence: ['log', 'warn'] });
+
+  function once(socket, event) {
+    return new Promise(resolve => socket.once(event, resolve));
+  }
+
+  test('are reported for events sent before joining a room', async () => {
+    const client = connect();
+
+    try {
+      const error = once(client, 'error');
+      client.emit('chat-message', { message: 'anyone here?' });
+      expect(await error).toEqual({ event: 'chat-message', code: 'not-in-room', message: 'Join a room first' });
+    } finally {
+      client.close();
+    }
+  });
+
+  test('report malformed payloads, and resync a malformed edit', async () => {
+    const client = connect();
+
+    try {
+      const joined = once(client, 'room-joined');
+      client.emit('join-room', { roomId: 'protocol-room', userName: 'tester' });
+      const { files } = await joined;
+      const file = files.find(f => f.type === 'file');
+
+      const error = once(client, 'error');
+      const sync = once(client, 'document-sync');
+      client.emit('document-operation', {
+        fileId: file.id,
+        id: 'bad',
+        revision: file.revision,
+        operations: [0.5, 'x']
+      });
+      expect(await error).toEqual({
+        event: 'document-operation',
+        code: 'invalid-payload',
+        message: 'payload.operations[0] must be text or a non-zero whole number'
+      });
+      expect(await sync).toMatchObject({ fileId: file.id, content: file.content, revision: file.revision });
+
+      const missing = once(client, 'error');
+      client.emit('snapshot-restore', { snapshotId: 'gone' });
+      expect(await missing).toEqual({
+        event: 'snapshot-restore',
+        code: 'not-found',
+        message: 'That snapshot no longer exists'
+      });
+    } finally {
+      client.close();
+    }
+  });
+});
@@ -0,0 +1,76 @@
+// Recordings of a room's edit history that can be replayed op by op, in the
+// room or later from an exported file. They are self-contained: each file's
+// content before its first operation, then every operation in the order it
+// was made, with who made it.
+const RECORDING_FORMAT = 'collaborative-editor-recording';
+const RECORDING_VERSION = 1;
+
+// Folder path of a node, e.g. "src/utils/math.js"
+function pathOf(room, node) {
+  const names = [node.name];
+  for (let parent = room.files[node.parentId]; parent; parent = room.files[parent.parentId]) {
+    names.unshift(parent.name);
+  }
+  return names.join('/');
+}
+
+// Files from before operation logs started at creation have no starting
+// content; their recording starts as they are now
+function hasFullHistory(file) {
+  return typeof file.initialContent === 'string';
+}
+
+// A file's content before its first operation and every operation since.
+// Operations compacted out of its log come from its archive, as long as the
+// archive has all of them; otherwise the history starts where the log does.
+async function historyOf(file, loadArchive) {
+  if (!hasFullHistory(file)) return { initialContent: file.content, entries: [] };
+
+  const [start, ...archived] = file.baseRevision ? await loadArchive(file.id) : [];
+  if (!start || archived.length !== file.baseRevision) {
+    return { initialContent: file.initialContent, entries: file.operations };
+  }
+  return { initialContent: start.initialContent, entries: archived.concat(file.operations) };
+}
+
+function recordEvents(file, entries) {
+  return entries.map(entry => ({
+    fileId: file.id,
+    revision: entry.revision,
+    timestamp: entry.timestamp,
+    userName: entry.userName,
+    userColor: entry.userColor || null,
+    operations: entry.operations.map(({ type, position, content, length }) => ({
+      type,
+      position,
+      content,
+      length
+    }))
+  }));
+}
+
+// `loadArchive(fileId)` resolves with what compaction archived for a file
+async function buildRecording(room, loadArchive) {
+  const files = Object.values(room.files).filter(node => node.type === 'file');
+  const histories = await Promise.all(files.map(file => historyOf(file, loadArchive)));
+
+  return {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    roomName: room.name,
+    recordedAt: new Date(),
+    files: files.map((file, index) => ({
+      id: file.id,
+      path: pathOf(room, file),
+      language: file.language,
+      initialContent: histories[index].initialContent
+    })),
+    // Interleaved across files by when they happened; the sort is stable, so
+    // a file's own operations stay in revision order
+    events: files
+      .flatMap((file, index) => recordEvents(file, histories[index].entries))
+      .sort((a, b) => a.timestamp - b.timestamp)
+  };
+}
+
+module.exports = { RECORDING_FORMAT, RECORDING_VERSION, buildRecording };
@@ -0,0 +1,136 @@
+const { serveForSuite } = require('./testing/server');
+const { buildRecording, RECORDING_FORMAT } = require('./replay');
+const { createNode } = require('./files');
+const { applyOperations } = require('../shared/events');
+const { compactOperations } = require('./oplog');
+const { RoomManager, createRoom } = require('./rooms');
+const { MemoryStore } = require('./storage');
+const { commit, insert, remove } = require('./testing/operations');
+
+// Play a recording back to the final content of each file
+function replay(recording) {
+  const contents = Object.fromEntries(recording.files.map(f => [f.id, f.initialContent]));
+  for (const event of recording.events) {
+    contents[event.fileId] = applyOperations(contents[event.fileId], event.operations);
+  }
+  return contents;
+}
+
+describe('recordings', () => {
+  const noArchive = async () => [];
+
+  test('replay every file from its initial content in the order edits were made', async () => {
+    const room = createRoom('replay', 'Interview');
+    const folder = createNode(room, { name: 'src', type: 'folder' });
+    const file = createNode(room, { parentId: folder.id, name: 'main.js', type: 'file', content: 'a' });
+    const edits = [
+      [insert(1, 'bc')],
+      [remove(0, 1), insert(0, 'x')]
+    ];
+    edits.forEach((operations, index) => {
+      file.content = applyOperations(file.content, operations);
+      file.revision += 1;
+      file.operations.push({
+        revision: file.revision,
+        operations,
+        userName: 'alice',
+        userColor: 'hsl(10, 70%, 60%)',
+        timestamp: 1000 + index
+      });
+    });
+
+    const recording = await buildRecording(room, noArchive);
+    expect(recording).toMatchObject({ format: RECORDING_FORMAT, roomName: 'Interview' });
+    expect(recording.files.find(f => f.id === file.id)).toMatchObject({ path: 'src/main.js', initialContent: 'a' });
+    expect(recording.events.map(e => [e.revision, e.userName])).toEqual([[1, 'alice'], [2, 'alice']]);
+    expect(replay(JSON.parse(JSON.stringify(recording)))[file.id]).toBe('xbc');
+  });
+
+  test('files without a recorded start are shown as they are now', async () => {
+    const room = createRoom('legacy');
+    const [file] = Object.values(room.files);
+    delete file.initialContent;
+    file.operations.push({ revision: 1, operations: [], timestamp: 0 });
+
+    const recording = await buildRecording(room, noArchive);
+    expect(recording.files[0].initialContent).toBe(file.content);
+    expect(recording.events).toEqual([]);
+  });
+
+  test('compacted edits are read back from the archive', async () => {
+    const manager = new RoomManager(new MemoryStore(), { saveDebounceMs: 1000 });
+    const room = manager.create('compacted', 'Long session');
+    manager.stop();
+    const [file] = Object.values(room.files);
+    const original = file.content;
+    for (let i = 0; i < 12; i++) {
+      commit(file, [insert(0, String(i % 10))], { submissionId: `s${i}` });
+      const archived = compactOperations(file, { maxOperations: 5, keepOperations: 2 });
+      if (archived.length) manager.archive(room, file.id, archived);
+    }
+    expect(file.operations.length).toBeLessThan(12);
+
+    const recording = await buildRecording(room, fileId => manager.loadArchive(room.id, fileId));
+    expect(recording.files[0].initialContent).toBe(original);
+    expect(recording.events.map(e => e.revision)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+    expect(replay(recording)[file.id]).toBe(file.content);
+  });
+
+  test('without the whole archive the recording starts where the log does', async () => {
+    const room = createRoom('lost');
+    const [file] = Object.values(room.files);
+    for (let i = 0; i < 6; i++) commit(file, [insert(0, 'x')]);
+    compactOperations(file, { maxOperations: 5, keepOperations: 2 });
+
+    const recording = await buildRecording(room, noArchive);
+    expect(recording.files[0].initialContent).toBe(file.initialContent);
+    expect(recording.events.map(e => e.revision)).toEqual([5, 6]);
+  });
+});
+
+describe('recording endpoint', () => {
+  const app = serveForSuite();
+
+  test('records edits made over sockets, with their authors, for members only', async () => {
+    const response = await fetch(`${app.url}/api/rooms`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Recorded' })
+    });
+    const { roomId, ownerToken } = await response.json();
+    const client = app.connect();
+
+    try {
+      const room = await new Promise((resolve) => {
+        client.once('room-joined', resolve);
+        client.emit('join-room', { roomId, userName: 'alice', memberToken: ownerToken });
+      });
+      const [file] = room.files;
+      const user = room.users[0];
+      const acked = new Promise(resolve => client.once('operation-ack', resolve));
+      client.emit('document-operation', {
+        fileId: file.id,
+        id: 's1',
+        revision: file.revision,
+        operations: ['// hi\n']
+      });
+      await acked;
+
+      const anonymous = await fetch(`${app.url}/api/rooms/${roomId}/recording`);
+      expect(anonymous.status).toBe(403);
+
+      const recording = await (await fetch(`${app.url}/api/rooms/${roomId}/recording`, {
+        headers: { 'X-Member-Token': ownerToken }
+      })).json();
+      expect(recording.events).toEqual([expect.objectContaining({
+        fileId: file.id,
+        revision: 1,
+        userName: 'alice',
+        userColor: user.color
+      })]);
+      expect(replay(recording)[file.id]).toBe(`// hi\n${file.content}`);
+    } finally {
+      client.close();
+    }
+  });
+});
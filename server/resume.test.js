@@ -0,0 +1,129 @@
+const { rooms } = require('./index');
+const { serveForSuite } = require('./testing/server');
+const { compactOperations } = require('./oplog');
+
+const { connect } = serveForSuite({ silence: ['log', 'warn'] });
+
+function once(socket, event) {
+  return new Promise(resolve => socket.once(event, resolve));
+}
+
+async function join(socket, data) {
+  const joined = once(socket, 'room-joined');
+  socket.emit('join-room', { userName: 'tester', ...data });
+  return joined;
+}
+
+describe('rejoining a room', () => {
+  test('replays operations committed since the given revision', async () => {
+    const writer = connect();
+    const returning = connect();
+
+    try {
+      const room = await join(writer, { roomId: 'resume' });
+      const [file] = room.files;
+      const base = file.revision;
+
+      writer.emit('document-operation', {
+        fileId: file.id,
+        id: 'w1',
+        revision: base,
+        operations: ['hi ']
+      });
+      await once(writer, 'operation-ack');
+
+      const catchup = once(returning, 'document-catchup');
+      await join(returning, { roomId: 'resume', revisions: { [file.id]: base } });
+      const { fileId, operations } = await catchup;
+
+      expect(fileId).toBe(file.id);
+      expect(operations).toHaveLength(1);
+      expect(operations[0]).toMatchObject({ submissionId: 'w1', revision: base + 1 });
+    } finally {
+      writer.close();
+      returning.close();
+    }
+  });
+
+  test('a resent batch is only committed once', async () => {
+    const socket = connect();
+
+    try {
+      const room = await join(socket, { roomId: 'dedupe' });
+      const [file] = room.files;
+      const submission = {
+        fileId: file.id,
+        id: 'dup',
+        revision: file.revision,
+        operations: ['x']
+      };
+
+      socket.emit('document-operation', submission);
+      await once(socket, 'operation-ack');
+      // Acked again, so the client can move on
+      const ack = once(socket, 'operation-ack');
+      socket.emit('document-operation', submission);
+      expect(await ack).toEqual({ fileId: file.id, revision: file.revision + 1 });
+
+      const stored = rooms.get('dedupe').files[file.id];
+      expect(stored.revision).toBe(file.revision + 1);
+      expect(stored.content.startsWith('x//')).toBe(true);
+    } finally {
+      socket.close();
+    }
+  });
+
+  test('a client behind a compacted log rebases onto the content it is sent', async () => {
+    const writer = connect();
+    const returning = connect();
+
+    try {
+      const [file] = (await join(writer, { roomId: 'compacted' })).files;
+      for (const [index, id] of ['c1', 'c2', 'c3'].entries()) {
+        writer.emit('document-operation', { fileId: file.id, id, revision: file.revision + index, operations: ['x'] });
+        await once(writer, 'operation-ack');
+      }
+      compactOperations(rooms.get('compacted').files[file.id], { maxOperations: 2, keepOperations: 1 });
+
+      // Its batch went through before the connection dropped
+      let sync = once(returning, 'document-sync');
+      await join(returning, {
+        roomId: 'compacted',
+        revisions: { [file.id]: file.revision },
+        pending: { [file.id]: 'c1' }
+      });
+      expect(await sync).toMatchObject({ revision: file.revision + 3, rebase: { committed: true } });
+
+      // Resending it against the current revision gets the content back
+      sync = once(returning, 'document-sync');
+      returning.emit('document-operation', { fileId: file.id, id: 'c1', revision: file.revision + 3, operations: ['x'] });
+      expect(await sync).toMatchObject({ revision: file.revision + 3, rebase: { committed: true } });
+
+      // A batch made against a compacted revision is not committed
+      sync = once(returning, 'document-sync');
+      returning.emit('document-operation', { fileId: file.id, id: 'late', revision: file.revision, operations: ['y'] });
+      expect(await sync).toMatchObject({ revision: file.revision + 3, rebase: { committed: false } });
+    } finally {
+      writer.close();
+      returning.close();
+    }
+  });
+
+  test('an unknown revision falls back to a full document sync', async () => {
+    const probe = connect();
+    const socket = connect();
+
+    try {
+      const [file] = (await join(probe, { roomId: 'fresh' })).files;
+      const sync = once(socket, 'document-sync');
+      await join(socket, { roomId: 'fresh', revisions: { [file.id]: 99 } });
+
+      const { rebase, ...synced } = await sync;
+      expect(synced).toMatchObject({ fileId: file.id, revision: 0 });
+      expect(rebase).toBeUndefined();
+    } finally {
+      probe.close();
+      socket.close();
+    }
+  });
+});
@@ -0,0 +1,279 @@
+const { createNode, inferLanguage } = require('./files');
+const { createAccess } = require('./access');
+
+const DEFAULT_CONTENT = '// Welcome to the collaborative code editor!\n// Start typing to begin...\n';
+const DEFAULT_FILE_NAME = 'main.js';
+const LEGACY_EXTENSIONS = {
+  javascript: 'js',
+  typescript: 'ts',
+  python: 'py',
+  java: 'java',
+  cpp: 'cpp',
+  csharp: 'cs',
+  html: 'html',
+  css: 'css',
+  json: 'json',
+  markdown: 'md',
+  sql: 'sql',
+  php: 'php',
+  go: 'go',
+  rust: 'rs',
+  yaml: 'yaml'
+};
+
+// Room management
+function createRoom(roomId, name = 'Untitled') {
+  const room = {
+    id: roomId,
+    name: name,
+    files: {},
+    users: new Map(),
+    snapshots: [],
+    chat: [],
+    // Review threads anchored to ranges of files
+    comments: [],
+    // The owner everyone has been asked to follow; not saved
+    presenterId: null,
+    access: createAccess(),
+    createdAt: new Date(),
+    lastActivity: new Date()
+  };
+  createNode(room, { name: DEFAULT_FILE_NAME, type: 'file', content: DEFAULT_CONTENT });
+  return room;
+}
+
+// Rooms saved before workspaces held a single document; turn it into a file
+function migrateLegacyDocument(data) {
+  if (data.files || !data.document) return data;
+
+  const { document, revision = 0, operations = [], ...rest } = data;
+  const name = `main.${LEGACY_EXTENSIONS[document.language] || 'txt'}`;
+  const fileId = 'main';
+
+  return {
+    ...rest,
+    snapshots: (rest.snapshots || []).map(snapshot => ({ fileId, ...snapshot })),
+    files: {
+      [fileId]: {
+        id: fileId,
+        name,
+        parentId: null,
+        type: 'file',
+        content: document.content,
+        language: document.language || inferLanguage(name),
+        revision,
+        operations
+      }
+    }
+  };
+}
+
+// Only durable state is stored; connected users are rebuilt as people join
+function serializeRoom(room) {
+  return {
+    id: room.id,
+    name: room.name,
+    files: room.files,
+    snapshots: room.snapshots,
+    chat: room.chat,
+    comments: room.comments,
+    access: room.access,
+    createdAt: room.createdAt,
+    lastActivity: room.lastActivity
+  };
+}
+
+function hydrateRoom(stored) {
+  const data = migrateLegacyDocument(stored);
+  return {
+    ...createRoom(data.id, data.name),
+    ...data,
+    access: { ...createAccess(), ...data.access },
+    users: new Map(),
+    createdAt: new Date(data.createdAt),
+    lastActivity: new Date(data.lastActivity)
+  };
+}
+
+// Owns the in-memory room cache and keeps it in step with a storage
+// backend: rooms are loaded on first use, saved on a debounce after each
+// change, and unloaded once they have been empty for a while.
+class RoomManager {
+  constructor(storage, options) {
+    this.storage = storage;
+    this.options = options;
+    this.rooms = new Map();
+    this.loading = new Map();
+    this.saveTimers = new Map();
+    this.unloadTimers = new Map();
+    // roomId -> the archive write in progress, which later ones wait for
+    this.archiving = new Map();
+    this.sweepTimer = null;
+  }
+
+  get(roomId) {
+    return this.rooms.get(roomId);
+  }
+
+  has(roomId) {
+    return this.rooms.has(roomId);
+  }
+
+  values() {
+    return this.rooms.values();
+  }
+
+  create(roomId, name) {
+    const room = createRoom(roomId, name);
+    this.rooms.set(roomId, room);
+    this.scheduleSave(room);
+    return room;
+  }
+
+  // Resolve a room from memory, then storage, creating it as a last resort.
+  // Concurrent callers for the same id share one load.
+  async open(roomId, name) {
+    this.cancelUnload(roomId);
+    if (this.rooms.has(roomId)) return this.rooms.get(roomId);
+
+    if (!this.loading.has(roomId)) {
+      const load = this.storage.load(roomId)
+        .then((data) => {
+          if (this.rooms.has(roomId)) return this.rooms.get(roomId);
+          if (!data) return this.create(roomId, name);
+
+          const room = hydrateRoom(data);
+          this.rooms.set(roomId, room);
+          return room;
+        })
+        .finally(() => this.loading.delete(roomId));
+      this.loading.set(roomId, load);
+    }
+
+    return this.loading.get(roomId);
+  }
+
+  // Record activity on a room and queue it for saving
+  touch(room) {
+    room.lastActivity = new Date();
+    this.scheduleSave(room);
+  }
+
+  scheduleSave(room) {
+    if (this.saveTimers.has(room.id)) return;
+
+    const timer = setTimeout(() => {
+      this.saveTimers.delete(room.id);
+      this.save(room).catch((error) => {
+        console.error(`Failed to save room ${room.id}:`, error);
+      });
+    }, this.options.saveDebounceMs);
+    timer.unref();
+    this.saveTimers.set(room.id, timer);
+  }
+
+  async save(room) {
+    await this.storage.save(room.id, serializeRoom(room));
+  }
+
+  // Append records to a file's archive in storage. Writes for a room happen
+  // one after another, so the archive stays in the order they were made.
+  archive(room, fileId, records) {
+    const previous = this.archiving.get(room.id) || Promise.resolve();
+    const write = previous
+      .then(() => this.storage.appendArchive(room.id, fileId, records))
+      .catch((error) => {
+        console.error(`Failed to archive history of room ${room.id}:`, error);
+      })
+      .finally(() => {
+        if (this.archiving.get(room.id) === write) this.archiving.delete(room.id);
+      });
+    this.archiving.set(room.id, write);
+  }
+
+  // A file's archive, including what is still being written
+  async loadArchive(roomId, fileId) {
+    await this.archiving.get(roomId);
+    return this.storage.loadArchive(roomId, fileId);
+  }
+
+  // Drop an empty room from memory once it has stayed empty long enough
+  scheduleUnload(roomId) {
+    this.cancelUnload(roomId);
+
+    const timer = setTimeout(async () => {
+      this.unloadTimers.delete(roomId);
+      const room = this.rooms.get(roomId);
+      if (!room || room.users.size > 0) return;
+
+      try {
+        await this.flush(room);
+        if (room.users.size === 0) {
+          this.rooms.delete(roomId);
+          console.log(`Unloaded empty room: ${roomId}`);
+          if (this.options.onUnload) this.options.onUnload(roomId);
+        }
+      } catch (error) {
+        console.error(`Failed to unload room ${roomId}:`, error);
+      }
+    }, this.options.unloadAfterMs);
+    timer.unref();
+    this.unloadTimers.set(roomId, timer);
+  }
+
+  cancelUnload(roomId) {
+    clearTimeout(this.unloadTimers.get(roomId));
+    this.unloadTimers.delete(roomId);
+  }
+
+  // Forget a room without saving it, for when someone else has taken it over
+  drop(roomId) {
+    clearTimeout(this.saveTimers.get(roomId));
+    this.saveTimers.delete(roomId);
+    this.cancelUnload(roomId);
+    this.rooms.delete(roomId);
+  }
+
+  async flush(room) {
+    clearTimeout(this.saveTimers.get(room.id));
+    this.saveTimers.delete(room.id);
+    await this.archiving.get(room.id);
+    await this.save(room);
+  }
+
+  async flushAll() {
+    await Promise.all(Array.from(this.rooms.values()).map(room => this.flush(room)));
+  }
+
+  // Delete stored rooms nobody has touched within the retention window
+  async sweep(now = Date.now()) {
+    const { retentionMs } = this.options;
+    if (!retentionMs) return;
+
+    const stored = await this.storage.list();
+    for (const { id, updatedAt } of stored) {
+      if (this.rooms.has(id)) continue;
+      if (now - new Date(updatedAt).getTime() > retentionMs) {
+        await this.storage.remove(id);
+        console.log(`Deleted expired room: ${id}`);
+      }
+    }
+  }
+
+  startSweeper() {
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch(error => console.error('Room sweep failed:', error));
+    }, this.options.sweepIntervalMs);
+    this.sweepTimer.unref();
+  }
+
+  stop() {
+    clearInterval(this.sweepTimer);
+    this.saveTimers.forEach(timer => clearTimeout(timer));
+    this.unloadTimers.forEach(timer => clearTimeout(timer));
+    this.saveTimers.clear();
+    this.unloadTimers.clear();
+  }
+}
+
+module.exports = { RoomManager, createRoom, serializeRoom, hydrateRoom };
@@ -0,0 +1,122 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { RoomManager } = require('./rooms');
+const { FileStore, MemoryStore } = require('./storage');
+
+const OPTIONS = {
+  saveDebounceMs: 10,
+  unloadAfterMs: 10,
+  retentionMs: 1000,
+  sweepIntervalMs: 1000
+};
+
+let dataDir;
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rooms-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('RoomManager', () => {
+  test('rooms written to disk survive a restart', async () => {
+    const first = new RoomManager(new FileStore(dataDir), OPTIONS);
+    const room = await first.open('persisted', 'Persisted');
+    const [file] = Object.values(room.files);
+    file.content = 'saved text';
+    room.chat.push({ id: 'm1', content: 'hello' });
+    first.touch(room);
+    await first.flushAll();
+    first.stop();
+
+    const second = new RoomManager(new FileStore(dataDir), OPTIONS);
+    const restored = await second.open('persisted', 'Ignored');
+
+    expect(restored.name).toBe('Persisted');
+    expect(restored.files[file.id].content).toBe('saved text');
+    expect(restored.chat).toHaveLength(1);
+    expect(restored.users.size).toBe(0);
+    expect(restored.lastActivity).toBeInstanceOf(Date);
+    second.stop();
+  });
+
+  test('concurrent opens of the same room share one instance', async () => {
+    const manager = new RoomManager(new MemoryStore(), OPTIONS);
+    const [a, b] = await Promise.all([manager.open('shared'), manager.open('shared')]);
+
+    expect(a).toBe(b);
+    manager.stop();
+  });
+
+  test('empty rooms are unloaded but can be reopened from storage', async () => {
+    const manager = new RoomManager(new MemoryStore(), OPTIONS);
+    const room = await manager.open('idle');
+    const [file] = Object.values(room.files);
+    file.content = 'kept';
+
+    manager.scheduleUnload('idle');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(manager.has('idle')).toBe(false);
+
+    expect((await manager.open('idle')).files[file.id].content).toBe('kept');
+    manager.stop();
+  });
+
+  test('rooms stored before workspaces become a single file', async () => {
+    const store = new MemoryStore();
+    await store.save('legacy', {
+      id: 'legacy',
+      name: 'Legacy',
+      document: { content: 'print(1)', language: 'python' },
+      revision: 3,
+      operations: [],
+      chat: [],
+      createdAt: new Date(),
+      lastActivity: new Date()
+    });
+
+    const manager = new RoomManager(store, OPTIONS);
+    const room = await manager.open('legacy');
+
+    expect(Object.values(room.files)).toEqual([
+      expect.objectContaining({ name: 'main.py', content: 'print(1)', language: 'python', revision: 3 })
+    ]);
+    manager.stop();
+  });
+
+  test('archives are appended to in order and removed with their room', async () => {
+    const store = new FileStore(dataDir);
+    const manager = new RoomManager(store, OPTIONS);
+    const room = await manager.open('archived');
+    manager.archive(room, 'f1', [{ initialContent: '' }, { revision: 1 }]);
+    manager.archive(room, 'f1', [{ revision: 2 }]);
+    manager.archive(room, 'f/2', [{ revision: 1 }]);
+
+    expect(await manager.loadArchive('archived', 'f1')).toEqual([{ initialContent: '' }, { revision: 1 }, { revision: 2 }]);
+    // A record cut short by a crash is left out
+    fs.appendFileSync(store.archivePath('archived', 'f1'), '{"revis');
+    expect(await store.loadArchive('archived', 'f1')).toHaveLength(3);
+    await manager.flush(room);
+    expect(await store.list()).toEqual([expect.objectContaining({ id: 'archived' })]);
+
+    await store.remove('archived');
+    expect(await store.loadArchive('archived', 'f1')).toEqual([]);
+    expect(await store.loadArchive('archived', 'f/2')).toEqual([]);
+    manager.stop();
+  });
+
+  test('sweep deletes stored rooms older than the retention window', async () => {
+    const store = new MemoryStore();
+    const manager = new RoomManager(store, OPTIONS);
+    await store.save('old', { id: 'old' });
+
+    await manager.sweep(Date.now() + OPTIONS.retentionMs + 1);
+
+    expect(await store.load('old')).toBeNull();
+    manager.stop();
+  });
+});
@@ -0,0 +1,88 @@
+const fs = require('fs/promises');
+const path = require('path');
+
+const EXTENSION = '.json';
+const ARCHIVE_EXTENSION = '.archive';
+
+// One JSON file per room. Writes go to a temp file first and are renamed
+// into place so a crash mid-write never leaves a truncated room behind.
+// Archives are a directory per room next to it, with one file of JSON lines
+// per archived file that is only ever appended to.
+class FileStore {
+  constructor(dataDir) {
+    this.dataDir = dataDir;
+  }
+
+  filePath(roomId) {
+    return path.join(this.dataDir, encodeURIComponent(roomId) + EXTENSION);
+  }
+
+  archiveDir(roomId) {
+    return path.join(this.dataDir, encodeURIComponent(roomId) + ARCHIVE_EXTENSION);
+  }
+
+  archivePath(roomId, fileId) {
+    return path.join(this.archiveDir(roomId), encodeURIComponent(fileId) + '.jsonl');
+  }
+
+  async load(roomId) {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(roomId), 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async save(roomId, data) {
+    await fs.mkdir(this.dataDir, { recursive: true });
+    const target = this.filePath(roomId);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(data));
+    await fs.rename(temp, target);
+  }
+
+  async remove(roomId) {
+    await fs.rm(this.filePath(roomId), { force: true });
+    await fs.rm(this.archiveDir(roomId), { recursive: true, force: true });
+  }
+
+  async appendArchive(roomId, fileId, records) {
+    const target = this.archivePath(roomId, fileId);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.appendFile(target, records.map(record => `${JSON.stringify(record)}\n`).join(''));
+  }
+
+  async loadArchive(roomId, fileId) {
+    let text;
+    try {
+      text = await fs.readFile(this.archivePath(roomId, fileId), 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+    // Whatever follows the last newline is a record a crash cut short
+    return text.split('\n').slice(0, -1).map(line => JSON.parse(line));
+  }
+
+  async list() {
+    let names;
+    try {
+      names = await fs.readdir(this.dataDir);
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const files = names.filter(name => name.endsWith(EXTENSION));
+    return Promise.all(files.map(async (name) => {
+      const { mtime } = await fs.stat(path.join(this.dataDir, name));
+      return {
+        id: decodeURIComponent(name.slice(0, -EXTENSION.length)),
+        updatedAt: mtime
+      };
+    }));
+  }
+}
+
+module.exports = { FileStore };
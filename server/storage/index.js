@@ -0,0 +1,23 @@
+const { MemoryStore } = require('./memoryStore');
+const { FileStore } = require('./fileStore');
+
+// Every backend implements the same async interface:
+//   load(roomId) -> room data or null
+//   save(roomId, data)
+//   remove(roomId)
+//   list() -> [{ id, updatedAt }]
+//   appendArchive(roomId, fileId, records) - add to the end of a file's archive
+//   loadArchive(roomId, fileId) -> every record appended, in order
+// Removing a room removes its archives too.
+function createStorage({ driver, dataDir }) {
+  switch (driver) {
+    case 'memory':
+      return new MemoryStore();
+    case 'file':
+      return new FileStore(dataDir);
+    default:
+      throw new Error(`Unknown room storage driver: ${driver}`);
+  }
+}
+
+module.exports = { createStorage, MemoryStore, FileStore };
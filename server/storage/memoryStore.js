@@ -0,0 +1,43 @@
+// Keeps serialized rooms in process memory. Rooms survive being unloaded
+// while idle but not a server restart.
+class MemoryStore {
+  constructor() {
+    this.rooms = new Map();
+    // roomId -> fileId -> archived records, serialized
+    this.archives = new Map();
+  }
+
+  async load(roomId) {
+    const entry = this.rooms.get(roomId);
+    return entry ? JSON.parse(entry.data) : null;
+  }
+
+  async save(roomId, data) {
+    this.rooms.set(roomId, { data: JSON.stringify(data), updatedAt: new Date() });
+  }
+
+  async remove(roomId) {
+    this.rooms.delete(roomId);
+    this.archives.delete(roomId);
+  }
+
+  async appendArchive(roomId, fileId, records) {
+    if (!this.archives.has(roomId)) this.archives.set(roomId, new Map());
+    const files = this.archives.get(roomId);
+    if (!files.has(fileId)) files.set(fileId, []);
+    files.get(fileId).push(...records.map(record => JSON.stringify(record)));
+  }
+
+  async loadArchive(roomId, fileId) {
+    return (this.archives.get(roomId)?.get(fileId) || []).map(record => JSON.parse(record));
+  }
+
+  async list() {
+    return Array.from(this.rooms.entries()).map(([id, entry]) => ({
+      id,
+      updatedAt: entry.updatedAt
+    }));
+  }
+}
+
+module.exports = { MemoryStore };
@@ -0,0 +1,178 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { NOBODY, canSandbox, launch, runsAsRoot } = require('./execution/sandbox');
+
+const DEFAULT_SIZE = { cols: 80, rows: 24 };
+const MAX_COLS = 500;
+const MAX_ROWS = 200;
+
+// A terminal request that cannot be carried out (disabled, not running, ...)
+class TerminalError extends Error {}
+
+function clampSize({ cols, rows } = {}, fallback = DEFAULT_SIZE) {
+  const clamp = (value, max, otherwise) => (
+    Number.isInteger(value) ? Math.min(Math.max(value, 1), max) : otherwise
+  );
+  return { cols: clamp(cols, MAX_COLS, fallback.cols), rows: clamp(rows, MAX_ROWS, fallback.rows) };
+}
+
+// One directory per room; hashed so any room id makes a safe name. The
+// shell's files live in its `home`, next to the `root` the sandbox is built in.
+function scratchDirFor(root, roomId) {
+  return path.join(root, crypto.createHash('sha256').update(roomId).digest('hex').slice(0, 32));
+}
+
+// The sandbox shows a program the install prefix of the command it runs,
+// so the shell is looked up on PATH first
+function findExecutable(command) {
+  if (command.includes('/')) return path.resolve(command);
+  return (process.env.PATH || '').split(path.delimiter)
+    .filter(Boolean)
+    .map(dir => path.join(dir, command))
+    .find((candidate) => {
+      try {
+        fs.accessSync(candidate, fs.constants.X_OK);
+        return true;
+      } catch (error) {
+        return false;
+      }
+    }) ?? null;
+}
+
+// A shared shell per room, started on request and killed when the room
+// empties. It runs in the same sandbox as programs people run: no network,
+// no view of the server's files and only its home directory to write to.
+// Where that sandbox is not available the terminal stays off. Output goes to `onOutput(roomId, data)` and a bounded scrollback
+// for people who open the terminal later; `onExit(roomId, state)` reports the
+// shell ending on its own or being killed.
+class RoomTerminals {
+  constructor(options, { onOutput, onExit }) {
+    this.options = options;
+    this.onOutput = onOutput;
+    this.onExit = onExit;
+    // roomId -> { process, cols, rows, scrollback }
+    this.terminals = new Map();
+  }
+
+  isEnabled() {
+    return this.options.enabled && canSandbox();
+  }
+
+  // What a client needs to show a room's terminal
+  describe(roomId) {
+    const terminal = this.terminals.get(roomId);
+    return {
+      enabled: this.isEnabled(),
+      running: Boolean(terminal),
+      cols: terminal?.cols ?? DEFAULT_SIZE.cols,
+      rows: terminal?.rows ?? DEFAULT_SIZE.rows,
+      scrollback: terminal?.scrollback ?? ''
+    };
+  }
+
+  // Start the room's shell in its scratch directory unless it is running
+  start(roomId, size) {
+    if (!this.options.enabled) {
+      throw new TerminalError('The shared terminal is disabled on this server');
+    }
+    if (!canSandbox()) {
+      throw new TerminalError('The shared terminal is disabled: this server cannot sandbox programs');
+    }
+    if (this.terminals.has(roomId)) return this.describe(roomId);
+
+    const shellPath = findExecutable(this.options.shell);
+    if (!shellPath) {
+      throw new TerminalError(`The shared terminal is not available: ${this.options.shell} was not found on this server`);
+    }
+    const dir = scratchDirFor(this.options.scratchDir, roomId);
+    const home = path.join(dir, 'home');
+    fs.mkdirSync(home, { recursive: true });
+    fs.mkdirSync(path.join(dir, 'root'), { recursive: true });
+    if (runsAsRoot()) fs.chownSync(home, NOBODY, NOBODY);
+
+    // node-pty is a native module that not every install can build, so it is
+    // only loaded once someone wants a terminal
+    let pty;
+    try {
+      pty = require('node-pty');
+    } catch (error) {
+      throw new TerminalError('The shared terminal is not available: node-pty is not installed on this server');
+    }
+
+    const { cols, rows } = clampSize(size);
+    const started = launch(shellPath, ['--noprofile', '--norc'], {
+      dir,
+      work: home,
+      limits: { sandbox: true, memoryMb: this.options.memoryMb }
+    });
+    const shell = pty.spawn(started.command, started.args, {
+      name: 'xterm-256color',
+      cols,
+      rows,
+      cwd: started.options.cwd,
+      env: { ...started.options.env, TERM: 'xterm-256color', PS1: '\\W$ ' }
+    });
+
+    const terminal = { process: shell, cols, rows, scrollback: '' };
+    this.terminals.set(roomId, terminal);
+
+    shell.onData((data) => {
+      terminal.scrollback = (terminal.scrollback + data).slice(-this.options.scrollbackChars);
+      this.onOutput(roomId, data);
+    });
+    shell.onExit(({ exitCode, signal }) => {
+      // A newer shell may have replaced this one
+      if (this.terminals.get(roomId) !== terminal) return;
+      this.terminals.delete(roomId);
+      this.onExit(roomId, { exitCode, signal: signal || null });
+    });
+
+    return this.describe(roomId);
+  }
+
+  write(roomId, data) {
+    const terminal = this.terminals.get(roomId);
+    if (!terminal) throw new TerminalError('The terminal is not running');
+    terminal.process.write(data);
+  }
+
+  // Everyone sees the terminal at the same size; the last resize wins
+  resize(roomId, size) {
+    const terminal = this.terminals.get(roomId);
+    if (!terminal) return null;
+
+    const { cols, rows } = clampSize(size, terminal);
+    if (cols !== terminal.cols || rows !== terminal.rows) {
+      terminal.cols = cols;
+      terminal.rows = rows;
+      terminal.process.resize(cols, rows);
+    }
+    return { cols, rows };
+  }
+
+  // Stop the shell; `cleanUp` also deletes the room's scratch directory
+  kill(roomId, { cleanUp = false } = {}) {
+    const terminal = this.terminals.get(roomId);
+    if (terminal) {
+      this.terminals.delete(roomId);
+      // The sandbox leads its own process group; take the shell and its
+      // jobs down with it
+      try {
+        process.kill(-terminal.process.pid, 'SIGKILL');
+      } catch (error) {
+        terminal.process.kill('SIGKILL');
+      }
+      this.onExit(roomId, { exitCode: null, signal: 'SIGKILL' });
+    }
+    if (cleanUp) {
+      fs.rmSync(scratchDirFor(this.options.scratchDir, roomId), { recursive: true, force: true });
+    }
+  }
+
+  killAll() {
+    Array.from(this.terminals.keys()).forEach(roomId => this.kill(roomId, { cleanUp: true }));
+  }
+}
+
+module.exports = { RoomTerminals, TerminalError, scratchDirFor };
@@ -0,0 +1,157 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// The terminal is off unless the environment turns it on
+const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-test-'));
+process.env.TERMINAL_ENABLED = 'true';
+process.env.TERMINAL_SCRATCH_DIR = scratchDir;
+
+const { terminals } = require('./index');
+const { serveForSuite } = require('./testing/server');
+const { canSandbox } = require('./execution/sandbox');
+const { RoomTerminals, TerminalError, scratchDirFor } = require('./terminal');
+
+const OPTIONS = { enabled: true, shell: 'bash', memoryMb: 512, scratchDir, scrollbackChars: 1000 };
+const sandboxed = canSandbox() ? test : test.skip;
+
+// Resolves with everything written once it matches `pattern`
+function waitForOutput(subscribe, pattern) {
+  return new Promise((resolve) => {
+    let output = '';
+    subscribe((data) => {
+      output += data;
+      if (pattern.test(output)) resolve(output);
+    });
+  });
+}
+
+afterAll(() => {
+  fs.rmSync(scratchDir, { recursive: true, force: true });
+});
+
+describe('room terminals', () => {
+  let listeners;
+  let roomTerminals;
+
+  beforeEach(() => {
+    listeners = [];
+    roomTerminals = new RoomTerminals(OPTIONS, {
+      onOutput: (roomId, data) => listeners.forEach(listener => listener(data)),
+      onExit: () => {}
+    });
+  });
+
+  afterEach(() => {
+    roomTerminals.killAll();
+  });
+
+  test('nothing starts while the terminal is disabled', () => {
+    const disabled = new RoomTerminals({ ...OPTIONS, enabled: false }, { onOutput() {}, onExit() {} });
+
+    expect(() => disabled.start('room')).toThrow(TerminalError);
+    expect(disabled.describe('room')).toMatchObject({ enabled: false, running: false });
+  });
+
+  test('nothing starts where the shell cannot be sandboxed', () => {
+    let UnsandboxedTerminals;
+    jest.isolateModules(() => {
+      jest.doMock('./execution/sandbox', () => ({ ...jest.requireActual('./execution/sandbox'), canSandbox: () => false }));
+      ({ RoomTerminals: UnsandboxedTerminals } = require('./terminal'));
+    });
+    jest.dontMock('./execution/sandbox');
+    const unsandboxed = new UnsandboxedTerminals(OPTIONS, { onOutput() {}, onExit() {} });
+
+    expect(() => unsandboxed.start('room')).toThrow('cannot sandbox');
+    expect(unsandboxed.describe('room')).toMatchObject({ enabled: false, running: false });
+  });
+
+  sandboxed('without node-pty starting a terminal is refused instead of crashing', () => {
+    jest.doMock('node-pty', () => { throw new Error("Cannot find module 'node-pty'"); });
+    try {
+      expect(() => roomTerminals.start('room')).toThrow(TerminalError);
+      expect(roomTerminals.describe('room')).toMatchObject({ enabled: true, running: false });
+    } finally {
+      jest.dontMock('node-pty');
+    }
+  });
+
+  sandboxed("the shell only sees and writes its home, not the server's files", async () => {
+    roomTerminals.start('room', { cols: 100, rows: 30 });
+    const output = waitForOutput(listener => listeners.push(listener), /done\r?\n[\s\S]*\$ $/);
+    // Quotes keep the echoed command line from matching what it prints
+    roomTerminals.write('room', [
+      'pwd',
+      `test -e ${JSON.stringify(__filename)} || echo 'hid''den'`,
+      "touch /usr/escaped 2>/dev/null || echo 'read''-only'",
+      "touch own.txt && echo 'wr''ote'",
+      "echo 'do''ne'\r"
+    ].join('; '));
+
+    const text = await output;
+    expect(text).toMatch(/\/sandbox\r?\n/);
+    expect(text).toMatch(/hidden\r?\n/);
+    expect(text).toMatch(/read-only\r?\n/);
+    expect(text).toMatch(/wrote\r?\n/);
+    expect(fs.existsSync(path.join(scratchDirFor(scratchDir, 'room'), 'home', 'own.txt'))).toBe(true);
+    expect(roomTerminals.describe('room')).toMatchObject({ running: true, cols: 100, rows: 30 });
+  });
+
+  sandboxed('sizes are clamped and killing cleans up the scratch directory', () => {
+    roomTerminals.start('room', { cols: 10000, rows: 'tall' });
+    expect(roomTerminals.describe('room')).toMatchObject({ cols: 500, rows: 24 });
+
+    roomTerminals.kill('room', { cleanUp: true });
+    expect(roomTerminals.describe('room').running).toBe(false);
+    expect(fs.existsSync(scratchDirFor(scratchDir, 'room'))).toBe(false);
+  });
+});
+
+describe('shared terminal over sockets', () => {
+  const { connect } = serveForSuite();
+  const join = (socket, roomId) => new Promise((resolve) => {
+    socket.once('room-joined', resolve);
+    socket.emit('join-room', { roomId, userName: 'tester' });
+  });
+  const attach = socket => new Promise((resolve) => {
+    socket.once('terminal-state', resolve);
+    socket.emit('terminal-attach');
+  });
+
+  sandboxed('input from one member is seen by everyone and the shell dies with the room', async () => {
+    const typist = connect();
+    const watcher = connect();
+
+    try {
+      const room = await join(typist, 'terminal-room');
+      expect(room.terminalEnabled).toBe(true);
+      await join(watcher, 'terminal-room');
+      expect(await attach(typist)).toMatchObject({ enabled: true, running: false });
+      await attach(watcher);
+
+      const started = new Promise(resolve => watcher.once('terminal-state', resolve));
+      typist.emit('terminal-start', { cols: 90, rows: 20 });
+      expect(await started).toMatchObject({ running: true, cols: 90, rows: 20 });
+
+      const seen = waitForOutput(listener => watcher.on('terminal-output', ({ data }) => listener(data)), /42/);
+      typist.emit('terminal-input', { data: 'echo $((6 * 7))\r' });
+      await seen;
+
+      // Opening the panel later replays the scrollback
+      const late = connect();
+      try {
+        await join(late, 'terminal-room');
+        expect((await attach(late)).scrollback).toMatch(/42/);
+      } finally {
+        late.close();
+      }
+    } finally {
+      typist.close();
+      watcher.close();
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(terminals.describe('terminal-room').running).toBe(false);
+    expect(fs.existsSync(scratchDirFor(scratchDir, 'terminal-room'))).toBe(false);
+  });
+});
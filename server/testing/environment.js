@@ -0,0 +1,3 @@
+// Settings for every test suite, applied before any server module reads its
+// config. Rooms stay in memory so tests never write to the data directory.
+process.env.ROOM_STORAGE = 'memory';
@@ -0,0 +1,23 @@
+const { applyOperations } = require('../../shared/events');
+
+// Decoded operations, as the server holds them once a batch is accepted
+const insert = (position, content) => ({ type: 'insert', position, content, length: content.length });
+const remove = (position, length) => ({ type: 'delete', position, content: '', length });
+
+// Append an edit to a file's log the way a commit does, and return its entry
+function commit(file, operations, { userId, submissionId = 'sub', timestamp } = {}) {
+  file.content = applyOperations(file.content, operations);
+  file.revision += 1;
+  const entry = {
+    fileId: file.id,
+    submissionId,
+    revision: file.revision,
+    operations,
+    userId,
+    timestamp: timestamp ?? file.revision
+  };
+  file.operations.push(entry);
+  return entry;
+}
+
+module.exports = { insert, remove, commit };
@@ -0,0 +1,33 @@
+const { io: connectClient } = require('socket.io-client');
+const { server, io } = require('../index');
+
+// Run the app's server on a free port for the suite this is called in, with
+// the given console methods silenced, and close it when the suite is done.
+// Returns the server's `url` (once the suite has started) and `connect()`,
+// which opens a new client connection to it.
+function serveForSuite({ silence = ['log'] } = {}) {
+  let url;
+
+  beforeAll((done) => {
+    for (const method of silence) {
+      jest.spyOn(console, method).mockImplementation(() => {});
+    }
+    server.listen(0, () => {
+      url = `http://localhost:${server.address().port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    io.close(() => done());
+  });
+
+  return {
+    get url() {
+      return url;
+    },
+    connect: () => connectClient(url, { transports: ['websocket'], forceNew: true })
+  };
+}
+
+module.exports = { serveForSuite };
@@ -0,0 +1,156 @@
+const { io } = require('socket.io-client');
+const {
+  transform,
+  applyOperations,
+  encodeOperations,
+  decodeOperations,
+  normalizeOperations
+} = require('../../shared/events');
+
+// Deterministic PRNG so a failing fuzz run can be replayed from its seed
+function createRandom(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A headless stand-in for CodeEditor + OTClient. Traffic in each direction
+// goes through its own FIFO with random per-message latency, so ordering
+// on one connection is kept while clients interleave unpredictably.
+class SimulatedClient {
+  constructor(url, { name, random, maxLatency = 20 }) {
+    this.name = name;
+    this.random = random;
+    this.maxLatency = maxLatency;
+    this.fileId = null;
+    this.content = '';
+    this.revision = 0;
+    this.inflight = null;
+    this.buffer = null;
+    this.inbox = Promise.resolve();
+    this.outbox = Promise.resolve();
+    this.socket = io(url, { transports: ['websocket'], forceNew: true });
+
+    this.socket.on('document-operation', (entry) => {
+      this.receive(() => this.applyRemote(entry.revision, decodeOperations(entry.operations)));
+    });
+    this.socket.on('operation-ack', ({ revision }) => {
+      this.receive(() => this.acknowledge(revision));
+    });
+    this.socket.on('document-sync', (sync) => {
+      this.receive(() => {
+        throw new Error(`${this.name} was resynced at revision ${sync.revision}`);
+      });
+    });
+  }
+
+  latency() {
+    return Math.floor(this.random() * this.maxLatency);
+  }
+
+  receive(handler) {
+    this.inbox = this.inbox.then(() => delay(this.latency())).then(handler);
+  }
+
+  send(revision, operations) {
+    const encoded = encodeOperations(operations);
+    this.outbox = this.outbox
+      .then(() => delay(this.latency()))
+      .then(() => this.socket.emit('document-operation', {
+        fileId: this.fileId,
+        revision,
+        operations: encoded
+      }));
+  }
+
+  // Joins the room and edits its first file
+  join(roomId) {
+    return new Promise((resolve) => {
+      this.socket.once('room-joined', (room) => {
+        const file = room.files.find(node => node.type === 'file');
+        this.fileId = file.id;
+        this.content = file.content;
+        this.revision = file.revision;
+        resolve(room);
+      });
+      this.socket.emit('join-room', { roomId, userName: this.name });
+    });
+  }
+
+  // Make a random insert or delete against the local document
+  edit() {
+    const { content, random } = this;
+    let operation;
+
+    if (content.length === 0 || random() < 0.6) {
+      const text = random().toString(36).slice(2, 2 + 1 + Math.floor(random() * 4));
+      operation = {
+        type: 'insert',
+        position: Math.floor(random() * (content.length + 1)),
+        content: text,
+        length: text.length
+      };
+    } else {
+      const position = Math.floor(random() * content.length);
+      operation = {
+        type: 'delete',
+        position,
+        content: '',
+        length: 1 + Math.floor(random() * Math.min(5, content.length - position))
+      };
+    }
+
+    this.content = applyOperations(this.content, [operation]);
+
+    if (this.inflight === null) {
+      this.inflight = normalizeOperations([operation]);
+      this.send(this.revision, this.inflight);
+    } else {
+      this.buffer = (this.buffer || []).concat(operation);
+    }
+  }
+
+  applyRemote(revision, operations) {
+    let remote = operations;
+    if (this.inflight !== null) {
+      [this.inflight, remote] = transform(this.inflight, remote);
+    }
+    if (this.buffer !== null) {
+      [this.buffer, remote] = transform(this.buffer, remote);
+    }
+    this.content = applyOperations(this.content, remote);
+    this.revision = revision;
+  }
+
+  acknowledge(revision) {
+    this.revision = revision;
+    this.inflight = this.buffer && normalizeOperations(this.buffer);
+    this.buffer = null;
+    if (this.inflight !== null) {
+      this.send(this.revision, this.inflight);
+    }
+  }
+
+  isSettled(revision) {
+    return this.inflight === null && this.buffer === null && this.revision === revision;
+  }
+
+  // Resolves once all queued traffic has been processed; rejects if any
+  // handler threw
+  drain() {
+    return Promise.all([this.inbox, this.outbox]);
+  }
+
+  close() {
+    this.socket.close();
+  }
+}
+
+module.exports = { SimulatedClient, createRandom, delay };
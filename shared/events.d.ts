@@ -0,0 +1,706 @@
+// Types of the Socket.io events exchanged by the client and the server: the
+// payloads, and the events themselves as maps from name to listener for
+// Socket.io's typed sockets. The schemas clients' payloads are checked
+// against are in events.js.
+
+export interface Cursor {
+  line: number;
+  column: number;
+  // File the cursor is in; null before the user has focused any file
+  fileId: string | null;
+  // Character offsets of the caret and of the other end of the selection
+  // (equal when nothing is selected) as of `revision`
+  offset: number;
+  anchor: number;
+  // The part of the file on screen, so followers can show the same region
+  viewport: VisibleRange | null;
+  revision: number;
+}
+
+// Character offsets of the first and last visible text
+export interface Viewport {
+  start: number;
+  end: number;
+}
+
+// A viewport as the server reports it, with the 1-based lines it spans
+export interface VisibleRange extends Viewport {
+  startLine: number;
+  endLine: number;
+}
+
+// What a client reports about its own cursor; the server fills in the rest
+export type CursorUpdate = Pick<Cursor, 'fileId' | 'offset' | 'anchor' | 'revision'> & {
+  viewport: Viewport | null;
+};
+
+// Whether someone is at the keyboard: idle after a while without input,
+// away while their tab is hidden
+export type PresenceStatus = 'active' | 'idle' | 'away';
+
+export interface Presence {
+  status: PresenceStatus;
+  // Where they are typing right now, if anywhere
+  typing: 'editor' | 'chat' | null;
+}
+
+export type Role = 'owner' | 'editor' | 'viewer';
+
+export interface User {
+  id: string;
+  name: string;
+  color: string;
+  cursor: Cursor;
+  presence: Presence;
+  role: Role;
+  joinedAt: Date;
+}
+
+// A node in the room's file tree. Files carry their content and OT revision
+// as of when the node was sent; folders only have a name and a parent.
+export interface FileNode {
+  id: string;
+  name: string;
+  parentId: string | null;
+  type: 'file' | 'folder';
+  content?: string;
+  language?: string;
+  revision?: number;
+}
+
+export interface Room {
+  id: string;
+  name: string;
+  userCount: number;
+  users: User[];
+  files: FileNode[];
+  lastActivity: Date;
+}
+
+export interface InviteSummary {
+  id: string;
+  role: Exclude<Role, 'owner'>;
+  expiresAt: number;
+  maxUses: number | null;
+  uses: number;
+  createdBy: string;
+  createdAt: number;
+}
+
+export interface RoomAccess {
+  hasPassword: boolean;
+  inviteOnly: boolean;
+  // Only present right after an owner regenerated it
+  inviteToken?: string;
+  // Active invite links; only sent to owners
+  invites?: InviteSummary[];
+}
+
+export interface InviteRequest {
+  role: InviteSummary['role'];
+  expiresInMs: number;
+  maxUses: number | null;
+}
+
+// A freshly signed invite link token; it is not sent again later
+export interface InviteCreated {
+  invite: InviteSummary;
+  token: string;
+}
+
+// What the joining user receives: the room plus their own role and the
+// token that identifies them as the same member when they come back
+export interface JoinedRoom extends Room {
+  role: Role;
+  memberToken: string;
+  access: RoomAccess;
+  // Recent and ongoing code runs, with their output so far
+  runs: CodeRun[];
+  // Whether the server offers the shared terminal at all
+  terminalEnabled: boolean;
+  comments: CommentThread[];
+  // The latest chat messages; older ones are fetched a page at a time
+  chatHistory: ChatHistoryPage;
+  // The owner everyone has been asked to follow
+  presenterId: string | null;
+  limits: RoomLimits;
+}
+
+// What the server accepts, so the client can stay within it
+export interface RoomLimits {
+  // Most text one batch of edits may add
+  maxOperationChars: number;
+  maxDocumentChars: number;
+  maxChatMessageChars: number;
+}
+
+export interface PresenterUpdate {
+  presenterId: string | null;
+}
+
+export interface PresenceUpdate {
+  userId: string;
+  presence: Presence;
+}
+
+export interface JoinError {
+  roomId: string;
+  message: string;
+  reason:
+    | 'password-required'
+    | 'invalid-password'
+    | 'invite-required'
+    | 'invite-revoked'
+    | 'invite-expired'
+    | 'invite-used-up';
+}
+
+export interface PermissionDenied {
+  action: string;
+  message: string;
+}
+
+export interface Kicked {
+  roomId: string;
+  by: string;
+}
+
+// Another server process took over sequencing the room; join it again to
+// carry on where we left off
+export interface RoomMoved {
+  roomId: string;
+}
+
+export interface RoomAccessUpdate {
+  // A string sets the password, null removes it
+  password?: string | null;
+  inviteOnly?: boolean;
+  regenerateInvite?: boolean;
+}
+
+export interface FileDeleted {
+  fileIds: string[];
+}
+
+export interface FileError {
+  message: string;
+}
+
+// A single insert or delete. A batch of them is applied one after the other.
+export interface TextOperation {
+  type: 'insert' | 'delete';
+  position: number;
+  content: string;
+  length: number;
+}
+
+// A batch of edits as sent over the wire: characters to keep (positive),
+// to delete (negative) or text to insert, in one pass over the document
+export type OperationComponent = number | string;
+export type EncodedOperations = OperationComponent[];
+
+// A batch of edits made against a known file revision. The id lets the
+// client recognise its own batch when replaying missed operations
+export interface OperationSubmission {
+  fileId: string;
+  id: string;
+  revision: number;
+  operations: EncodedOperations;
+}
+
+// A batch the server has committed; `revision` is the document revision it produced
+export interface RevisionedOperation {
+  fileId: string;
+  submissionId?: string;
+  revision: number;
+  operations: EncodedOperations;
+  userId: string;
+  userName: string;
+  // Missing on operations made before authors' colours were recorded
+  userColor?: string;
+  timestamp: number;
+}
+
+export interface OperationAck {
+  fileId: string;
+  revision: number;
+}
+
+export interface DocumentCatchup {
+  fileId: string;
+  operations: RevisionedOperation[];
+}
+
+export interface DocumentSync {
+  fileId: string;
+  content: string;
+  language: string;
+  revision: number;
+  // Set when the client was only too far behind: it keeps its pending edits
+  // and rebases them onto `content`. `committed` says the batch it had in
+  // flight is already part of it. Without this its edits were refused.
+  rebase?: { committed: boolean };
+}
+
+export interface SnapshotSummary {
+  id: string;
+  fileId: string;
+  fileName: string;
+  name: string;
+  language: string;
+  revision: number;
+  createdBy: string | null;
+  auto: boolean;
+  createdAt: Date;
+  size: number;
+}
+
+export interface SnapshotRestored {
+  snapshotId: string;
+  userName: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  userId: string;
+  userName: string;
+  userColor: string;
+  content: string;
+  timestamp: Date;
+  // Lines of a file shared with the message
+  reference?: CodeReference | null;
+  // Set on replies from the AI assistant
+  bot?: boolean;
+  pending?: boolean;
+  error?: boolean;
+  replyTo?: string;
+  context?: AssistantContext | null;
+}
+
+// The code an assistant reply is about; "apply to editor" replaces the
+// selection, or the whole file when nothing was selected
+export interface AssistantContext {
+  fileId: string;
+  fileName: string;
+  selection: {
+    start: number;
+    end: number;
+    text: string;
+  } | null;
+}
+
+// Where shared code came from, as line numbers when it was shared
+export interface CodeReference {
+  fileId: string;
+  fileName: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface ChatMessageChunk {
+  id: string;
+  text: string;
+}
+
+// Messages oldest first, and whether there are earlier ones
+export interface ChatHistoryPage {
+  messages: ChatMessage[];
+  hasMore: boolean;
+}
+
+// A page of earlier messages; `before` is the message it ends at
+export interface ChatHistory extends ChatHistoryPage {
+  before: string | null;
+}
+
+// Matching messages, newest first
+export interface ChatSearchResults {
+  query: string;
+  messages: ChatMessage[];
+}
+
+export interface ChatError {
+  message: string;
+}
+
+export interface CursorPosition {
+  userId: string;
+  userName: string;
+  color: string;
+  cursor: Cursor;
+}
+
+// Ask for a completion at a caret offset in a file, as of `revision`
+export interface AIAssistanceRequest {
+  requestId: string;
+  fileId: string;
+  offset: number;
+  revision: number;
+  // Inline suggestions only need the finished text, not the chunks
+  stream?: boolean;
+}
+
+export interface AISuggestionChunk {
+  requestId: string;
+  fileId: string;
+  text: string;
+}
+
+// The finished suggestion; `position.offset` is where to insert it in the
+// server's document at `revision`
+export interface AIAssistanceResponse {
+  requestId: string;
+  fileId: string;
+  suggestion: string;
+  position: {
+    offset: number;
+    line: number;
+    column: number;
+  };
+  revision: number;
+}
+
+export interface AIError {
+  requestId: string;
+  message: string;
+}
+
+export type RunStream = 'stdout' | 'stderr';
+
+export interface RunOutput {
+  stream: RunStream;
+  text: string;
+}
+
+// A program run on the server for the room; `reason` says why it was
+// stopped early
+export interface CodeRun {
+  id: string;
+  fileId: string;
+  fileName: string;
+  language: string;
+  userId: string;
+  userName: string;
+  status: 'queued' | 'running' | 'finished' | 'failed' | 'cancelled';
+  exitCode: number | null;
+  signal: string | null;
+  reason: 'timeout' | 'output-limit' | 'cancelled' | null;
+  durationMs: number | null;
+  requestedAt: number;
+  // Only sent when joining; afterwards it arrives as RunOutputChunk events
+  output?: RunOutput[];
+}
+
+export interface RunOutputChunk extends RunOutput {
+  runId: string;
+}
+
+export interface RunRequest {
+  fileId: string;
+  // Fed to the program when it starts
+  stdin?: string;
+}
+
+export interface RunInput {
+  runId: string;
+  text?: string;
+  // Close the program's stdin
+  end?: boolean;
+}
+
+export interface RunError {
+  message: string;
+}
+
+export interface TerminalSize {
+  cols: number;
+  rows: number;
+}
+
+// Sent when the terminal panel is opened and whenever the shell starts
+export interface TerminalState extends TerminalSize {
+  enabled: boolean;
+  running: boolean;
+  // Recent output, to draw the screen as others see it
+  scrollback: string;
+}
+
+export interface TerminalOutput {
+  data: string;
+}
+
+export interface TerminalExit {
+  exitCode: number | null;
+  signal: string | null;
+}
+
+export interface TerminalError {
+  message: string;
+}
+
+export interface ReviewComment {
+  id: string;
+  authorName: string;
+  authorColor: string;
+  content: string;
+  createdAt: Date;
+}
+
+// A discussion anchored to a range of a file. `start` and `end` are offsets
+// into the file as the server last sent it; the editor keeps them in step
+// with later edits. `quote` is the code as it was when the thread started.
+export interface CommentThread {
+  id: string;
+  fileId: string;
+  start: number;
+  end: number;
+  quote: string;
+  resolved: boolean;
+  resolvedBy: string | null;
+  createdAt: Date;
+  comments: ReviewComment[];
+}
+
+// Start a thread on a selection, as of the revision the client has seen
+export interface CommentRequest {
+  fileId: string;
+  start: number;
+  end: number;
+  revision: number;
+  content: string;
+}
+
+export interface CommentReply {
+  threadId: string;
+  content: string;
+}
+
+export interface CommentResolve {
+  threadId: string;
+  resolved: boolean;
+}
+
+export interface CommentError {
+  message: string;
+}
+
+export interface RoomJoinData {
+  roomId: string;
+  userName: string;
+  // Identifies a returning member; newcomers may need a password or invite token
+  memberToken?: string;
+  password?: string;
+  inviteToken?: string;
+  // Last revision seen per file, sent when rejoining after a dropped connection
+  revisions?: Record<string, number>;
+  // Id of the batch still awaiting its ack, for files that have one
+  pending?: Record<string, string>;
+}
+
+export interface LanguageChangeData {
+  fileId: string;
+  language: string;
+}
+
+// Payloads of client requests that only name what they act on
+export interface FileCreate {
+  parentId: string | null;
+  name: string;
+  type: FileNode['type'];
+}
+
+export interface FileRename {
+  fileId: string;
+  name: string;
+}
+
+export interface FileMove {
+  fileId: string;
+  parentId: string | null;
+}
+
+export interface FileRef {
+  fileId: string;
+}
+
+export interface SnapshotCreate {
+  fileId: string;
+  name: string;
+}
+
+export interface SnapshotRestore {
+  snapshotId: string;
+}
+
+export interface CursorMove {
+  cursor: CursorUpdate;
+}
+
+// Messages are Markdown; shared code says where in the room it is from.
+// The server fills in the file name.
+export interface ChatMessageRequest {
+  message: string;
+  reference?: Omit<CodeReference, 'fileName'> | null;
+}
+
+export interface ChatHistoryRequest {
+  before: string | null;
+}
+
+export interface ChatSearch {
+  query: string;
+}
+
+export interface RoleChange {
+  userId: string;
+  role: Exclude<Role, 'owner'>;
+}
+
+export interface UserRef {
+  userId: string;
+}
+
+export interface InviteRevoke {
+  inviteId: string;
+}
+
+export interface AICancel {
+  requestId: string;
+}
+
+export interface RunRef {
+  runId: string;
+}
+
+export interface TerminalInput {
+  data: string;
+}
+
+export type EventErrorCode =
+  | 'invalid-payload'
+  | 'not-in-room'
+  | 'not-found'
+  | 'invalid-request'
+  | 'rate-limited'
+  | 'too-large'
+  | 'server-error';
+
+// Why the server did not act on an event a client sent. Problems specific to
+// a feature (a chat message that is too long, a role that does not allow
+// something) have events of their own, like `chat-error`.
+export interface EventError {
+  event: string;
+  code: EventErrorCode;
+  message: string;
+}
+
+export interface ClientToServerEvents {
+  'join-room': (data: RoomJoinData) => void;
+  'document-operation': (submission: OperationSubmission) => void;
+  'file-create': (data: FileCreate) => void;
+  'file-rename': (data: FileRename) => void;
+  'file-move': (data: FileMove) => void;
+  'file-delete': (data: FileRef) => void;
+  'snapshot-create': (data: SnapshotCreate) => void;
+  'snapshot-restore': (data: SnapshotRestore) => void;
+  'cursor-position': (data: CursorMove) => void;
+  'presence-update': (presence: Presence) => void;
+  'presenter-start': () => void;
+  'presenter-stop': () => void;
+  'comment-create': (request: CommentRequest) => void;
+  'comment-reply': (reply: CommentReply) => void;
+  'comment-resolve': (resolve: CommentResolve) => void;
+  'language-change': (data: LanguageChangeData) => void;
+  'chat-message': (request: ChatMessageRequest) => void;
+  'chat-history': (request: ChatHistoryRequest) => void;
+  'chat-search': (search: ChatSearch) => void;
+  'user-role-change': (change: RoleChange) => void;
+  'user-kick': (data: UserRef) => void;
+  'room-access-update': (update: RoomAccessUpdate) => void;
+  'invite-create': (request: InviteRequest) => void;
+  'invite-revoke': (data: InviteRevoke) => void;
+  'ai-assistance': (request: AIAssistanceRequest) => void;
+  'ai-cancel': (data: AICancel) => void;
+  'run-code': (request: RunRequest) => void;
+  'run-input': (input: RunInput) => void;
+  'run-cancel': (data: RunRef) => void;
+  'terminal-attach': () => void;
+  'terminal-detach': () => void;
+  'terminal-start': (size: TerminalSize) => void;
+  'terminal-input': (input: TerminalInput) => void;
+  'terminal-resize': (size: TerminalSize) => void;
+  'terminal-kill': () => void;
+}
+
+export interface ServerToClientEvents {
+  'error': (error: EventError) => void;
+  'room-joined': (room: JoinedRoom) => void;
+  'join-error': (error: JoinError) => void;
+  'user-joined': (user: User) => void;
+  'user-left': (user: User) => void;
+  'user-updated': (user: User) => void;
+  'permission-denied': (data: PermissionDenied) => void;
+  'kicked': (data: Kicked) => void;
+  'room-moved': (data: RoomMoved) => void;
+  'room-access': (access: RoomAccess) => void;
+  'invite-created': (data: InviteCreated) => void;
+  'document-operation': (operation: RevisionedOperation) => void;
+  'operation-ack': (ack: OperationAck) => void;
+  'document-sync': (sync: DocumentSync) => void;
+  'document-catchup': (catchup: DocumentCatchup) => void;
+  'file-created': (file: FileNode) => void;
+  'file-updated': (file: FileNode) => void;
+  'file-deleted': (data: FileDeleted) => void;
+  'file-error': (error: FileError) => void;
+  'snapshot-created': (snapshot: SnapshotSummary) => void;
+  'snapshot-restored': (data: SnapshotRestored) => void;
+  'cursor-position': (position: CursorPosition) => void;
+  'presence-update': (update: PresenceUpdate) => void;
+  'presenter-update': (update: PresenterUpdate) => void;
+  'language-change': (data: LanguageChangeData) => void;
+  'chat-message': (message: ChatMessage) => void;
+  'chat-message-chunk': (chunk: ChatMessageChunk) => void;
+  'chat-message-update': (message: ChatMessage) => void;
+  'chat-history': (history: ChatHistory) => void;
+  'chat-search-results': (results: ChatSearchResults) => void;
+  'chat-error': (error: ChatError) => void;
+  'comment-thread': (thread: CommentThread) => void;
+  'comment-error': (error: CommentError) => void;
+  'ai-suggestion': (response: AIAssistanceResponse) => void;
+  'ai-suggestion-chunk': (chunk: AISuggestionChunk) => void;
+  'ai-error': (error: AIError) => void;
+  'run-update': (run: CodeRun) => void;
+  'run-output': (chunk: RunOutputChunk) => void;
+  'run-error': (error: RunError) => void;
+  'terminal-state': (state: TerminalState) => void;
+  'terminal-output': (output: TerminalOutput) => void;
+  'terminal-exit': (exit: TerminalExit) => void;
+  'terminal-resize': (size: TerminalSize) => void;
+  'terminal-error': (error: TerminalError) => void;
+}
+
+// Runtime exports of events.js
+
+// Says what is wrong with a value found at `path`, or returns null
+export type PayloadCheck = (value: unknown, path: string) => string | null;
+
+export declare const EVENT_ERROR_CODES: readonly EventErrorCode[];
+export declare const MAX_TERMINAL_INPUT: number;
+export declare const clientEventSchemas: { readonly [E in keyof ClientToServerEvents]: PayloadCheck };
+export declare function validatePayload(event: string, payload: unknown): string | null;
+export declare function encodeOperations(operations: TextOperation[]): EncodedOperations;
+// Null when the encoding is malformed
+export declare function decodeOperations(components: EncodedOperations): TextOperation[] | null;
+export declare function normalizeOperations(operations: TextOperation[]): TextOperation[];
+// Returns [aPrime, bPrime] for two concurrent batches; whoever sent theirs
+// to the server is always `a`, so ties resolve the same everywhere
+export declare function transform(a: TextOperation[], b: TextOperation[]): [TextOperation[], TextOperation[]];
+// Throws a RangeError when an operation does not fit the text
+export declare function applyOperation(content: string, operation: TextOperation): string;
+export declare function applyOperations(content: string, operations: TextOperation[]): string;
+export declare function transformOffset(offset: number, operations: TextOperation[]): number;
+export declare function transformRange(
+  range: { start: number; end: number },
+  operations: TextOperation[]
+): { start: number; end: number };
+export declare function diffToOperations(from: string, to: string): TextOperation[];
@@ -0,0 +1,254 @@
+// The Socket.io events exchanged by the client and the server. The payload
+// types live in events.d.ts; this file holds what has to exist at runtime:
+// a schema for every event a client may send, so the server can reject a
+// malformed payload before acting on it. Edits go over the wire in a compact
+// encoding, which lives in operations.js, and are transformed by ot.js; both
+// are exported from here too.
+//
+// Schemas only check the shape of a payload. Rules that depend on the room
+// (does the file exist, may this user do that) are left to the server.
+
+const { encodeOperations, decodeOperations, normalizeOperations } = require('./operations');
+const {
+  transform,
+  applyOperation,
+  applyOperations,
+  transformOffset,
+  transformRange,
+  diffToOperations
+} = require('./ot');
+
+// A check takes a value and the path it was found at, and says what is
+// wrong with it, or returns null when it is fine
+const string = ({ max = Infinity, nonEmpty = false } = {}) => (value, path) => {
+  if (typeof value !== 'string') return `${path} must be a string`;
+  if (nonEmpty && !value) return `${path} must not be empty`;
+  if (value.length > max) return `${path} must be at most ${max} characters`;
+  return null;
+};
+
+const integer = ({ min = 0, max = Number.MAX_SAFE_INTEGER } = {}) => (value, path) => {
+  if (!Number.isInteger(value)) return `${path} must be a whole number`;
+  if (value < min || value > max) return `${path} must be between ${min} and ${max}`;
+  return null;
+};
+
+const boolean = () => (value, path) =>
+  typeof value === 'boolean' ? null : `${path} must be true or false`;
+
+const oneOf = (...values) => (value, path) =>
+  values.includes(value) ? null : `${path} must be one of ${values.map(v => JSON.stringify(v)).join(', ')}`;
+
+const optional = check => (value, path) => value === undefined ? null : check(value, path);
+
+const nullable = check => (value, path) => value === null ? null : check(value, path);
+
+const isPlainObject = value => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const array = (item, { max = Infinity } = {}) => (value, path) => {
+  if (!Array.isArray(value)) return `${path} must be a list`;
+  if (value.length > max) return `${path} must have at most ${max} entries`;
+  for (let i = 0; i < value.length; i++) {
+    const problem = item(value[i], `${path}[${i}]`);
+    if (problem) return problem;
+  }
+  return null;
+};
+
+// Keys not in the shape are allowed and ignored
+const object = shape => (value, path) => {
+  if (!isPlainObject(value)) return `${path} must be an object`;
+  for (const [key, check] of Object.entries(shape)) {
+    const problem = check(value[key], `${path}.${key}`);
+    if (problem) return problem;
+  }
+  return null;
+};
+
+const record = (check, { max = Infinity } = {}) => (value, path) => {
+  if (!isPlainObject(value)) return `${path} must be an object`;
+  const entries = Object.entries(value);
+  if (entries.length > max) return `${path} must have at most ${max} entries`;
+  for (const [key, entry] of entries) {
+    const problem = check(entry, `${path}.${key}`);
+    if (problem) return problem;
+  }
+  return null;
+};
+
+// Events without a payload accept whatever comes along
+const anything = () => () => null;
+
+// Ids are generated by the server (or by clients, for their own requests)
+const id = () => string({ max: 100, nonEmpty: true });
+
+const offset = () => integer();
+
+// A step of an encoded batch of edits (see operations.js): characters to
+// keep or delete, or text to insert
+const operationComponent = () => (value, path) => {
+  if (typeof value === 'string') return value ? null : `${path} must not be empty`;
+  if (!Number.isSafeInteger(value) || value === 0) return `${path} must be text or a non-zero whole number`;
+  return null;
+};
+
+const terminalSize = object({
+  cols: optional(integer({ max: 1000 })),
+  rows: optional(integer({ max: 1000 }))
+});
+
+const viewport = object({ start: offset(), end: offset() });
+
+// Most text one terminal-input may carry; clients split longer pastes
+const MAX_TERMINAL_INPUT = 4096;
+
+const clientEventSchemas = {
+  'join-room': object({
+    roomId: id(),
+    userName: optional(string({ max: 200 })),
+    memberToken: optional(string({ max: 500 })),
+    password: optional(string({ max: 500 })),
+    inviteToken: optional(string({ max: 2000 })),
+    revisions: optional(record(integer(), { max: 1000 })),
+    pending: optional(record(id(), { max: 1000 }))
+  }),
+  'document-operation': object({
+    fileId: id(),
+    id: optional(id()),
+    revision: integer(),
+    operations: array(operationComponent(), { max: 10000 })
+  }),
+
+  'file-create': object({
+    parentId: optional(nullable(id())),
+    name: string({ max: 255 }),
+    type: oneOf('file', 'folder')
+  }),
+  'file-rename': object({ fileId: id(), name: string({ max: 255 }) }),
+  'file-move': object({ fileId: id(), parentId: optional(nullable(id())) }),
+  'file-delete': object({ fileId: id() }),
+
+  'snapshot-create': object({ fileId: id(), name: optional(string({ max: 1000 })) }),
+  'snapshot-restore': object({ snapshotId: id() }),
+
+  'cursor-position': object({
+    cursor: object({
+      fileId: nullable(id()),
+      offset: offset(),
+      anchor: optional(offset()),
+      revision: optional(integer()),
+      viewport: optional(nullable(viewport))
+    })
+  }),
+  'presence-update': object({
+    status: oneOf('active', 'idle', 'away'),
+    typing: optional(nullable(oneOf('editor', 'chat')))
+  }),
+  'presenter-start': anything(),
+  'presenter-stop': anything(),
+
+  'comment-create': object({
+    fileId: id(),
+    start: offset(),
+    end: offset(),
+    revision: optional(integer()),
+    content: string()
+  }),
+  'comment-reply': object({ threadId: id(), content: string() }),
+  'comment-resolve': object({ threadId: id(), resolved: optional(boolean()) }),
+
+  'language-change': object({ fileId: id(), language: string({ max: 50, nonEmpty: true }) }),
+
+  'chat-message': object({
+    message: string(),
+    reference: optional(nullable(object({
+      fileId: id(),
+      startLine: integer({ min: 1 }),
+      endLine: integer({ min: 1 })
+    })))
+  }),
+  'chat-history': object({ before: optional(nullable(id())) }),
+  'chat-search': object({ query: string() }),
+
+  'user-role-change': object({ userId: id(), role: oneOf('editor', 'viewer') }),
+  'user-kick': object({ userId: id() }),
+  'room-access-update': object({
+    password: optional(nullable(string({ max: 500 }))),
+    inviteOnly: optional(boolean()),
+    regenerateInvite: optional(boolean())
+  }),
+  'invite-create': object({
+    role: oneOf('editor', 'viewer'),
+    expiresInMs: optional(integer()),
+    maxUses: optional(nullable(integer({ min: 1 })))
+  }),
+  'invite-revoke': object({ inviteId: id() }),
+
+  'ai-assistance': object({
+    requestId: optional(id()),
+    fileId: id(),
+    offset: offset(),
+    revision: optional(integer()),
+    stream: optional(boolean())
+  }),
+  'ai-cancel': object({ requestId: id() }),
+
+  'run-code': object({ fileId: id(), stdin: optional(string({ max: 100000 })) }),
+  'run-input': object({
+    runId: id(),
+    text: optional(string({ max: 100000 })),
+    end: optional(boolean())
+  }),
+  'run-cancel': object({ runId: id() }),
+
+  'terminal-attach': anything(),
+  'terminal-detach': anything(),
+  'terminal-start': terminalSize,
+  'terminal-input': object({ data: string({ max: MAX_TERMINAL_INPUT }) }),
+  'terminal-resize': terminalSize,
+  'terminal-kill': anything()
+};
+
+// What went wrong with a client event, as sent back in an `error` event:
+// - invalid-payload: the payload does not match the event's schema
+// - not-in-room: the event needs the sender to have joined a room
+// - not-found: what the event refers to is gone, e.g. a deleted file
+// - invalid-request: well-formed, but not something that can be done
+// - rate-limited: the sender is sending this event too often
+// - too-large: an edit adds more text than allowed, or makes a file too big
+// - server-error: the server failed to handle it
+const EVENT_ERROR_CODES = [
+  'invalid-payload',
+  'not-in-room',
+  'not-found',
+  'invalid-request',
+  'rate-limited',
+  'too-large',
+  'server-error'
+];
+
+// Describe what is wrong with a payload a client sent with `event`, or
+// return null when it may be handled
+function validatePayload(event, payload) {
+  const check = Object.prototype.hasOwnProperty.call(clientEventSchemas, event)
+    ? clientEventSchemas[event]
+    : null;
+  if (!check) return `Unknown event ${event}`;
+  return check(payload, 'payload');
+}
+
+module.exports = {
+  EVENT_ERROR_CODES,
+  MAX_TERMINAL_INPUT,
+  clientEventSchemas,
+  validatePayload,
+  encodeOperations,
+  decodeOperations,
+  normalizeOperations,
+  transform,
+  applyOperation,
+  applyOperations,
+  transformOffset,
+  transformRange,
+  diffToOperations
+};
@@ -0,0 +1,131 @@
+// Compact encoding of a batch of edits for the wire. A batch is sent as one
+// pass over the document: a positive number keeps that many characters, a
+// negative one deletes that many, and a string is inserted. Characters past
+// the last component are kept, so the batch { insert "x" at 4 } is [4, "x"].
+// Decoded, a batch is the list of single inserts and deletes, left to right,
+// that the rest of the code transforms and applies one after the other.
+
+const isDelete = component => typeof component === 'number' && component < 0;
+
+// Append a component, merging it into the last one of the same kind. An
+// insert next to a delete goes in front of it so that equal edits always
+// encode the same way.
+function push(components, component) {
+  if (component === 0 || component === '') return;
+
+  const last = components[components.length - 1];
+  if (typeof component === 'string') {
+    if (typeof last === 'string') {
+      components[components.length - 1] = last + component;
+      return;
+    }
+    if (isDelete(last)) {
+      const beforeLast = components.length - 2;
+      if (typeof components[beforeLast] === 'string') {
+        components[beforeLast] += component;
+      } else {
+        components.splice(components.length - 1, 0, component);
+      }
+      return;
+    }
+  } else if (typeof last === 'number' && Math.sign(last) === Math.sign(component)) {
+    components[components.length - 1] = last + component;
+    return;
+  }
+  components.push(component);
+}
+
+// What is left of a component once `length` characters of it are used up,
+// or undefined when nothing is
+function rest(component, length) {
+  if (typeof component === 'string') return component.slice(length) || undefined;
+  const remaining = component > 0 ? component - length : component + length;
+  return remaining === 0 ? undefined : remaining;
+}
+
+// One batch doing what `a` and then `b` do
+function compose(a, b) {
+  const result = [];
+  let i = 0;
+  let j = 0;
+  let x = a[i++];
+  let y = b[j++];
+
+  while (x !== undefined || y !== undefined) {
+    if (isDelete(x)) {
+      push(result, x);
+      x = a[i++];
+    } else if (typeof y === 'string') {
+      push(result, y);
+      y = b[j++];
+    } else if (x === undefined) {
+      push(result, y);
+      y = b[j++];
+    } else if (y === undefined) {
+      push(result, x);
+      x = a[i++];
+    } else {
+      // x keeps or inserts text that y keeps or deletes
+      const length = Math.min(typeof x === 'string' ? x.length : x, Math.abs(y));
+      if (typeof x === 'string') {
+        if (y > 0) push(result, x.slice(0, length));
+      } else {
+        push(result, y > 0 ? length : -length);
+      }
+      x = rest(x, length);
+      y = rest(y, length);
+      if (x === undefined) x = a[i++];
+      if (y === undefined) y = b[j++];
+    }
+  }
+
+  if (typeof result[result.length - 1] === 'number' && result[result.length - 1] > 0) {
+    result.pop();
+  }
+  return result;
+}
+
+function encodeOperation(op) {
+  const components = [];
+  push(components, op.position);
+  push(components, op.type === 'insert' ? op.content : -op.length);
+  return components;
+}
+
+function encodeOperations(operations) {
+  return operations.reduce((encoded, op) => compose(encoded, encodeOperation(op)), []);
+}
+
+// The inserts and deletes of an encoded batch, or null if it is malformed
+function decodeOperations(components) {
+  if (!Array.isArray(components)) return null;
+
+  const operations = [];
+  let position = 0;
+  for (const component of components) {
+    if (typeof component === 'string' && component.length > 0) {
+      operations.push({ type: 'insert', position, content: component, length: component.length });
+      position += component.length;
+    } else if (Number.isSafeInteger(component) && component > 0) {
+      position += component;
+    } else if (Number.isSafeInteger(component) && component < 0) {
+      operations.push({ type: 'delete', position, content: '', length: -component });
+    } else {
+      return null;
+    }
+  }
+  return operations;
+}
+
+// A batch rewritten as it comes out of the encoding. Transforming the same
+// edits written differently can break ties differently, so both sides
+// transform what was actually sent.
+function normalizeOperations(operations) {
+  return decodeOperations(encodeOperations(operations));
+}
+
+module.exports = {
+  encodeOperations,
+  decodeOperations,
+  normalizeOperations
+};
@@ -0,0 +1,167 @@
+// Operational transformation of decoded batches (see operations.js): how
+// concurrent edits are rebased onto each other, applied to text, and how
+// offsets and ranges follow them. The server and every client run this same
+// code, which is what makes them converge.
+
+function isNoop(op) {
+  return op.type === 'insert' ? op.content.length === 0 : op.length <= 0;
+}
+
+const insertOp = (position, content) => ({ type: 'insert', position, content, length: content.length });
+
+const deleteOp = (position, length) => ({ type: 'delete', position, content: '', length });
+
+// Transform a single operation `a` so it applies after the concurrent
+// operation `b`. Both were made against the same document. Returns a list
+// because a delete spanning a concurrent insert is split around it.
+// `aWinsTies` decides which insert goes first when both target one offset.
+function transformSingle(a, b, aWinsTies) {
+  if (a.type === 'insert') {
+    if (b.type === 'insert') {
+      if (a.position < b.position || (a.position === b.position && aWinsTies)) {
+        return [insertOp(a.position, a.content)];
+      }
+      return [insertOp(a.position + b.length, a.content)];
+    }
+
+    // b is a delete
+    if (a.position <= b.position) return [insertOp(a.position, a.content)];
+    if (a.position >= b.position + b.length) {
+      return [insertOp(a.position - b.length, a.content)];
+    }
+    // Insert landed inside the deleted range: keep the text at the cut
+    return [insertOp(b.position, a.content)];
+  }
+
+  // a is a delete
+  const aEnd = a.position + a.length;
+
+  if (b.type === 'insert') {
+    if (b.position <= a.position) return [deleteOp(a.position + b.length, a.length)];
+    if (b.position >= aEnd) return [deleteOp(a.position, a.length)];
+    // Concurrent insert inside our range survives: delete around it
+    const head = b.position - a.position;
+    return [
+      deleteOp(a.position, head),
+      deleteOp(a.position + b.length, a.length - head)
+    ];
+  }
+
+  // Both deletes: only remove what b has not already removed
+  const bEnd = b.position + b.length;
+  if (aEnd <= b.position) return [deleteOp(a.position, a.length)];
+  if (a.position >= bEnd) return [deleteOp(a.position - b.length, a.length)];
+
+  const overlap = Math.min(aEnd, bEnd) - Math.max(a.position, b.position);
+  const remaining = a.length - overlap;
+  if (remaining <= 0) return [];
+  return [deleteOp(Math.min(a.position, b.position), remaining)];
+}
+
+// Transform two concurrent operation lists against each other.
+// Returns [aPrime, bPrime] such that apply(apply(doc, a), bPrime) equals
+// apply(apply(doc, b), aPrime). The client side is always passed as `a`
+// so ties resolve identically on server and clients.
+function transform(a, b) {
+  if (a.length === 0 || b.length === 0) return [a, b];
+
+  if (a.length > 1) {
+    const [headPrime, bAfterHead] = transform([a[0]], b);
+    const [restPrime, bPrime] = transform(a.slice(1), bAfterHead);
+    return [headPrime.concat(restPrime), bPrime];
+  }
+
+  if (b.length > 1) {
+    const [aAfterHead, headPrime] = transform(a, [b[0]]);
+    const [aPrime, restPrime] = transform(aAfterHead, b.slice(1));
+    return [aPrime, headPrime.concat(restPrime)];
+  }
+
+  return [
+    transformSingle(a[0], b[0], false).filter(op => !isNoop(op)),
+    transformSingle(b[0], a[0], true).filter(op => !isNoop(op))
+  ];
+}
+
+function applyOperation(content, op) {
+  if (op.position < 0 || op.position > content.length) {
+    throw new RangeError(`Operation position ${op.position} out of bounds`);
+  }
+
+  if (op.type === 'insert') {
+    return content.slice(0, op.position) + op.content + content.slice(op.position);
+  }
+
+  if (op.position + op.length > content.length) {
+    throw new RangeError(`Delete of ${op.length} at ${op.position} out of bounds`);
+  }
+  return content.slice(0, op.position) + content.slice(op.position + op.length);
+}
+
+function applyOperations(content, ops) {
+  return ops.reduce(applyOperation, content);
+}
+
+// Move a character offset (a caret or selection end) past operations made
+// concurrently by someone else. Text inserted exactly at the offset stays
+// after it, so another user typing at your caret does not push it along.
+function transformOffset(offset, ops) {
+  return ops.reduce((position, op) => {
+    if (op.type === 'insert') {
+      return op.position < position ? position + op.length : position;
+    }
+    if (op.position >= position) return position;
+    return Math.max(op.position, position - op.length);
+  }, offset);
+}
+
+// Move a range through operations. Text inserted at either edge ends up
+// outside it, so a range does not grow over code typed next to it.
+function transformRange({ start, end }, ops) {
+  const shrink = (position, op) => (
+    op.position >= position ? position : Math.max(op.position, position - op.length)
+  );
+  for (const op of ops) {
+    if (op.type === 'insert') {
+      if (op.position <= start) start += op.length;
+      if (op.position < end) end += op.length;
+    } else {
+      start = shrink(start, op);
+      end = shrink(end, op);
+    }
+  }
+  return { start, end: Math.max(start, end) };
+}
+
+// Smallest single-range edit that turns `from` into `to`, expressed as
+// ordinary operations: restoring a snapshot travels through the normal OT
+// path this way, and a client finds what changed under its pending edits
+function diffToOperations(from, to) {
+  let prefix = 0;
+  const maxPrefix = Math.min(from.length, to.length);
+  while (prefix < maxPrefix && from[prefix] === to[prefix]) prefix++;
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (suffix < maxSuffix &&
+         from[from.length - 1 - suffix] === to[to.length - 1 - suffix]) {
+    suffix++;
+  }
+
+  const operations = [];
+  const removed = from.length - prefix - suffix;
+  const inserted = to.slice(prefix, to.length - suffix);
+
+  if (removed > 0) operations.push(deleteOp(prefix, removed));
+  if (inserted) operations.push(insertOp(prefix, inserted));
+  return operations;
+}
+
+module.exports = {
+  transform,
+  applyOperation,
+  applyOperations,
+  transformOffset,
+  transformRange,
+  diffToOperations
+};